@@ -5,7 +5,7 @@
  */
 
 import { getAll, getSleepSessionsByDateRange, getWorkoutSessionsByDateRange } from '../db/database';
-import { generateInsights } from '../insights/insightsEngine';
+import { generateInsights, isMainSleep } from '../insights/insightsEngine';
 import type { SleepSession, WorkoutSession } from '../types/schema';
 import type { HealthContext, SleepSessionSummary, WorkoutSummary, InsightSummary } from './types';
 
@@ -90,10 +90,12 @@ export async function buildHealthContext(): Promise<HealthContext> {
   const thirtyDaysAgo = getDaysAgo(30);
 
   // Fetch all data
-  const [allSessions, allWorkouts] = await Promise.all([
+  const [allPeriods, allWorkouts] = await Promise.all([
     getAll('sleepSessions') as Promise<SleepSession[]>,
     getAll('workoutSessions') as Promise<WorkoutSession[]>,
   ]);
+  // Summaries are per night; naps only feed the insights engine
+  const allSessions = allPeriods.filter(isMainSleep);
 
   // Sort sessions by date (most recent first for recent nights)
   allSessions.sort((a, b) => b.date.localeCompare(a.date));
@@ -132,7 +134,7 @@ export async function buildHealthContext(): Promise<HealthContext> {
 
   // Generate insights using existing engine
   const insights = generateInsights(
-    thirtyDaySessions,
+    allPeriods.filter(s => s.date >= thirtyDaysAgo),
     allWorkouts.filter(w => w.date >= thirtyDaysAgo),
     [], // No morning ratings for now
     { lookbackDays: 30, minSessions: 7 }
@@ -174,7 +176,8 @@ export async function buildHealthContextForRange(
   startDate: string,
   endDate: string
 ): Promise<HealthContext> {
-  const sessions = await getSleepSessionsByDateRange(DEFAULT_USER_ID, startDate, endDate);
+  const periods = await getSleepSessionsByDateRange(DEFAULT_USER_ID, startDate, endDate);
+  const sessions = periods.filter(isMainSleep);
   const workouts = await getWorkoutSessionsByDateRange(DEFAULT_USER_ID, startDate, endDate);
 
   sessions.sort((a, b) => b.date.localeCompare(a.date));
@@ -187,7 +190,7 @@ export async function buildHealthContextForRange(
   const hrvValues = sessions.filter(s => s.avgHrv).map(s => s.avgHrv!);
   const hrValues = sessions.filter(s => s.minHeartRate).map(s => s.minHeartRate!);
 
-  const insights = generateInsights(sessions, workouts, [], {
+  const insights = generateInsights(periods, workouts, [], {
     lookbackDays: 90,
     minSessions: Math.min(sessions.length, 7),
   });
@@ -5,6 +5,7 @@
  */
 
 import { getAll } from '../db/database';
+import { isMainSleep } from '../insights/insightsEngine';
 import type { SleepSession } from '../types/schema';
 import type { Visualization, SleepStackData, TrendDataPoint } from './types';
 
@@ -46,7 +47,7 @@ function safeDivide(a: number, b: number): number {
  */
 export async function buildProactiveGreeting(): Promise<GreetingContext> {
   try {
-    const allSessions = await getAll('sleepSessions') as SleepSession[];
+    const allSessions = (await getAll('sleepSessions') as SleepSession[]).filter(isMainSleep);
 
     if (allSessions.length === 0) {
       return {
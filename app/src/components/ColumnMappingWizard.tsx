@@ -0,0 +1,542 @@
+/**
+ * ColumnMappingWizard Component
+ * ==============================
+ * Maps the fields of a file no importer recognized onto canonical
+ * records, previews the result live and saves it as an importer profile
+ * that is picked automatically for matching files from then on.
+ */
+
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { parseMappableData, type FileDetectionResult, type ImportFile } from '../importers/pipeline';
+import {
+  GENERIC_TARGET_FIELDS,
+  isGenericTargetTable,
+  previewMapping,
+  type GenericTargetField,
+  type GenericTargetTable,
+} from '../importers/generic';
+import { createProfileSample, createSavedProfile, saveProfileRevision } from '../importers/savedProfiles';
+import type {
+  DailyMetricType,
+  FieldMapping,
+  FieldTransform,
+  ImporterProfile,
+  TableMapping,
+  WorkoutType,
+} from '../types/schema';
+
+interface ColumnMappingWizardProps {
+  file: ImportFile;
+  detection: FileDetectionResult;
+  onSave: (profile: ImporterProfile) => void;
+  onCancel: () => void;
+}
+
+const TABLE_LABELS: Record<GenericTargetTable, string> = {
+  sleep_sessions: 'Sleep sessions',
+  workout_sessions: 'Workouts',
+  daily_metrics: 'Daily metrics',
+};
+
+type TransformKind = 'direct' | 'timestamp' | 'duration' | 'multiply' | 'divide' | 'compute';
+
+const TRANSFORM_LABELS: Record<TransformKind, string> = {
+  direct: 'As is',
+  timestamp: 'Date / time',
+  duration: 'Duration',
+  multiply: 'Multiply',
+  divide: 'Divide',
+  compute: 'Formula',
+};
+
+// Suggestions for constant values of enumerated fields
+const CONSTANT_SUGGESTIONS: Record<string, string[]> = {
+  metricType: [
+    'resting_heart_rate', 'hrv_morning', 'weight', 'body_fat_percent', 'respiratory_rate',
+    'spo2', 'body_temperature', 'readiness_score', 'recovery_score', 'strain_score',
+    'activity_score', 'body_battery', 'stress_score', 'vo2_max', 'active_energy',
+    'exercise_minutes', 'mindful_minutes', 'blood_pressure',
+  ] satisfies DailyMetricType[],
+  workoutType: [
+    'cardio', 'strength', 'hiit', 'yoga', 'cycling', 'running', 'swimming', 'walking', 'sports', 'other',
+  ] satisfies WorkoutType[],
+};
+
+const CONSTANT_SOURCE = '__constant__';
+const PREVIEW_ROWS = 5;
+
+export function ColumnMappingWizard({ file, detection, onSave, onCancel }: ColumnMappingWizardProps) {
+  const sourceType = detection.fileType === 'json' ? 'json' : 'csv';
+
+  const [name, setName] = useState(file.name.replace(/\.[^.]+$/, ''));
+  const [mappings, setMappings] = useState<TableMapping[]>([createMapping(sourceType, 'sleep_sessions')]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const data = useMemo(() => {
+    try {
+      return parseMappableData(file, sourceType);
+    } catch {
+      return null;
+    }
+  }, [file, sourceType]);
+
+  const mapping = mappings[activeIndex];
+  const targetTable = isGenericTargetTable(mapping.targetTable) ? mapping.targetTable : 'sleep_sessions';
+  const targetFields = GENERIC_TARGET_FIELDS[targetTable];
+  const preview = useMemo(() => previewMapping(data, mapping, PREVIEW_ROWS), [data, mapping]);
+
+  const sourceFields = preview.fields.length > 0
+    ? preview.fields
+    : detection.fileManifest?.sampleFields || [];
+  const mappedFields = targetFields.filter(t => mapping.fieldMappings.some(f => f.target === t.field));
+  const missingRequired = mappings.some(m =>
+    isGenericTargetTable(m.targetTable) &&
+    GENERIC_TARGET_FIELDS[m.targetTable].some(t => t.required && !m.fieldMappings.some(f => f.target === t.field))
+  );
+
+  function updateMapping(changes: Partial<TableMapping>) {
+    setMappings(prev => prev.map((m, i) => (i === activeIndex ? { ...m, ...changes } : m)));
+  }
+
+  function updateField(target: GenericTargetField, fieldMapping: FieldMapping | null) {
+    const others = mapping.fieldMappings.filter(f => f.target !== target.field);
+    // Rows missing a required field are reported instead of imported half-empty
+    updateMapping({
+      fieldMappings: fieldMapping ? [...others, { ...fieldMapping, required: target.required }] : others,
+    });
+  }
+
+  function changeTable(table: GenericTargetTable) {
+    const fields = new Set(GENERIC_TARGET_FIELDS[table].map(t => t.field));
+    updateMapping({
+      targetTable: table,
+      fieldMappings: mapping.fieldMappings
+        .filter(f => fields.has(f.target))
+        .map(f => ({ ...f, required: GENERIC_TARGET_FIELDS[table].find(t => t.field === f.target)?.required })),
+    });
+  }
+
+  function addMapping() {
+    setMappings(prev => [...prev, createMapping(sourceType, 'daily_metrics', mapping.sourcePath)]);
+    setActiveIndex(mappings.length);
+  }
+
+  function removeMapping(index: number) {
+    setMappings(prev => prev.filter((_, i) => i !== index));
+    setActiveIndex(Math.max(0, activeIndex >= index ? activeIndex - 1 : activeIndex));
+  }
+
+  async function handleSave() {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const sample = data !== null ? createProfileSample(file.name, data) : undefined;
+      const profile = await saveProfileRevision(
+        createSavedProfile(name.trim() || file.name, detection, mappings, sample)
+      );
+      onSave(profile);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save mapping');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <motion.div
+      className="card space-y-5"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">Map columns for {file.name}</h3>
+        <p className="text-sm text-zinc-500">
+          No importer recognized this file. Map its fields once; files with the same
+          fields are imported with this mapping automatically.
+        </p>
+      </div>
+
+      {/* Source fields */}
+      <div>
+        <h4 className="text-sm font-medium text-white mb-2">
+          Fields in file
+          <span className="ml-2 text-xs text-zinc-500">
+            {preview.totalRows} record(s)
+          </span>
+        </h4>
+        <div className="flex flex-wrap gap-1">
+          {sourceFields.map(field => (
+            <span key={field} className="badge badge-cyan">{field}</span>
+          ))}
+        </div>
+      </div>
+
+      {sourceType === 'json' && (
+        <label className="block text-sm text-zinc-400">
+          Records path (JSONPath)
+          <input
+            className="input w-full mt-1 font-mono text-sm"
+            value={mapping.sourcePath ?? ''}
+            onChange={(e) => updateMapping({ sourcePath: e.target.value })}
+            placeholder="$"
+          />
+        </label>
+      )}
+
+      {preview.rows.length > 0 && (
+        <PreviewTable
+          title="Sample rows"
+          columns={sourceFields}
+          rows={preview.rows.map(r => ({ values: r.source }))}
+        />
+      )}
+
+      {/* Table tabs */}
+      <div className="flex flex-wrap items-center gap-2">
+        {mappings.map((m, i) => (
+          <div key={i} className="flex items-center">
+            <button
+              onClick={() => setActiveIndex(i)}
+              className={`px-3 py-1 rounded text-sm transition-all ${
+                i === activeIndex
+                  ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/30'
+                  : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {isGenericTargetTable(m.targetTable) ? TABLE_LABELS[m.targetTable] : m.targetTable}
+            </button>
+            {mappings.length > 1 && (
+              <button
+                onClick={() => removeMapping(i)}
+                className="ml-1 text-xs text-zinc-600 hover:text-coral-400"
+                aria-label="Remove table mapping"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+        <button onClick={addMapping} className="btn btn-ghost text-xs">+ Add table</button>
+      </div>
+
+      {/* Field mappings */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-3 text-sm text-zinc-400">
+          Import as
+          <select
+            className="input"
+            value={targetTable}
+            onChange={(e) => changeTable(e.target.value as GenericTargetTable)}
+          >
+            {(Object.keys(TABLE_LABELS) as GenericTargetTable[]).map(table => (
+              <option key={table} value={table}>{TABLE_LABELS[table]}</option>
+            ))}
+          </select>
+        </label>
+
+        {targetFields.map(target => (
+          <FieldMappingRow
+            key={`${activeIndex}-${target.field}`}
+            label={target.label}
+            required={target.required}
+            target={target.field}
+            sourceFields={sourceFields}
+            fieldMapping={mapping.fieldMappings.find(f => f.target === target.field)}
+            onChange={(fieldMapping) => updateField(target, fieldMapping)}
+          />
+        ))}
+
+        <label className="flex items-center gap-3 text-sm text-zinc-400">
+          Only rows where
+          <input
+            className="input flex-1 font-mono text-sm"
+            value={mapping.filter || ''}
+            onChange={(e) => updateMapping({ filter: e.target.value || undefined })}
+            placeholder="type == 'sleep' && duration > 0"
+          />
+        </label>
+
+        {preview.warnings.map((w, i) => (
+          <p key={i} className="text-xs text-amber-400">{w.message}</p>
+        ))}
+      </div>
+
+      {/* Live preview */}
+      {mappedFields.length > 0 && (
+        <PreviewTable
+          title="Preview"
+          columns={mappedFields.map(f => f.field)}
+          rows={preview.rows.map(r => ({
+            values: (r.record || {}) as Record<string, unknown>,
+            note: r.error || (r.filtered ? 'Filtered out' : undefined),
+          }))}
+        />
+      )}
+
+      {error && <p className="text-sm text-coral-400">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          className="input flex-1 min-w-0"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Profile name"
+          aria-label="Profile name"
+        />
+        <button onClick={onCancel} className="btn btn-secondary">Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || missingRequired}
+          className="btn btn-primary disabled:opacity-50"
+          title={missingRequired ? 'Map all required fields first' : undefined}
+        >
+          {isSaving ? 'Saving...' : 'Save & import'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+function FieldMappingRow({
+  label,
+  required,
+  target,
+  sourceFields,
+  fieldMapping,
+  onChange,
+}: {
+  label: string;
+  required?: boolean;
+  target: string;
+  sourceFields: string[];
+  fieldMapping?: FieldMapping;
+  onChange: (fieldMapping: FieldMapping | null) => void;
+}) {
+  const isConstant = fieldMapping?.source.startsWith("'") ?? false;
+  const transform = fieldMapping?.transform;
+  const suggestions = CONSTANT_SUGGESTIONS[target];
+
+  function setSource(value: string) {
+    if (!value) {
+      onChange(null);
+    } else if (value === CONSTANT_SOURCE) {
+      onChange({ target, source: "''" });
+    } else {
+      onChange({ target, source: value, transform });
+    }
+  }
+
+  function setTransform(next: FieldTransform | undefined) {
+    if (fieldMapping) onChange({ ...fieldMapping, transform: next });
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="w-40 text-zinc-300">
+        {label}
+        {required && <span className="text-coral-400"> *</span>}
+      </span>
+
+      <select
+        className="input"
+        value={isConstant ? CONSTANT_SOURCE : fieldMapping?.source || ''}
+        onChange={(e) => setSource(e.target.value)}
+      >
+        <option value="">— not mapped —</option>
+        {sourceFields.map(field => (
+          <option key={field} value={field}>{field}</option>
+        ))}
+        <option value={CONSTANT_SOURCE}>Constant value…</option>
+      </select>
+
+      {isConstant && fieldMapping && (
+        <>
+          <input
+            className="input w-44"
+            value={fieldMapping.source.slice(1, -1)}
+            onChange={(e) => onChange({ target, source: `'${e.target.value}'` })}
+            list={suggestions ? `constant-${target}` : undefined}
+            aria-label={`${label} constant`}
+          />
+          {suggestions && (
+            <datalist id={`constant-${target}`}>
+              {suggestions.map(s => <option key={s} value={s} />)}
+            </datalist>
+          )}
+        </>
+      )}
+
+      {fieldMapping && !isConstant && (
+        <TransformEditor transform={transform} onChange={setTransform} />
+      )}
+    </div>
+  );
+}
+
+function TransformEditor({
+  transform,
+  onChange,
+}: {
+  transform?: FieldTransform;
+  onChange: (transform: FieldTransform | undefined) => void;
+}) {
+  const kind: TransformKind = transform && transform.type in TRANSFORM_LABELS
+    ? transform.type as TransformKind
+    : 'direct';
+
+  function setKind(next: TransformKind) {
+    switch (next) {
+      case 'direct':
+        return onChange(undefined);
+      case 'timestamp':
+        return onChange({ type: 'timestamp', format: 'iso8601' });
+      case 'duration':
+        return onChange({ type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' });
+      case 'multiply':
+        return onChange({ type: 'multiply', factor: 1 });
+      case 'divide':
+        return onChange({ type: 'divide', divisor: 1 });
+      case 'compute':
+        return onChange({ type: 'compute', formula: '' });
+    }
+  }
+
+  return (
+    <>
+      <select
+        className="input"
+        value={kind}
+        onChange={(e) => setKind(e.target.value as TransformKind)}
+        aria-label="Transform"
+      >
+        {(Object.keys(TRANSFORM_LABELS) as TransformKind[]).map(k => (
+          <option key={k} value={k}>{TRANSFORM_LABELS[k]}</option>
+        ))}
+      </select>
+
+      {transform?.type === 'timestamp' && (
+        <select
+          className="input"
+          value={transform.format}
+          onChange={(e) => onChange({ type: 'timestamp', format: e.target.value })}
+          aria-label="Timestamp format"
+        >
+          <option value="iso8601">Date text</option>
+          <option value="unix_seconds">Unix seconds</option>
+          <option value="unix_millis">Unix milliseconds</option>
+        </select>
+      )}
+
+      {transform?.type === 'duration' && (
+        <select
+          className="input"
+          value={transform.fromUnit}
+          onChange={(e) => onChange({
+            type: 'duration',
+            fromUnit: e.target.value as 'seconds' | 'minutes' | 'hours',
+            toUnit: 'seconds',
+          })}
+          aria-label="Duration unit"
+        >
+          <option value="seconds">from seconds</option>
+          <option value="minutes">from minutes</option>
+          <option value="hours">from hours</option>
+        </select>
+      )}
+
+      {transform?.type === 'multiply' && (
+        <input
+          type="number"
+          className="input w-24"
+          value={transform.factor}
+          onChange={(e) => onChange({ type: 'multiply', factor: parseFloat(e.target.value) || 0 })}
+          aria-label="Factor"
+        />
+      )}
+
+      {transform?.type === 'compute' && (
+        <input
+          className="input flex-1 min-w-48 font-mono text-xs"
+          value={transform.formula}
+          onChange={(e) => onChange({ type: 'compute', formula: e.target.value })}
+          placeholder="round(`Weight (lb)` * 0.4536, 1)"
+          aria-label="Formula"
+        />
+      )}
+
+      {transform?.type === 'divide' && (
+        <input
+          type="number"
+          className="input w-24"
+          value={transform.divisor}
+          onChange={(e) => onChange({ type: 'divide', divisor: parseFloat(e.target.value) || 1 })}
+          aria-label="Divisor"
+        />
+      )}
+    </>
+  );
+}
+
+function PreviewTable({
+  title,
+  columns,
+  rows,
+}: {
+  title: string;
+  columns: string[];
+  rows: Array<{ values: Record<string, unknown>; note?: string }>;
+}) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-white mb-2">{title}</h4>
+      <div className="overflow-x-auto rounded border border-void-600">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-zinc-500 border-b border-void-600">
+              {columns.map(c => (
+                <th key={c} className="text-left px-2 py-1 whitespace-nowrap">{c}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className="border-t border-void-700">
+                {row.note ? (
+                  <td colSpan={columns.length} className="px-2 py-1 text-amber-400">{row.note}</td>
+                ) : (
+                  columns.map(c => (
+                    <td key={c} className="px-2 py-1 text-zinc-300 whitespace-nowrap">
+                      {formatCell(row.values[c])}
+                    </td>
+                  ))
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function createMapping(
+  sourceType: 'json' | 'csv',
+  targetTable: GenericTargetTable,
+  sourcePath?: string
+): TableMapping {
+  return {
+    targetTable,
+    sourceType,
+    sourcePath: sourceType === 'json' ? sourcePath || '$' : undefined,
+    fieldMappings: [],
+  };
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
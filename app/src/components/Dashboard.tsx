@@ -21,6 +21,8 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { getAll } from '../db/database';
+import { groupOrigins, VENDOR_NAMES } from '../importers/provenance';
+import { isMainSleep } from '../insights/insightsEngine';
 import type { SleepSession, WorkoutSession, MorningRating } from '../types/schema';
 
 ChartJS.register(
@@ -61,7 +63,8 @@ export default function Dashboard() {
       ]);
       allSessions.sort((a, b) => a.date.localeCompare(b.date));
       allWorkouts.sort((a, b) => a.date.localeCompare(b.date));
-      setSessions(allSessions);
+      // One row per night; naps and fragments are not nights of their own
+      setSessions(allSessions.filter(isMainSleep));
       setWorkouts(allWorkouts);
       setMorningRatings(allRatings as MorningRating[]);
     } catch (err) {
@@ -721,6 +724,7 @@ function NightDetailPanel({
   const remPct = safeDivide(session.remSeconds, session.durationSeconds) * 100;
   const lightPct = safeDivide(session.lightSeconds, session.durationSeconds) * 100;
   const awakePct = safeDivide(session.awakeSeconds, session.durationSeconds) * 100;
+  const origins = groupOrigins(session);
 
   return (
     <div className="data-panel" role="dialog" aria-labelledby="night-detail-title">
@@ -836,7 +840,18 @@ function NightDetailPanel({
 
         {/* Source */}
         <div className="mt-4 pt-4 border-t border-void-700/50 text-xs text-zinc-600">
-          Source: {getSessionSource(session)}
+          {origins.length > 0 ? (
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              {origins.map(({ group, label, origins: groupOrigins }) => (
+                <div key={group} className="flex justify-between gap-2">
+                  <dt>{label}</dt>
+                  <dd className="text-zinc-400">{groupOrigins.map(o => VENDOR_NAMES[o.vendor]).join(', ')}</dd>
+                </div>
+              ))}
+            </dl>
+          ) : (
+            <>Source: {getSessionSource(session)}</>
+          )}
         </div>
       </div>
     </div>
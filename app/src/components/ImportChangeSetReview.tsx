@@ -0,0 +1,161 @@
+/**
+ * ImportChangeSetReview Component
+ * ================================
+ * Shows what an import would change before anything is written: new
+ * nights and workouts, stored ones it would merge into (field by field),
+ * duplicates it skips and sessions validation rejected.
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ImportPlan } from '../importers/pipeline';
+import { isEmptyChangeSet, type FieldChange } from '../importers/changeSet';
+import { countNewNights, describeNewNights } from '../importers/highWaterMarks';
+
+interface ImportChangeSetReviewProps {
+  plan: ImportPlan;
+  onApprove: () => void;
+  onCancel: () => void;
+}
+
+// Rows listed per group before the rest are summarized
+const LIST_LIMIT = 20;
+
+export function ImportChangeSetReview({ plan, onApprove, onCancel }: ImportChangeSetReviewProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { changeSet } = plan;
+  const sleep = changeSet.sleepSessions;
+  const workouts = changeSet.workoutSessions;
+
+  return (
+    <motion.div
+      className="card space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">Review import of {plan.source.fileName}</h3>
+        <p className="text-sm text-zinc-500">Nothing has been saved yet.</p>
+        {plan.source.skippedThrough && (
+          <p className="text-sm text-cyan-400 mt-1">{describeNewNights(countNewNights(sleep.new))}.</p>
+        )}
+        {changeSet.alreadyImported && (
+          <p className="text-sm text-amber-400 mt-1">This file has been imported before.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <Count label="New nights" value={sleep.new.length} className="text-emerald-400" />
+        <Count label="Merged nights" value={sleep.merged.length} className="text-cyan-400" />
+        <Count label="Skipped duplicates" value={sleep.skipped.length} className="text-zinc-400" />
+        <Count label="Rejected" value={sleep.rejected.length} className="text-coral-400" />
+      </div>
+
+      {sleep.new.some(session => session.sleepType === 'nap' || session.sleepType === 'fragment') && (
+        <p className="text-xs text-zinc-500">
+          New sleep includes {sleep.new.filter(s => s.sleepType === 'nap').length} naps and{' '}
+          {sleep.new.filter(s => s.sleepType === 'fragment').length} split-off fragments of a night's sleep.
+        </p>
+      )}
+
+      <p className="text-xs text-zinc-500">
+        Workouts: {workouts.new.length} new, {workouts.merged.length} merged with another device's
+        recording, {workouts.skipped.length} skipped. Also adds {changeSet.dailyMetrics} daily metrics,{' '}
+        {changeSet.timeSeries} time series and {changeSet.annotations} annotations.
+      </p>
+
+      {/* Merged nights and workouts */}
+      {[
+        { title: 'Merged into stored nights', rows: sleep.merged },
+        { title: 'Merged into stored workouts', rows: workouts.merged },
+      ].filter(group => group.rows.length > 0).map(group => (
+        <section key={group.title}>
+          <h4 className="text-sm font-medium text-white mb-2">{group.title}</h4>
+          <ul className="space-y-1 text-xs">
+            {group.rows.slice(0, LIST_LIMIT).map(({ date, sessionId, changes }) => (
+              <li key={sessionId}>
+                <button
+                  onClick={() => setExpanded(expanded === sessionId ? null : sessionId)}
+                  className="text-zinc-300 hover:text-white"
+                >
+                  {expanded === sessionId ? '▾' : '▸'} {date}
+                  <span className="ml-2 text-zinc-500">
+                    {changes.length} {changes.length === 1 ? 'field' : 'fields'}
+                  </span>
+                </button>
+                {expanded === sessionId && (
+                  <table className="ml-4 mt-1 text-zinc-400">
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.field}>
+                          <td className="pr-3 font-mono">{change.field}</td>
+                          <td className="pr-3">{formatValue(change, change.before)}</td>
+                          <td className="pr-3">→</td>
+                          <td className="text-white">{formatValue(change, change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            ))}
+          </ul>
+          <MoreCount total={group.rows.length} />
+        </section>
+      ))}
+
+      {/* Skipped and rejected */}
+      {[
+        { title: 'Nights skipped as duplicates', rows: sleep.skipped, className: 'text-zinc-400' },
+        { title: 'Workouts skipped as duplicates', rows: workouts.skipped, className: 'text-zinc-400' },
+        { title: 'Rejected by validation', rows: sleep.rejected, className: 'text-coral-400' },
+      ].filter(group => group.rows.length > 0).map(group => (
+        <section key={group.title}>
+          <h4 className="text-sm font-medium text-white mb-2">{group.title}</h4>
+          <ul className="space-y-0.5 text-xs">
+            {group.rows.slice(0, LIST_LIMIT).map((row, i) => (
+              <li key={i} className={group.className}>
+                {row.date} <span className="text-zinc-500">— {row.reason}</span>
+              </li>
+            ))}
+          </ul>
+          <MoreCount total={group.rows.length} />
+        </section>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="btn btn-secondary">Cancel</button>
+        <button
+          onClick={onApprove}
+          disabled={isEmptyChangeSet(changeSet)}
+          className="btn btn-primary disabled:opacity-50"
+        >
+          Import
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+function Count({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className="text-center p-2 bg-void-800 rounded">
+      <div className={`text-xl font-mono ${className}`}>{value}</div>
+      <div className="text-xs text-zinc-500">{label}</div>
+    </div>
+  );
+}
+
+function MoreCount({ total }: { total: number }) {
+  if (total <= LIST_LIMIT) return null;
+  return <p className="text-xs text-zinc-500 mt-1">and {total - LIST_LIMIT} more</p>;
+}
+
+function formatValue(change: FieldChange, value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  // Durations are stored in seconds
+  if (typeof value === 'number' && change.field.endsWith('Seconds')) {
+    return `${Math.round(value / 60)} min`;
+  }
+  return String(value);
+}
@@ -7,13 +7,56 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { detectFileType, importFile, type ImportResult, type ImportProgress } from '../importers/pipeline';
-import { checkFileSizeWarning, formatFileSize } from '../workers';
+import {
+  detectFileType,
+  isStreamableAppleHealthFile,
+  applyReimport,
+  type FileDetectionResult,
+  type ImportFile,
+  type ImportResult,
+  type ImportProgress,
+  type ReimportPlan,
+  type ImportPlan,
+} from '../importers/pipeline';
+import { needsColumnMapping } from '../importers/savedProfiles';
+import { isAmbiguousDetection } from '../importers/detection';
+import { describeNewNights } from '../importers/highWaterMarks';
+import { collectDroppedFiles } from '../utils/droppedFiles';
+import { DEFAULT_WEIGH_IN_POLICY, type WeighInPolicy } from '../importers/withings';
+import {
+  checkFileSizeWarning,
+  formatFileSize,
+  isBinaryFile,
+  previewImportInWorker,
+  commitImportInWorker,
+  importAppleHealthExportInWorker,
+  planReimportInWorker,
+  cancelProcessing,
+  type WorkerTask,
+} from '../workers';
 import { getAll } from '../db/database';
-import type { Source } from '../types/schema';
+import type { ArchiveManifest } from '../importers/archive';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { ProfileChooser } from './ProfileChooser';
+import { ReimportReview } from './ReimportReview';
+import { ImportChangeSetReview } from './ImportChangeSetReview';
+import { ImportQueue } from './ImportQueue';
+import {
+  prepareImportQueue,
+  readQueueItem,
+  withSkippedFiles,
+  type ImportQueueItem,
+} from '../importers/importQueue';
+import type { ImporterProfile, Source } from '../types/schema';
 
 const DEFAULT_USER_ID = 'local-user'; // Single user for now
 
+const WEIGH_IN_POLICY_LABELS: Record<WeighInPolicy, string> = {
+  first_morning: 'First of morning',
+  min: 'Lowest',
+  mean: 'Average',
+};
+
 export default function ImportPage() {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -23,7 +66,16 @@ export default function ImportPage() {
   const [progress, setProgress] = useState<ImportProgress | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [mappingFile, setMappingFile] = useState<{ file: ImportFile; detection: FileDetectionResult } | null>(null);
+  const [choosingFile, setChoosingFile] = useState<{ file: ImportFile; detection: FileDetectionResult } | null>(null);
   const [sources, setSources] = useState<Source[]>([]);
+  const [weighInPolicy, setWeighInPolicy] = useState<WeighInPolicy>(DEFAULT_WEIGH_IN_POLICY);
+  const [retainRawFiles, setRetainRawFiles] = useState(false);
+  const [fullHistory, setFullHistory] = useState(false);
+  const [reimportPlan, setReimportPlan] = useState<ReimportPlan | null>(null);
+  const [pendingPlan, setPendingPlan] = useState<ImportPlan | null>(null);
+  const [activeWorker, setActiveWorker] = useState<Worker | null>(null);
+  const [queuedItems, setQueuedItems] = useState<ImportQueueItem[] | null>(null);
 
   // Load existing sources
   useState(() => {
@@ -40,86 +92,195 @@ export default function ImportPage() {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
+    // Dropped folders are walked for the files inside
+    const files = await collectDroppedFiles(e.dataTransfer);
     if (files.length > 0) {
-      processFile(files[0]);
+      processFiles(files);
     }
   }, []);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      processFile(files[0]);
+      processFiles(Array.from(files));
     }
   }, []);
 
-  async function processFile(file: File) {
+  async function processFiles(files: File[]) {
     setError(null);
     setResult(null);
+    setMappingFile(null);
+    setChoosingFile(null);
+    setPendingPlan(null);
+
     setIsProcessing(true);
 
     try {
-      // Check file size
-      const sizeCheck = checkFileSizeWarning(file.size);
-      if (sizeCheck.level === 'error') {
-        setError(sizeCheck.message);
-        setIsProcessing(false);
-        return;
-      }
+      let importFiles_: ImportFile[];
+      let queue: ImportQueueItem[] = [];
 
-      if (sizeCheck.level === 'warning') {
-        setProgress({
+      if (files.length > 1) {
+        // Several vendors' files are queued, one source each; the files
+        // of a single vendor's export are reviewed together below
+        queue = await prepareImportQueue(files, (detected, total) => setProgress({
           stage: 'detecting',
-          percent: 0,
-          message: sizeCheck.message,
-        });
+          percent: Math.round((detected / total) * 100),
+          message: `Detecting files... ${detected} of ${total}`,
+        }));
+        const importable = queue.filter(item => item.status === 'pending');
+        if (importable.length !== 1 || importable[0].streamed) {
+          setQueuedItems(queue);
+          return;
+        }
+        // Files the queue skipped are named in the result rather than imported
+        importFiles_ = await readQueueItem(importable[0]);
+      } else {
+        // Apple Health exports run to several GB; stream them instead of reading them whole
+        if (await isStreamableAppleHealthFile(files[0])) {
+          await finishImport(await runInWorker(importAppleHealthExportInWorker(
+            files[0],
+            DEFAULT_USER_ID,
+            (p) => setProgress(p),
+            { fullHistory }
+          )));
+          return;
+        }
+
+        // Check file size
+        const sizeCheck = checkFileSizeWarning(files[0].size);
+        if (sizeCheck.level === 'error') {
+          setError(sizeCheck.message);
+          setIsProcessing(false);
+          return;
+        }
+
+        if (sizeCheck.level === 'warning') {
+          setProgress({
+            stage: 'detecting',
+            percent: 0,
+            message: sizeCheck.message,
+          });
+        }
+
+        // Read file contents
+        importFiles_ = [{
+          name: files[0].name,
+          size: files[0].size,
+          type: files[0].type,
+          content: await readFile(files[0]),
+        }];
+
+        // Detect file type first
+        setProgress({ stage: 'detecting', percent: 5, message: 'Analyzing file...' });
+        const detection = await detectFileType(importFiles_[0]);
+
+        if (detection.fileType === 'unknown') {
+          setError('Could not determine file format. Please upload a JSON, CSV, Apple Health XML, FIT/TCX/GPX, or ZIP file.');
+          setIsProcessing(false);
+          return;
+        }
+
+        // Unrecognized JSON and CSV files are mapped once, then matched by their saved profile
+        if (needsColumnMapping(detection)) {
+          setMappingFile({ file: importFiles_[0], detection });
+          return;
+        }
+
+        // Archives import every matching entry; a single file needs one importer
+        if (detection.fileType !== 'zip' && isAmbiguousDetection(detection.candidates)) {
+          setChoosingFile({ file: importFiles_[0], detection });
+          return;
+        }
       }
 
-      // Read file content
-      const content = await readFile(file);
-
-      // Create import file object
-      const importFile_: {
-        name: string;
-        size: number;
-        type: string;
-        content: string | ArrayBuffer;
-      } = {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        content,
-      };
-
-      // Detect file type first
-      setProgress({ stage: 'detecting', percent: 5, message: 'Analyzing file...' });
-      const detection = await detectFileType(importFile_);
-
-      if (detection.fileType === 'unknown') {
-        setError('Could not determine file format. Please upload a JSON, CSV, or Apple Health XML file.');
-        setIsProcessing(false);
-        return;
-      }
-
-      // Import the file
-      const importResult = await importFile(
-        importFile_,
+      // Import the files; multi-file exports share one source
+      // Nothing is written until the change set is approved
+      const preview = await runInWorker(previewImportInWorker(
+        importFiles_,
         DEFAULT_USER_ID,
         null, // Auto-detect profile
-        (p) => setProgress(p)
-      );
+        (p) => setProgress(p),
+        { weighInPolicy, retainRawFiles, fullHistory }
+      ));
+      await reviewImport(withSkippedFiles(preview, queue));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error during import');
+    } finally {
+      setIsProcessing(false);
+    }
+  }
+
+  async function importWithProfile(file: ImportFile, profile: ImporterProfile) {
+    setMappingFile(null);
+    setChoosingFile(null);
+    setIsProcessing(true);
+
+    try {
+      await reviewImport(await runInWorker(previewImportInWorker(
+        [file],
+        DEFAULT_USER_ID,
+        profile,
+        (p) => setProgress(p),
+        { weighInPolicy, retainRawFiles, fullHistory }
+      )));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error during import');
+    } finally {
+      setIsProcessing(false);
+    }
+  }
 
-      setResult(importResult);
+  async function handleReimport(sourceId: string) {
+    setError(null);
+    setResult(null);
+    setIsProcessing(true);
 
-      if (importResult.success) {
-        // Refresh sources list
-        const newSources = await getAll('sources');
-        setSources(newSources);
+    try {
+      const plan = await runInWorker(planReimportInWorker(sourceId, (p) => setProgress(p)));
+      if ('diff' in plan) {
+        setReimportPlan(plan);
+      } else {
+        setError(plan.errors.map(e => e.message).join('; '));
       }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error during re-import');
+    } finally {
+      setIsProcessing(false);
+    }
+  }
+
+  async function handleApplyReimport() {
+    if (!reimportPlan) return;
+
+    try {
+      await applyReimport(reimportPlan);
+      setReimportPlan(null);
+      setSources(await getAll('sources'));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to replace records');
+    }
+  }
+
+  async function reviewImport(preview: ImportPlan | ImportResult) {
+    if ('changeSet' in preview) {
+      setPendingPlan(preview);
+    } else {
+      await finishImport(preview);
+    }
+  }
+
+  async function handleApprove() {
+    if (!pendingPlan) return;
+    const plan = pendingPlan;
+    setPendingPlan(null);
+    setIsProcessing(true);
+
+    try {
+      await finishImport(await runInWorker(commitImportInWorker(plan, (p) => setProgress(p))));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Unknown error during import');
     } finally {
@@ -127,12 +288,40 @@ export default function ImportPage() {
     }
   }
 
-  async function readFile(file: File): Promise<string> {
+  // Detection through storage runs in the worker; keep it so it can be cancelled
+  async function runInWorker<T>(task: WorkerTask<T>): Promise<T> {
+    setActiveWorker(task.worker);
+    try {
+      return await task.result;
+    } finally {
+      setActiveWorker(null);
+    }
+  }
+
+  async function finishImport(importResult: ImportResult) {
+    setResult(importResult);
+    if (!importResult.success) {
+      setError(importResult.errors.map(e => e.message).join('; '));
+    }
+
+    if (importResult.success) {
+      // Refresh sources list
+      const newSources = await getAll('sources');
+      setSources(newSources);
+    }
+  }
+
+  async function readFile(file: File): Promise<string | ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => resolve(reader.result as string | ArrayBuffer);
       reader.onerror = () => reject(reader.error);
-      reader.readAsText(file);
+      // Archives and FIT files are binary; everything else is read as text
+      if (isBinaryFile(file)) {
+        reader.readAsArrayBuffer(file);
+      } else {
+        reader.readAsText(file);
+      }
     });
   }
 
@@ -141,13 +330,13 @@ export default function ImportPage() {
       <div className="text-center mb-8">
         <h2 className="text-2xl font-bold text-white mb-2">Import Data</h2>
         <p className="text-gray-500">
-          Upload your health data exports. Supported: Eight Sleep, Orangetheory, and more.
+          Upload your health data exports. Supported: Eight Sleep, Oura, Orangetheory, and more.
         </p>
       </div>
 
       {/* Drop Zone */}
       <div
-        className={`dropzone ${isDragging ? 'active' : ''} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+        className={`dropzone ${isDragging ? 'active' : ''} ${isProcessing || queuedItems ? 'opacity-50 pointer-events-none' : ''}`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
@@ -156,7 +345,8 @@ export default function ImportPage() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json,.csv,.xml,.zip"
+          accept=".json,.csv,.xml,.zip,.fit,.tcx,.gpx"
+          multiple
           className="hidden"
           onChange={handleFileSelect}
         />
@@ -177,15 +367,61 @@ export default function ImportPage() {
           <div>
             <div className="text-4xl mb-4">📥</div>
             <p className="text-white font-medium mb-2">
-              Drop your file here or click to browse
+              Drop your files here or click to browse
             </p>
             <p className="text-sm text-gray-500">
-              Supports JSON, CSV, XML, and ZIP files
+              Supports JSON, CSV, XML, FIT, TCX, GPX, and ZIP files
             </p>
           </div>
         )}
       </div>
 
+      {activeWorker && (
+        <div className="flex justify-center mt-3">
+          <button onClick={() => cancelProcessing(activeWorker)} className="btn btn-secondary">
+            Cancel import
+          </button>
+        </div>
+      )}
+
+      {/* Import Options */}
+      <div className="flex items-center justify-end gap-2 mt-3 text-xs text-gray-500">
+        <span>Several weigh-ins per day:</span>
+        <nav className="flex gap-1" role="tablist" aria-label="Daily weight from several weigh-ins">
+          {(Object.keys(WEIGH_IN_POLICY_LABELS) as WeighInPolicy[]).map((policy) => (
+            <button
+              key={policy}
+              onClick={() => setWeighInPolicy(policy)}
+              role="tab"
+              aria-selected={weighInPolicy === policy}
+              className={`px-2 py-1 rounded transition-all ${
+                weighInPolicy === policy
+                  ? 'bg-primary-500/20 text-primary-400 border border-primary-500/30'
+                  : 'hover:text-white'
+              }`}
+            >
+              {WEIGH_IN_POLICY_LABELS[policy]}
+            </button>
+          ))}
+        </nav>
+        <label className="flex items-center gap-1 ml-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={retainRawFiles}
+            onChange={(e) => setRetainRawFiles(e.target.checked)}
+          />
+          Keep original files (enables re-import)
+        </label>
+        <label className="flex items-center gap-1 ml-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={fullHistory}
+            onChange={(e) => setFullHistory(e.target.checked)}
+          />
+          Re-read history before the last import
+        </label>
+      </div>
+
       {/* Error Message */}
       {error && (
         <div className="card mt-6 border-red-500/30 bg-red-500/10">
@@ -194,10 +430,74 @@ export default function ImportPage() {
         </div>
       )}
 
+      {/* Importer Choice */}
+      {choosingFile && (
+        <div className="mt-6">
+          <ProfileChooser
+            file={choosingFile.file}
+            detection={choosingFile.detection}
+            onChoose={(profile) => importWithProfile(choosingFile.file, profile)}
+            onMapColumns={choosingFile.detection.fileType === 'json' || choosingFile.detection.fileType === 'csv'
+              ? () => { setMappingFile(choosingFile); setChoosingFile(null); }
+              : undefined}
+            onCancel={() => setChoosingFile(null)}
+          />
+        </div>
+      )}
+
+      {/* Import Queue */}
+      {queuedItems && (
+        <div className="mt-6">
+          <ImportQueue
+            items={queuedItems}
+            options={{ weighInPolicy, retainRawFiles, fullHistory }}
+            onImported={() => getAll('sources').then(setSources)}
+            onClose={() => setQueuedItems(null)}
+          />
+        </div>
+      )}
+
+      {/* Change Set Review */}
+      {pendingPlan && (
+        <div className="mt-6">
+          <ImportChangeSetReview
+            plan={pendingPlan}
+            onApprove={handleApprove}
+            onCancel={() => setPendingPlan(null)}
+          />
+        </div>
+      )}
+
+      {/* Re-import Review */}
+      {reimportPlan && (
+        <div className="mt-6">
+          <ReimportReview
+            plan={reimportPlan}
+            onApply={handleApplyReimport}
+            onCancel={() => setReimportPlan(null)}
+          />
+        </div>
+      )}
+
+      {/* Column Mapping */}
+      {mappingFile && (
+        <div className="mt-6">
+          <ColumnMappingWizard
+            file={mappingFile.file}
+            detection={mappingFile.detection}
+            onSave={(profile) => importWithProfile(mappingFile.file, profile)}
+            onCancel={() => setMappingFile(null)}
+          />
+        </div>
+      )}
+
       {/* Success Result */}
       {result && result.success && (
         <div className="card mt-6 border-green-500/30 bg-green-500/10">
           <h3 className="font-semibold text-green-400 mb-4">Import Successful!</h3>
+          {result.newNights !== undefined && (
+            <p className="text-sm text-gray-400 -mt-2 mb-4">{describeNewNights(result.newNights)}</p>
+          )}
 
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
             <div className="text-center">
@@ -242,6 +542,10 @@ export default function ImportPage() {
             </div>
           )}
 
+          {result.archive && (
+            <ArchiveSummary archive={result.archive} />
+          )}
+
           <div className="mt-4 flex gap-3">
             <button
               onClick={() => navigate('/')}
@@ -285,8 +589,38 @@ export default function ImportPage() {
           <SourceCard
             name="Oura Ring"
             icon="💍"
-            status="coming"
-            instructions="Coming soon: Export from Oura Cloud or connect via API."
+            status="supported"
+            instructions="Export from Oura on the Web: Account → Export Data. Upload the JSON or trends CSV."
+          />
+          <SourceCard
+            name="WHOOP"
+            icon="⌚"
+            status="supported"
+            instructions="Request an export in the WHOOP app: Profile → App Settings → Data Export. Upload the ZIP or any of its CSVs."
+          />
+          <SourceCard
+            name="Garmin Connect"
+            icon="🧭"
+            status="supported"
+            instructions="Request your data at garmin.com → Account → Data Management → Export Your Data. Upload the ZIP or the DI_CONNECT JSON files."
+          />
+          <SourceCard
+            name="Fitbit"
+            icon="⌚"
+            status="supported"
+            instructions="Export with Google Takeout (select Fitbit). Upload the Takeout ZIP, or select all sleep, heart rate and exercise files at once."
+          />
+          <SourceCard
+            name="Withings / Smart Scale"
+            icon="⚖️"
+            status="supported"
+            instructions="Export from Withings Health Mate (Settings → Download my data) or your scale's app. Upload weight.csv, bp.csv or the ZIP."
+          />
+          <SourceCard
+            name="Workout Files"
+            icon="🚴"
+            status="supported"
+            instructions="Upload FIT, TCX or GPX recordings from your watch or bike computer (e.g. Garmin Connect → Export Original, Strava → Export GPX)."
           />
           <SourceCard
             name="Apple Health"
@@ -317,6 +651,7 @@ export default function ImportPage() {
                   <th className="text-right py-2">Records</th>
                   <th className="text-right py-2">Size</th>
                   <th className="text-right py-2">Imported</th>
+                  <th className="py-2"></th>
                 </tr>
               </thead>
               <tbody>
@@ -331,6 +666,20 @@ export default function ImportPage() {
                     <td className="py-2 text-right text-gray-500">
                       {new Date(s.importedAt).toLocaleDateString()}
                     </td>
+                    <td className="py-2 text-right">
+                      {s.rawDataRef && (
+                        <button
+                          onClick={() => handleReimport(s.id)}
+                          disabled={isProcessing}
+                          className="text-primary-400 hover:text-primary-300 disabled:opacity-50"
+                          title={s.reimportedAt
+                            ? `Last re-imported ${new Date(s.reimportedAt).toLocaleDateString()}`
+                            : 'Re-read the original files with the current importers'}
+                        >
+                          Re-import
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -386,6 +735,30 @@ export default function ImportPage() {
   );
 }
 
+function ArchiveSummary({ archive }: { archive: ArchiveManifest }) {
+  return (
+    <details className="mt-4 p-3 bg-white/5 rounded-lg border border-white/10">
+      <summary className="cursor-pointer text-sm font-medium text-white">
+        {archive.usedEntries.length} file(s) imported, {archive.skippedEntries.length} skipped
+      </summary>
+      <ul className="mt-2 text-sm text-gray-400 space-y-1">
+        {archive.usedEntries.map((e) => (
+          <li key={e.name}>
+            <span className="text-green-400">✓</span> {e.name}{' '}
+            <span className="text-gray-500 capitalize">({e.vendor.replace('_', ' ')})</span>
+          </li>
+        ))}
+        {archive.skippedEntries.map((e) => (
+          <li key={e.name}>
+            <span className="text-gray-500">–</span> {e.name}{' '}
+            <span className="text-gray-500">({e.reason})</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
 function SourceCard({
   name,
   icon,
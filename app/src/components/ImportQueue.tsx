@@ -0,0 +1,160 @@
+/**
+ * ImportQueue Component
+ * ======================
+ * Imports the sources of a prepared queue one at a time, with the status
+ * of each, retry for the ones that failed and a combined summary. Queued
+ * sources are stored without a change set review, so the queue waits for
+ * the user to start it.
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  runImportQueue,
+  summarizeImportQueue,
+  totalSize,
+  type ImportQueueItem,
+  type ImportQueueRun,
+  type ImportQueueStatus,
+} from '../importers/importQueue';
+import type { ImportOptions } from '../importers/pipeline';
+import { VENDOR_NAMES } from '../importers/provenance';
+import { formatFileSize } from '../workers';
+
+const DEFAULT_USER_ID = 'local-user';
+
+interface ImportQueueProps {
+  items: ImportQueueItem[];
+  options?: ImportOptions;
+  // Called after each run of the queue, once something may have been stored
+  onImported?: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportQueueStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'text-zinc-500' },
+  importing: { label: 'Importing', className: 'text-cyan-400' },
+  done: { label: 'Imported', className: 'text-emerald-400' },
+  failed: { label: 'Failed', className: 'text-coral-400' },
+  skipped: { label: 'Skipped', className: 'text-amber-400' },
+  cancelled: { label: 'Cancelled', className: 'text-zinc-400' },
+};
+
+export function ImportQueue({ items: queued, options = {}, onImported, onClose }: ImportQueueProps) {
+  const [items, setItems] = useState<ImportQueueItem[]>(queued);
+  const [started, setStarted] = useState(false);
+  const [run, setRun] = useState<ImportQueueRun | null>(null);
+
+  function start(queue: ImportQueueItem[]) {
+    const next = runImportQueue(queue, DEFAULT_USER_ID, options, updated => {
+      setItems(current => current.map(item => item.id === updated.id ? updated : item));
+    });
+    setStarted(true);
+    setRun(next);
+    next.done.then(() => {
+      setRun(null);
+      onImported?.();
+    });
+  }
+
+  function retry(retried: ImportQueueItem[]) {
+    const pending = new Map(retried.map(item => [item.id, { ...item, status: 'pending' as const, message: undefined }]));
+    setItems(current => current.map(item => pending.get(item.id) ?? item));
+    start([...pending.values()]);
+  }
+
+  const pending = items.filter(item => item.status === 'pending');
+  const failed = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const summary = summarizeImportQueue(items);
+
+  return (
+    <motion.div
+      className="card space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">
+            Importing {items.length} {items.length === 1 ? 'source' : 'sources'}
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Workout files first, then the largest sources, one source at a time.
+          </p>
+        </div>
+        {run ? (
+          <button onClick={() => run.cancel()} className="btn btn-secondary">Cancel</button>
+        ) : (
+          <button onClick={onClose} className="btn btn-ghost">Close</button>
+        )}
+      </div>
+
+      {!started && (
+        <div className="flex items-center justify-between gap-2 p-3 rounded bg-amber-500/10 text-sm">
+          <p className="text-amber-400">
+            These files come from several sources, so each is stored as it is imported, without reviewing its
+            changes first. An import can be removed again under Settings → Imports.
+          </p>
+          <button
+            onClick={() => start(items)}
+            disabled={pending.length === 0}
+            className="btn btn-primary shrink-0 disabled:opacity-50"
+          >
+            Import {pending.length} {pending.length === 1 ? 'source' : 'sources'}
+          </button>
+        </div>
+      )}
+
+      <ul className="space-y-1 text-sm max-h-96 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="p-2 rounded bg-void-800">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-white truncate">
+                  {item.files[0].name}
+                  {item.files.length > 1 && ` and ${item.files.length - 1} more`}
+                </div>
+                <div className="text-xs text-zinc-500">
+                  {VENDOR_NAMES[item.vendor]} · {formatFileSize(totalSize(item))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`text-xs ${STATUS_LABELS[item.status].className}`}>
+                  {STATUS_LABELS[item.status].label}
+                  {item.status === 'importing' && item.progress && ` ${Math.round(item.progress.percent)}%`}
+                </span>
+                {!run && (item.status === 'failed' || item.status === 'cancelled') && (
+                  <button onClick={() => retry([item])} className="btn btn-ghost text-xs">Retry</button>
+                )}
+              </div>
+            </div>
+            {item.status === 'done' && item.result && (
+              <div className="text-xs text-zinc-500 mt-1">
+                {item.result.recordCounts.sleepSessions} nights · {item.result.recordCounts.workoutSessions} workouts ·{' '}
+                {item.result.recordCounts.dailyMetrics} daily metrics
+              </div>
+            )}
+            {item.message && (
+              <div className={`text-xs mt-1 break-words ${STATUS_LABELS[item.status].className}`}>{item.message}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {started && !run && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <p className="text-zinc-400">
+            Imported {summary.imported} of {items.length} sources: {summary.recordCounts.sleepSessions} nights,{' '}
+            {summary.recordCounts.workoutSessions} workouts and {summary.recordCounts.dailyMetrics} daily metrics.
+            {summary.failed > 0 && ` ${summary.failed} failed.`}
+            {summary.skipped > 0 && ` ${summary.skipped} skipped.`}
+            {summary.warnings > 0 && ` ${summary.warnings} warnings.`}
+          </p>
+          {failed.length > 1 && (
+            <button onClick={() => retry(failed)} className="btn btn-secondary shrink-0">Retry failed</button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * ImporterProfileManager Component
+ * =================================
+ * Lists the importer profiles saved from the column-mapping wizard and
+ * moves them between machines as profile packages. An imported package
+ * is checked against its bundled sample rows before it can be installed,
+ * and replacing an older version of a saved profile asks first.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { deleteSavedProfile, listSavedProfiles } from '../importers/savedProfiles';
+import {
+  checkConformance,
+  createProfilePackage,
+  installProfilePackage,
+  parseProfilePackage,
+  planProfileInstall,
+  profilePackageFileName,
+  type ProfileInstallPlan,
+  type ProfilePackage,
+  type SampleConformance,
+} from '../importers/profilePackage';
+import type { ImporterProfile } from '../types/schema';
+
+interface PendingPackage {
+  pkg: ProfilePackage;
+  plan: ProfileInstallPlan;
+  conformance: SampleConformance[];
+}
+
+export function ImporterProfileManager() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [profiles, setProfiles] = useState<ImporterProfile[]>([]);
+  const [pending, setPending] = useState<PendingPackage | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  async function loadProfiles() {
+    setProfiles(await listSavedProfiles());
+  }
+
+  async function handleExport(profile: ImporterProfile) {
+    setError(null);
+    try {
+      const pkg = await createProfilePackage(profile);
+      const blob = new Blob([JSON.stringify(pkg, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = profilePackageFileName(profile);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to export profile');
+    }
+  }
+
+  async function handleDelete(id: string) {
+    setDeletingId(null);
+    await deleteSavedProfile(id);
+    await loadProfiles();
+  }
+
+  async function handlePackageSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    setPending(null);
+
+    try {
+      const pkg = parseProfilePackage(await file.text());
+      const [plan, conformance] = await Promise.all([
+        planProfileInstall(pkg),
+        checkConformance(pkg.profile),
+      ]);
+      setPending({ pkg, plan, conformance });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read profile package');
+    }
+  }
+
+  async function handleInstall() {
+    if (!pending) return;
+
+    try {
+      const profile = await installProfilePackage(pending.pkg);
+      setMessage(pending.plan.action === 'upgrade'
+        ? `Upgraded ${profile.name} to v${profile.version}`
+        : `Installed ${profile.name} v${profile.version}`);
+      setPending(null);
+      await loadProfiles();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to install profile');
+    }
+  }
+
+  const conformanceFailed = pending?.conformance.some(c => !c.passed) ?? false;
+
+  return (
+    <div className="space-y-3">
+      {profiles.length === 0 ? (
+        <p className="text-sm text-zinc-500">
+          No saved profiles yet. Mapping the columns of an unrecognized file saves one.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {profiles.map(profile => (
+            <li key={profile.id} className="p-3 rounded-lg bg-void-800 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-white truncate">
+                    {profile.name}
+                    <span className="ml-2 text-xs text-zinc-500">v{profile.version}</span>
+                  </div>
+                  <div className="text-xs text-zinc-500 truncate">{profile.description}</div>
+                </div>
+                {deletingId === profile.id ? (
+                  <div className="flex gap-1 shrink-0">
+                    <button onClick={() => handleDelete(profile.id)} className="btn btn-ghost text-coral-400">
+                      Delete
+                    </button>
+                    <button onClick={() => setDeletingId(null)} className="btn btn-ghost">Keep</button>
+                  </div>
+                ) : (
+                  <div className="flex gap-1 shrink-0">
+                    <button onClick={() => handleExport(profile)} className="btn btn-ghost">Export</button>
+                    <button onClick={() => setDeletingId(profile.id)} className="btn btn-ghost">Remove</button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json"
+        className="hidden"
+        onChange={handlePackageSelect}
+      />
+      <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary">
+        Import Profile Package
+      </button>
+
+      {error && <p className="text-sm text-coral-400 break-words">{error}</p>}
+      {message && <p className="text-sm text-emerald-400">{message}</p>}
+
+      {pending && (
+        <div className="p-3 rounded-lg border border-white/10 space-y-3 text-sm">
+          <div className="text-white">
+            {pending.pkg.profile.name}
+            <span className="ml-2 text-xs text-zinc-500">v{pending.pkg.profile.version}</span>
+          </div>
+
+          {/* Conformance */}
+          {pending.conformance.length === 0 ? (
+            <p className="text-xs text-amber-400">
+              The package bundles no sample rows, so its mapping could not be checked.
+            </p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {pending.conformance.map(result => (
+                <li key={result.fileName}>
+                  <span className={result.passed ? 'text-emerald-400' : 'text-coral-400'}>
+                    {result.passed ? '✓' : '✗'} {result.fileName}
+                  </span>
+                  <span className="ml-2 text-zinc-500">
+                    {result.produced.sleep_sessions} sleep · {result.produced.workout_sessions} workouts · {result.produced.daily_metrics} metrics
+                  </span>
+                  {result.problems.map(problem => (
+                    <div key={problem} className="ml-4 text-zinc-400">{problem}</div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Version check */}
+          {pending.plan.action === 'unchanged' && (
+            <p className="text-xs text-zinc-400">This version is already installed.</p>
+          )}
+          {pending.plan.action === 'outdated' && (
+            <p className="text-xs text-zinc-400">
+              A newer version (v{pending.plan.installed?.version}) is already installed; it is kept.
+            </p>
+          )}
+          {pending.plan.action === 'upgrade' && (
+            <p className="text-xs text-amber-400">
+              Replace the installed v{pending.plan.installed?.version} with v{pending.pkg.profile.version}?
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            {(pending.plan.action === 'install' || pending.plan.action === 'upgrade') && (
+              <button
+                onClick={handleInstall}
+                disabled={conformanceFailed}
+                className="btn btn-primary disabled:opacity-50"
+                title={conformanceFailed ? 'The mapping fails on its own sample rows' : undefined}
+              >
+                {pending.plan.action === 'upgrade' ? 'Replace' : 'Install'}
+              </button>
+            )}
+            <button onClick={() => setPending(null)} className="btn btn-secondary">
+              {pending.plan.action === 'install' || pending.plan.action === 'upgrade' ? 'Cancel' : 'Close'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * NightSettings Component
+ * ========================
+ * Home timezone and day-boundary hour used to decide which night a sleep
+ * session belongs to. Saving re-dates the nights already stored.
+ */
+
+import { useState, useEffect } from 'react';
+import { getUserSettings, saveUserSettings, redateSleepSessions } from '../db/database';
+import { deviceTimeZone, isValidTimeZone, nightOptions, type NightOptions } from '../utils/nightDate';
+
+const DEFAULT_USER_ID = 'local-user';
+
+// Boundaries later than noon would file evening bedtimes under the day before
+const BOUNDARY_HOURS = Array.from({ length: 13 }, (_, hour) => hour);
+
+export function NightSettings() {
+  const [saved, setSaved] = useState<NightOptions | null>(null);
+  const [timeZone, setTimeZone] = useState('');
+  const [dayBoundaryHour, setDayBoundaryHour] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUserSettings(DEFAULT_USER_ID).then(settings => {
+      const options = nightOptions(settings);
+      setSaved(options);
+      setTimeZone(options.timeZone);
+      setDayBoundaryHour(options.dayBoundaryHour);
+    });
+  }, []);
+
+  const validTimeZone = isValidTimeZone(timeZone);
+  const changed = saved !== null && (timeZone !== saved.timeZone || dayBoundaryHour !== saved.dayBoundaryHour);
+
+  async function handleSave() {
+    if (!saved || !validTimeZone) return;
+    setSaving(true);
+    setStatus(null);
+    setError(null);
+    try {
+      await saveUserSettings(DEFAULT_USER_ID, { timezone: timeZone, dayBoundaryHour });
+      const redated = await redateSleepSessions(DEFAULT_USER_ID, saved);
+      setSaved({ timeZone, dayBoundaryHour });
+      setStatus(redated === 0 ? 'Saved. No stored nights changed date.' : `Saved. Moved ${redated} ${redated === 1 ? 'night' : 'nights'} to a new date.`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!saved) return null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-white">Home timezone</div>
+          <div className="text-xs text-zinc-500">For devices that record times in UTC</div>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value.trim())}
+            className={`input w-48 text-sm ${validTimeZone ? '' : 'border-coral-500'}`}
+            aria-label="Home timezone"
+            placeholder="Europe/Berlin"
+          />
+          {timeZone !== deviceTimeZone() && (
+            <button onClick={() => setTimeZone(deviceTimeZone())} className="btn btn-ghost text-xs">
+              Use this device's
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-white">Night ends at</div>
+          <div className="text-xs text-zinc-500">Sleep starting earlier counts toward the night before</div>
+        </div>
+        <select
+          value={dayBoundaryHour}
+          onChange={(e) => setDayBoundaryHour(Number(e.target.value))}
+          className="input w-32 text-sm"
+          aria-label="Day boundary hour"
+        >
+          {BOUNDARY_HOURS.map(hour => (
+            <option key={hour} value={hour}>{formatHour(hour)}</option>
+          ))}
+        </select>
+      </div>
+
+      {!validTimeZone && <p className="text-xs text-coral-400">Unknown timezone. Use a name like America/New_York.</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        {status && <span className="text-xs text-emerald-400">{status}</span>}
+        <button
+          onClick={handleSave}
+          disabled={!changed || !validTimeZone || saving}
+          className="btn btn-secondary disabled:opacity-50"
+        >
+          {saving ? 'Re-dating nights...' : 'Save'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-coral-400 break-words">{error}</p>}
+    </div>
+  );
+}
+
+function formatHour(hour: number): string {
+  if (hour === 0) return 'Midnight';
+  if (hour === 12) return 'Noon';
+  return `${hour}:00 am`;
+}
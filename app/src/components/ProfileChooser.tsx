@@ -0,0 +1,66 @@
+/**
+ * ProfileChooser Component
+ * =========================
+ * Asks which importer should read a file when detection ranked two or
+ * more profiles too closely to pick one, showing what each matched.
+ */
+
+import { motion } from 'framer-motion';
+import type { FileDetectionResult, ImportFile } from '../importers/pipeline';
+import type { ImporterProfile } from '../types/schema';
+
+interface ProfileChooserProps {
+  file: ImportFile;
+  detection: FileDetectionResult;
+  onChoose: (profile: ImporterProfile) => void;
+  // Offered for JSON and CSV files, which can be mapped by hand instead
+  onMapColumns?: () => void;
+  onCancel: () => void;
+}
+
+export function ProfileChooser({ file, detection, onChoose, onMapColumns, onCancel }: ProfileChooserProps) {
+  return (
+    <motion.div
+      className="card space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">Which export is {file.name}?</h3>
+        <p className="text-sm text-zinc-500">
+          Several importers recognize this file about equally well. Pick the one that made it.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {detection.candidates.map(({ profile, score, evidence }) => (
+          <button
+            key={profile.id}
+            onClick={() => onChoose(profile)}
+            className="w-full text-left p-3 rounded-lg border border-white/10 hover:border-cyan-500/40 hover:bg-cyan-500/5 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-white font-medium">
+                {profile.name}
+                {!profile.isBuiltIn && <span className="badge badge-cyan ml-2">Saved</span>}
+              </span>
+              <span className="text-sm text-zinc-400">{Math.round(score * 100)}% match</span>
+            </div>
+            <ul className="mt-1 text-xs text-zinc-500 space-y-0.5">
+              {evidence.map(item => (
+                <li key={item} className="font-mono truncate">{item}</li>
+              ))}
+            </ul>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onMapColumns && (
+          <button onClick={onMapColumns} className="btn btn-ghost">None of these — map columns</button>
+        )}
+        <button onClick={onCancel} className="btn btn-secondary">Cancel</button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * ReimportReview Component
+ * =========================
+ * Shows what re-importing a Source with the current importers would do
+ * to its records, and replaces them only once the user agrees.
+ */
+
+import { motion } from 'framer-motion';
+import type { ReimportPlan } from '../importers/pipeline';
+import type { RecordChanges, SourceRecordsDiff } from '../importers/sourceDiff';
+
+interface ReimportReviewProps {
+  plan: ReimportPlan;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const STORE_LABELS: Record<keyof SourceRecordsDiff, string> = {
+  sleepSessions: 'Sleep sessions',
+  workoutSessions: 'Workouts',
+  dailyMetrics: 'Daily metrics',
+  timeSeries: 'Time series',
+};
+
+export function ReimportReview({ plan, onApply, onCancel }: ReimportReviewProps) {
+  const stores = Object.keys(STORE_LABELS) as Array<keyof SourceRecordsDiff>;
+  const unchanged = stores.every(store => isUnchanged(plan.diff[store]));
+
+  return (
+    <motion.div
+      className="card space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">Re-import {plan.source.fileName}</h3>
+        <p className="text-sm text-zinc-500">
+          {unchanged
+            ? 'The current importers derive exactly the records already in your vault.'
+            : 'The current importers read the original files differently. Review the changes before replacing the records.'}
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-zinc-500 border-b border-white/10">
+            <th className="text-left py-2">Records</th>
+            <th className="text-right py-2">Added</th>
+            <th className="text-right py-2">Removed</th>
+            <th className="text-right py-2">Changed</th>
+            <th className="text-right py-2">Unchanged</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stores.map(store => {
+            const changes = plan.diff[store];
+            return (
+              <tr key={store} className="border-t border-white/5">
+                <td className="py-2 text-white">{STORE_LABELS[store]}</td>
+                <td className={`py-2 text-right ${changes.added ? 'text-emerald-400' : 'text-zinc-500'}`}>{changes.added}</td>
+                <td className={`py-2 text-right ${changes.removed ? 'text-coral-400' : 'text-zinc-500'}`}>{changes.removed}</td>
+                <td className={`py-2 text-right ${changes.changed ? 'text-amber-400' : 'text-zinc-500'}`}>{changes.changed}</td>
+                <td className="py-2 text-right text-zinc-500">{changes.unchanged}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {plan.warnings.length > 0 && (
+        <ul className="text-xs text-amber-400 space-y-1">
+          {plan.warnings.slice(0, 5).map((w, i) => (
+            <li key={i}>{w.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="btn btn-secondary">Cancel</button>
+        <button onClick={onApply} disabled={unchanged} className="btn btn-primary disabled:opacity-50">
+          Replace records
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+function isUnchanged(changes: RecordChanges): boolean {
+  return changes.added === 0 && changes.removed === 0 && changes.changed === 0;
+}
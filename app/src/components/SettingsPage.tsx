@@ -6,6 +6,10 @@
 
 import { useState, useEffect } from 'react';
 import { getStorageEstimate, deleteDatabase, exportAllData, count } from '../db/database';
+import { ImporterProfileManager } from './ImporterProfileManager';
+import { SourceManager } from './SourceManager';
+import { VendorPriorityEditor } from './VendorPriorityEditor';
+import { NightSettings } from './NightSettings';
 
 export default function SettingsPage() {
   const [storageInfo, setStorageInfo] = useState<{
@@ -133,6 +137,44 @@ export default function SettingsPage() {
         </button>
       </div>
 
+      {/* Imports */}
+      <div className="card mb-6">
+        <h3 className="font-semibold text-white mb-4">Imports</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Remove a single import and everything it brought in, without touching the rest of your data.
+        </p>
+        <SourceManager onDeleted={loadInfo} />
+      </div>
+
+      {/* Vendor Priority */}
+      <div className="card mb-6">
+        <h3 className="font-semibold text-white mb-4">Vendor Priority</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          When two devices recorded the same night, take each metric from the vendor you trust most for it.
+        </p>
+        <VendorPriorityEditor />
+      </div>
+
+      {/* Night Assignment */}
+      <div className="card mb-6">
+        <h3 className="font-semibold text-white mb-4">Nights</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Which date a night of sleep is filed under. Times a device recorded with their own offset
+          keep it, so nights while travelling stay on the local date.
+        </p>
+        <NightSettings />
+      </div>
+
+      {/* Importer Profiles */}
+      <div className="card mb-6">
+        <h3 className="font-semibold text-white mb-4">Importer Profiles</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Column mappings saved for files no built-in importer reads. Export one to share it,
+          or import a profile package from someone else.
+        </p>
+        <ImporterProfileManager />
+      </div>
+
       {/* Preferences */}
       <div className="card mb-6">
         <h3 className="font-semibold text-white mb-4">Preferences</h3>
@@ -0,0 +1,87 @@
+/**
+ * SourceManager Component
+ * ========================
+ * Lists every import and deletes one together with the records it
+ * brought in, so a wrong file no longer means wiping the whole vault.
+ */
+
+import { useState, useEffect } from 'react';
+import { deleteSource, getAll } from '../db/database';
+import { formatFileSize } from '../workers';
+import type { Source } from '../types/schema';
+
+interface SourceManagerProps {
+  // Called after a source is deleted, e.g. to refresh record counts
+  onDeleted?: () => void;
+}
+
+export function SourceManager({ onDeleted }: SourceManagerProps) {
+  const [sources, setSources] = useState<Source[]>([]);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSources();
+  }, []);
+
+  async function loadSources() {
+    const all = await getAll('sources');
+    setSources(all.sort((a, b) => b.importedAt.localeCompare(a.importedAt)));
+  }
+
+  async function handleDelete(id: string) {
+    setDeletingId(null);
+    setError(null);
+    try {
+      await deleteSource(id);
+      await loadSources();
+      onDeleted?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete import');
+    }
+  }
+
+  if (sources.length === 0) {
+    return <p className="text-sm text-zinc-500">Nothing imported yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-2">
+        {sources.map(source => (
+          <li key={source.id} className="p-3 rounded-lg bg-void-800 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-white truncate">{source.fileName}</div>
+                <div className="text-xs text-zinc-500 truncate capitalize">
+                  {source.vendor.replace('_', ' ')} · {new Date(source.importedAt).toLocaleDateString()} ·{' '}
+                  {source.recordCounts.sleepSessions || 0} nights · {source.recordCounts.workoutSessions || 0} workouts ·{' '}
+                  {formatFileSize(source.fileSizeBytes)}
+                </div>
+              </div>
+              {deletingId === source.id ? (
+                <div className="flex gap-1 shrink-0">
+                  <button onClick={() => handleDelete(source.id)} className="btn btn-ghost text-coral-400">
+                    Delete
+                  </button>
+                  <button onClick={() => setDeletingId(null)} className="btn btn-ghost">Keep</button>
+                </div>
+              ) : (
+                <button onClick={() => setDeletingId(source.id)} className="btn btn-ghost shrink-0">
+                  Remove
+                </button>
+              )}
+            </div>
+            {deletingId === source.id && (
+              <p className="mt-2 text-xs text-amber-400">
+                Deletes its records. Nights it merged with another import go back to that import's version.
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-coral-400 break-words">{error}</p>}
+    </div>
+  );
+}
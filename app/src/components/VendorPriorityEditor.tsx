@@ -0,0 +1,95 @@
+/**
+ * VendorPriorityEditor Component
+ * ===============================
+ * Ranks vendors per metric group for nights that several sources
+ * recorded, e.g. Eight Sleep for bed temperature and Oura for HRV.
+ * Applies to nights merged from the next import on.
+ */
+
+import { useState, useEffect } from 'react';
+import { getUserSettings, saveUserSettings } from '../db/database';
+import { SLEEP_METRIC_GROUPS, VENDOR_NAMES } from '../importers/provenance';
+import type { SleepMetricGroup, UserSettings, VendorType } from '../types/schema';
+
+const DEFAULT_USER_ID = 'local-user';
+
+// Vendors that record nights
+const SLEEP_VENDORS: VendorType[] = [
+  'eight_sleep',
+  'oura',
+  'whoop',
+  'apple_health',
+  'garmin',
+  'fitbit',
+  'generic_csv',
+  'generic_json',
+];
+
+export function VendorPriorityEditor() {
+  const [priority, setPriority] = useState<NonNullable<UserSettings['vendorPriority']>>({});
+
+  useEffect(() => {
+    getUserSettings(DEFAULT_USER_ID).then(settings => setPriority(settings.vendorPriority ?? {}));
+  }, []);
+
+  async function update(group: SleepMetricGroup, vendors: VendorType[]) {
+    const next = { ...priority, [group]: vendors };
+    if (vendors.length === 0) delete next[group];
+    setPriority(next);
+    await saveUserSettings(DEFAULT_USER_ID, { vendorPriority: next });
+  }
+
+  return (
+    <ul className="space-y-2">
+      {(Object.keys(SLEEP_METRIC_GROUPS) as SleepMetricGroup[]).map(group => {
+        const ranked = priority[group] ?? [];
+        const available = SLEEP_VENDORS.filter(v => !ranked.includes(v));
+
+        return (
+          <li key={group} className="p-3 rounded-lg bg-void-800 text-sm">
+            <div className="text-white mb-2">{SLEEP_METRIC_GROUPS[group].label}</div>
+            <div className="flex flex-wrap items-center gap-1">
+              {ranked.length === 0 && (
+                <span className="text-xs text-zinc-500 mr-1">Most complete night wins</span>
+              )}
+              {ranked.map((vendor, i) => (
+                <span key={vendor} className="badge badge-cyan flex items-center gap-1">
+                  {i + 1}. {VENDOR_NAMES[vendor]}
+                  {i > 0 && (
+                    <button
+                      onClick={() => update(group, [...ranked.slice(0, i - 1), vendor, ranked[i - 1], ...ranked.slice(i + 1)])}
+                      aria-label={`Prefer ${VENDOR_NAMES[vendor]}`}
+                      className="hover:text-white"
+                    >
+                      ↑
+                    </button>
+                  )}
+                  <button
+                    onClick={() => update(group, ranked.filter(v => v !== vendor))}
+                    aria-label={`Remove ${VENDOR_NAMES[vendor]}`}
+                    className="hover:text-white"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+              {available.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => update(group, [...ranked, e.target.value as VendorType])}
+                  className="input text-xs py-1 w-auto"
+                  aria-label={`Add a vendor for ${SLEEP_METRIC_GROUPS[group].label}`}
+                >
+                  <option value="">Add vendor…</option>
+                  {available.map(vendor => (
+                    <option key={vendor} value={vendor}>{VENDOR_NAMES[vendor]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -6,6 +6,15 @@ export { default as SettingsPage } from './SettingsPage';
 // New conversational UI components
 export { ConversationalHome } from './ConversationalHome';
 export { QuickAccessBar } from './QuickAccessBar';
+export { ColumnMappingWizard } from './ColumnMappingWizard';
+export { ProfileChooser } from './ProfileChooser';
+export { ImporterProfileManager } from './ImporterProfileManager';
+export { ReimportReview } from './ReimportReview';
+export { SourceManager } from './SourceManager';
+export { NightSettings } from './NightSettings';
+export { ImportChangeSetReview } from './ImportChangeSetReview';
+export { ImportQueue } from './ImportQueue';
+export { VendorPriorityEditor } from './VendorPriorityEditor';
 
 // Chat components
 export { ChatInput } from './chat/ChatInput';
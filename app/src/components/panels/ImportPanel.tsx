@@ -6,8 +6,39 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { detectFileType, importFile, type ImportResult, type ImportProgress } from '../../importers/pipeline';
-import { checkFileSizeWarning } from '../../workers';
+import {
+  detectFileType,
+  isStreamableAppleHealthFile,
+  type FileDetectionResult,
+  type ImportFile,
+  type ImportResult,
+  type ImportProgress,
+  type ImportPlan,
+} from '../../importers/pipeline';
+import { needsColumnMapping } from '../../importers/savedProfiles';
+import { isAmbiguousDetection } from '../../importers/detection';
+import { describeNewNights } from '../../importers/highWaterMarks';
+import { collectDroppedFiles } from '../../utils/droppedFiles';
+import {
+  checkFileSizeWarning,
+  isBinaryFile,
+  previewImportInWorker,
+  commitImportInWorker,
+  importAppleHealthExportInWorker,
+  cancelProcessing,
+  type WorkerTask,
+} from '../../workers';
+import { ColumnMappingWizard } from '../ColumnMappingWizard';
+import { ProfileChooser } from '../ProfileChooser';
+import { ImportChangeSetReview } from '../ImportChangeSetReview';
+import { ImportQueue } from '../ImportQueue';
+import {
+  prepareImportQueue,
+  readQueueItem,
+  withSkippedFiles,
+  type ImportQueueItem,
+} from '../../importers/importQueue';
+import type { ImporterProfile } from '../../types/schema';
 
 const DEFAULT_USER_ID = 'local-user';
 
@@ -22,6 +53,11 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
   const [progress, setProgress] = useState<ImportProgress | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [mappingFile, setMappingFile] = useState<{ file: ImportFile; detection: FileDetectionResult } | null>(null);
+  const [choosingFile, setChoosingFile] = useState<{ file: ImportFile; detection: FileDetectionResult } | null>(null);
+  const [pendingPlan, setPendingPlan] = useState<ImportPlan | null>(null);
+  const [activeWorker, setActiveWorker] = useState<Worker | null>(null);
+  const [queuedItems, setQueuedItems] = useState<ImportQueueItem[] | null>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -33,69 +69,148 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const files = Array.from(e.dataTransfer.files);
+    // Dropped folders are walked for the files inside
+    const files = await collectDroppedFiles(e.dataTransfer);
     if (files.length > 0) {
-      processFile(files[0]);
+      processFiles(files);
     }
   }, []);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      processFile(files[0]);
+      processFiles(Array.from(files));
     }
   }, []);
 
-  async function processFile(file: File) {
+  async function processFiles(files: File[]) {
     setError(null);
     setResult(null);
+    setMappingFile(null);
+    setChoosingFile(null);
+    setPendingPlan(null);
+
     setIsProcessing(true);
 
     try {
-      const sizeCheck = checkFileSizeWarning(file.size);
-      if (sizeCheck.level === 'error') {
-        setError(sizeCheck.message);
-        setIsProcessing(false);
-        return;
-      }
+      let importFiles_: ImportFile[];
+      let queue: ImportQueueItem[] = [];
+
+      if (files.length > 1) {
+        // Several vendors' files are queued, one source each; one vendor's export is reviewed as one source
+        queue = await prepareImportQueue(files, (detected, total) => setProgress({
+          stage: 'detecting',
+          percent: Math.round((detected / total) * 100),
+          message: `Detecting files... ${detected} of ${total}`,
+        }));
+        const importable = queue.filter(item => item.status === 'pending');
+        if (importable.length !== 1 || importable[0].streamed) {
+          setQueuedItems(queue);
+          return;
+        }
+        // Files the queue skipped are named in the result rather than imported
+        importFiles_ = await readQueueItem(importable[0]);
+      } else {
+        // Apple Health exports run to several GB; stream them instead of reading them whole
+        if (await isStreamableAppleHealthFile(files[0])) {
+          await finishImport(await runInWorker(importAppleHealthExportInWorker(
+            files[0],
+            DEFAULT_USER_ID,
+            (p) => setProgress(p)
+          )));
+          return;
+        }
+
+        const sizeCheck = checkFileSizeWarning(files[0].size);
+        if (sizeCheck.level === 'error') {
+          setError(sizeCheck.message);
+          setIsProcessing(false);
+          return;
+        }
+
+        importFiles_ = [{
+          name: files[0].name,
+          size: files[0].size,
+          type: files[0].type,
+          content: await readFile(files[0]),
+        }];
+
+        setProgress({ stage: 'detecting', percent: 5, message: 'Analyzing file...' });
+        const detection = await detectFileType(importFiles_[0]);
+
+        if (detection.fileType === 'unknown') {
+          setError('Could not determine file format. Please upload JSON, CSV, XML, FIT, or ZIP.');
+          setIsProcessing(false);
+          return;
+        }
+
+        // Unrecognized JSON and CSV files are mapped once, then matched by their saved profile
+        if (needsColumnMapping(detection)) {
+          setMappingFile({ file: importFiles_[0], detection });
+          return;
+        }
 
-      const content = await readFile(file);
-      const importFile_: {
-        name: string;
-        size: number;
-        type: string;
-        content: string | ArrayBuffer;
-      } = {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        content,
-      };
-
-      setProgress({ stage: 'detecting', percent: 5, message: 'Analyzing file...' });
-      const detection = await detectFileType(importFile_);
-
-      if (detection.fileType === 'unknown') {
-        setError('Could not determine file format. Please upload JSON, CSV, or XML.');
-        setIsProcessing(false);
-        return;
+        // Archives import every matching entry; a single file needs one importer
+        if (detection.fileType !== 'zip' && isAmbiguousDetection(detection.candidates)) {
+          setChoosingFile({ file: importFiles_[0], detection });
+          return;
+        }
       }
 
-      const importResult = await importFile(
-        importFile_,
+      // Multi-file exports share one source
+      // Nothing is written until the change set is approved
+      const preview = await runInWorker(previewImportInWorker(
+        importFiles_,
         DEFAULT_USER_ID,
         null,
         (p) => setProgress(p)
-      );
+      ));
+      await reviewImport(withSkippedFiles(preview, queue));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error during import');
+    } finally {
+      setIsProcessing(false);
+    }
+  }
 
-      setResult(importResult);
+  async function importWithProfile(file: ImportFile, profile: ImporterProfile) {
+    setMappingFile(null);
+    setChoosingFile(null);
+    setIsProcessing(true);
 
-      if (importResult.success) {
-        onImportComplete?.();
-      }
+    try {
+      await reviewImport(await runInWorker(previewImportInWorker(
+        [file],
+        DEFAULT_USER_ID,
+        profile,
+        (p) => setProgress(p)
+      )));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error during import');
+    } finally {
+      setIsProcessing(false);
+    }
+  }
+
+  async function reviewImport(preview: ImportPlan | ImportResult) {
+    if ('changeSet' in preview) {
+      setPendingPlan(preview);
+    } else {
+      await finishImport(preview);
+    }
+  }
+
+  async function handleApprove() {
+    if (!pendingPlan) return;
+    const plan = pendingPlan;
+    setPendingPlan(null);
+    setIsProcessing(true);
+
+    try {
+      await finishImport(await runInWorker(commitImportInWorker(plan, (p) => setProgress(p))));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Unknown error during import');
     } finally {
@@ -103,12 +218,38 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
     }
   }
 
-  async function readFile(file: File): Promise<string> {
+  // Detection through storage runs in the worker; keep it so it can be cancelled
+  async function runInWorker<T>(task: WorkerTask<T>): Promise<T> {
+    setActiveWorker(task.worker);
+    try {
+      return await task.result;
+    } finally {
+      setActiveWorker(null);
+    }
+  }
+
+  async function finishImport(importResult: ImportResult) {
+    setResult(importResult);
+    if (!importResult.success) {
+      setError(importResult.errors.map(e => e.message).join('; '));
+    }
+
+    if (importResult.success) {
+      onImportComplete?.();
+    }
+  }
+
+  async function readFile(file: File): Promise<string | ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => resolve(reader.result as string | ArrayBuffer);
       reader.onerror = () => reject(reader.error);
-      reader.readAsText(file);
+      // Archives and FIT files are binary; everything else is read as text
+      if (isBinaryFile(file)) {
+        reader.readAsArrayBuffer(file);
+      } else {
+        reader.readAsText(file);
+      }
     });
   }
 
@@ -116,7 +257,7 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
     <div className="space-y-6">
       {/* Drop Zone */}
       <div
-        className={`dropzone ${isDragging ? 'active' : ''} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+        className={`dropzone ${isDragging ? 'active' : ''} ${isProcessing || queuedItems ? 'opacity-50 pointer-events-none' : ''}`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
@@ -125,7 +266,8 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json,.csv,.xml,.zip"
+          accept=".json,.csv,.xml,.zip,.fit,.tcx,.gpx"
+          multiple
           className="hidden"
           onChange={handleFileSelect}
         />
@@ -149,12 +291,20 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
         ) : (
           <div className="text-center">
             <div className="text-3xl mb-3">📥</div>
-            <p className="text-white font-medium mb-1">Drop your file here</p>
+            <p className="text-white font-medium mb-1">Drop your files here</p>
             <p className="text-sm text-zinc-500">or click to browse</p>
           </div>
         )}
       </div>
 
+      {activeWorker && (
+        <div className="flex justify-center -mt-3">
+          <button onClick={() => cancelProcessing(activeWorker)} className="btn btn-ghost text-sm">
+            Cancel import
+          </button>
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="p-4 rounded-lg bg-coral-500/10 border border-coral-500/20">
@@ -162,6 +312,47 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
         </div>
       )}
 
+      {/* Importer choice */}
+      {choosingFile && (
+        <ProfileChooser
+          file={choosingFile.file}
+          detection={choosingFile.detection}
+          onChoose={(profile) => importWithProfile(choosingFile.file, profile)}
+          onMapColumns={choosingFile.detection.fileType === 'json' || choosingFile.detection.fileType === 'csv'
+            ? () => { setMappingFile(choosingFile); setChoosingFile(null); }
+            : undefined}
+          onCancel={() => setChoosingFile(null)}
+        />
+      )}
+
+      {/* Column mapping */}
+      {mappingFile && (
+        <ColumnMappingWizard
+          file={mappingFile.file}
+          detection={mappingFile.detection}
+          onSave={(profile) => importWithProfile(mappingFile.file, profile)}
+          onCancel={() => setMappingFile(null)}
+        />
+      )}
+
+      {/* Import queue */}
+      {queuedItems && (
+        <ImportQueue
+          items={queuedItems}
+          onImported={onImportComplete}
+          onClose={() => setQueuedItems(null)}
+        />
+      )}
+
+      {/* Change set review */}
+      {pendingPlan && (
+        <ImportChangeSetReview
+          plan={pendingPlan}
+          onApprove={handleApprove}
+          onCancel={() => setPendingPlan(null)}
+        />
+      )}
+
       {/* Success */}
       {result?.success && (
         <motion.div
@@ -170,6 +361,9 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
           animate={{ opacity: 1, y: 0 }}
         >
           <p className="text-emerald-400 font-medium mb-3">Import Successful!</p>
+          {result.newNights !== undefined && (
+            <p className="text-xs text-zinc-400 -mt-2 mb-3">{describeNewNights(result.newNights)}</p>
+          )}
           <div className="grid grid-cols-2 gap-3 text-sm">
             <div className="text-center p-2 bg-void-800 rounded">
               <div className="text-xl font-mono text-cyan-400">{result.recordCounts.sleepSessions}</div>
@@ -180,6 +374,12 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
               <div className="text-xs text-zinc-500">Workouts</div>
             </div>
           </div>
+          {result.archive && (
+            <p className="mt-3 text-xs text-zinc-500">
+              {result.archive.usedEntries.length} file(s) imported,{' '}
+              {result.archive.skippedEntries.length} skipped
+            </p>
+          )}
         </motion.div>
       )}
 
@@ -189,6 +389,12 @@ export function ImportPanel({ onImportComplete }: ImportPanelProps) {
         <div className="space-y-2">
           <SourceBadge name="Eight Sleep" icon="🛏️" />
           <SourceBadge name="Apple Health" icon="🍎" />
+          <SourceBadge name="Oura Ring" icon="💍" />
+          <SourceBadge name="WHOOP" icon="⌚" />
+          <SourceBadge name="Garmin Connect" icon="🧭" />
+          <SourceBadge name="Fitbit" icon="⌚" />
+          <SourceBadge name="Withings / Smart Scale" icon="⚖️" />
+          <SourceBadge name="FIT / TCX / GPX" icon="🚴" />
           <SourceBadge name="Orangetheory" icon="🍊" />
           <SourceBadge name="Generic CSV" icon="📄" />
         </div>
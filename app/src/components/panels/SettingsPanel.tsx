@@ -7,6 +7,10 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { getStorageEstimate, deleteDatabase, exportAllData, count } from '../../db/database';
+import { ImporterProfileManager } from '../ImporterProfileManager';
+import { SourceManager } from '../SourceManager';
+import { VendorPriorityEditor } from '../VendorPriorityEditor';
+import { NightSettings } from '../NightSettings';
 
 interface SettingsPanelProps {
   onClose?: () => void;
@@ -129,6 +133,30 @@ export function SettingsPanel({ onClose: _onClose }: SettingsPanelProps) {
         </button>
       </section>
 
+      {/* Imports */}
+      <section>
+        <h3 className="text-sm font-medium text-white mb-3">Imports</h3>
+        <SourceManager onDeleted={loadInfo} />
+      </section>
+
+      {/* Vendor Priority */}
+      <section>
+        <h3 className="text-sm font-medium text-white mb-3">Vendor Priority</h3>
+        <VendorPriorityEditor />
+      </section>
+
+      {/* Night Assignment */}
+      <section>
+        <h3 className="text-sm font-medium text-white mb-3">Nights</h3>
+        <NightSettings />
+      </section>
+
+      {/* Importer Profiles */}
+      <section>
+        <h3 className="text-sm font-medium text-white mb-3">Importer Profiles</h3>
+        <ImporterProfileManager />
+      </section>
+
       {/* Privacy */}
       <section>
         <h3 className="text-sm font-medium text-white mb-3">Privacy</h3>
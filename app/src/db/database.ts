@@ -16,14 +16,26 @@ import type {
   ComputedInsight,
   ImporterProfile,
   MorningRating,
+  RawFile,
+  UserSettings,
+  VendorType,
 } from '../types/schema';
+import {
+  DEFAULT_DAY_BOUNDARY_HOUR,
+  daysBetween,
+  nightOf,
+  nightOptions,
+  shiftDate,
+  type NightOptions,
+} from '../utils/nightDate';
+import { mergeSleepSessions, mergeWorkoutSessions, withoutSource } from '../importers/provenance';
 
 // ============================================================
 // DATABASE CONFIGURATION
 // ============================================================
 
 const DB_NAME = 'vaulthealth';
-const DB_VERSION = 2; // Bumped for morningRatings store
+const DB_VERSION = 3; // Bumped to re-date nights with the shared night assignment
 
 interface VaultHealthDB {
   users: User;
@@ -36,7 +48,7 @@ interface VaultHealthDB {
   computedInsights: ComputedInsight;
   importerProfiles: ImporterProfile;
   morningRatings: MorningRating;
-  rawFiles: { id: string; data: ArrayBuffer; mimeType: string };
+  rawFiles: RawFile;
 }
 
 type StoreName = keyof VaultHealthDB;
@@ -57,7 +69,7 @@ export async function initDatabase(): Promise<IDBDatabase> {
 
     request.onsuccess = () => {
       dbInstance = request.result;
-      resolve(dbInstance);
+      resolve(request.result);
     };
 
     request.onupgradeneeded = (event) => {
@@ -146,6 +158,13 @@ export async function initDatabase(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains('rawFiles')) {
         db.createObjectStore('rawFiles', { keyPath: 'id' });
       }
+
+      // Nights stored before version 3 were dated by each importer's own
+      // rules; re-dated in the upgrade, so a failure leaves the old version
+      const upgrade = request.transaction;
+      if (upgrade && event.oldVersion > 0 && event.oldVersion < 3) {
+        redateNightsIn(upgrade);
+      }
     };
   });
 }
@@ -243,6 +262,30 @@ export async function remove<T extends StoreName>(
   });
 }
 
+export async function removeByIndex<T extends StoreName>(
+  storeName: T,
+  indexName: string,
+  value: IDBValidKey | IDBKeyRange
+): Promise<void> {
+  const db = await initDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const index = tx.objectStore(storeName).index(indexName);
+    const request = index.openKeyCursor(value);
+
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(storeName).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+}
+
 export async function clear<T extends StoreName>(storeName: T): Promise<void> {
   const db = await initDatabase();
   return new Promise((resolve, reject) => {
@@ -265,6 +308,232 @@ export async function count<T extends StoreName>(storeName: T): Promise<number>
   });
 }
 
+/**
+ * Store a new Source with its records (and its retained files) in one
+ * transaction, so an import interrupted partway leaves nothing behind.
+ * Stores named in `replacing` already hold records written under the
+ * Source while a streamed import was parsed; those are deleted first.
+ */
+export async function storeSourceRecords(
+  source: Source,
+  records: {
+    sleepSessions: SleepSession[];
+    workoutSessions: WorkoutSession[];
+    dailyMetrics: DailyMetric[];
+    timeSeries: TimeSeries[];
+    annotations: Annotation[];
+  },
+  rawFile?: RawFile,
+  replacing: Array<'sleepSessions' | 'workoutSessions' | 'dailyMetrics' | 'timeSeries'> = []
+): Promise<void> {
+  const db = await initDatabase();
+  const recordStores = ['sleepSessions', 'workoutSessions', 'dailyMetrics', 'timeSeries', 'annotations'] as const;
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['sources', 'rawFiles', ...recordStores], 'readwrite');
+
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+
+    if (rawFile) {
+      tx.objectStore('rawFiles').put(rawFile);
+    }
+    tx.objectStore('sources').put(source);
+
+    for (const storeName of recordStores) {
+      const store = tx.objectStore(storeName);
+      const write = () => {
+        for (const record of records[storeName]) {
+          store.put(record);
+        }
+      };
+
+      if (storeName === 'annotations' || !replacing.includes(storeName)) {
+        write();
+        continue;
+      }
+
+      const request = store.index('sourceId').openKeyCursor(source.id);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          // Written after the deletes, so records keeping their id survive
+          write();
+          return;
+        }
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    }
+  });
+}
+
+/**
+ * Replace all records of a Source in one transaction: the records stored
+ * under its id are deleted and the given ones written (annotations,
+ * which carry no source, are only written). Sessions it merged with
+ * other sources' recordings are rebuilt from those first, as on
+ * deleteSource, so a night the re-import no longer yields is not lost.
+ * If any write fails nothing changes.
+ */
+export async function replaceSourceRecords(
+  source: Source,
+  records: {
+    sleepSessions: SleepSession[];
+    workoutSessions: WorkoutSession[];
+    dailyMetrics: DailyMetric[];
+    timeSeries: TimeSeries[];
+    annotations: Annotation[];
+  }
+): Promise<void> {
+  const rebuild = await sessionRebuilders(source.id, source.userId);
+  const db = await initDatabase();
+  const sessionStores = ['sleepSessions', 'workoutSessions'] as const;
+  const recordStores = ['dailyMetrics', 'timeSeries'] as const;
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['sources', 'annotations', ...sessionStores, ...recordStores], 'readwrite');
+
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+
+    tx.objectStore('sources').put(source);
+    for (const annotation of records.annotations) {
+      tx.objectStore('annotations').put(annotation);
+    }
+
+    // Written after the deletes, so records keeping their id survive
+    const write = (storeName: typeof sessionStores[number] | typeof recordStores[number]) => {
+      const store = tx.objectStore(storeName);
+      for (const record of records[storeName]) {
+        store.put(record);
+      }
+    };
+
+    // A source's recordings can sit in sessions owned by any source, so every session is visited
+    for (const storeName of sessionStores) {
+      const request = tx.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          write(storeName);
+          return;
+        }
+
+        const remaining = rebuild[storeName](cursor.value);
+        if (!remaining) {
+          cursor.delete();
+        } else if (remaining !== cursor.value) {
+          cursor.update(remaining);
+        }
+        cursor.continue();
+      };
+    }
+
+    for (const storeName of recordStores) {
+      const store = tx.objectStore(storeName);
+      const request = store.index('sourceId').openKeyCursor(source.id);
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          write(storeName);
+          return;
+        }
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    }
+  });
+}
+
+// ============================================================
+// SOURCE REMOVAL
+// ============================================================
+
+/**
+ * Delete a Source with everything imported from it in one transaction.
+ * Sleep sessions and workouts it merged with other sources' recordings
+ * are rebuilt from those, so no value or provenance of it is left behind.
+ */
+export async function deleteSource(sourceId: string): Promise<void> {
+  const rebuild = await sessionRebuilders(sourceId, (await get('sources', sourceId))?.userId);
+  const db = await initDatabase();
+  const sessionStores = ['sleepSessions', 'workoutSessions'] as const;
+  const recordStores = ['dailyMetrics', 'timeSeries'] as const;
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['sources', 'rawFiles', ...sessionStores, ...recordStores], 'readwrite');
+
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+
+    const sources = tx.objectStore('sources');
+    const sourceRequest = sources.get(sourceId);
+    sourceRequest.onsuccess = () => {
+      const source = sourceRequest.result as Source | undefined;
+      if (source?.rawDataRef) {
+        tx.objectStore('rawFiles').delete(source.rawDataRef);
+      }
+      sources.delete(sourceId);
+    };
+
+    // A source's recordings can sit in sessions owned by any source, so every session is visited
+    for (const storeName of sessionStores) {
+      const request = tx.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const remaining = rebuild[storeName](cursor.value);
+        if (!remaining) {
+          cursor.delete();
+        } else if (remaining !== cursor.value) {
+          cursor.update(remaining);
+        }
+        cursor.continue();
+      };
+    }
+
+    for (const storeName of recordStores) {
+      const request = tx.objectStore(storeName).index('sourceId').openCursor(sourceId);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    }
+  });
+}
+
+/**
+ * Per session store, a session as it would be without the source: rebuilt
+ * from the other sources' recordings it merged, by the user's vendor
+ * priority for sleep and by the recording sources' vendors for workouts.
+ */
+async function sessionRebuilders(sourceId: string, userId: string | undefined) {
+  const { vendorPriority } = userId ? await getUserSettings(userId) : defaultUserSettings();
+  const vendorBySource = new Map((await getAll('sources')).map(source => [source.id, source.vendor]));
+  const vendorOf = (workout: WorkoutSession) => vendorBySource.get(workout.sourceId) ?? 'unknown';
+
+  return {
+    sleepSessions: (session: SleepSession) => withoutSource(
+      session,
+      sourceId,
+      (existing, incoming) => mergeSleepSessions(existing, incoming, vendorPriority)
+    ),
+    workoutSessions: (workout: WorkoutSession) => withoutSource(
+      workout,
+      sourceId,
+      (existing, incoming) => mergeWorkoutSessions(existing, incoming, vendorOf)
+    ),
+  };
+}
+
 // ============================================================
 // SPECIALIZED QUERIES
 // ============================================================
@@ -362,6 +631,146 @@ export async function getMorningRatingByDate(
   });
 }
 
+// ============================================================
+// USER SETTINGS
+// ============================================================
+
+export function defaultUserSettings(): UserSettings {
+  return {
+    sleepTarget: 8,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    displayUnits: 'metric',
+    outlierThreshold: 3,
+    dayBoundaryHour: DEFAULT_DAY_BOUNDARY_HOUR,
+  };
+}
+
+/**
+ * The user's settings, with defaults for anything never saved.
+ */
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const user = await get('users', userId);
+  return { ...defaultUserSettings(), ...user?.settings };
+}
+
+export async function saveUserSettings(
+  userId: string,
+  changes: Partial<UserSettings>
+): Promise<UserSettings> {
+  const user = await get('users', userId);
+  const settings = { ...defaultUserSettings(), ...user?.settings, ...changes };
+  await put('users', {
+    id: userId,
+    createdAt: user?.createdAt ?? new Date().toISOString(),
+    settings,
+  });
+  return settings;
+}
+
+// ============================================================
+// NIGHT RE-DATING
+// ============================================================
+
+// Vendors whose session starts are UTC instants; their nights are dated
+// in the home timezone from scratch
+const INSTANT_VENDORS = new Set<VendorType>(['eight_sleep', 'garmin']);
+
+/**
+ * Re-date a user's stored nights after their timezone or day boundary
+ * changed from `previous`. Returns how many sessions moved.
+ */
+export async function redateSleepSessions(userId: string, previous: NightOptions): Promise<number> {
+  const db = await initDatabase();
+  return redateNights(db, userId, previous);
+}
+
+/**
+ * Move stored nights to the date the current settings give them, in one
+ * transaction. Stored starts are UTC, so the offset a vendor recorded is
+ * gone: nights from other vendors keep their date and move only by as
+ * many days as the settings change moves them in the home timezone,
+ * which leaves nights slept abroad where they were. Without `previous`
+ * (the version 3 migration) nights are taken to have been dated with a
+ * 6am boundary in the home timezone. Sessions that end up sharing a
+ * date are left for the next import's dedup to see.
+ */
+function redateNights(db: IDBDatabase, userId?: string, previous?: NightOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['users', 'sources', 'sleepSessions'], 'readwrite');
+    let redated = 0;
+
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve(redated);
+
+    redateNightsIn(tx, () => redated++, userId, previous);
+  });
+}
+
+// Re-date nights within a transaction over users, sources and sleepSessions
+function redateNightsIn(
+  tx: IDBTransaction,
+  onRedated?: () => void,
+  userId?: string,
+  previous?: NightOptions
+): void {
+  const usersRequest = tx.objectStore('users').getAll();
+  const sourcesRequest = tx.objectStore('sources').getAll();
+
+  // Requests in a transaction complete in order, so users are loaded here too
+  sourcesRequest.onsuccess = () => {
+    const settings = new Map((usersRequest.result as User[]).map(user => [
+      user.id,
+      nightOptions({ ...defaultUserSettings(), ...user.settings }),
+    ]));
+    const vendors = new Map((sourcesRequest.result as Source[]).map(source => [source.id, source.vendor]));
+
+    const store = tx.objectStore('sleepSessions');
+    const request = userId ? store.index('userId').openCursor(userId) : store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const session = cursor.value as SleepSession;
+      const current = settings.get(session.userId) ?? nightOptions(defaultUserSettings());
+      const from = previous ?? { ...current, dayBoundaryHour: DEFAULT_DAY_BOUNDARY_HOUR };
+      const moved = redateSession(session, from, current, vendors);
+      if (moved !== session) {
+        cursor.update(moved);
+        onRedated?.();
+      }
+      cursor.continue();
+    };
+  };
+}
+
+// The session, and the recordings it merged, on their current night
+function redateSession(
+  session: SleepSession,
+  previous: NightOptions,
+  current: NightOptions,
+  vendors: Map<string, VendorType>
+): SleepSession {
+  const contributions = session.contributions?.map(c => redateSession(c, previous, current, vendors));
+  const date = redatedNight(session, previous, current, vendors.get(session.sourceId));
+  const unchanged = !contributions || contributions.every((c, i) => c === session.contributions?.[i]);
+  if (date === session.date && unchanged) return session;
+  return contributions ? { ...session, date, contributions } : { ...session, date };
+}
+
+function redatedNight(
+  session: SleepSession,
+  previous: NightOptions,
+  current: NightOptions,
+  vendor: VendorType | undefined
+): string {
+  if (isNaN(Date.parse(session.startedAt))) return session.date;
+  if (vendor && INSTANT_VENDORS.has(vendor)) return nightOf(session.startedAt, current);
+
+  const shift = daysBetween(nightOf(session.startedAt, previous), nightOf(session.startedAt, current));
+  return shift === 0 ? session.date : shiftDate(session.date, shift);
+}
+
 // ============================================================
 // DATABASE MANAGEMENT
 // ============================================================
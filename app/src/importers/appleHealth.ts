@@ -5,22 +5,29 @@
  *
  * Apple Health exports contain data from multiple sources:
  * - Sleep data (Apple Watch, Eight Sleep, Oura, etc.)
- * - Heart rate (Apple Watch, Peloton, Oura, etc.)
+ * - Heart rate, HRV, respiratory rate, SpO2 (stored overnight as time series)
  * - Workouts (Apple Watch, Peloton, Orangetheory, etc.)
- * - Body measurements, steps, etc.
+ * - Body measurements, VO2 max, energy, exercise and mindful minutes
  *
- * The XML can be very large (500MB+), so we use streaming parsing.
+ * The XML can be very large (several GB), so it is tokenized incrementally;
+ * streamAppleHealthExport reads it straight from a File stream.
  */
 
 import type {
   SleepSession,
   WorkoutSession,
   DailyMetric,
+  TimeSeries,
+  TimeSeriesMetricType,
+  DailyMetricType,
   DataQualityFlags,
   WorkoutType,
   ImporterProfile,
+  HighWaterMarks,
 } from '../types/schema';
 import { generateId } from '../utils/crypto';
+import { defaultNightOptions, localDateOf, nightOf, shiftDate, type NightOptions } from '../utils/nightDate';
+import { createXmlStreamParser, type XmlStreamHandlers } from '../utils/xmlStream';
 
 // ============================================================
 // TYPES
@@ -60,10 +67,20 @@ export interface WorkoutStatistic {
   unit?: string;
 }
 
+/**
+ * Records of one HealthKit type that became canonical data, and those
+ * that were skipped (unsupported type or unusable value).
+ */
+export interface AppleHealthTypeSummary {
+  imported: number;
+  ignored: number;
+}
+
 export interface AppleHealthImportResult {
   sleepSessions: SleepSession[];
   workoutSessions: WorkoutSession[];
   dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[]; // Overnight series, linked to sleepSessions
   sources: Set<string>;
   recordCounts: {
     sleep: number;
@@ -74,6 +91,10 @@ export interface AppleHealthImportResult {
     steps: number;
     other: number;
   };
+  // By HealthKit identifier, e.g. HKQuantityTypeIdentifierStepCount
+  typeSummary: Record<string, AppleHealthTypeSummary>;
+  // Records an earlier import already covered
+  skippedRecords: number;
 }
 
 // ============================================================
@@ -88,10 +109,25 @@ export const APPLE_HEALTH_PROFILE: ImporterProfile = {
   version: '1.0',
   createdAt: new Date().toISOString(),
   isBuiltIn: true,
-  filePatterns: [{
-    fileType: 'xml',
-    fileNamePattern: 'export\\.xml$',
-  }],
+  filePatterns: [
+    {
+      fileType: 'xml',
+      fileNamePattern: 'export\\.xml$',
+    },
+    {
+      fileType: 'xml',
+      xmlRootElement: 'HealthData',
+    },
+    {
+      // Pre-parsed JSON from the streaming importer
+      fileType: 'json',
+      jsonSignature: '$.workoutSessions',
+    },
+    {
+      fileType: 'zip',
+      zipContains: ['apple_health_export/export.xml'],
+    },
+  ],
   mappings: [],
 };
 
@@ -99,18 +135,213 @@ export const APPLE_HEALTH_PROFILE: ImporterProfile = {
 // MAIN PARSER
 // ============================================================
 
+// The in-memory document is fed to the tokenizer in slices of this size
+const PARSE_SLICE_CHARS = 4 * 1024 * 1024;
+
 export async function parseAppleHealthXML(
   xmlContent: string,
   sourceId: string,
   userId: string,
-  onProgress?: (percent: number, message: string) => void
+  onProgress?: (percent: number, message: string) => void,
+  night: NightOptions = defaultNightOptions(),
+  since?: HighWaterMarks
 ): Promise<AppleHealthImportResult> {
   onProgress?.(5, 'Parsing Apple Health data...');
 
+  const collector = createAppleHealthCollector(sourceId, userId, night, since);
+  const parser = createXmlStreamParser(collector);
+  const result = collector.result;
+
+  // Parse Records and Workouts
+  onProgress?.(10, 'Extracting health records...');
+  for (let offset = 0; offset < xmlContent.length; offset += PARSE_SLICE_CHARS) {
+    parser.write(xmlContent.slice(offset, offset + PARSE_SLICE_CHARS));
+
+    const percent = 10 + (offset / xmlContent.length) * 60;
+    onProgress?.(percent, `Processing record ${totalRecords(result).toLocaleString()}...`);
+  }
+  parser.end();
+  collector.addDailyTotals();
+
+  // Transform sleep segments into sessions and their time series
+  onProgress?.(70, 'Building sleep sessions...');
+  const nights = collector.buildSleepSessions();
+  result.sleepSessions = nights.sleepSessions;
+  result.timeSeries = nights.timeSeries;
+
+  // Sort sessions by date
+  result.sleepSessions.sort((a, b) => a.date.localeCompare(b.date));
+  result.workoutSessions.sort((a, b) => a.date.localeCompare(b.date));
+
+  onProgress?.(100, 'Import complete!');
+
+  return result;
+}
+
+// ============================================================
+// STREAMING IMPORT
+// ============================================================
+
+/**
+ * Records ready to be stored while the rest of the export is still read.
+ */
+export interface AppleHealthBatch {
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+}
+
+export interface AppleHealthStreamOptions {
+  onBatch: (batch: AppleHealthBatch) => Promise<void>;
+  onProgress?: (percent: number, message: string) => void;
+  isCancelled?: () => boolean;
+  batchSize?: number;
+  // How sleep is assigned to nights; the device's timezone by default
+  night?: NightOptions;
+  // Marks of earlier imports; records at or before them are skipped
+  since?: HighWaterMarks;
+}
+
+/**
+ * Workouts and metrics have already been handed to onBatch, so only their
+ * counts come back. Sleep sessions and their time series need every
+ * segment and sample of a night before they can be built, so they are
+ * returned whole.
+ */
+export interface AppleHealthStreamResult {
+  sleepSessions: SleepSession[];
+  timeSeries: TimeSeries[];
+  sources: string[];
+  recordCounts: AppleHealthImportResult['recordCounts'];
+  typeSummary: AppleHealthImportResult['typeSummary'];
+  storedCounts: {
+    workoutSessions: number;
+    dailyMetrics: number;
+  };
+  // Date of the latest value of each daily metric handed to onBatch
+  latestMetricDates: NonNullable<HighWaterMarks['dailyMetrics']>;
+  skippedRecords: number;
+}
+
+const DEFAULT_BATCH_SIZE = 5000;
+
+/**
+ * Import an export.xml read as a byte stream (File.stream()), so exports
+ * of several GB never have to be held in memory as one string.
+ */
+export async function streamAppleHealthExport(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  sourceId: string,
+  userId: string,
+  options: AppleHealthStreamOptions
+): Promise<AppleHealthStreamResult> {
+  const { onBatch, onProgress, isCancelled, batchSize = DEFAULT_BATCH_SIZE, night = defaultNightOptions(), since } = options;
+
+  const collector = createAppleHealthCollector(sourceId, userId, night, since);
+  const parser = createXmlStreamParser(collector);
+  const result = collector.result;
+  const storedCounts = { workoutSessions: 0, dailyMetrics: 0 };
+  const latestMetricDates: AppleHealthStreamResult['latestMetricDates'] = {};
+
+  const flush = async () => {
+    const batch: AppleHealthBatch = {
+      workoutSessions: result.workoutSessions.splice(0),
+      dailyMetrics: result.dailyMetrics.splice(0),
+    };
+    if (batch.workoutSessions.length === 0 && batch.dailyMetrics.length === 0) return;
+
+    await onBatch(batch);
+    storedCounts.workoutSessions += batch.workoutSessions.length;
+    storedCounts.dailyMetrics += batch.dailyMetrics.length;
+    for (const metric of batch.dailyMetrics) {
+      const latest = latestMetricDates[metric.metricType];
+      if (!latest || metric.date > latest) latestMetricDates[metric.metricType] = metric.date;
+    }
+  };
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let bytesRead = 0;
+  let lastPercent = -1;
+
+  onProgress?.(0, 'Reading Apple Health export...');
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (isCancelled?.()) throw new Error('Cancelled by user');
+
+      bytesRead += value.byteLength;
+      parser.write(decoder.decode(value, { stream: true }));
+
+      if (result.workoutSessions.length + result.dailyMetrics.length >= batchSize) {
+        await flush();
+      }
+
+      // Chunks are small; only report whole-percent steps
+      const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 95) : 0;
+      if (percent > lastPercent) {
+        lastPercent = percent;
+        onProgress?.(percent, `Processing record ${totalRecords(result).toLocaleString()}...`);
+      }
+    }
+  } catch (e) {
+    await reader.cancel().catch(() => undefined);
+    throw e;
+  }
+
+  parser.write(decoder.decode());
+  parser.end();
+  collector.addDailyTotals();
+  await flush();
+
+  onProgress?.(95, 'Building sleep sessions...');
+  const { sleepSessions, timeSeries } = collector.buildSleepSessions();
+  sleepSessions.sort((a, b) => a.date.localeCompare(b.date));
+
+  onProgress?.(100, 'Import complete!');
+
+  return {
+    sleepSessions,
+    timeSeries,
+    sources: [...result.sources],
+    recordCounts: result.recordCounts,
+    typeSummary: result.typeSummary,
+    storedCounts,
+    latestMetricDates,
+    skippedRecords: result.skippedRecords,
+  };
+}
+
+// ============================================================
+// RECORD COLLECTION
+// ============================================================
+
+interface AppleHealthCollector extends XmlStreamHandlers {
+  result: AppleHealthImportResult;
+  // Called once every record has been read
+  addDailyTotals(): void;
+  buildSleepSessions(): { sleepSessions: SleepSession[]; timeSeries: TimeSeries[] };
+}
+
+/**
+ * Turns Record and Workout elements into canonical records as the XML
+ * tokenizer reports them. Samples for the overnight series are buffered
+ * compactly, since the sleep records that bound each night may come
+ * before or after them in the export.
+ */
+function createAppleHealthCollector(
+  sourceId: string,
+  userId: string,
+  night: NightOptions,
+  since?: HighWaterMarks
+): AppleHealthCollector {
   const result: AppleHealthImportResult = {
     sleepSessions: [],
     workoutSessions: [],
     dailyMetrics: [],
+    timeSeries: [],
     sources: new Set(),
     recordCounts: {
       sleep: 0,
@@ -121,86 +352,85 @@ export async function parseAppleHealthXML(
       steps: 0,
       other: 0,
     },
+    typeSummary: {},
+    skippedRecords: 0,
   };
 
-  // Parse records using regex (faster than DOM parsing for large files)
-  const recordRegex = /<Record\s+([^>]+)\/?>|<Record\s+([^>]+)>[\s\S]*?<\/Record>/g;
-  const workoutRegex = /<Workout\s+([^>]+)>[\s\S]*?<\/Workout>|<Workout\s+([^>]+)\/>/g;
+  // Records an earlier import covered are dropped before any parsing.
+  // Overnight samples only serve nights, so they share the sleep mark.
+  // Daily metrics are read again from their marked day, which the earlier
+  // export may have ended partway through.
+  const sleepMark = since?.sleepSessions ? createMark(since.sleepSessions) : undefined;
+  const workoutMark = since?.workoutSessions ? createMark(since.workoutSessions) : undefined;
+  const metricMarks = since?.dailyMetrics ?? {};
 
   // Collect sleep segments by date and source
   const sleepSegments: Map<string, AppleHealthRecord[]> = new Map();
-  const heartRateBySession: Map<string, number[]> = new Map();
-  const hrvByDate: Map<string, number[]> = new Map();
+  const samples: Map<TimeSeriesMetricType, SampleBuffer> = new Map();
+  const dailyTotals: Map<string, DailyTotal> = new Map();
 
-  let match;
-  let recordCount = 0;
-  const totalSize = xmlContent.length;
+  // Workout whose WorkoutStatistics children are still being read
+  let openWorkout: { workout: AppleHealthWorkout; statistics: WorkoutStatistic[] } | null = null;
 
-  // Parse Records
-  onProgress?.(10, 'Extracting health records...');
-  while ((match = recordRegex.exec(xmlContent)) !== null) {
-    recordCount++;
-    if (recordCount % 50000 === 0) {
-      const percent = 10 + (match.index / totalSize) * 40;
-      onProgress?.(percent, `Processing record ${recordCount.toLocaleString()}...`);
-    }
+  function handleRecord(record: AppleHealthRecord): void {
+    if (!record.type || !record.startDate) return;
 
-    const attrString = match[1] || match[2];
-    const record = parseAttributes(attrString) as unknown as AppleHealthRecord;
+    result.sources.add(record.sourceName || 'Unknown');
+    if (isCovered(record)) {
+      result.skippedRecords++;
+      return;
+    }
+    const date = record.startDate.split(' ')[0];
+    let imported = false;
 
-    if (!record.type || !record.startDate) continue;
+    const series = SAMPLE_SERIES[record.type];
+    if (series) {
+      imported = addSample(samples, series.metricType, record) || imported;
+    }
 
-    result.sources.add(record.sourceName || 'Unknown');
+    const daily = DAILY_METRICS[record.type];
+    if (daily) {
+      imported = addDailyValue(dailyTotals, daily, record, night) || imported;
+    }
 
     switch (record.type) {
-      case 'HKCategoryTypeIdentifierSleepAnalysis':
+      case SLEEP_TYPE: {
         result.recordCounts.sleep++;
-        const sleepDate = record.startDate.split(' ')[0];
-        const key = `${sleepDate}_${record.sourceName}`;
+        const key = `${nightOf(record.startDate, night)}_${record.sourceName}`;
         if (!sleepSegments.has(key)) {
           sleepSegments.set(key, []);
         }
         sleepSegments.get(key)!.push(record);
+        imported = true;
         break;
+      }
 
       case 'HKQuantityTypeIdentifierHeartRate':
         result.recordCounts.heartRate++;
-        // Associate with sleep session by date
-        const hrDate = record.startDate.split(' ')[0];
-        if (!heartRateBySession.has(hrDate)) {
-          heartRateBySession.set(hrDate, []);
-        }
-        if (record.value) {
-          heartRateBySession.get(hrDate)!.push(parseFloat(record.value));
-        }
         break;
 
       case 'HKQuantityTypeIdentifierHeartRateVariabilitySDNN':
         result.recordCounts.hrv++;
-        const hrvDate = record.startDate.split(' ')[0];
-        if (!hrvByDate.has(hrvDate)) {
-          hrvByDate.set(hrvDate, []);
-        }
-        if (record.value) {
-          hrvByDate.get(hrvDate)!.push(parseFloat(record.value));
-        }
         break;
 
-      case 'HKQuantityTypeIdentifierBodyMass':
+      case WEIGHT_TYPE: {
         result.recordCounts.weight++;
-        if (record.value) {
+        const weightKg = record.value ? toKilograms(parseFloat(record.value), record.unit || 'lb') : undefined;
+        if (weightKg !== undefined && !isNaN(weightKg)) {
           result.dailyMetrics.push({
             id: generateId(),
             userId,
             sourceId,
-            date: record.startDate.split(' ')[0],
+            date,
             metricType: 'weight',
-            value: parseFloat(record.value),
-            unit: record.unit || 'lb',
+            value: Math.round(weightKg * 100) / 100,
+            unit: 'kg',
             dataQuality: defaultQualityFlags(),
           });
+          imported = true;
         }
         break;
+      }
 
       case 'HKQuantityTypeIdentifierStepCount':
         result.recordCounts.steps++;
@@ -209,97 +439,510 @@ export async function parseAppleHealthXML(
       default:
         result.recordCounts.other++;
     }
+
+    countType(record.type, imported);
+  }
+
+  // A record feeding both a series and a daily metric is kept until both are covered
+  function isCovered(record: AppleHealthRecord): boolean {
+    const forNights = SAMPLE_SERIES[record.type] !== undefined || record.type === SLEEP_TYPE;
+    const mapping = record.type === WEIGHT_TYPE ? WEIGHT_MAPPING : DAILY_METRICS[record.type];
+    if (!forNights && !mapping) return false;
+
+    // Night metrics are dated by the night, which the device's timezone
+    // can put a day off the record's own date
+    const metricMark = mapping && metricMarks[mapping.metricType];
+    const firstDay = metricMark && (mapping.night ? shiftDate(metricMark, -1) : metricMark);
+    return (!forNights || (sleepMark !== undefined && isAtOrBefore(record.startDate, sleepMark))) &&
+      (!mapping || (!!firstDay && record.startDate.slice(0, 10) < firstDay));
   }
 
-  // Parse Workouts
-  onProgress?.(55, 'Extracting workouts...');
-  while ((match = workoutRegex.exec(xmlContent)) !== null) {
-    const attrString = match[1] || match[2];
-    const workout = parseWorkoutAttributes(attrString);
+  function countType(type: string, imported: boolean): void {
+    const summary = result.typeSummary[type] ?? (result.typeSummary[type] = { imported: 0, ignored: 0 });
+    if (imported) summary.imported++;
+    else summary.ignored++;
+  }
 
-    if (!workout.workoutActivityType || !workout.startDate) continue;
+  function handleWorkout(workout: AppleHealthWorkout, statistics: WorkoutStatistic[]): void {
+    if (!workout.workoutActivityType || !workout.startDate) {
+      countType(WORKOUT_TYPE, false);
+      return;
+    }
 
-    result.recordCounts.workouts++;
     result.sources.add(workout.sourceName || 'Unknown');
-
-    // Parse workout statistics if present
-    const workoutXml = match[0];
-    const statsRegex = /<WorkoutStatistics\s+([^>]+)\/>/g;
-    let statsMatch;
-    const statistics: WorkoutStatistic[] = [];
-    while ((statsMatch = statsRegex.exec(workoutXml)) !== null) {
-      const stat = parseAttributes(statsMatch[1]);
-      statistics.push({
-        type: stat.type,
-        average: stat.average ? parseFloat(stat.average) : undefined,
-        minimum: stat.minimum ? parseFloat(stat.minimum) : undefined,
-        maximum: stat.maximum ? parseFloat(stat.maximum) : undefined,
-        sum: stat.sum ? parseFloat(stat.sum) : undefined,
-        unit: stat.unit,
-      });
+    if (workoutMark && isAtOrBefore(workout.startDate, workoutMark)) {
+      result.skippedRecords++;
+      return;
     }
 
-    const workoutSession = transformWorkout(workout, statistics, sourceId, userId);
+    result.recordCounts.workouts++;
+
+    const workoutSession = transformWorkout(workout, statistics, sourceId, userId, night);
     if (workoutSession) {
       result.workoutSessions.push(workoutSession);
     }
+    countType(WORKOUT_TYPE, workoutSession !== null);
   }
 
-  // Transform sleep segments into sessions
-  onProgress?.(70, 'Building sleep sessions...');
-  const processedDates = new Set<string>();
-
-  for (const [key, segments] of sleepSegments) {
-    const [date, source] = key.split('_');
-
-    // Skip if we already have a session for this date from a better source
-    if (processedDates.has(date)) continue;
-
-    const session = transformSleepSegments(segments, date, source, sourceId, userId);
-    if (session) {
-      // Add HR and HRV data if available
-      const hrData = heartRateBySession.get(date);
-      if (hrData && hrData.length > 0) {
-        session.minHeartRate = Math.min(...hrData);
-        session.avgHeartRate = hrData.reduce((a, b) => a + b, 0) / hrData.length;
-        session.maxHeartRate = Math.max(...hrData);
+  return {
+    result,
+
+    onOpenTag(name, attrs, selfClosing) {
+      switch (name) {
+        case 'Record':
+          handleRecord(attrs as unknown as AppleHealthRecord);
+          break;
+
+        case 'Workout': {
+          const workout = parseWorkoutAttributes(attrs);
+          if (selfClosing) {
+            handleWorkout(workout, []);
+          } else {
+            openWorkout = { workout, statistics: [] };
+          }
+          break;
+        }
+
+        case 'WorkoutStatistics':
+          openWorkout?.statistics.push(parseWorkoutStatistic(attrs));
+          break;
       }
+    },
 
-      const hrvData = hrvByDate.get(date);
-      if (hrvData && hrvData.length > 0) {
-        session.avgHrv = hrvData.reduce((a, b) => a + b, 0) / hrvData.length;
+    onCloseTag(name) {
+      if (name === 'Workout' && openWorkout) {
+        handleWorkout(openWorkout.workout, openWorkout.statistics);
+        openWorkout = null;
       }
+    },
 
-      result.sleepSessions.push(session);
-      processedDates.add(date);
-    }
+    addDailyTotals() {
+      for (const total of dailyTotals.values()) {
+        const metricMark = metricMarks[total.mapping.metricType];
+        if (metricMark && total.date < metricMark) continue;
+        const value = total.mapping.aggregate === 'sum' ? total.sum : total.sum / total.count;
+        result.dailyMetrics.push({
+          id: generateId(),
+          userId,
+          sourceId,
+          date: total.date,
+          metricType: total.mapping.metricType,
+          value: Math.round(value * 10) / 10,
+          unit: total.mapping.unit,
+          dataQuality: defaultQualityFlags(),
+        });
+      }
+      dailyTotals.clear();
+    },
+
+    buildSleepSessions() {
+      const sessions: SleepSession[] = [];
+      const timeSeries: TimeSeries[] = [];
+
+      for (const buffer of samples.values()) {
+        sortSamples(buffer);
+      }
+
+      const periods = [...sleepSegments.values()].flatMap(splitSleepPeriods);
+      for (const segments of periods) {
+        const date = nightOf(segments[0].startDate, night);
+        const source = segments[0].sourceName;
+
+        const session = transformSleepSegments(segments, date, source, sourceId, userId);
+        if (!session) continue;
+
+        // Another source's recording of this period (Watch and iPhone) is
+        // kept for dedup to merge by completeness; the stages and overnight
+        // samples are stored once, with the first of them
+        const recorded = sessions.some(other => overlaps(other, session));
+
+        const stages = buildStageSeries(segments, session, sourceId, userId);
+        if (stages && !recorded) timeSeries.push(stages);
+
+        // Add overnight HR, HRV and respiratory rate if available
+        for (const [metricType, buffer] of samples) {
+          const overnight = buildSampleSeries(buffer, metricType, session, sourceId, userId);
+          if (!overnight) continue;
+          if (!recorded) timeSeries.push(overnight.series);
+
+          if (metricType === 'heart_rate') {
+            session.minHeartRate = overnight.stats.min;
+            session.avgHeartRate = overnight.stats.mean;
+            session.maxHeartRate = overnight.stats.max;
+          } else if (metricType === 'hrv') {
+            session.avgHrv = overnight.stats.mean;
+          } else if (metricType === 'respiratory_rate') {
+            session.avgRespiratoryRate = overnight.stats.mean;
+          }
+        }
+
+        sessions.push(session);
+      }
+
+      return { sleepSessions: sessions, timeSeries };
+    },
+  };
+}
+
+function totalRecords(result: AppleHealthImportResult): number {
+  return Object.values(result.recordCounts).reduce((sum, n) => sum + n, 0);
+}
+
+// ============================================================
+// DAILY METRICS
+// ============================================================
+
+// HealthKit's identifier for workouts, used as their typeSummary key
+const WORKOUT_TYPE = 'HKWorkoutTypeIdentifier';
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+const WEIGHT_TYPE = 'HKQuantityTypeIdentifierBodyMass';
+
+/**
+ * Record types reduced to one DailyMetric per day. Values are converted
+ * from the record's unit attribute to the stored unit. Measurements
+ * taken during sleep are dated by the night they belong to.
+ */
+interface DailyMetricMapping {
+  metricType: DailyMetricType;
+  unit: string;
+  aggregate: 'mean' | 'sum';
+  night?: boolean;
+  convert?: (value: number, unit: string) => number | undefined;
+}
+
+// Weights are stored one per reading rather than reduced to a day
+const WEIGHT_MAPPING: DailyMetricMapping = { metricType: 'weight', unit: 'kg', aggregate: 'mean' };
+
+const DAILY_METRICS: Record<string, DailyMetricMapping> = {
+  HKQuantityTypeIdentifierRestingHeartRate: { metricType: 'resting_heart_rate', unit: 'bpm', aggregate: 'mean' },
+  HKQuantityTypeIdentifierVO2Max: { metricType: 'vo2_max', unit: 'mL/kg/min', aggregate: 'mean' },
+  HKQuantityTypeIdentifierOxygenSaturation: { metricType: 'spo2', unit: '%', aggregate: 'mean', convert: toPercent },
+  HKQuantityTypeIdentifierRespiratoryRate: { metricType: 'respiratory_rate', unit: 'brpm', aggregate: 'mean' },
+  HKQuantityTypeIdentifierAppleSleepingWristTemperature: {
+    metricType: 'body_temperature',
+    unit: '°C',
+    aggregate: 'mean',
+    night: true,
+    convert: toCelsius,
+  },
+  HKQuantityTypeIdentifierBodyFatPercentage: { metricType: 'body_fat_percent', unit: '%', aggregate: 'mean', convert: toPercent },
+  HKQuantityTypeIdentifierActiveEnergyBurned: { metricType: 'active_energy', unit: 'kcal', aggregate: 'sum', convert: toKilocalories },
+  HKQuantityTypeIdentifierAppleExerciseTime: { metricType: 'exercise_minutes', unit: 'min', aggregate: 'sum', convert: toMinutes },
+  // Category samples: the value is the session's length
+  HKCategoryTypeIdentifierMindfulSession: { metricType: 'mindful_minutes', unit: 'min', aggregate: 'sum' },
+};
+
+interface DailyTotal {
+  mapping: DailyMetricMapping;
+  date: string;
+  sum: number;
+  count: number;
+}
+
+function addDailyValue(
+  totals: Map<string, DailyTotal>,
+  mapping: DailyMetricMapping,
+  record: AppleHealthRecord,
+  night: NightOptions
+): boolean {
+  let value: number | undefined;
+
+  if (mapping.metricType === 'mindful_minutes') {
+    const start = parseAppleDate(record.startDate)?.getTime();
+    const end = parseAppleDate(record.endDate)?.getTime();
+    value = start !== undefined && end !== undefined ? (end - start) / 60000 : undefined;
+  } else {
+    const raw = record.value ? parseFloat(record.value) : NaN;
+    value = mapping.convert ? mapping.convert(raw, record.unit || '') : raw;
   }
 
-  // Sort sessions by date
-  result.sleepSessions.sort((a, b) => a.date.localeCompare(b.date));
-  result.workoutSessions.sort((a, b) => a.date.localeCompare(b.date));
+  if (value === undefined || isNaN(value) || value < 0) return false;
 
-  onProgress?.(100, 'Import complete!');
+  const date = mapping.night ? nightOf(record.startDate, night) : record.startDate.slice(0, 10);
+  const key = `${mapping.metricType}_${date}`;
+  const total = totals.get(key);
+  if (total) {
+    total.sum += value;
+    total.count++;
+  } else {
+    totals.set(key, { mapping, date, sum: value, count: 1 });
+  }
+  return true;
+}
 
-  return result;
+// HealthKit exports percentages as fractions with unit "%"
+function toPercent(value: number, unit: string): number {
+  return unit === '%' && value <= 1 ? value * 100 : value;
+}
+
+function toCelsius(value: number, unit: string): number | undefined {
+  if (unit === 'degC') return value;
+  if (unit === 'degF') return (value - 32) * 5 / 9;
+  return undefined;
+}
+
+function toKilocalories(value: number, unit: string): number | undefined {
+  switch (unit) {
+    case 'kcal':
+    case 'Cal':
+      return value;
+    case 'cal':
+      return value / 1000;
+    case 'kJ':
+      return value / 4.184;
+    case 'J':
+      return value / 4184;
+    default:
+      return undefined;
+  }
+}
+
+function toMinutes(value: number, unit: string): number | undefined {
+  switch (unit) {
+    case 'min':
+      return value;
+    case 's':
+      return value / 60;
+    case 'hr':
+      return value * 60;
+    default:
+      return undefined;
+  }
+}
+
+function toKilograms(value: number, unit: string): number | undefined {
+  switch (unit) {
+    case 'kg':
+      return value;
+    case 'lb':
+      return value * 0.45359237;
+    case 'g':
+      return value / 1000;
+    case 'oz':
+      return value * 0.028349523125;
+    case 'st':
+      return value * 6.35029318;
+    default:
+      return undefined;
+  }
 }
 
 // ============================================================
-// ATTRIBUTE PARSING
+// OVERNIGHT TIME SERIES
 // ============================================================
 
-function parseAttributes(attrString: string): Record<string, string> {
-  const attrs: Record<string, string> = {};
-  const regex = /(\w+)="([^"]*)"/g;
-  let match;
-  while ((match = regex.exec(attrString)) !== null) {
-    attrs[match[1]] = match[2];
+/**
+ * Quantity samples kept for the overnight series, resampled to a fixed
+ * interval. Apple Watch samples irregularly (HR every few minutes at
+ * night), so most slots are gaps.
+ */
+const SAMPLE_SERIES: Record<string, { metricType: TimeSeriesMetricType; intervalSeconds: number }> = {
+  HKQuantityTypeIdentifierHeartRate: { metricType: 'heart_rate', intervalSeconds: 60 },
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: { metricType: 'hrv', intervalSeconds: 300 },
+  HKQuantityTypeIdentifierRespiratoryRate: { metricType: 'respiratory_rate', intervalSeconds: 300 },
+  HKQuantityTypeIdentifierOxygenSaturation: { metricType: 'spo2', intervalSeconds: 300 },
+};
+
+const SERIES_INTERVALS: Partial<Record<TimeSeriesMetricType, number>> = Object.fromEntries(
+  Object.values(SAMPLE_SERIES).map(({ metricType, intervalSeconds }) => [metricType, intervalSeconds])
+);
+
+const STAGE_INTERVAL_SECONDS = 30;
+
+// Hypnogram encoding: 0=awake, 1=light, 2=deep, 3=rem. In-bed time is a gap.
+const STAGE_VALUES: Record<string, number> = {
+  HKCategoryValueSleepAnalysisAwake: 0,
+  HKCategoryValueSleepAnalysisAsleepCore: 1,
+  HKCategoryValueSleepAnalysisAsleep: 1,
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 1,
+  HKCategoryValueSleepAnalysisAsleepDeep: 2,
+  HKCategoryValueSleepAnalysisAsleepREM: 3,
+};
+
+/**
+ * Samples of one metric as parallel typed arrays: 12 bytes per sample
+ * instead of a record object, so multi-year exports stay within memory.
+ */
+interface SampleBuffer {
+  times: Float64Array; // Epoch milliseconds
+  values: Float32Array;
+  length: number;
+  sorted: boolean;
+}
+
+function addSample(
+  samples: Map<TimeSeriesMetricType, SampleBuffer>,
+  metricType: TimeSeriesMetricType,
+  record: AppleHealthRecord
+): boolean {
+  const time = parseAppleDate(record.startDate)?.getTime();
+  let value = record.value ? parseFloat(record.value) : NaN;
+  if (time === undefined || isNaN(time) || isNaN(value)) return false;
+
+  if (metricType === 'spo2') value = toPercent(value, record.unit || '%');
+
+  let buffer = samples.get(metricType);
+  if (!buffer) {
+    buffer = { times: new Float64Array(1024), values: new Float32Array(1024), length: 0, sorted: true };
+    samples.set(metricType, buffer);
+  }
+
+  if (buffer.length === buffer.times.length) {
+    const times = new Float64Array(buffer.times.length * 2);
+    const values = new Float32Array(buffer.values.length * 2);
+    times.set(buffer.times);
+    values.set(buffer.values);
+    buffer.times = times;
+    buffer.values = values;
   }
-  return attrs;
+
+  if (buffer.length > 0 && time < buffer.times[buffer.length - 1]) buffer.sorted = false;
+  buffer.times[buffer.length] = time;
+  buffer.values[buffer.length] = value;
+  buffer.length++;
+  return true;
 }
 
-function parseWorkoutAttributes(attrString: string): AppleHealthWorkout {
-  const attrs = parseAttributes(attrString);
+function sortSamples(buffer: SampleBuffer): void {
+  if (buffer.sorted) return;
+
+  const order = new Uint32Array(buffer.length).map((_, i) => i);
+  order.sort((a, b) => buffer.times[a] - buffer.times[b]);
+
+  const times = new Float64Array(buffer.length);
+  const values = new Float32Array(buffer.length);
+  order.forEach((from, to) => {
+    times[to] = buffer.times[from];
+    values[to] = buffer.values[from];
+  });
+
+  buffer.times = times;
+  buffer.values = values;
+  buffer.sorted = true;
+}
+
+/**
+ * Index of the first sample at or after `time` in a sorted buffer.
+ */
+function firstSampleAt(buffer: SampleBuffer, time: number): number {
+  let low = 0;
+  let high = buffer.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (buffer.times[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Average the samples within a sleep session onto a fixed grid, with
+ * empty slots as gaps. Also returns stats over the raw samples.
+ */
+function buildSampleSeries(
+  buffer: SampleBuffer,
+  metricType: TimeSeriesMetricType,
+  session: SleepSession,
+  sourceId: string,
+  userId: string
+): { series: TimeSeries; stats: { min: number; max: number; mean: number } } | null {
+  const intervalMs = (SERIES_INTERVALS[metricType] ?? 60) * 1000;
+  const start = new Date(session.startedAt).getTime();
+  const end = new Date(session.endedAt).getTime();
+  const count = Math.ceil((end - start) / intervalMs);
+
+  const sums = new Array<number>(count).fill(0);
+  const counts = new Array<number>(count).fill(0);
+  let min = Infinity;
+  let max = -Infinity;
+  let total = 0;
+  let sampleCount = 0;
+
+  for (let i = firstSampleAt(buffer, start); i < buffer.length && buffer.times[i] < end; i++) {
+    const value = buffer.values[i];
+    const slot = Math.floor((buffer.times[i] - start) / intervalMs);
+    sums[slot] += value;
+    counts[slot]++;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    total += value;
+    sampleCount++;
+  }
+
+  if (sampleCount === 0) return null;
+
+  const values = sums.map((sum, i) => (counts[i] > 0 ? round1(sum / counts[i]) : null));
+
+  return {
+    series: createSeries(metricType, session, intervalMs / 1000, values, sourceId, userId),
+    stats: { min: round1(min), max: round1(max), mean: round1(total / sampleCount) },
+  };
+}
+
+/**
+ * Build a 30-second hypnogram from the session's stage segments.
+ * Older exports only have in-bed/asleep, which still yields a series.
+ */
+function buildStageSeries(
+  segments: AppleHealthRecord[],
+  session: SleepSession,
+  sourceId: string,
+  userId: string
+): TimeSeries | null {
+  const intervalMs = STAGE_INTERVAL_SECONDS * 1000;
+  const start = new Date(session.startedAt).getTime();
+  const count = Math.ceil((new Date(session.endedAt).getTime() - start) / intervalMs);
+  const values: (number | null)[] = new Array(count).fill(null);
+  let staged = false;
+
+  for (const segment of segments) {
+    const stage = segment.value !== undefined ? STAGE_VALUES[segment.value] : undefined;
+    const segmentStart = parseAppleDate(segment.startDate)?.getTime();
+    const segmentEnd = parseAppleDate(segment.endDate)?.getTime();
+    if (stage === undefined || segmentStart === undefined || segmentEnd === undefined) continue;
+
+    const from = Math.max(0, Math.round((segmentStart - start) / intervalMs));
+    const to = Math.min(count, Math.round((segmentEnd - start) / intervalMs));
+    for (let i = from; i < to; i++) {
+      values[i] = stage;
+      staged = true;
+    }
+  }
+
+  return staged ? createSeries('sleep_stage', session, STAGE_INTERVAL_SECONDS, values, sourceId, userId) : null;
+}
+
+function createSeries(
+  metricType: TimeSeriesMetricType,
+  session: SleepSession,
+  intervalSeconds: number,
+  values: (number | null)[],
+  sourceId: string,
+  userId: string
+): TimeSeries {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    sessionId: session.id,
+    metricType,
+    startedAt: session.startedAt,
+    intervalSeconds,
+    values,
+    gapCount: values.filter(v => v === null).length,
+    interpolatedCount: 0,
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// ============================================================
+// ATTRIBUTE PARSING
+// ============================================================
+
+function parseWorkoutAttributes(attrs: Record<string, string>): AppleHealthWorkout {
   return {
     workoutActivityType: attrs.workoutActivityType,
     duration: parseFloat(attrs.duration) || 0,
@@ -314,10 +957,52 @@ function parseWorkoutAttributes(attrString: string): AppleHealthWorkout {
   };
 }
 
+function parseWorkoutStatistic(attrs: Record<string, string>): WorkoutStatistic {
+  return {
+    type: attrs.type,
+    average: attrs.average ? parseFloat(attrs.average) : undefined,
+    minimum: attrs.minimum ? parseFloat(attrs.minimum) : undefined,
+    maximum: attrs.maximum ? parseFloat(attrs.maximum) : undefined,
+    sum: attrs.sum ? parseFloat(attrs.sum) : undefined,
+    unit: attrs.unit,
+  };
+}
+
 // ============================================================
 // TRANSFORMERS
 // ============================================================
 
+// Segments further apart than this belong to separate sleep periods
+const SLEEP_PERIOD_GAP_MS = 60 * 60 * 1000;
+
+/**
+ * Split one night's segments from a source into sleep periods, so a nap
+ * or a second block of split sleep becomes its own session.
+ */
+function splitSleepPeriods(segments: AppleHealthRecord[]): AppleHealthRecord[][] {
+  const sorted = [...segments].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const periods: AppleHealthRecord[][] = [];
+  let periodEnd = -Infinity;
+
+  for (const segment of sorted) {
+    const start = parseAppleDate(segment.startDate)?.getTime();
+    const end = parseAppleDate(segment.endDate)?.getTime();
+    if (start === undefined || end === undefined || isNaN(start) || isNaN(end)) continue;
+
+    if (periods.length === 0 || start - periodEnd > SLEEP_PERIOD_GAP_MS) {
+      periods.push([]);
+    }
+    periods[periods.length - 1].push(segment);
+    periodEnd = Math.max(periodEnd, end);
+  }
+
+  return periods;
+}
+
+function overlaps(a: SleepSession, b: SleepSession): boolean {
+  return a.startedAt < b.endedAt && b.startedAt < a.endedAt;
+}
+
 function transformSleepSegments(
   segments: AppleHealthRecord[],
   date: string,
@@ -359,6 +1044,7 @@ function transformSleepSegments(
         break;
       case 'HKCategoryValueSleepAnalysisAsleepCore':
       case 'HKCategoryValueSleepAnalysisAsleep':
+      case 'HKCategoryValueSleepAnalysisAsleepUnspecified':
         lightSeconds += durationSec;
         break;
       case 'HKCategoryValueSleepAnalysisAwake':
@@ -405,7 +1091,8 @@ function transformWorkout(
   workout: AppleHealthWorkout,
   statistics: WorkoutStatistic[],
   sourceId: string,
-  userId: string
+  userId: string,
+  night: NightOptions
 ): WorkoutSession | null {
   const startDate = parseAppleDate(workout.startDate);
   if (!startDate) return null;
@@ -426,7 +1113,7 @@ function transformWorkout(
     id: generateId(),
     userId,
     sourceId,
-    date: startDate.toISOString().split('T')[0],
+    date: localDateOf(workout.startDate, night.timeZone),
     startedAt: startDate.toISOString(),
     endedAt: workout.endDate ? parseAppleDate(workout.endDate)?.toISOString() : undefined,
     durationSeconds,
@@ -446,6 +1133,31 @@ function transformWorkout(
 // HELPERS
 // ============================================================
 
+/**
+ * A high-water mark with the dates a day either side of it, so most
+ * records can be compared by their date prefix without parsing.
+ */
+interface Mark {
+  time: number;
+  dayBefore: string;
+  dayAfter: string;
+}
+
+function createMark(timestamp: string): Mark {
+  const time = Date.parse(timestamp);
+  const date = new Date(time).toISOString().slice(0, 10);
+  return { time, dayBefore: shiftDate(date, -1), dayAfter: shiftDate(date, 1) };
+}
+
+// UTC offsets are under a day, so only dates next to the mark need the time
+function isAtOrBefore(appleDate: string, mark: Mark): boolean {
+  const date = appleDate.slice(0, 10);
+  if (date < mark.dayBefore) return true;
+  if (date > mark.dayAfter) return false;
+  const time = parseAppleDate(appleDate)?.getTime();
+  return time !== undefined && !isNaN(time) && time <= mark.time;
+}
+
 function parseAppleDate(dateStr: string): Date | null {
   if (!dateStr) return null;
   // Format: "2024-01-15 08:30:00 -0800"
@@ -503,6 +1215,30 @@ function defaultQualityFlags(): DataQualityFlags {
   };
 }
 
+// ============================================================
+// SUMMARY
+// ============================================================
+
+/**
+ * One line naming the record types that were skipped, most common first.
+ */
+export function describeIgnoredTypes(
+  typeSummary: AppleHealthImportResult['typeSummary'],
+  limit = 8
+): string | null {
+  const ignored = Object.entries(typeSummary)
+    .filter(([, summary]) => summary.ignored > 0)
+    .sort((a, b) => b[1].ignored - a[1].ignored);
+  if (ignored.length === 0) return null;
+
+  const names = ignored.slice(0, limit).map(([type, summary]) => {
+    const name = type === WORKOUT_TYPE ? 'Workout' : type.replace(/^HK(Quantity|Category|Correlation)TypeIdentifier/, '');
+    return `${name} (${summary.ignored.toLocaleString()})`;
+  });
+  const more = ignored.length > limit ? `, and ${ignored.length - limit} more` : '';
+  return `Not imported: ${names.join(', ')}${more}`;
+}
+
 // ============================================================
 // DETECTION
 // ============================================================
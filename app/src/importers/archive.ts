@@ -0,0 +1,149 @@
+/**
+ * Archive Routing
+ * ================
+ * Routes the entries of a ZIP archive (Apple Health export.zip, vendor
+ * bundles, Google Takeout) to importer profiles.
+ *
+ * A profile claims an entry through one of its `zip` file patterns:
+ * - fileNamePattern: regex tested against the entry's path
+ * - zipContains: paths that must all exist in the archive; with no
+ *   fileNamePattern, the listed entries themselves are imported
+ */
+
+import type { FilePattern, ImporterProfile, VendorType } from '../types/schema';
+import type { ImportFile } from './pipeline';
+import { readZipEntry, type ZipEntry } from '../utils/zip';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface RoutedEntry {
+  entry: ZipEntry;
+  profile: ImporterProfile;
+}
+
+export interface ArchiveManifest {
+  usedEntries: Array<{ name: string; vendor: VendorType; profileId: string }>;
+  skippedEntries: Array<{ name: string; reason: string }>;
+}
+
+export interface ArchiveRouting {
+  routed: RoutedEntry[];
+  skipped: ArchiveManifest['skippedEntries'];
+}
+
+// ============================================================
+// ROUTING
+// ============================================================
+
+export function routeArchiveEntries(
+  entries: ZipEntry[],
+  profiles: ImporterProfile[]
+): ArchiveRouting {
+  const routed: RoutedEntry[] = [];
+  const skipped: ArchiveManifest['skippedEntries'] = [];
+  const names = entries.filter(e => !e.isDirectory).map(e => e.name);
+
+  for (const entry of entries) {
+    if (entry.isDirectory) continue;
+
+    if (isSystemFile(entry.name)) {
+      skipped.push({ name: entry.name, reason: 'System metadata file' });
+      continue;
+    }
+
+    const profile = profiles.find(p =>
+      p.filePatterns.some(pattern => matchesZipPattern(pattern, entry.name, names))
+    );
+
+    if (profile) {
+      routed.push({ entry, profile });
+    } else {
+      skipped.push({ name: entry.name, reason: 'No importer profile matches this file' });
+    }
+  }
+
+  return { routed, skipped };
+}
+
+export async function readArchiveEntry(
+  archive: ArrayBuffer,
+  entry: ZipEntry
+): Promise<ImportFile> {
+  return {
+    name: entry.name,
+    size: entry.uncompressedSize,
+    type: '',
+    content: await readZipEntry(archive, entry),
+  };
+}
+
+/**
+ * The vendor claiming the most entries, used to label the archive's Source.
+ */
+export function primaryArchiveVendor(routed: Array<{ profile: ImporterProfile }>): VendorType {
+  const counts = new Map<VendorType, number>();
+  for (const { profile } of routed) {
+    counts.set(profile.vendor, (counts.get(profile.vendor) || 0) + 1);
+  }
+
+  let best: VendorType = 'unknown';
+  let bestCount = 0;
+  for (const [vendor, count] of counts) {
+    if (count > bestCount) {
+      best = vendor;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// ============================================================
+// PATTERN MATCHING
+// ============================================================
+
+function matchesZipPattern(pattern: FilePattern, entryName: string, archiveNames: string[]): boolean {
+  if (pattern.fileType !== 'zip') return false;
+
+  if (pattern.zipContains && pattern.zipContains.length > 0) {
+    const allPresent = pattern.zipContains.every(path =>
+      archiveNames.some(name => archivePathMatches(name, path))
+    );
+    if (!allPresent) return false;
+
+    if (!pattern.fileNamePattern) {
+      return pattern.zipContains.some(path => archivePathMatches(entryName, path));
+    }
+  }
+
+  return pattern.fileNamePattern !== undefined &&
+    matchesFileNamePattern(pattern.fileNamePattern, entryName);
+}
+
+/**
+ * Archive paths match exactly or below any top-level folder
+ * (exports are often wrapped in a directory named after the export).
+ */
+function archivePathMatches(entryName: string, path: string): boolean {
+  return entryName === path || entryName.endsWith(`/${path}`);
+}
+
+/**
+ * Profiles may use a leading `(?i)` for case-insensitive patterns,
+ * which JavaScript regexes express as a flag instead.
+ */
+export function matchesFileNamePattern(pattern: string, fileName: string): boolean {
+  const caseInsensitive = pattern.startsWith('(?i)');
+  const source = caseInsensitive ? pattern.slice(4) : pattern;
+  try {
+    return new RegExp(source, caseInsensitive ? 'i' : '').test(fileName);
+  } catch {
+    return false;
+  }
+}
+
+function isSystemFile(name: string): boolean {
+  const baseName = name.split('/').pop() || '';
+  return name.startsWith('__MACOSX/') || baseName.startsWith('.');
+}
@@ -0,0 +1,93 @@
+/**
+ * Import Change Set
+ * ==================
+ * What an import would do to the vault, worked out before anything is
+ * written: which nights and workouts are new, which merge into stored
+ * ones and how their fields change, which are skipped as duplicates and
+ * which fail validation outright. The import panel shows it for approval.
+ */
+
+import type { SleepSession, WorkoutSession } from '../types/schema';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SleepSessionChanges {
+  new: SleepSession[];
+  // Stored nights the import fills in or improves
+  merged: Array<{ date: string; sessionId: string; changes: FieldChange[] }>;
+  // Nights already stored with at least as much data
+  skipped: Array<{ date: string; reason: string }>;
+  // Sessions validation refused to store
+  rejected: Array<{ date: string; reason: string }>;
+}
+
+export interface WorkoutSessionChanges {
+  new: WorkoutSession[];
+  // Stored workouts another device also recorded
+  merged: Array<{ date: string; sessionId: string; changes: FieldChange[] }>;
+  // Workouts already stored with everything this import has
+  skipped: Array<{ date: string; reason: string }>;
+}
+
+export interface ImportChangeSet {
+  sleepSessions: SleepSessionChanges;
+  workoutSessions: WorkoutSessionChanges;
+  // Other records are only added, never merged
+  dailyMetrics: number;
+  timeSeries: number;
+  annotations: number;
+  // The same file was imported before
+  alreadyImported: boolean;
+}
+
+// Bookkeeping fields that say nothing about the session itself
+const IGNORED_FIELDS = new Set<string>([
+  'id',
+  'userId',
+  'sourceId',
+  'dataQuality',
+  'vendorData',
+  'contributions',
+  'provenance',
+]);
+
+// ============================================================
+// FIELD DIFFS
+// ============================================================
+
+/**
+ * Fields of a stored session that merging would change.
+ */
+export function sessionFieldChanges<T extends SleepSession | WorkoutSession>(before: T, after: T): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof T & string>);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (before[field] === after[field]) continue;
+    if (before[field] == null && after[field] == null) continue;
+    changes.push({ field, before: before[field], after: after[field] });
+  }
+
+  return changes;
+}
+
+export function isEmptyChangeSet(changeSet: ImportChangeSet): boolean {
+  const sleep = changeSet.sleepSessions;
+  const workouts = changeSet.workoutSessions;
+  return sleep.new.length === 0 &&
+    sleep.merged.length === 0 &&
+    workouts.new.length === 0 &&
+    workouts.merged.length === 0 &&
+    changeSet.dailyMetrics === 0 &&
+    changeSet.timeSeries === 0 &&
+    changeSet.annotations === 0;
+}
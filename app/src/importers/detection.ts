@@ -0,0 +1,213 @@
+/**
+ * Profile Detection
+ * ==================
+ * Ranks importer profiles, built-in and saved alike, by how well a file
+ * satisfies their file patterns. Every condition of a pattern must hold;
+ * each adds weight to the pattern's score:
+ * - jsonSignature: JSONPath selecting at least one non-null value
+ * - csvRequiredHeaders: columns that must all be present (case-insensitive,
+ *   a trailing unit such as "Weight (kg)" is ignored)
+ * - xmlRootElement: name of the document's root element
+ * - zipContains: paths that must all exist in the archive
+ * - fileNamePattern: regex tested against the file name, or for archives
+ *   against each entry's path
+ *
+ * Adding a vendor means adding a profile whose patterns describe its
+ * files; nothing here knows about particular vendors.
+ */
+
+import type { FilePattern, ImporterProfile } from '../types/schema';
+import { matchesFileNamePattern } from './archive';
+import { queryJsonPath } from '../utils/jsonPath';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * What detection learned about a file before any profile is applied.
+ */
+export interface DetectionInput {
+  fileType: FilePattern['fileType'];
+  fileName: string;
+  // Parsed JSON value
+  data?: unknown;
+  // CSV header row
+  headers?: string[];
+  // XML root element
+  rootElement?: string;
+  // Paths of the files in an archive
+  archiveNames?: string[];
+}
+
+export interface DetectionCandidate {
+  profile: ImporterProfile;
+  // 0-1; several satisfied patterns reinforce each other
+  score: number;
+  // Human-readable conditions the file satisfied
+  evidence: string[];
+}
+
+// ============================================================
+// SCORING
+// ============================================================
+
+const JSON_SIGNATURE_WEIGHT = 0.9;
+const XML_ROOT_WEIGHT = 0.9;
+const ZIP_CONTAINS_WEIGHT = 0.9;
+const FILE_NAME_WEIGHT = 0.5;
+const ARCHIVE_FILE_NAME_WEIGHT = 0.6;
+// FIT files are recognized by their header bytes, so the type alone is evidence
+const FIT_TYPE_WEIGHT = 0.9;
+
+// Top candidates closer than this are left for the user to choose between
+const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Profiles the file satisfies, best first. Ties keep the order of
+ * `profiles`, so callers list the profiles that should win ties first.
+ */
+export function rankProfiles(
+  input: DetectionInput,
+  profiles: ImporterProfile[]
+): DetectionCandidate[] {
+  const candidates: DetectionCandidate[] = [];
+
+  for (const profile of profiles) {
+    let miss = 1;
+    const evidence: string[] = [];
+
+    for (const pattern of profile.filePatterns) {
+      const match = scorePattern(pattern, input);
+      if (!match) continue;
+      miss *= 1 - match.score;
+      evidence.push(...match.evidence.filter(e => !evidence.includes(e)));
+    }
+
+    if (miss < 1) {
+      candidates.push({ profile, score: 1 - miss, evidence });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Whether the runner-up scores too close to the top candidate to pick
+ * one without asking.
+ */
+export function isAmbiguousDetection(candidates: DetectionCandidate[]): boolean {
+  return candidates.length > 1 &&
+    candidates[0].score - candidates[1].score < AMBIGUITY_MARGIN;
+}
+
+export function detectionConfidence(candidates: DetectionCandidate[]): 'high' | 'medium' | 'low' {
+  const top = candidates[0];
+  if (!top || isAmbiguousDetection(candidates)) return 'low';
+  if (top.score >= 0.85) return 'high';
+  return top.score >= 0.6 ? 'medium' : 'low';
+}
+
+function scorePattern(
+  pattern: FilePattern,
+  input: DetectionInput
+): { score: number; evidence: string[] } | null {
+  if (pattern.fileType !== input.fileType) return null;
+
+  const weights: number[] = [];
+  const evidence: string[] = [];
+
+  if (pattern.jsonSignature) {
+    if (!matchesJsonSignature(input.data, pattern.jsonSignature)) return null;
+    weights.push(JSON_SIGNATURE_WEIGHT);
+    evidence.push(`JSON contains ${pattern.jsonSignature}`);
+  }
+
+  if (pattern.csvRequiredHeaders?.length) {
+    const headers = new Set((input.headers || []).flatMap(headerNames));
+    if (!pattern.csvRequiredHeaders.every(h => headers.has(h.toLowerCase()))) return null;
+    // More required columns make an accidental match less likely
+    weights.push(Math.min(0.9, 0.45 + 0.15 * pattern.csvRequiredHeaders.length));
+    evidence.push(`Columns ${pattern.csvRequiredHeaders.map(h => `"${h}"`).join(', ')}`);
+  }
+
+  if (pattern.xmlRootElement) {
+    if (input.rootElement !== pattern.xmlRootElement) return null;
+    weights.push(XML_ROOT_WEIGHT);
+    evidence.push(`Root element <${pattern.xmlRootElement}>`);
+  }
+
+  if (pattern.zipContains?.length) {
+    const names = input.archiveNames || [];
+    const allPresent = pattern.zipContains.every(path =>
+      names.some(name => name === path || name.endsWith(`/${path}`))
+    );
+    if (!allPresent) return null;
+    weights.push(ZIP_CONTAINS_WEIGHT);
+    evidence.push(`Archive contains ${pattern.zipContains.join(', ')}`);
+  }
+
+  if (pattern.fileNamePattern) {
+    if (input.fileType === 'zip') {
+      const matched = (input.archiveNames || [])
+        .filter(name => matchesFileNamePattern(pattern.fileNamePattern!, name));
+      if (matched.length === 0) return null;
+      weights.push(ARCHIVE_FILE_NAME_WEIGHT);
+      evidence.push(`${matched.length} archive ${matched.length === 1 ? 'entry matches' : 'entries match'} ${pattern.fileNamePattern}`);
+    } else {
+      if (!matchesFileNamePattern(pattern.fileNamePattern, input.fileName)) return null;
+      weights.push(FILE_NAME_WEIGHT);
+      evidence.push(`File name matches ${pattern.fileNamePattern}`);
+    }
+  }
+
+  if (weights.length === 0) {
+    // A pattern without any condition would claim every file of its type
+    if (input.fileType !== 'fit') return null;
+    weights.push(FIT_TYPE_WEIGHT);
+    evidence.push('FIT file header');
+  }
+
+  return {
+    score: 1 - weights.reduce((miss, w) => miss * (1 - w), 1),
+    evidence,
+  };
+}
+
+function matchesJsonSignature(data: unknown, signature: string): boolean {
+  if (data === undefined) return false;
+  try {
+    return queryJsonPath(data, signature).some(node => node !== null);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A header as written and without a trailing unit: "Weight (kg)" also
+ * answers to "weight".
+ */
+function headerNames(header: string): string[] {
+  const name = header.trim().toLowerCase();
+  const withoutUnit = name.replace(/\s*\(.*\)\s*$/, '');
+  return withoutUnit === name ? [name] : [name, withoutUnit];
+}
+
+// ============================================================
+// XML
+// ============================================================
+
+/**
+ * Local name of an XML document's root element, skipping the prolog,
+ * comments and doctype.
+ */
+export function xmlRootElement(content: string): string | undefined {
+  const prolog = content
+    .slice(0, 64 * 1024)
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/i, '');
+
+  const match = prolog.match(/<([A-Za-z_][\w.:-]*)/);
+  return match ? match[1].split(':').pop() : undefined;
+}
@@ -16,6 +16,7 @@ import type {
 } from '../types/schema';
 import type { ImportWarning } from './pipeline';
 import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, type NightOptions } from '../utils/nightDate';
 
 // ============================================================
 // IMPORTER PROFILE
@@ -38,6 +39,15 @@ export const EIGHT_SLEEP_PROFILE: ImporterProfile = {
       fileType: 'json',
       jsonSignature: '$[*].stages[*].stage',
     },
+    {
+      // dashboard_data.json, derived from an Eight Sleep export
+      fileType: 'json',
+      jsonSignature: '$.debtStats',
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)sleep_nights[^/]*\\.json$',
+    },
   ],
   mappings: [
     {
@@ -111,7 +121,8 @@ export async function transformEightSleep(
   data: unknown,
   sourceId: string,
   userId: string,
-  onProgress?: (processed: number, total: number) => void
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
 ): Promise<TransformResult> {
   const warnings: ImportWarning[] = [];
   const sleepSessions: SleepSession[] = [];
@@ -139,7 +150,7 @@ export async function transformEightSleep(
     const raw = rawSessions[i];
 
     try {
-      const session = transformRawSession(raw, sourceId, userId, i);
+      const session = transformRawSession(raw, sourceId, userId, night);
       if (session) {
         sleepSessions.push(session);
 
@@ -178,7 +189,7 @@ function transformRawSession(
   raw: EightSleepSession,
   sourceId: string,
   userId: string,
-  _index: number
+  night: NightOptions
 ): SleepSession | null {
   // Skip sessions with no stages
   if (!raw.stages || raw.stages.length === 0) {
@@ -212,13 +223,8 @@ function transformRawSession(
   const startedAt = new Date(raw.ts * 1000);
   const endedAt = new Date(startedAt.getTime() + timeInBedSeconds * 1000);
 
-  // Use the "night of" date (the date when sleep started)
-  // If sleep started after midnight but before 6am, use previous day's date
-  const dateObj = new Date(startedAt);
-  if (dateObj.getHours() < 6) {
-    dateObj.setDate(dateObj.getDate() - 1);
-  }
-  const date = dateObj.toISOString().split('T')[0];
+  // Eight Sleep timestamps are UTC, so the night is dated in the home timezone
+  const date = nightOf(startedAt, night);
 
   // Extract biometrics from timeseries
   const hrValues = extractTimeseriesValues(raw.timeseries?.heartRate);
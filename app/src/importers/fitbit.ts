@@ -0,0 +1,588 @@
+/**
+ * Fitbit Importer
+ * ================
+ * Handles imports from Fitbit data exports (Google Takeout or the
+ * legacy fitbit.com account export).
+ *
+ * Takeout splits data into many per-day or per-month files, so these are
+ * usually imported as the whole ZIP or a multi-file selection:
+ * - sleep-YYYY-MM-DD.json: sleep logs with 30s stage segments
+ * - heart_rate-YYYY-MM-DD.json: per-second heart rate (UTC timestamps)
+ * - resting_heart_rate-YYYY-MM-DD.json: daily resting heart rate
+ * - exercise-N.json: logged and auto-detected exercises
+ * - Daily Heart Rate Variability Summary*.csv: nightly RMSSD
+ *
+ * Sleep and exercise times are local wall-clock times without an offset.
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  DailyMetric,
+  TimeSeries,
+  WorkoutType,
+  DataQualityFlags,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, type NightOptions } from '../utils/nightDate';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const FITBIT_PROFILE: ImporterProfile = {
+  id: 'fitbit_v1',
+  vendor: 'fitbit',
+  name: 'Fitbit Export',
+  version: '1.0.0',
+  description: 'Import sleep stages, heart rate, HRV and exercise from a Fitbit Google Takeout export',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'json',
+      jsonSignature: '$[*].levels.data',
+    },
+    {
+      fileType: 'json',
+      jsonSignature: '$[?@.activityName && @.logId]',
+    },
+    {
+      // Heart rate and resting heart rate samples
+      fileType: 'json',
+      jsonSignature: '$[?@.dateTime && (@.value.bpm || @.value.error)]',
+    },
+    {
+      fileType: 'json',
+      fileNamePattern: '(?i)(^|/)(sleep|heart_rate|resting_heart_rate|exercise)-[\\d-]+\\.json$',
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['timestamp', 'rmssd', 'nremhr', 'entropy'],
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)(^|/)(sleep|heart_rate|resting_heart_rate|exercise)-[\\d-]+\\.json$',
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)(^|/)Daily Heart Rate Variability Summary[^/]*\\.csv$',
+    },
+  ],
+  mappings: [
+    {
+      targetTable: 'sleep_sessions',
+      sourceType: 'json',
+      sourcePath: '$[*]',
+      fieldMappings: [
+        { target: 'date', source: 'dateOfSleep', transform: { type: 'direct' } },
+        { target: 'startedAt', source: 'startTime', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'endedAt', source: 'endTime', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'durationSeconds', source: 'minutesAsleep', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+        { target: 'timeInBedSeconds', source: 'timeInBed', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+        { target: 'deepSeconds', source: 'levels.summary.deep.minutes', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+        { target: 'remSeconds', source: 'levels.summary.rem.minutes', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+        { target: 'lightSeconds', source: 'levels.summary.light.minutes', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+        { target: 'efficiency', source: 'efficiency', transform: { type: 'direct' } },
+      ],
+    },
+  ],
+};
+
+// ============================================================
+// RAW DATA TYPES (Fitbit format)
+// ============================================================
+
+interface FitbitLevelSegment {
+  dateTime: string;
+  level: string;
+  seconds: number;
+}
+
+interface FitbitSleep {
+  logId: number;
+  dateOfSleep: string;
+  startTime: string; // Local "2024-01-15T23:10:30.000"
+  endTime: string;
+  minutesToFallAsleep?: number;
+  minutesAsleep: number;
+  minutesAwake?: number;
+  timeInBed: number;
+  efficiency?: number;
+  type: 'stages' | 'classic';
+  mainSleep?: boolean;
+  levels?: {
+    summary?: Record<string, { minutes?: number; count?: number }>;
+    data?: FitbitLevelSegment[];
+    shortData?: FitbitLevelSegment[];
+  };
+}
+
+interface FitbitHeartRate {
+  dateTime: string; // UTC "01/15/24 08:00:05"
+  value: { bpm: number; confidence?: number };
+}
+
+interface FitbitRestingHeartRate {
+  dateTime: string;
+  value: { date?: string; value?: number; error?: number };
+}
+
+interface FitbitExercise {
+  logId: number;
+  activityName: string;
+  activityTypeId?: number;
+  startTime: string; // Local "01/15/24 18:27:23"
+  duration: number; // ms
+  activeDuration?: number; // ms
+  calories?: number;
+  averageHeartRate?: number;
+  distance?: number;
+  distanceUnit?: string; // "Kilometer" | "Mile"
+  elevationGain?: number;
+  heartRateZones?: Array<{ name: string; minutes?: number }>;
+}
+
+interface FitbitHrvRow {
+  timestamp: string;
+  rmssd: string;
+  nremhr?: string;
+  entropy?: string;
+}
+
+type FileKind = 'sleep' | 'heart_rate' | 'resting_heart_rate' | 'exercise' | 'hrv' | 'unknown';
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  warnings: ImportWarning[];
+}
+
+export async function transformFitbit(
+  data: unknown,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
+): Promise<TransformResult> {
+  const result: TransformResult = {
+    sleepSessions: [],
+    workoutSessions: [],
+    dailyMetrics: [],
+    timeSeries: [],
+    warnings: [],
+  };
+
+  const records = Array.isArray(data) ? data as Record<string, unknown>[] : [];
+  const kind = detectFileKind(records);
+
+  if (kind === 'unknown') {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'Unrecognized Fitbit file; expected sleep, heart rate, exercise or HRV data',
+    });
+    return result;
+  }
+
+  // Heart rate files hold one sample per second and are resampled as a whole
+  if (kind === 'heart_rate') {
+    const series = transformHeartRate(records as unknown as FitbitHeartRate[], sourceId, userId);
+    if (series) result.timeSeries.push(series);
+    onProgress?.(records.length, records.length);
+    return result;
+  }
+
+  for (let i = 0; i < records.length; i++) {
+    onProgress?.(i + 1, records.length);
+
+    try {
+      switch (kind) {
+        case 'sleep': {
+          const raw = records[i] as unknown as FitbitSleep;
+          const session = transformSleep(raw, sourceId, userId, night);
+          if (session) {
+            result.sleepSessions.push(session);
+            const stages = extractStageSeries(raw, session.id, sourceId, userId);
+            if (stages) result.timeSeries.push(stages);
+          }
+          break;
+        }
+        case 'resting_heart_rate': {
+          const metric = transformRestingHeartRate(records[i] as unknown as FitbitRestingHeartRate, sourceId, userId);
+          if (metric) result.dailyMetrics.push(metric);
+          break;
+        }
+        case 'exercise': {
+          const workout = transformExercise(records[i] as unknown as FitbitExercise, sourceId, userId);
+          if (workout) result.workoutSessions.push(workout);
+          break;
+        }
+        case 'hrv': {
+          const metric = transformHrv(records[i] as unknown as FitbitHrvRow, sourceId, userId);
+          if (metric) result.dailyMetrics.push(metric);
+          break;
+        }
+      }
+    } catch (e) {
+      result.warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse record at index ${i}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  return result;
+}
+
+function detectFileKind(records: Record<string, unknown>[]): FileKind {
+  const first = records.find(r => r && typeof r === 'object');
+  if (!first) return 'unknown';
+
+  if ('dateOfSleep' in first && 'minutesAsleep' in first) return 'sleep';
+  if ('activityName' in first && 'startTime' in first) return 'exercise';
+  if ('rmssd' in first && 'timestamp' in first) return 'hrv';
+
+  const value = first.value as Record<string, unknown> | null | undefined;
+  if ('dateTime' in first && value && typeof value === 'object') {
+    if ('bpm' in value) return 'heart_rate';
+    if ('date' in value || 'value' in value) return 'resting_heart_rate';
+  }
+
+  return 'unknown';
+}
+
+// ============================================================
+// SLEEP
+// ============================================================
+
+const STAGE_VALUES: Record<string, number> = {
+  wake: 0,
+  light: 1,
+  deep: 2,
+  rem: 3,
+};
+
+const STAGE_INTERVAL_SECONDS = 30;
+
+function transformSleep(raw: FitbitSleep, sourceId: string, userId: string, night: NightOptions): SleepSession | null {
+  const startedAt = new Date(raw.startTime);
+  const endedAt = new Date(raw.endTime);
+  if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) return null;
+
+  // Naps are separate logs with mainSleep=false
+  const isNap = raw.mainSleep === false;
+  const durationSeconds = raw.minutesAsleep * 60;
+  // Skip sessions less than 30 min, or 10 min for naps
+  if (durationSeconds < (isNap ? 600 : 1800)) return null;
+
+  // Classic logs (no HRV-based staging) only record asleep/restless/awake
+  const summary = raw.levels?.summary ?? {};
+  const minutes = (level: string) => (summary[level]?.minutes ?? 0) * 60;
+  const hasStages = raw.type === 'stages';
+  const awakeSeconds = hasStages ? minutes('wake') : (raw.minutesAwake ?? 0) * 60;
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    // Fitbit start times are local wall time without an offset
+    date: nightOf(raw.startTime, night),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    sleepType: raw.mainSleep === undefined ? undefined : isNap ? 'nap' : 'main',
+    durationSeconds,
+    timeInBedSeconds: raw.timeInBed * 60,
+    deepSeconds: hasStages ? minutes('deep') : 0,
+    remSeconds: hasStages ? minutes('rem') : 0,
+    lightSeconds: hasStages ? minutes('light') : 0,
+    awakeSeconds,
+    sleepOnsetLatency: raw.minutesToFallAsleep !== undefined ? raw.minutesToFallAsleep * 60 : undefined,
+    wakeAfterSleepOnset: awakeSeconds,
+    efficiency: raw.efficiency,
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'Fitbit',
+      logId: raw.logId,
+      sleepLogType: raw.type,
+    },
+  };
+}
+
+/**
+ * Build a 30-second hypnogram from the stage segments. Fitbit reports
+ * brief wakes (<3 min) separately in shortData, overlaid on the stages.
+ */
+function extractStageSeries(
+  raw: FitbitSleep,
+  sessionId: string,
+  sourceId: string,
+  userId: string
+): TimeSeries | null {
+  const segments = raw.levels?.data;
+  if (raw.type !== 'stages' || !segments || segments.length === 0) return null;
+
+  const start = new Date(raw.startTime).getTime();
+  const end = new Date(raw.endTime).getTime();
+  const count = Math.ceil((end - start) / 1000 / STAGE_INTERVAL_SECONDS);
+  if (!(count > 0)) return null;
+
+  const values: (number | null)[] = new Array(count).fill(null);
+
+  const fill = (segment: FitbitLevelSegment) => {
+    const stage = STAGE_VALUES[segment.level];
+    if (stage === undefined) return;
+    const from = Math.round((new Date(segment.dateTime).getTime() - start) / 1000 / STAGE_INTERVAL_SECONDS);
+    const length = Math.round(segment.seconds / STAGE_INTERVAL_SECONDS);
+    for (let i = Math.max(0, from); i < Math.min(count, from + length); i++) {
+      values[i] = stage;
+    }
+  };
+
+  segments.forEach(fill);
+  raw.levels?.shortData?.forEach(fill);
+
+  return createSeries('sleep_stage', new Date(start).toISOString(), STAGE_INTERVAL_SECONDS, values, sourceId, userId, sessionId);
+}
+
+// ============================================================
+// HEART RATE
+// ============================================================
+
+const HEART_RATE_INTERVAL_SECONDS = 60;
+
+/**
+ * Resample a day of per-second readings to one-minute averages.
+ * Minutes without readings become gaps.
+ */
+function transformHeartRate(records: FitbitHeartRate[], sourceId: string, userId: string): TimeSeries | null {
+  const samples: Array<{ time: number; bpm: number }> = [];
+  let first = Infinity;
+  let last = -Infinity;
+  for (const record of records) {
+    const time = parseFitbitDate(record.dateTime, true)?.getTime();
+    if (time !== undefined && typeof record.value?.bpm === 'number' && record.value.bpm > 0) {
+      samples.push({ time, bpm: record.value.bpm });
+      first = Math.min(first, time);
+      last = Math.max(last, time);
+    }
+  }
+  if (samples.length === 0) return null;
+
+  const intervalMs = HEART_RATE_INTERVAL_SECONDS * 1000;
+  const start = Math.floor(first / intervalMs) * intervalMs;
+  const count = Math.floor((last - start) / intervalMs) + 1;
+
+  const sums = new Array<number>(count).fill(0);
+  const counts = new Array<number>(count).fill(0);
+  for (const sample of samples) {
+    const index = Math.floor((sample.time - start) / intervalMs);
+    sums[index] += sample.bpm;
+    counts[index]++;
+  }
+
+  const values = sums.map((sum, i) => (counts[i] > 0 ? Math.round(sum / counts[i]) : null));
+  return createSeries('heart_rate', new Date(start).toISOString(), HEART_RATE_INTERVAL_SECONDS, values, sourceId, userId);
+}
+
+function transformRestingHeartRate(
+  raw: FitbitRestingHeartRate,
+  sourceId: string,
+  userId: string
+): DailyMetric | null {
+  // Days without enough data are exported with a value of 0
+  const value = raw.value?.value;
+  if (typeof value !== 'number' || value <= 0) return null;
+
+  const date = parseFitbitDate(raw.value.date ?? raw.dateTime, true);
+  if (!date) return null;
+
+  return createMetric(date.toISOString().split('T')[0], 'resting_heart_rate', Math.round(value * 10) / 10, 'bpm', sourceId, userId);
+}
+
+function transformHrv(raw: FitbitHrvRow, sourceId: string, userId: string): DailyMetric | null {
+  const rmssd = parseNumber(raw.rmssd);
+  const date = raw.timestamp?.slice(0, 10);
+  if (rmssd === undefined || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+
+  return createMetric(date, 'hrv_morning', rmssd, 'ms', sourceId, userId);
+}
+
+// ============================================================
+// EXERCISE
+// ============================================================
+
+/**
+ * Fitbit's heart rate zones (below zones, fat burn 50-69%, cardio
+ * 70-84%, peak 85%+ of max HR) mapped onto the five-zone model.
+ */
+const HEART_RATE_ZONES: Record<string, 'zone1Minutes' | 'zone2Minutes' | 'zone3Minutes' | 'zone5Minutes'> = {
+  'out of range': 'zone1Minutes',
+  'below zones': 'zone1Minutes',
+  'fat burn': 'zone2Minutes',
+  'cardio': 'zone3Minutes',
+  'peak': 'zone5Minutes',
+};
+
+function transformExercise(raw: FitbitExercise, sourceId: string, userId: string): WorkoutSession | null {
+  const startedAt = parseFitbitDate(raw.startTime, false);
+  if (!startedAt) return null;
+
+  const durationSeconds = (raw.activeDuration ?? raw.duration) / 1000;
+  if (durationSeconds < 300) return null; // Skip workouts less than 5 min
+
+  const distance = raw.distance ? toMeters(raw.distance, raw.distanceUnit) : undefined;
+
+  const workout: WorkoutSession = {
+    id: generateId(),
+    userId,
+    sourceId,
+    date: localDate(startedAt),
+    startedAt: startedAt.toISOString(),
+    endedAt: new Date(startedAt.getTime() + raw.duration).toISOString(),
+    durationSeconds,
+    workoutType: mapWorkoutType(raw.activityName),
+    workoutSubtype: raw.activityName,
+    calories: raw.calories,
+    avgHeartRate: raw.averageHeartRate,
+    distance,
+    distanceUnit: distance !== undefined ? 'meters' : undefined,
+    pace: distance ? durationSeconds / (distance / 1000) : undefined,
+    elevationGain: raw.elevationGain || undefined,
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'Fitbit',
+      logId: raw.logId,
+      activityTypeId: raw.activityTypeId,
+    },
+  };
+
+  for (const zone of raw.heartRateZones ?? []) {
+    const field = HEART_RATE_ZONES[zone.name.toLowerCase()];
+    if (field && zone.minutes !== undefined) {
+      workout[field] = (workout[field] ?? 0) + zone.minutes;
+    }
+  }
+
+  return workout;
+}
+
+function mapWorkoutType(activity: string): WorkoutType {
+  const name = activity.toLowerCase();
+  if (name.includes('run') || name.includes('treadmill')) return 'running';
+  if (name.includes('bike') || name.includes('cycl') || name.includes('spin')) return 'cycling';
+  if (name.includes('swim')) return 'swimming';
+  if (name.includes('walk') || name.includes('hike')) return 'walking';
+  if (name.includes('yoga') || name.includes('pilates')) return 'yoga';
+  if (name.includes('weight') || name.includes('strength')) return 'strength';
+  if (name.includes('hiit') || name.includes('interval') || name.includes('bootcamp')) return 'hiit';
+  if (name.includes('elliptical') || name.includes('row') || name.includes('aerobic') || name.includes('workout')) return 'cardio';
+  if (/tennis|soccer|basketball|golf|sport/.test(name)) return 'sports';
+  return 'other';
+}
+
+function toMeters(distance: number, unit: string | undefined): number {
+  switch (unit?.toLowerCase()) {
+    case 'mile':
+      return distance * 1609.344;
+    case 'meter':
+      return distance;
+    default:
+      return distance * 1000; // Kilometer
+  }
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+/**
+ * Parse Fitbit's "MM/DD/YY HH:MM:SS" timestamps, as UTC or local time.
+ * ISO strings are passed through.
+ */
+function parseFitbitDate(value: string | undefined, utc: boolean): Date | null {
+  if (!value) return null;
+
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{2})(?: (\d{2}):(\d{2}):(\d{2}))?$/);
+  if (!match) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, month, day, year, hour = '0', minute = '0', second = '0'] = match;
+  const parts = [2000 + parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10),
+    parseInt(hour, 10), parseInt(minute, 10), parseInt(second, 10)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = parseFloat(value);
+  return isNaN(num) ? undefined : num;
+}
+
+function createMetric(
+  date: string,
+  metricType: DailyMetric['metricType'],
+  value: number,
+  unit: string,
+  sourceId: string,
+  userId: string
+): DailyMetric {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date,
+    metricType,
+    value,
+    unit,
+    dataQuality: defaultQualityFlags(),
+  };
+}
+
+function createSeries(
+  metricType: TimeSeries['metricType'],
+  startedAt: string,
+  intervalSeconds: number,
+  values: (number | null)[],
+  sourceId: string,
+  userId: string,
+  sessionId?: string
+): TimeSeries {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    sessionId,
+    metricType,
+    startedAt,
+    intervalSeconds,
+    values,
+    gapCount: values.filter(v => v === null).length,
+    interpolatedCount: 0,
+  };
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
@@ -0,0 +1,502 @@
+/**
+ * Garmin Connect Importer
+ * ========================
+ * Handles imports from the Garmin Connect bulk data export
+ * (Account → Data Management → Export Your Data).
+ *
+ * Supported files inside DI_CONNECT/:
+ * - DI-Connect-Wellness/*_sleepData.json: sleep stages, respiration, SpO2
+ * - DI-Connect-Wellness/*hrvStatus*.json: nightly HRV (lastNightAvg)
+ * - DI-Connect-Wellness/*_healthStatusData.json: per-day HRV/HR metrics
+ * - DI-Connect-Aggregator/UDSFile_*.json: resting HR, Body Battery, stress
+ * - DI-Connect-Fitness/*_summarizedActivities.json: workouts
+ *
+ * Units in the bulk export differ from the Connect UI: activity durations
+ * are milliseconds, distance and elevation are centimeters, and sleep
+ * timestamps are GMT without a zone suffix.
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  DailyMetric,
+  DailyMetricType,
+  TimeSeries,
+  WorkoutType,
+  DataQualityFlags,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, type NightOptions } from '../utils/nightDate';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const GARMIN_PROFILE: ImporterProfile = {
+  id: 'garmin_v1',
+  vendor: 'garmin',
+  name: 'Garmin Connect Export',
+  version: '1.0.0',
+  description: 'Import sleep, HRV, Body Battery, stress and activities from Garmin Connect bulk export',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'json',
+      jsonSignature: '$[*].sleepStartTimestampGMT',
+    },
+    {
+      fileType: 'json',
+      jsonSignature: '$[*].summarizedActivitiesExport',
+    },
+    {
+      // Daily summaries, HRV status and health status files
+      fileType: 'json',
+      jsonSignature: '$[?@.calendarDate && (@.userProfilePK || @.lastNightAvg || @.bodyBattery || @.allDayStress)]',
+    },
+    {
+      fileType: 'json',
+      fileNamePattern: '(?i)(sleepData|UDSFile|summarizedActivities|hrvStatus|healthStatusData)[^/]*\\.json$',
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)DI_CONNECT/.*(sleepData|UDSFile|summarizedActivities|hrvStatus|healthStatusData)[^/]*\\.json$',
+    },
+  ],
+  mappings: [
+    {
+      targetTable: 'sleep_sessions',
+      sourceType: 'json',
+      sourcePath: '$[*]',
+      fieldMappings: [
+        { target: 'startedAt', source: 'sleepStartTimestampGMT', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'endedAt', source: 'sleepEndTimestampGMT', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'deepSeconds', source: 'deepSleepSeconds', transform: { type: 'direct' } },
+        { target: 'lightSeconds', source: 'lightSleepSeconds', transform: { type: 'direct' } },
+        { target: 'remSeconds', source: 'remSleepSeconds', transform: { type: 'direct' } },
+        { target: 'awakeSeconds', source: 'awakeSleepSeconds', transform: { type: 'direct' } },
+      ],
+    },
+    {
+      targetTable: 'workout_sessions',
+      sourceType: 'json',
+      sourcePath: '$[*].summarizedActivitiesExport[*]',
+      fieldMappings: [
+        { target: 'startedAt', source: 'startTimeGmt', transform: { type: 'timestamp', format: 'unix_millis' } },
+        { target: 'durationSeconds', source: 'duration', transform: { type: 'divide', divisor: 1000 } },
+        { target: 'distance', source: 'distance', transform: { type: 'divide', divisor: 100 } },
+      ],
+    },
+  ],
+};
+
+// ============================================================
+// ACTIVITY TYPES
+// ============================================================
+
+/**
+ * Garmin activity type IDs (activityTypeId / activityType.typeId).
+ */
+const ACTIVITY_TYPE_IDS: Record<number, WorkoutType> = {
+  1: 'running',
+  2: 'cycling',
+  3: 'walking', // hiking
+  5: 'cycling', // mountain_biking
+  6: 'running', // trail_running
+  7: 'running', // street_running
+  8: 'running', // track_running
+  9: 'walking',
+  10: 'cycling', // road_biking
+  11: 'cardio', // indoor_cardio
+  13: 'strength', // strength_training
+  15: 'walking', // casual_walking
+  16: 'walking', // speed_walking
+  18: 'running', // treadmill_running
+  25: 'cycling', // indoor_cycling
+  26: 'swimming',
+  27: 'swimming', // lap_swimming
+  28: 'swimming', // open_water_swimming
+  29: 'cardio', // fitness_equipment
+  30: 'cardio', // elliptical
+  31: 'cardio', // stair_climbing
+  32: 'cardio', // indoor_rowing
+};
+
+/**
+ * Garmin activity type keys, used when the export carries the key
+ * instead of (or alongside) the numeric ID.
+ */
+const ACTIVITY_TYPE_KEYS: Record<string, WorkoutType> = {
+  running: 'running',
+  trail_running: 'running',
+  street_running: 'running',
+  track_running: 'running',
+  treadmill_running: 'running',
+  indoor_running: 'running',
+  cycling: 'cycling',
+  road_biking: 'cycling',
+  mountain_biking: 'cycling',
+  gravel_cycling: 'cycling',
+  indoor_cycling: 'cycling',
+  virtual_ride: 'cycling',
+  walking: 'walking',
+  casual_walking: 'walking',
+  speed_walking: 'walking',
+  hiking: 'walking',
+  swimming: 'swimming',
+  lap_swimming: 'swimming',
+  open_water_swimming: 'swimming',
+  strength_training: 'strength',
+  yoga: 'yoga',
+  pilates: 'yoga',
+  hiit: 'hiit',
+  indoor_cardio: 'cardio',
+  fitness_equipment: 'cardio',
+  elliptical: 'cardio',
+  stair_climbing: 'cardio',
+  indoor_rowing: 'cardio',
+  rowing: 'cardio',
+  tennis: 'sports',
+  soccer: 'sports',
+  basketball: 'sports',
+  golf: 'sports',
+  pickleball: 'sports',
+};
+
+// ============================================================
+// RAW DATA TYPES (Garmin format)
+// ============================================================
+
+interface GarminSleep {
+  calendarDate: string; // Wake date
+  sleepStartTimestampGMT?: string;
+  sleepEndTimestampGMT?: string;
+  deepSleepSeconds?: number;
+  lightSleepSeconds?: number;
+  remSleepSeconds?: number;
+  awakeSleepSeconds?: number;
+  unmeasurableSeconds?: number;
+  averageRespiration?: number;
+  avgSleepStress?: number;
+  sleepScores?: { overallScore?: number };
+  spo2SleepSummary?: { averageSPO2?: number; averageHR?: number; lowestSPO2?: number };
+}
+
+interface GarminDailySummary {
+  calendarDate: string;
+  restingHeartRate?: number;
+  minHeartRate?: number;
+  bodyBattery?: {
+    bodyBatteryStatList?: Array<{ bodyBatteryStatType: string; statsValue: number }>;
+  };
+  allDayStress?: {
+    aggregatorList?: Array<{ type: string; averageStressLevel?: number }>;
+  };
+}
+
+interface GarminHrvStatus {
+  calendarDate: string;
+  lastNightAvg?: number;
+  weeklyAvg?: number;
+  status?: string;
+}
+
+interface GarminHealthStatus {
+  calendarDate: string;
+  metrics: Array<{ type: string; value?: number }>;
+}
+
+interface GarminActivity {
+  activityId?: number;
+  name?: string;
+  activityType?: string | { typeId?: number; typeKey?: string };
+  activityTypeId?: number;
+  startTimeGmt?: number; // Unix millis
+  startTimeLocal?: number; // Local wall-clock as Unix millis
+  duration?: number; // ms
+  distance?: number; // cm
+  elevationGain?: number; // cm
+  calories?: number;
+  avgHr?: number;
+  maxHr?: number;
+  hrTimeInZone_1?: number; // ms
+  hrTimeInZone_2?: number;
+  hrTimeInZone_3?: number;
+  hrTimeInZone_4?: number;
+  hrTimeInZone_5?: number;
+}
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  warnings: ImportWarning[];
+}
+
+export async function transformGarmin(
+  data: unknown,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
+): Promise<TransformResult> {
+  const result: TransformResult = {
+    sleepSessions: [],
+    workoutSessions: [],
+    dailyMetrics: [],
+    timeSeries: [],
+    warnings: [],
+  };
+
+  const records = extractRecords(data);
+
+  if (records.length === 0) {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'No Garmin records found in file',
+    });
+    return result;
+  }
+
+  for (let i = 0; i < records.length; i++) {
+    onProgress?.(i + 1, records.length);
+
+    const record = records[i];
+
+    try {
+      if ('summarizedActivitiesExport' in record) {
+        const activities = record.summarizedActivitiesExport as GarminActivity[];
+        for (const activity of activities) {
+          const workout = transformActivity(activity, sourceId, userId);
+          if (workout) result.workoutSessions.push(workout);
+        }
+      } else if ('sleepStartTimestampGMT' in record) {
+        const session = transformSleep(record as unknown as GarminSleep, sourceId, userId, night);
+        if (session) result.sleepSessions.push(session);
+      } else if ('lastNightAvg' in record) {
+        result.dailyMetrics.push(...transformHrvStatus(record as unknown as GarminHrvStatus, sourceId, userId));
+      } else if (Array.isArray(record.metrics)) {
+        result.dailyMetrics.push(...transformHealthStatus(record as unknown as GarminHealthStatus, sourceId, userId));
+      } else if ('calendarDate' in record) {
+        result.dailyMetrics.push(...transformDailySummary(record as unknown as GarminDailySummary, sourceId, userId));
+      }
+    } catch (e) {
+      result.warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse record at index ${i}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  return result;
+}
+
+function extractRecords(data: unknown): Array<Record<string, unknown>> {
+  if (Array.isArray(data)) {
+    return data.filter((r): r is Record<string, unknown> => r !== null && typeof r === 'object');
+  }
+  if (data && typeof data === 'object') {
+    return [data as Record<string, unknown>];
+  }
+  return [];
+}
+
+// ============================================================
+// RECORD TRANSFORMERS
+// ============================================================
+
+function transformSleep(raw: GarminSleep, sourceId: string, userId: string, night: NightOptions): SleepSession | null {
+  const startedAt = parseGmt(raw.sleepStartTimestampGMT);
+  const endedAt = parseGmt(raw.sleepEndTimestampGMT);
+  if (!startedAt || !endedAt) return null;
+
+  const deepSeconds = raw.deepSleepSeconds ?? 0;
+  const lightSeconds = raw.lightSleepSeconds ?? 0;
+  const remSeconds = raw.remSleepSeconds ?? 0;
+  const awakeSeconds = raw.awakeSleepSeconds ?? 0;
+  const durationSeconds = deepSeconds + lightSeconds + remSeconds;
+  const timeInBedSeconds = (endedAt.getTime() - startedAt.getTime()) / 1000;
+
+  if (durationSeconds < 1800) return null; // Skip sessions less than 30 min
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    // Garmin files sleep under the wake date and only gives the start in
+    // GMT, so the night is dated from the start in the home timezone
+    date: nightOf(startedAt, night),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationSeconds,
+    timeInBedSeconds,
+    deepSeconds,
+    remSeconds,
+    lightSeconds,
+    awakeSeconds,
+    wakeAfterSleepOnset: awakeSeconds,
+    efficiency: timeInBedSeconds > 0 ? (durationSeconds / timeInBedSeconds) * 100 : undefined,
+    avgHeartRate: raw.spo2SleepSummary?.averageHR,
+    avgRespiratoryRate: raw.averageRespiration,
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'Garmin',
+      sleepScore: raw.sleepScores?.overallScore,
+      avgSleepStress: raw.avgSleepStress,
+      avgSpo2: raw.spo2SleepSummary?.averageSPO2,
+      unmeasurableSeconds: raw.unmeasurableSeconds,
+    },
+  };
+}
+
+function transformDailySummary(raw: GarminDailySummary, sourceId: string, userId: string): DailyMetric[] {
+  const metrics: DailyMetric[] = [];
+  const add = (metricType: DailyMetricType, value: number | undefined, unit: string) => {
+    if (typeof value === 'number' && !isNaN(value)) {
+      metrics.push(createMetric(raw.calendarDate, metricType, value, unit, sourceId, userId));
+    }
+  };
+
+  add('resting_heart_rate', raw.restingHeartRate, 'bpm');
+
+  // The day's peak is the morning charge after sleep
+  const bodyBattery = raw.bodyBattery?.bodyBatteryStatList
+    ?.find(s => s.bodyBatteryStatType === 'HIGHEST')?.statsValue;
+  add('body_battery', bodyBattery, 'score');
+
+  const stress = raw.allDayStress?.aggregatorList
+    ?.find(a => a.type === 'TOTAL')?.averageStressLevel;
+  // Garmin reports -1/-2 when there was not enough data
+  add('stress_score', stress !== undefined && stress >= 0 ? stress : undefined, 'score');
+
+  return metrics;
+}
+
+function transformHrvStatus(raw: GarminHrvStatus, sourceId: string, userId: string): DailyMetric[] {
+  if (typeof raw.lastNightAvg !== 'number') return [];
+  return [createMetric(raw.calendarDate, 'hrv_morning', raw.lastNightAvg, 'ms', sourceId, userId)];
+}
+
+function transformHealthStatus(raw: GarminHealthStatus, sourceId: string, userId: string): DailyMetric[] {
+  const metrics: DailyMetric[] = [];
+  for (const metric of raw.metrics) {
+    if (typeof metric.value !== 'number') continue;
+    if (metric.type === 'HRV') {
+      metrics.push(createMetric(raw.calendarDate, 'hrv_morning', metric.value, 'ms', sourceId, userId));
+    } else if (metric.type === 'SPO2') {
+      metrics.push(createMetric(raw.calendarDate, 'spo2', metric.value, '%', sourceId, userId));
+    } else if (metric.type === 'RESPIRATION') {
+      metrics.push(createMetric(raw.calendarDate, 'respiratory_rate', metric.value, 'brpm', sourceId, userId));
+    }
+  }
+  return metrics;
+}
+
+function transformActivity(raw: GarminActivity, sourceId: string, userId: string): WorkoutSession | null {
+  if (typeof raw.startTimeGmt !== 'number') return null;
+
+  const durationSeconds = (raw.duration ?? 0) / 1000;
+  if (durationSeconds < 300) return null; // Skip workouts less than 5 min
+
+  const startedAt = new Date(raw.startTimeGmt);
+  const localStart = new Date(raw.startTimeLocal ?? raw.startTimeGmt);
+  const distance = raw.distance !== undefined ? raw.distance / 100 : undefined;
+  const workoutType = mapActivityType(raw);
+
+  const zoneMinutes = (ms: number | undefined) => (ms !== undefined ? ms / 60000 : undefined);
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date: localStart.toISOString().split('T')[0],
+    startedAt: startedAt.toISOString(),
+    endedAt: new Date(startedAt.getTime() + durationSeconds * 1000).toISOString(),
+    durationSeconds,
+    workoutType,
+    workoutSubtype: raw.name || activityTypeKey(raw),
+    calories: raw.calories,
+    avgHeartRate: raw.avgHr,
+    maxHeartRate: raw.maxHr,
+    distance,
+    distanceUnit: distance !== undefined ? 'meters' : undefined,
+    pace: distance ? durationSeconds / (distance / 1000) : undefined,
+    elevationGain: raw.elevationGain !== undefined ? raw.elevationGain / 100 : undefined,
+    zone1Minutes: zoneMinutes(raw.hrTimeInZone_1),
+    zone2Minutes: zoneMinutes(raw.hrTimeInZone_2),
+    zone3Minutes: zoneMinutes(raw.hrTimeInZone_3),
+    zone4Minutes: zoneMinutes(raw.hrTimeInZone_4),
+    zone5Minutes: zoneMinutes(raw.hrTimeInZone_5),
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'Garmin',
+      activityId: raw.activityId,
+      activityType: activityTypeKey(raw),
+    },
+  };
+}
+
+function mapActivityType(raw: GarminActivity): WorkoutType {
+  const typeId = raw.activityTypeId ??
+    (typeof raw.activityType === 'object' ? raw.activityType.typeId : undefined);
+  if (typeId !== undefined && ACTIVITY_TYPE_IDS[typeId]) {
+    return ACTIVITY_TYPE_IDS[typeId];
+  }
+
+  const typeKey = activityTypeKey(raw);
+  return (typeKey && ACTIVITY_TYPE_KEYS[typeKey]) || 'other';
+}
+
+function activityTypeKey(raw: GarminActivity): string | undefined {
+  if (typeof raw.activityType === 'string') return raw.activityType;
+  return raw.activityType?.typeKey;
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+function parseGmt(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+
+function createMetric(
+  date: string,
+  metricType: DailyMetricType,
+  value: number,
+  unit: string,
+  sourceId: string,
+  userId: string
+): DailyMetric {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date,
+    metricType,
+    value,
+    unit,
+    dataQuality: defaultQualityFlags(),
+  };
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
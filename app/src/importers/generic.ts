@@ -9,12 +9,18 @@ import type {
   ImporterProfile,
   SleepSession,
   WorkoutSession,
+  DailyMetric,
+  DailyMetricType,
   TimeSeries,
+  TableMapping,
   FieldMapping,
   FieldTransform,
 } from '../types/schema';
 import type { ImportWarning } from './pipeline';
 import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, type NightOptions } from '../utils/nightDate';
+import { parseExpression, evaluateExpression, isTruthy, type Expression } from '../utils/expression';
+import { parseJsonPath, queryJsonPath } from '../utils/jsonPath';
 
 // ============================================================
 // TYPES
@@ -23,14 +29,86 @@ import { generateId } from '../utils/crypto';
 interface TransformResult {
   sleepSessions: SleepSession[];
   workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
   timeSeries: TimeSeries[];
   warnings: ImportWarning[];
 }
 
-interface GenericRow {
+export interface GenericRow {
   [key: string]: unknown;
 }
 
+export type GenericTargetTable = 'sleep_sessions' | 'workout_sessions' | 'daily_metrics';
+
+type GenericRecord = SleepSession | WorkoutSession | DailyMetric;
+
+export interface GenericTargetField {
+  field: string;
+  label: string;
+  required?: boolean;
+}
+
+export interface GenericPreviewRow {
+  source: GenericRow;
+  record?: GenericRecord;
+  filtered?: boolean;
+  error?: string;
+}
+
+export interface GenericPreview {
+  fields: string[]; // Source fields seen in the sampled rows
+  rows: GenericPreviewRow[];
+  totalRows: number;
+  warnings: ImportWarning[]; // Formula and filter parse errors
+}
+
+// A mapping's filter and compute formulas, parsed once per import
+interface CompiledExpressions {
+  filter?: Expression;
+  formulas: Map<string, Expression>;
+}
+
+// Canonical fields the record creators below read, per target table
+export const GENERIC_TARGET_FIELDS: Record<GenericTargetTable, GenericTargetField[]> = {
+  sleep_sessions: [
+    { field: 'startedAt', label: 'Start time', required: true },
+    { field: 'endedAt', label: 'End time' },
+    { field: 'date', label: 'Night (YYYY-MM-DD)' },
+    { field: 'durationSeconds', label: 'Sleep duration (s)', required: true },
+    { field: 'timeInBedSeconds', label: 'Time in bed (s)' },
+    { field: 'deepSeconds', label: 'Deep (s)' },
+    { field: 'remSeconds', label: 'REM (s)' },
+    { field: 'lightSeconds', label: 'Light (s)' },
+    { field: 'awakeSeconds', label: 'Awake (s)' },
+    { field: 'avgHeartRate', label: 'Avg heart rate' },
+    { field: 'minHeartRate', label: 'Min heart rate' },
+    { field: 'maxHeartRate', label: 'Max heart rate' },
+    { field: 'avgHrv', label: 'Avg HRV (ms)' },
+    { field: 'avgRespiratoryRate', label: 'Respiratory rate' },
+    { field: 'avgBedTempC', label: 'Bed temp (°C)' },
+    { field: 'avgRoomTempC', label: 'Room temp (°C)' },
+  ],
+  workout_sessions: [
+    { field: 'startedAt', label: 'Start time', required: true },
+    { field: 'endedAt', label: 'End time' },
+    { field: 'date', label: 'Date (YYYY-MM-DD)' },
+    { field: 'durationSeconds', label: 'Duration (s)', required: true },
+    { field: 'workoutType', label: 'Workout type' },
+    { field: 'workoutSubtype', label: 'Activity name' },
+    { field: 'calories', label: 'Calories' },
+    { field: 'avgHeartRate', label: 'Avg heart rate' },
+    { field: 'maxHeartRate', label: 'Max heart rate' },
+    { field: 'distance', label: 'Distance (m)' },
+  ],
+  daily_metrics: [
+    { field: 'date', label: 'Date (YYYY-MM-DD)', required: true },
+    { field: 'metricType', label: 'Metric', required: true },
+    { field: 'value', label: 'Value', required: true },
+    { field: 'unit', label: 'Unit' },
+    { field: 'secondaryValue', label: 'Secondary value' },
+  ],
+};
+
 // ============================================================
 // TRANSFORMER
 // ============================================================
@@ -40,23 +118,30 @@ export async function transformGeneric(
   profile: ImporterProfile,
   sourceId: string,
   userId: string,
-  onProgress?: (processed: number, total: number) => void
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
 ): Promise<TransformResult> {
   const warnings: ImportWarning[] = [];
   const sleepSessions: SleepSession[] = [];
   const workoutSessions: WorkoutSession[] = [];
+  const dailyMetrics: DailyMetric[] = [];
   const timeSeries: TimeSeries[] = [];
 
   for (const mapping of profile.mappings) {
-    // Extract source data
-    let sourceData: GenericRow[] = [];
-
-    if (mapping.sourceType === 'json') {
-      sourceData = extractJsonData(data, mapping.sourcePath);
-    } else if (mapping.sourceType === 'csv' && Array.isArray(data)) {
-      sourceData = data as GenericRow[];
+    if (!isGenericTargetTable(mapping.targetTable)) {
+      warnings.push({
+        type: 'parse_error',
+        message: `Mappings to ${mapping.targetTable} are not supported`,
+      });
+      continue;
     }
 
+    const expressions = compileExpressions(mapping, warnings);
+    if (!expressions) continue;
+
+    // Extract source data
+    const sourceData = extractMappingRows(data, mapping);
+
     if (sourceData.length === 0) {
       warnings.push({
         type: 'parse_error',
@@ -70,22 +155,18 @@ export async function transformGeneric(
       onProgress?.(i + 1, sourceData.length);
 
       try {
-        const row = sourceData[i];
-        const transformed = transformRow(row, mapping.fieldMappings, sourceId, userId);
-
-        // Apply filter if specified
-        if (mapping.filter && !evaluateFilter(row, mapping.filter)) {
-          continue;
-        }
+        const record = mapRow(sourceData[i], mapping, expressions, sourceId, userId, night);
 
         switch (mapping.targetTable) {
           case 'sleep_sessions':
-            sleepSessions.push(createSleepSession(transformed, sourceId, userId));
+            if (record) sleepSessions.push(record as SleepSession);
             break;
           case 'workout_sessions':
-            workoutSessions.push(createWorkoutSession(transformed, sourceId, userId));
+            if (record) workoutSessions.push(record as WorkoutSession);
+            break;
+          case 'daily_metrics':
+            if (record) dailyMetrics.push(record as DailyMetric);
             break;
-          // Add other table types as needed
         }
       } catch (e) {
         warnings.push({
@@ -97,50 +178,112 @@ export async function transformGeneric(
     }
   }
 
-  return { sleepSessions, workoutSessions, timeSeries, warnings };
+  return { sleepSessions, workoutSessions, dailyMetrics, timeSeries, warnings };
 }
 
-// ============================================================
-// JSON DATA EXTRACTION
-// ============================================================
+/**
+ * Run a single table mapping over the first rows of parsed file data,
+ * for previewing a mapping while it is being edited. Nothing is stored.
+ */
+export function previewMapping(
+  data: unknown,
+  mapping: TableMapping,
+  limit = 5
+): GenericPreview {
+  const sourceData = extractMappingRows(data, mapping);
+  const sample = sourceData.slice(0, limit);
+
+  const fields = new Set<string>();
+  for (const row of sample) {
+    Object.keys(row).forEach(key => fields.add(key));
+  }
 
-function extractJsonData(data: unknown, path?: string): GenericRow[] {
-  if (!path || path === '$') {
-    if (Array.isArray(data)) return data as GenericRow[];
-    return [data as GenericRow];
+  const warnings: ImportWarning[] = [];
+  const expressions = compileExpressions(mapping, warnings);
+
+  const rows = sample.map((source): GenericPreviewRow => {
+    if (!isGenericTargetTable(mapping.targetTable)) {
+      return { source, error: `Mappings to ${mapping.targetTable} are not supported` };
+    }
+    if (!expressions) {
+      return { source, error: warnings[warnings.length - 1].message };
+    }
+    try {
+      const record = mapRow(source, mapping, expressions, 'preview', 'preview', defaultNightOptions());
+      return record ? { source, record } : { source, filtered: true };
+    } catch (e) {
+      return { source, error: e instanceof Error ? e.message : 'Unknown error' };
+    }
+  });
+
+  return { fields: [...fields], rows, totalRows: sourceData.length, warnings };
+}
+
+export function isGenericTargetTable(table: TableMapping['targetTable']): table is GenericTargetTable {
+  return table in GENERIC_TARGET_FIELDS;
+}
+
+function extractMappingRows(data: unknown, mapping: TableMapping): GenericRow[] {
+  if (mapping.sourceType === 'json') {
+    return extractJsonData(data, mapping.sourcePath);
   }
+  if (mapping.sourceType === 'csv' && Array.isArray(data)) {
+    return data as GenericRow[];
+  }
+  return [];
+}
 
-  // Simple JSONPath implementation
-  const segments = path
-    .replace(/^\$\.?/, '')
-    .split(/\.|\[(\d+|\*)\]/)
-    .filter(Boolean);
+/**
+ * Map one source row to a canonical record, or null when the mapping's
+ * filter excludes it. Throws when a required field is missing.
+ */
+function mapRow(
+  row: GenericRow,
+  mapping: TableMapping,
+  expressions: CompiledExpressions,
+  sourceId: string,
+  userId: string,
+  night: NightOptions
+): GenericRecord | null {
+  // Apply filter if specified
+  if (expressions.filter && !isTruthy(evaluateExpression(expressions.filter, row))) {
+    return null;
+  }
 
-  let current: unknown = data;
+  const transformed = transformRow(row, mapping.fieldMappings, expressions.formulas, sourceId, userId);
 
-  for (const segment of segments) {
-    if (current === null || current === undefined) return [];
+  switch (mapping.targetTable) {
+    case 'sleep_sessions':
+      return createSleepSession(transformed, sourceId, userId, night);
+    case 'workout_sessions':
+      return createWorkoutSession(transformed, sourceId, userId);
+    case 'daily_metrics':
+      return createDailyMetric(transformed, sourceId, userId);
+    default:
+      return null;
+  }
+}
 
-    if (segment === '*') {
-      // Wildcard - expect array
-      if (!Array.isArray(current)) return [];
-      return current as GenericRow[];
-    }
+// ============================================================
+// JSON DATA EXTRACTION
+// ============================================================
 
-    if (/^\d+$/.test(segment)) {
-      // Array index
-      if (!Array.isArray(current)) return [];
-      current = current[parseInt(segment)];
-    } else {
-      // Object property
-      if (typeof current !== 'object' || current === null) return [];
-      current = (current as Record<string, unknown>)[segment];
-    }
+/**
+ * Records selected by a mapping's JSONPath. A path selecting a single
+ * array (`$`, `$.sessions`) yields its elements; otherwise every selected
+ * object is a record (`$.sessions[*]`, `$..sleep[?@.score > 0]`).
+ */
+function extractJsonData(data: unknown, path?: string): GenericRow[] {
+  let nodes: unknown[];
+  try {
+    nodes = queryJsonPath(data, path || '$');
+  } catch {
+    // Invalid paths are reported when the mapping is compiled
+    return [];
   }
 
-  if (Array.isArray(current)) return current as GenericRow[];
-  if (current !== null && typeof current === 'object') return [current as GenericRow];
-  return [];
+  const records = nodes.length === 1 && Array.isArray(nodes[0]) ? nodes[0] : nodes;
+  return records.filter((r): r is GenericRow => r !== null && typeof r === 'object' && !Array.isArray(r));
 }
 
 // ============================================================
@@ -150,27 +293,29 @@ function extractJsonData(data: unknown, path?: string): GenericRow[] {
 function transformRow(
   row: GenericRow,
   mappings: FieldMapping[],
+  formulas: Map<string, Expression>,
   _sourceId: string,
   _userId: string
 ): Record<string, unknown> {
   const result: Record<string, unknown> = {};
 
   for (const mapping of mappings) {
-    try {
-      let value = extractValue(row, mapping.source);
+    let value = extractValue(row, mapping.source);
 
-      if (value === undefined || value === null) {
-        if (mapping.required) {
-          throw new Error(`Required field missing: ${mapping.source}`);
-        }
-        if (mapping.defaultValue !== undefined) {
-          value = mapping.defaultValue;
-        }
-        continue;
+    // CSV cells are never undefined; an empty cell is a missing value
+    if (value === undefined || value === null || value === '') {
+      if (mapping.required) {
+        throw new Error(`Required field missing: ${mapping.source}`);
+      }
+      if (mapping.defaultValue !== undefined) {
+        result[mapping.target] = mapping.defaultValue;
       }
+      continue;
+    }
 
+    try {
       if (mapping.transform) {
-        value = applyTransform(value, mapping.transform, row);
+        value = applyTransform(value, mapping.transform, row, formulas);
       }
 
       result[mapping.target] = value;
@@ -189,6 +334,11 @@ function extractValue(row: GenericRow, source: string): unknown {
     return source.slice(1, -1);
   }
 
+  // Handle JSONPath relative to the row
+  if (source.startsWith('$')) {
+    return selectJsonPathValue(row, source);
+  }
+
   // Handle simple field access
   if (!source.includes('.') && !source.includes('[')) {
     return row[source];
@@ -219,11 +369,31 @@ function extractValue(row: GenericRow, source: string): unknown {
   return current;
 }
 
+/**
+ * A single selected node is the value; several become an array.
+ */
+function selectJsonPathValue(row: GenericRow, path: string): unknown {
+  let nodes: unknown[];
+  try {
+    nodes = queryJsonPath(row, path);
+  } catch {
+    // Invalid paths are reported when the mapping is compiled
+    return undefined;
+  }
+  if (nodes.length === 0) return undefined;
+  return nodes.length === 1 ? nodes[0] : nodes;
+}
+
 // ============================================================
 // VALUE TRANSFORMS
 // ============================================================
 
-function applyTransform(value: unknown, transform: FieldTransform, row: GenericRow): unknown {
+function applyTransform(
+  value: unknown,
+  transform: FieldTransform,
+  row: GenericRow,
+  formulas: Map<string, Expression>
+): unknown {
   switch (transform.type) {
     case 'direct':
       return value;
@@ -234,11 +404,15 @@ function applyTransform(value: unknown, transform: FieldTransform, row: GenericR
     case 'duration':
       return transformDuration(value, transform.fromUnit, transform.toUnit);
 
-    case 'multiply':
-      return typeof value === 'number' ? value * transform.factor : value;
+    case 'multiply': {
+      const num = toNumber(value);
+      return num !== undefined ? num * transform.factor : value;
+    }
 
-    case 'divide':
-      return typeof value === 'number' ? value / transform.divisor : value;
+    case 'divide': {
+      const num = toNumber(value);
+      return num !== undefined ? num / transform.divisor : value;
+    }
 
     case 'map':
       return transform.mapping[String(value)] ?? value;
@@ -249,10 +423,15 @@ function applyTransform(value: unknown, transform: FieldTransform, row: GenericR
       return match?.[transform.group] ?? value;
 
     case 'jsonpath':
-      return extractValue(row, transform.path);
-
-    case 'compute':
-      return evaluateFormula(transform.formula, row);
+      return transform.path.startsWith('$')
+        ? selectJsonPathValue(row, transform.path)
+        : extractValue(row, transform.path);
+
+    case 'compute': {
+      // Formulas that failed to parse were reported when the mapping was compiled
+      const formula = formulas.get(transform.formula);
+      return formula ? evaluateExpression(formula, row) : undefined;
+    }
 
     case 'coalesce':
       for (const source of transform.sources) {
@@ -266,7 +445,17 @@ function applyTransform(value: unknown, transform: FieldTransform, row: GenericR
   }
 }
 
+// CSV values arrive as strings
+function toNumber(value: unknown): number | undefined {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(num) ? undefined : num;
+}
+
 function transformTimestamp(value: unknown, format: string): string {
+  if (format === 'unix_seconds' || format === 'unix_millis') {
+    value = toNumber(value) ?? value;
+  }
+
   if (typeof value === 'number') {
     if (format === 'unix_seconds') {
       return new Date(value * 1000).toISOString();
@@ -317,93 +506,73 @@ function transformDuration(value: unknown, fromUnit: string, toUnit: string): nu
 }
 
 // ============================================================
-// FORMULA EVALUATION (simplified)
+// EXPRESSIONS
 // ============================================================
 
-function evaluateFormula(formula: string, row: GenericRow): unknown {
-  // Handle sum(array[*].field)
-  const sumMatch = formula.match(/^sum\((\w+)\[\*\]\.(\w+)\)$/);
-  if (sumMatch) {
-    const [, arrayField, valueField] = sumMatch;
-    const array = row[arrayField];
-    if (Array.isArray(array)) {
-      return array.reduce((sum, item) => {
-        const val = (item as Record<string, unknown>)[valueField];
-        return sum + (typeof val === 'number' ? val : 0);
-      }, 0);
-    }
-    return 0;
-  }
+/**
+ * Parse a mapping's paths, filter and compute formulas. A formula or path
+ * that does not parse leaves its field unmapped; a records path or filter
+ * that does not parse skips the whole mapping (returns null) rather than
+ * importing the wrong rows.
+ */
+function compileExpressions(
+  mapping: TableMapping,
+  warnings: ImportWarning[]
+): CompiledExpressions | null {
+  const formulas = new Map<string, Expression>();
 
-  // Handle sum(array[?condition].field)
-  const sumFilterMatch = formula.match(/^sum\((\w+)\[\?(\w+)=='(\w+)'\]\.(\w+)\)$/);
-  if (sumFilterMatch) {
-    const [, arrayField, filterField, filterValue, valueField] = sumFilterMatch;
-    const array = row[arrayField];
-    if (Array.isArray(array)) {
-      return array
-        .filter(item => (item as Record<string, unknown>)[filterField] === filterValue)
-        .reduce((sum, item) => {
-          const val = (item as Record<string, unknown>)[valueField];
-          return sum + (typeof val === 'number' ? val : 0);
-        }, 0);
+  if (mapping.sourceType === 'json') {
+    try {
+      parseJsonPath(mapping.sourcePath || '$');
+    } catch (e) {
+      warnings.push({
+        type: 'parse_error',
+        message: `Invalid records path "${mapping.sourcePath}": ${e instanceof Error ? e.message : 'Unknown error'}`,
+      });
+      return null;
     }
-    return 0;
   }
 
-  // Simple arithmetic (field1 + field2, etc.)
-  // This is intentionally limited for security
-  const arithmeticMatch = formula.match(/^(\w+)\s*([\+\-\*\/])\s*(\w+)$/);
-  if (arithmeticMatch) {
-    const [, left, op, right] = arithmeticMatch;
-    const leftVal = typeof row[left] === 'number' ? row[left] : parseFloat(String(row[left]));
-    const rightVal = typeof row[right] === 'number' ? row[right] : parseFloat(String(row[right]));
-
-    if (isNaN(leftVal as number) || isNaN(rightVal as number)) return 0;
-
-    switch (op) {
-      case '+': return (leftVal as number) + (rightVal as number);
-      case '-': return (leftVal as number) - (rightVal as number);
-      case '*': return (leftVal as number) * (rightVal as number);
-      case '/': return rightVal !== 0 ? (leftVal as number) / (rightVal as number) : 0;
+  for (const field of mapping.fieldMappings) {
+    const paths = [field.source, field.transform?.type === 'jsonpath' ? field.transform.path : ''];
+    for (const path of paths.filter(p => p.startsWith('$'))) {
+      try {
+        parseJsonPath(path);
+      } catch (e) {
+        warnings.push({
+          type: 'parse_error',
+          message: `Invalid path for ${field.target}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+          field: field.target,
+        });
+      }
     }
-  }
 
-  return undefined;
-}
+    if (field.transform?.type !== 'compute' || formulas.has(field.transform.formula)) continue;
 
-// ============================================================
-// FILTER EVALUATION
-// ============================================================
-
-function evaluateFilter(row: GenericRow, filter: string): boolean {
-  // Simple equality filter: "field == 'value'"
-  const eqMatch = filter.match(/^(\w+)\s*==\s*'(.+)'$/);
-  if (eqMatch) {
-    const [, field, value] = eqMatch;
-    return String(row[field]) === value;
+    try {
+      formulas.set(field.transform.formula, parseExpression(field.transform.formula));
+    } catch (e) {
+      warnings.push({
+        type: 'parse_error',
+        message: `Invalid formula for ${field.target}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        field: field.target,
+      });
+    }
   }
 
-  // Numeric comparison: "field > 100"
-  const numMatch = filter.match(/^(\w+)\s*([<>=!]+)\s*(\d+(?:\.\d+)?)$/);
-  if (numMatch) {
-    const [, field, op, valueStr] = numMatch;
-    const fieldVal = typeof row[field] === 'number' ? row[field] : parseFloat(String(row[field]));
-    const compareVal = parseFloat(valueStr);
-
-    if (isNaN(fieldVal as number)) return false;
-
-    switch (op) {
-      case '>': return (fieldVal as number) > compareVal;
-      case '>=': return (fieldVal as number) >= compareVal;
-      case '<': return (fieldVal as number) < compareVal;
-      case '<=': return (fieldVal as number) <= compareVal;
-      case '==': return (fieldVal as number) === compareVal;
-      case '!=': return (fieldVal as number) !== compareVal;
-    }
+  if (!mapping.filter) {
+    return { formulas };
   }
 
-  return true;
+  try {
+    return { filter: parseExpression(mapping.filter), formulas };
+  } catch (e) {
+    warnings.push({
+      type: 'parse_error',
+      message: `Invalid filter "${mapping.filter}": ${e instanceof Error ? e.message : 'Unknown error'}`,
+    });
+    return null;
+  }
 }
 
 // ============================================================
@@ -413,13 +582,14 @@ function evaluateFilter(row: GenericRow, filter: string): boolean {
 function createSleepSession(
   data: Record<string, unknown>,
   sourceId: string,
-  userId: string
+  userId: string,
+  night: NightOptions
 ): SleepSession {
   return {
     id: generateId(),
     userId,
     sourceId,
-    date: String(data.date || new Date().toISOString().split('T')[0]),
+    date: nightDate(data, night),
     startedAt: String(data.startedAt || new Date().toISOString()),
     endedAt: String(data.endedAt || new Date().toISOString()),
     durationSeconds: Number(data.durationSeconds || 0),
@@ -455,7 +625,7 @@ function createWorkoutSession(
     id: generateId(),
     userId,
     sourceId,
-    date: String(data.date || new Date().toISOString().split('T')[0]),
+    date: recordDate(data),
     startedAt: String(data.startedAt || new Date().toISOString()),
     endedAt: data.endedAt ? String(data.endedAt) : undefined,
     durationSeconds: Number(data.durationSeconds || 0),
@@ -476,3 +646,60 @@ function createWorkoutSession(
     vendorData: data,
   };
 }
+
+function createDailyMetric(
+  data: Record<string, unknown>,
+  sourceId: string,
+  userId: string
+): DailyMetric {
+  const value = toNumber(data.value);
+  if (value === undefined) {
+    throw new Error('Metric value is not a number');
+  }
+  if (!data.metricType) {
+    throw new Error('Metric type missing');
+  }
+  if (!data.date && !data.startedAt) {
+    throw new Error('Metric date missing');
+  }
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date: recordDate(data),
+    metricType: String(data.metricType) as DailyMetricType,
+    value,
+    unit: data.unit !== undefined ? String(data.unit) : '',
+    secondaryValue: toNumber(data.secondaryValue),
+    dataQuality: {
+      isComplete: true,
+      hasOutliers: false,
+      outlierFields: [],
+      sensorGaps: 0,
+      manuallyExcluded: false,
+    },
+  };
+}
+
+/**
+ * The record's calendar date: the mapped date, else the day it started.
+ * Timestamps mapped to `date` keep only their date part.
+ */
+function recordDate(data: Record<string, unknown>): string {
+  const date = data.date || data.startedAt;
+  return date ? String(date).slice(0, 10) : new Date().toISOString().split('T')[0];
+}
+
+/**
+ * A sleep session's night: the mapped date, else the night its start
+ * falls in. Starts that do not parse fall back to their date part.
+ */
+function nightDate(data: Record<string, unknown>, night: NightOptions): string {
+  if (data.date || !data.startedAt) return recordDate(data);
+  try {
+    return nightOf(String(data.startedAt), night);
+  } catch {
+    return recordDate(data);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Import High-Water Marks
+ * ========================
+ * How far each Source's history reaches per record type. Vendor exports
+ * repeat the whole history every time, so a later import from the same
+ * vendor drops everything at or before the marks of earlier ones and
+ * only appends what is new since. Daily metrics and series are marked per
+ * metric, since a vendor's files can end at different points (Withings
+ * weight and blood pressure, Garmin wellness and HRV).
+ */
+
+import type {
+  DailyMetric,
+  DailyMetricType,
+  HighWaterMarks,
+  SleepSession,
+  TimeSeries,
+  TimeSeriesMetricType,
+  VendorType,
+  WorkoutSession,
+} from '../types/schema';
+
+/**
+ * Records marks are taken from and applied to.
+ */
+export interface MarkedRecords {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics?: DailyMetric[];
+  timeSeries: TimeSeries[];
+}
+
+// Files of these are not successive exports of one history: mapped files
+// may hold anything, and device recordings are one activity each
+const UNORDERED_VENDORS = new Set<VendorType>(['workout_file', 'generic_csv', 'generic_json', 'unknown']);
+
+export function supportsHighWaterMarks(vendor: VendorType): boolean {
+  return !UNORDERED_VENDORS.has(vendor);
+}
+
+/**
+ * Marks of a set of records. Types without records have no mark. Series
+ * of a session follow the session, so only the others are marked.
+ */
+export function recordHighWaterMarks(records: MarkedRecords): HighWaterMarks {
+  const dailyMetrics: Partial<Record<DailyMetricType, string>> = {};
+  for (const metric of records.dailyMetrics ?? []) {
+    const mark = dailyMetrics[metric.metricType];
+    if (!mark || metric.date > mark) dailyMetrics[metric.metricType] = metric.date;
+  }
+
+  const timeSeries: Partial<Record<TimeSeriesMetricType, string>> = {};
+  for (const series of records.timeSeries) {
+    if (series.sessionId) continue;
+    const latest = latestInstant([timeSeries[series.metricType], latestReading(series)]);
+    if (latest) timeSeries[series.metricType] = latest;
+  }
+
+  return withoutEmptyMarks({
+    sleepSessions: latestInstant(records.sleepSessions.map(s => s.endedAt)),
+    workoutSessions: latestInstant(records.workoutSessions.map(w => w.startedAt)),
+    dailyMetrics: Object.keys(dailyMetrics).length > 0 ? dailyMetrics : undefined,
+    timeSeries: Object.keys(timeSeries).length > 0 ? timeSeries : undefined,
+  });
+}
+
+/**
+ * The latest of each mark across several Sources, or undefined when none
+ * of them has any.
+ */
+export function combineHighWaterMarks(all: Array<HighWaterMarks | undefined>): HighWaterMarks | undefined {
+  const marks = withoutEmptyMarks({
+    sleepSessions: latestInstant(all.map(m => m?.sleepSessions)),
+    workoutSessions: latestInstant(all.map(m => m?.workoutSessions)),
+    dailyMetrics: combineMetricMarks(all.map(m => m?.dailyMetrics), latestDate),
+    timeSeries: combineMetricMarks(all.map(m => m?.timeSeries), latestInstant),
+  });
+  return Object.keys(marks).length > 0 ? marks : undefined;
+}
+
+/**
+ * Drop records at or before the marks. A sleep session counts as covered
+ * when it starts before the latest stored period ended, and a series of
+ * a session goes with it. Other series keep only their readings after
+ * the mark. Daily metrics of the marked day itself are read again, since
+ * the earlier export may have ended partway through that day; they take
+ * the place of that day's stored rows when stored.
+ */
+export function skipImportedRecords<T extends MarkedRecords>(
+  records: T,
+  marks: HighWaterMarks
+): { records: T; skipped: number } {
+  const sleepMark = instant(marks.sleepSessions);
+  const workoutMark = instant(marks.workoutSessions);
+
+  const sleepSessions = records.sleepSessions.filter(s => !isAtOrBefore(s.startedAt, sleepMark));
+  const workoutSessions = records.workoutSessions.filter(w => !isAtOrBefore(w.startedAt, workoutMark));
+  const dailyMetrics = records.dailyMetrics?.filter(m => {
+    const mark = marks.dailyMetrics?.[m.metricType];
+    return !mark || m.date >= mark;
+  });
+
+  const kept = new Set([...sleepSessions, ...workoutSessions].map(s => s.id));
+  const skippedSessions = new Set(
+    [...records.sleepSessions, ...records.workoutSessions].map(s => s.id).filter(id => !kept.has(id))
+  );
+  const timeSeries = records.timeSeries.flatMap(series => {
+    if (series.sessionId) return skippedSessions.has(series.sessionId) ? [] : [series];
+    const after = readingsAfter(series, instant(marks.timeSeries?.[series.metricType]));
+    return after ? [after] : [];
+  });
+
+  const skipped =
+    records.sleepSessions.length - sleepSessions.length +
+    records.workoutSessions.length - workoutSessions.length +
+    (records.dailyMetrics?.length ?? 0) - (dailyMetrics?.length ?? 0) +
+    records.timeSeries.length - timeSeries.length;
+
+  return {
+    records: { ...records, sleepSessions, workoutSessions, dailyMetrics, timeSeries },
+    skipped,
+  };
+}
+
+/**
+ * Nights among newly imported sleep. Naps and split-off fragments are
+ * periods of a night, not nights of their own.
+ */
+export function countNewNights(sessions: SleepSession[]): number {
+  return sessions.filter(session => session.sleepType === 'main').length;
+}
+
+export function describeNewNights(count: number): string {
+  if (count === 0) return 'No new nights since your last import';
+  return `${count} new ${count === 1 ? 'night' : 'nights'} since your last import`;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function instant(timestamp: string | undefined): number | undefined {
+  if (!timestamp) return undefined;
+  const time = Date.parse(timestamp);
+  return isNaN(time) ? undefined : time;
+}
+
+// Unparseable timestamps are kept rather than silently dropped
+function isAtOrBefore(timestamp: string, mark: number | undefined): boolean {
+  if (mark === undefined) return false;
+  const time = Date.parse(timestamp);
+  return !isNaN(time) && time <= mark;
+}
+
+// Time of a series' reading: its own timestamp, or its slot in a regular series
+function readingTime(series: TimeSeries, index: number): number {
+  const timestamp = series.timestamps?.[index];
+  if (timestamp) return Date.parse(timestamp);
+  return Date.parse(series.startedAt) + index * series.intervalSeconds * 1000;
+}
+
+function latestReading(series: TimeSeries): string | undefined {
+  let latest: number | undefined;
+  for (let i = 0; i < series.values.length; i++) {
+    const time = readingTime(series, i);
+    if (!isNaN(time) && (latest === undefined || time > latest)) latest = time;
+  }
+  return latest !== undefined ? new Date(latest).toISOString() : undefined;
+}
+
+/**
+ * The series with only its readings after the mark, or undefined if none
+ * is. Unparseable times are kept, as for records.
+ */
+function readingsAfter(series: TimeSeries, mark: number | undefined): TimeSeries | undefined {
+  if (mark === undefined) return series;
+
+  const kept: number[] = [];
+  for (let i = 0; i < series.values.length; i++) {
+    const time = readingTime(series, i);
+    if (isNaN(time) || time > mark) kept.push(i);
+  }
+  if (kept.length === series.values.length) return series;
+  if (kept.length === 0) return undefined;
+
+  // Readings of a regular series are in time order, so what is left is
+  // its tail and it starts at the first reading kept
+  const values = kept.map(i => series.values[i]);
+  const timestamps = series.timestamps && kept.map(i => series.timestamps![i]);
+  const first = readingTime(series, kept[0]);
+  return {
+    ...series,
+    startedAt: isNaN(first) ? series.startedAt : new Date(first).toISOString(),
+    values,
+    ...(timestamps ? { timestamps } : {}),
+    gapCount: values.filter(v => v === null).length,
+  };
+}
+
+function latestInstant(timestamps: Array<string | undefined>): string | undefined {
+  let latest: number | undefined;
+  for (const timestamp of timestamps) {
+    const time = instant(timestamp);
+    if (time !== undefined && (latest === undefined || time > latest)) latest = time;
+  }
+  return latest !== undefined ? new Date(latest).toISOString() : undefined;
+}
+
+function latestDate(dates: Array<string | undefined>): string | undefined {
+  let latest: string | undefined;
+  for (const date of dates) {
+    if (date && (!latest || date > latest)) latest = date;
+  }
+  return latest;
+}
+
+function combineMetricMarks<K extends string>(
+  all: Array<Partial<Record<K, string>> | undefined>,
+  latest: (marks: Array<string | undefined>) => string | undefined
+): Partial<Record<K, string>> | undefined {
+  const result: Partial<Record<K, string>> = {};
+  const types = new Set(all.flatMap(marks => Object.keys(marks ?? {}) as K[]));
+  for (const type of types) {
+    const mark = latest(all.map(marks => marks?.[type]));
+    if (mark) result[type] = mark;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function withoutEmptyMarks(marks: HighWaterMarks): HighWaterMarks {
+  return Object.fromEntries(Object.entries(marks).filter(([, mark]) => mark !== undefined)) as HighWaterMarks;
+}
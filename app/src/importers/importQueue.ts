@@ -0,0 +1,349 @@
+/**
+ * Import Queue
+ * =============
+ * Imports a selection of files from several vendors, or a dropped folder
+ * such as an unpacked Takeout export. Every file is detected up front;
+ * the files one importer profile recognizes are imported together as one
+ * Source, the way a multi-file export of one vendor is, and archives and
+ * Apple Health exports each become a Source of their own. Detection keeps
+ * only what it found, not the file contents, so a large folder is never
+ * held in memory at once; each Source's files are read when it imports.
+ *
+ * Sources run one at a time, each in the file processor worker, because
+ * every import deduplicates against what the ones before it stored. For
+ * the same reason the order matters: workout-only sources go first, so
+ * sleep imports find the workouts they are correlated with, and within
+ * that larger sources go first, so the most complete recording of a
+ * night is the one the others merge into.
+ */
+
+import {
+  detectFileType,
+  isStreamableAppleHealthFile,
+  type FileDetectionResult,
+  type ImportFile,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportResult,
+} from './pipeline';
+import { needsColumnMapping } from './savedProfiles';
+import { isAmbiguousDetection } from './detection';
+import type { ArchiveManifest } from './archive';
+import {
+  cancelProcessing,
+  checkFileSizeWarning,
+  importAppleHealthExportInWorker,
+  importFilesInWorker,
+  isBinaryFile,
+  type WorkerTask,
+} from '../workers';
+import { generateId } from '../utils/crypto';
+import type { VendorType } from '../types/schema';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ImportQueueStatus = 'pending' | 'importing' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface ImportQueueItem {
+  id: string;
+  // One file, or every file of a vendor's multi-file export
+  files: File[];
+  vendor: VendorType;
+  // Detection of the first file
+  detection?: FileDetectionResult;
+  // Apple Health export.xml, streamed instead of read whole
+  streamed: boolean;
+  // Other queued sources come from the same vendor
+  sharesVendor: boolean;
+  status: ImportQueueStatus;
+  progress?: ImportProgress;
+  result?: ImportResult;
+  // Why the import failed or was skipped
+  message?: string;
+}
+
+export interface ImportQueueSummary {
+  imported: number;
+  failed: number;
+  skipped: number;
+  recordCounts: ImportResult['recordCounts'];
+  warnings: number;
+}
+
+/**
+ * A queue being worked through. Cancelling stops the source in progress,
+ * which then stores nothing, and marks the ones after it cancelled.
+ */
+export interface ImportQueueRun {
+  done: Promise<void>;
+  cancel(): void;
+}
+
+// ============================================================
+// PREPARATION
+// ============================================================
+
+/**
+ * Detect every file, group the files of each importer profile and put
+ * the groups in import order. Files that cannot be imported unattended
+ * (unreadable or unknown formats, files that need their columns mapped
+ * or an importer chosen) are kept as skipped.
+ */
+export async function prepareImportQueue(
+  files: File[],
+  onProgress?: (detected: number, total: number) => void
+): Promise<ImportQueueItem[]> {
+  const detected: ImportQueueItem[] = [];
+  for (const file of files) {
+    detected.push(await detectQueueItem(file));
+    onProgress?.(detected.length, files.length);
+  }
+
+  const items = groupByProfile(detected).map(item => {
+    const size = totalSize(item);
+    const sizeCheck = checkFileSizeWarning(size);
+    return item.status === 'pending' && !item.streamed && sizeCheck.level === 'error'
+      ? { ...item, status: 'skipped' as const, message: sizeCheck.message }
+      : item;
+  });
+
+  const vendorCounts = new Map<VendorType, number>();
+  for (const item of items) {
+    if (item.status === 'pending') {
+      vendorCounts.set(item.vendor, (vendorCounts.get(item.vendor) ?? 0) + 1);
+    }
+  }
+
+  return orderImportQueue(items.map(item => ({
+    ...item,
+    sharesVendor: (vendorCounts.get(item.vendor) ?? 0) > 1,
+  })));
+}
+
+export function orderImportQueue(items: ImportQueueItem[]): ImportQueueItem[] {
+  return [...items].sort((a, b) => queueRank(a) - queueRank(b) || totalSize(b) - totalSize(a));
+}
+
+export function totalSize(item: ImportQueueItem): number {
+  return item.files.reduce((sum, file) => sum + file.size, 0);
+}
+
+async function detectQueueItem(file: File): Promise<ImportQueueItem> {
+  const item: ImportQueueItem = {
+    id: generateId(),
+    files: [file],
+    vendor: 'unknown',
+    streamed: false,
+    sharesVendor: false,
+    status: 'pending',
+  };
+
+  try {
+    if (await isStreamableAppleHealthFile(file)) {
+      return { ...item, vendor: 'apple_health', streamed: true };
+    }
+
+    const sizeCheck = checkFileSizeWarning(file.size);
+    if (sizeCheck.level === 'error') {
+      return { ...item, status: 'skipped', message: sizeCheck.message };
+    }
+
+    const detection = await detectFileType(await readImportFile(file));
+    const detected = { ...item, vendor: detection.suggestedVendor, detection };
+
+    if (detection.fileType === 'unknown') {
+      return { ...detected, status: 'skipped', message: 'Unrecognized file format' };
+    }
+    if (needsColumnMapping(detection)) {
+      return { ...detected, status: 'skipped', message: 'Its columns need mapping; import it on its own' };
+    }
+    if (detection.fileType !== 'zip' && isAmbiguousDetection(detection.candidates)) {
+      return { ...detected, status: 'skipped', message: 'Several importers match; import it on its own to choose one' };
+    }
+
+    return detected;
+  } catch (e) {
+    return { ...item, status: 'skipped', message: e instanceof Error ? e.message : 'Could not read file' };
+  }
+}
+
+// Files one profile recognizes join the first of them; archives and
+// streamed exports stay on their own
+function groupByProfile(items: ImportQueueItem[]): ImportQueueItem[] {
+  const groups: ImportQueueItem[] = [];
+  const byProfile = new Map<string, ImportQueueItem>();
+
+  for (const item of items) {
+    const profileId = item.detection?.matchedProfile?.id;
+    const groupable = item.status === 'pending' && !item.streamed && item.detection?.fileType !== 'zip';
+    const group = groupable && profileId ? byProfile.get(profileId) : undefined;
+
+    if (group) {
+      group.files.push(...item.files);
+      continue;
+    }
+
+    const copy = { ...item, files: [...item.files] };
+    groups.push(copy);
+    if (groupable && profileId) byProfile.set(profileId, copy);
+  }
+
+  return groups;
+}
+
+// Workout-only files first, sleep-only files last, skipped files at the end
+function queueRank(item: ImportQueueItem): number {
+  if (item.status === 'skipped') return 3;
+  if (item.vendor === 'workout_file') return 0;
+
+  const tables = item.detection?.matchedProfile?.mappings.map(m => m.targetTable) ?? [];
+  const workouts = tables.includes('workout_sessions');
+  const sleep = tables.includes('sleep_sessions');
+  if (workouts && !sleep) return 0;
+  if (sleep && !workouts) return 2;
+  return 1;
+}
+
+// ============================================================
+// RUNNING
+// ============================================================
+
+/**
+ * Import the pending items in order. `onUpdate` receives a new copy of
+ * an item whenever its status or progress changes.
+ */
+export function runImportQueue(
+  items: ImportQueueItem[],
+  userId: string,
+  options: ImportOptions,
+  onUpdate: (item: ImportQueueItem) => void
+): ImportQueueRun {
+  let cancelled = false;
+  let current: WorkerTask<ImportResult> | null = null;
+
+  const done = (async () => {
+    for (const item of items) {
+      if (item.status !== 'pending') continue;
+      if (cancelled) {
+        onUpdate({ ...item, status: 'cancelled', message: 'Cancelled by user' });
+        continue;
+      }
+
+      const importing: ImportQueueItem = { ...item, status: 'importing', progress: undefined, result: undefined, message: undefined };
+      onUpdate(importing);
+
+      // Pieces of one export come in no particular order, so one piece's
+      // high-water marks must not make the next skip its records
+      const itemOptions = { ...options, fullHistory: options.fullHistory || item.sharesVendor };
+
+      let result: ImportResult;
+      try {
+        current = await startItem(item, userId, itemOptions, progress => onUpdate({ ...importing, progress }));
+        result = cancelled ? await cancelledResult(current) : await current.result;
+      } catch (e) {
+        onUpdate({ ...importing, status: 'failed', message: e instanceof Error ? e.message : 'Could not read file' });
+        continue;
+      } finally {
+        current = null;
+      }
+
+      if (result.success) {
+        onUpdate({ ...importing, status: 'done', result });
+      } else {
+        onUpdate({
+          ...importing,
+          status: cancelled ? 'cancelled' : 'failed',
+          result,
+          message: result.errors.map(e => e.message).join('; '),
+        });
+      }
+    }
+  })();
+
+  return {
+    done,
+    cancel() {
+      cancelled = true;
+      if (current) cancelProcessing(current.worker);
+    },
+  };
+}
+
+/**
+ * Read an item's files for import.
+ */
+export function readQueueItem(item: ImportQueueItem): Promise<ImportFile[]> {
+  return Promise.all(item.files.map(readImportFile));
+}
+
+/**
+ * List the files a queue skipped with the skipped entries of an import
+ * of the rest, so its result still names them.
+ */
+export function withSkippedFiles<T extends { archive?: ArchiveManifest }>(outcome: T, items: ImportQueueItem[]): T {
+  const skipped = items
+    .filter(item => item.status === 'skipped')
+    .flatMap(item => item.files.map(file => ({ name: file.name, reason: item.message ?? 'Skipped' })));
+  if (skipped.length === 0) return outcome;
+
+  const archive = outcome.archive ?? { usedEntries: [], skippedEntries: [] };
+  return { ...outcome, archive: { ...archive, skippedEntries: [...archive.skippedEntries, ...skipped] } };
+}
+
+export function summarizeImportQueue(items: ImportQueueItem[]): ImportQueueSummary {
+  const summary: ImportQueueSummary = {
+    imported: 0,
+    failed: 0,
+    skipped: 0,
+    recordCounts: { sleepSessions: 0, workoutSessions: 0, dailyMetrics: 0, timeSeries: 0 },
+    warnings: 0,
+  };
+
+  for (const item of items) {
+    if (item.status === 'skipped') summary.skipped++;
+    if (item.status === 'failed' || item.status === 'cancelled') summary.failed++;
+    if (item.status !== 'done' || !item.result) continue;
+
+    summary.imported++;
+    summary.warnings += item.result.warnings.length;
+    for (const store of Object.keys(summary.recordCounts) as Array<keyof ImportQueueSummary['recordCounts']>) {
+      summary.recordCounts[store] += item.result.recordCounts[store];
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+async function startItem(
+  item: ImportQueueItem,
+  userId: string,
+  options: ImportOptions,
+  onProgress: (progress: ImportProgress) => void
+): Promise<WorkerTask<ImportResult>> {
+  if (item.streamed) {
+    return importAppleHealthExportInWorker(item.files[0], userId, onProgress, options);
+  }
+  return importFilesInWorker(await readQueueItem(item), userId, null, onProgress, options);
+}
+
+// Cancelled while the files were being read, before the worker got them
+function cancelledResult(task: WorkerTask<ImportResult>): Promise<ImportResult> {
+  cancelProcessing(task.worker);
+  return task.result;
+}
+
+async function readImportFile(file: File): Promise<ImportFile> {
+  // Archives and FIT files are binary; everything else is read as text
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    content: isBinaryFile(file) ? await file.arrayBuffer() : await file.text(),
+  };
+}
@@ -7,16 +7,41 @@
 export * from './pipeline';
 export * from './eightSleep';
 export * from './orangetheory';
+export * from './oura';
+export * from './whoop';
+export * from './garmin';
+export * from './fitbit';
+export * from './workoutFiles';
+export * from './withings';
 export * from './generic';
+export * from './archive';
+export * from './savedProfiles';
+export * from './detection';
+export * from './profilePackage';
+export * from './sourceDiff';
+export * from './changeSet';
+export * from './provenance';
 
 // Built-in importer profiles
 import { EIGHT_SLEEP_PROFILE } from './eightSleep';
 import { ORANGETHEORY_PROFILE } from './orangetheory';
+import { OURA_PROFILE } from './oura';
+import { WHOOP_PROFILE } from './whoop';
+import { GARMIN_PROFILE } from './garmin';
+import { FITBIT_PROFILE } from './fitbit';
+import { WORKOUT_FILE_PROFILE } from './workoutFiles';
+import { WITHINGS_PROFILE } from './withings';
 import type { ImporterProfile, VendorType } from '../types/schema';
 
 export const BUILT_IN_PROFILES: ImporterProfile[] = [
   EIGHT_SLEEP_PROFILE,
   ORANGETHEORY_PROFILE,
+  OURA_PROFILE,
+  WHOOP_PROFILE,
+  GARMIN_PROFILE,
+  FITBIT_PROFILE,
+  WORKOUT_FILE_PROFILE,
+  WITHINGS_PROFILE,
 ];
 
 export function getBuiltInProfile(vendor: VendorType): ImporterProfile | undefined {
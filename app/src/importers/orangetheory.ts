@@ -48,10 +48,26 @@ export const ORANGETHEORY_PROFILE: ImporterProfile = {
       fileType: 'csv',
       csvRequiredHeaders: ['splat'],
     },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['splat points'],
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['splat_points'],
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['date', 'class type'],
+    },
     {
       fileType: 'csv',
       fileNamePattern: '(?i)orangetheory|otf',
     },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)(orangetheory|otf)[^/]*\\.csv$',
+    },
   ],
   mappings: [
     {
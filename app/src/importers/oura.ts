@@ -0,0 +1,623 @@
+/**
+ * Oura Ring Importer
+ * ===================
+ * Handles imports from Oura data exports.
+ *
+ * Supported formats:
+ * 1. JSON export from Oura on the Web (v2 API shape: sleep, daily_readiness, daily_activity)
+ * 2. Legacy JSON export (v1 shape: sleep, readiness, activity with summary_date)
+ * 3. Trends CSV export (one row per day)
+ *
+ * Hypnograms are encoded by Oura as one character per 5 minutes:
+ * '1' = deep, '2' = light, '3' = REM, '4' = awake.
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  DailyMetric,
+  DailyMetricType,
+  TimeSeries,
+  DataQualityFlags,
+  SleepType,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, shiftDate, type NightOptions } from '../utils/nightDate';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const OURA_PROFILE: ImporterProfile = {
+  id: 'oura_v1',
+  vendor: 'oura',
+  name: 'Oura Ring Export',
+  version: '1.0.0',
+  description: 'Import sleep, readiness and activity data from Oura JSON or CSV export',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'json',
+      jsonSignature: '$.sleep[*].bedtime_start',
+    },
+    {
+      fileType: 'json',
+      jsonSignature: '$.daily_readiness[*].score',
+    },
+    {
+      fileType: 'json',
+      jsonSignature: '$.readiness[*].summary_date',
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['readiness score', 'average hrv'],
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['readiness_score', 'average_hrv'],
+    },
+    {
+      fileType: 'csv',
+      fileNamePattern: '(?i)oura',
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)oura[^/]*\\.(json|csv)$',
+    },
+  ],
+  mappings: [
+    {
+      targetTable: 'sleep_sessions',
+      sourceType: 'json',
+      sourcePath: '$.sleep[*]',
+      fieldMappings: [
+        { target: 'startedAt', source: 'bedtime_start', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'endedAt', source: 'bedtime_end', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'durationSeconds', source: 'total_sleep_duration', transform: { type: 'direct' } },
+        { target: 'deepSeconds', source: 'deep_sleep_duration', transform: { type: 'direct' } },
+        { target: 'remSeconds', source: 'rem_sleep_duration', transform: { type: 'direct' } },
+        { target: 'lightSeconds', source: 'light_sleep_duration', transform: { type: 'direct' } },
+        { target: 'avgHrv', source: 'average_hrv', transform: { type: 'direct' } },
+      ],
+    },
+    {
+      targetTable: 'daily_metrics',
+      sourceType: 'json',
+      sourcePath: '$.daily_readiness[*]',
+      fieldMappings: [
+        { target: 'date', source: 'day', transform: { type: 'direct' } },
+        { target: 'value', source: 'score', transform: { type: 'direct' } },
+      ],
+    },
+  ],
+};
+
+// ============================================================
+// RAW DATA TYPES (Oura format)
+// ============================================================
+
+interface OuraSampleSeries {
+  interval: number; // seconds
+  items: (number | null)[];
+  timestamp: string; // ISO timestamp of first item
+}
+
+/**
+ * A sleep period. v2 and v1 field names are both listed; an export
+ * will only populate one set.
+ */
+interface OuraSleep {
+  // v2
+  day?: string;
+  type?: 'long_sleep' | 'sleep' | 'late_nap' | 'rest' | 'deleted';
+  total_sleep_duration?: number;
+  deep_sleep_duration?: number;
+  rem_sleep_duration?: number;
+  light_sleep_duration?: number;
+  awake_time?: number;
+  time_in_bed?: number;
+  latency?: number;
+  average_heart_rate?: number;
+  lowest_heart_rate?: number;
+  average_hrv?: number;
+  average_breath?: number;
+  sleep_phase_5_min?: string;
+  heart_rate?: OuraSampleSeries | null;
+  hrv?: OuraSampleSeries | null;
+  readiness?: { score?: number; temperature_deviation?: number } | null;
+
+  // v1
+  summary_date?: string;
+  is_longest?: number;
+  duration?: number;
+  total?: number;
+  deep?: number;
+  rem?: number;
+  light?: number;
+  awake?: number;
+  onset_latency?: number;
+  hr_average?: number;
+  hr_lowest?: number;
+  rmssd?: number;
+  breath_average?: number;
+  hypnogram_5min?: string;
+  hr_5min?: number[];
+  rmssd_5min?: number[];
+  temperature_delta?: number;
+
+  // Shared
+  bedtime_start: string;
+  bedtime_end: string;
+  efficiency?: number;
+}
+
+interface OuraReadiness {
+  day?: string;
+  summary_date?: string;
+  score?: number;
+  temperature_deviation?: number;
+  temperature_delta?: number;
+}
+
+interface OuraActivity {
+  day?: string;
+  summary_date?: string;
+  score?: number;
+}
+
+interface OuraExport {
+  sleep?: OuraSleep[];
+  daily_readiness?: OuraReadiness[];
+  readiness?: OuraReadiness[];
+  daily_activity?: OuraActivity[];
+  activity?: OuraActivity[];
+}
+
+interface CsvRow {
+  [key: string]: string;
+}
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  warnings: ImportWarning[];
+}
+
+export async function transformOura(
+  data: unknown,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
+): Promise<TransformResult> {
+  // CSV rows arrive as an array; JSON exports are a keyed object
+  if (Array.isArray(data)) {
+    return transformOuraCsv(data as CsvRow[], sourceId, userId, onProgress, night);
+  }
+
+  const warnings: ImportWarning[] = [];
+  const sleepSessions: SleepSession[] = [];
+  const dailyMetrics: DailyMetric[] = [];
+  const timeSeries: TimeSeries[] = [];
+
+  if (!data || typeof data !== 'object') {
+    warnings.push({
+      type: 'parse_error',
+      message: 'Expected an Oura JSON export object',
+    });
+    return { sleepSessions, workoutSessions: [], dailyMetrics, timeSeries, warnings };
+  }
+
+  const exported = data as OuraExport;
+  const sleeps = Array.isArray(exported.sleep) ? exported.sleep : [];
+  const readiness = exported.daily_readiness ?? exported.readiness ?? [];
+  const activity = exported.daily_activity ?? exported.activity ?? [];
+
+  const total = sleeps.length + readiness.length + activity.length;
+  let processed = 0;
+
+  for (let i = 0; i < sleeps.length; i++) {
+    onProgress?.(++processed, total);
+
+    const raw = sleeps[i];
+
+    try {
+      const sleepType = ouraSleepType(raw);
+      if (sleepType === null) continue;
+
+      const session = transformSleep(raw, sourceId, userId, night, sleepType);
+      if (!session) continue;
+
+      sleepSessions.push(session);
+      timeSeries.push(...extractTimeSeries(raw, session.id, sourceId, userId));
+      // Resting heart rate is the main sleep's
+      if (sleepType === 'nap' || raw.type === 'sleep' || raw.is_longest === 0) continue;
+
+      const morning = raw.day ?? (raw.summary_date ? shiftDate(raw.summary_date, 1) : session.date);
+      const restingHr = raw.lowest_heart_rate ?? raw.hr_lowest;
+      if (isNumber(restingHr)) {
+        dailyMetrics.push(createMetric(morning, 'resting_heart_rate', restingHr, 'bpm', sourceId, userId));
+      }
+    } catch (e) {
+      warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse sleep period at index ${i}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  for (const raw of readiness) {
+    onProgress?.(++processed, total);
+
+    const date = raw.day ?? (raw.summary_date && shiftDate(raw.summary_date, 1));
+    if (!date) continue;
+
+    if (isNumber(raw.score)) {
+      dailyMetrics.push(createMetric(date, 'readiness_score', raw.score, 'score', sourceId, userId));
+    }
+
+    const deviation = raw.temperature_deviation ?? raw.temperature_delta;
+    if (isNumber(deviation)) {
+      dailyMetrics.push(createMetric(date, 'body_temperature', deviation, '°C deviation', sourceId, userId));
+    }
+  }
+
+  for (const raw of activity) {
+    onProgress?.(++processed, total);
+
+    const date = raw.day ?? raw.summary_date;
+    if (!date || !isNumber(raw.score)) continue;
+
+    dailyMetrics.push(createMetric(date, 'activity_score', raw.score, 'score', sourceId, userId));
+  }
+
+  if (total === 0) {
+    warnings.push({
+      type: 'parse_error',
+      message: 'No sleep, readiness or activity data found in file',
+    });
+  }
+
+  return { sleepSessions, workoutSessions: [], dailyMetrics, timeSeries, warnings };
+}
+
+/**
+ * Oura records naps and rest periods alongside the main sleep. Rest
+ * periods and deleted sleeps are not sleep (null). Other short periods
+ * (v2 'sleep', v1 periods other than the longest) are often split-off
+ * parts of the night, so they are left for dedup to tell naps from
+ * fragments by their gap to the main sleep.
+ */
+function ouraSleepType(raw: OuraSleep): SleepType | undefined | null {
+  switch (raw.type) {
+    case 'long_sleep':
+      return 'main';
+    case 'sleep':
+      return undefined;
+    case 'late_nap':
+      return 'nap';
+    case 'rest':
+    case 'deleted':
+      return null;
+  }
+  return raw.is_longest === 1 ? 'main' : undefined;
+}
+
+function transformSleep(
+  raw: OuraSleep,
+  sourceId: string,
+  userId: string,
+  night: NightOptions,
+  sleepType?: SleepType
+): SleepSession | null {
+  if (!raw.bedtime_start || !raw.bedtime_end) return null;
+
+  const startedAt = new Date(raw.bedtime_start);
+  const endedAt = new Date(raw.bedtime_end);
+  if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) return null;
+
+  const deepSeconds = raw.deep_sleep_duration ?? raw.deep ?? 0;
+  const remSeconds = raw.rem_sleep_duration ?? raw.rem ?? 0;
+  const lightSeconds = raw.light_sleep_duration ?? raw.light ?? 0;
+  const awakeSeconds = raw.awake_time ?? raw.awake ?? 0;
+  const durationSeconds = raw.total_sleep_duration ?? raw.total ?? deepSeconds + remSeconds + lightSeconds;
+  const timeInBedSeconds = raw.time_in_bed ?? raw.duration ?? (endedAt.getTime() - startedAt.getTime()) / 1000;
+
+  // Skip sessions less than 30 min, or 10 min for naps
+  if (durationSeconds < (sleepType === 'nap' ? 600 : 1800)) return null;
+
+  const latency = raw.latency ?? raw.onset_latency;
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    // Oura timestamps carry the offset they were recorded in
+    date: nightOf(raw.bedtime_start, night),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    sleepType,
+    durationSeconds,
+    timeInBedSeconds,
+    deepSeconds,
+    remSeconds,
+    lightSeconds,
+    awakeSeconds,
+    sleepOnsetLatency: latency,
+    wakeAfterSleepOnset: Math.max(0, awakeSeconds - (latency ?? 0)),
+    efficiency: raw.efficiency ?? (timeInBedSeconds > 0 ? (durationSeconds / timeInBedSeconds) * 100 : undefined),
+    avgHeartRate: raw.average_heart_rate ?? raw.hr_average,
+    minHeartRate: raw.lowest_heart_rate ?? raw.hr_lowest,
+    avgHrv: raw.average_hrv ?? raw.rmssd,
+    avgRespiratoryRate: raw.average_breath ?? raw.breath_average,
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'Oura',
+      ouraDay: raw.day ?? raw.summary_date,
+      readinessScore: raw.readiness?.score,
+      temperatureDeviation: raw.readiness?.temperature_deviation ?? raw.temperature_delta,
+    },
+  };
+}
+
+// ============================================================
+// TIME SERIES
+// ============================================================
+
+const HYPNOGRAM_STAGES: Record<string, number> = {
+  '1': 2, // deep
+  '2': 1, // light
+  '3': 3, // rem
+  '4': 0, // awake
+};
+
+function extractTimeSeries(
+  raw: OuraSleep,
+  sessionId: string,
+  sourceId: string,
+  userId: string
+): TimeSeries[] {
+  const result: TimeSeries[] = [];
+  const startedAt = new Date(raw.bedtime_start).toISOString();
+
+  // Hypnogram
+  const hypnogram = raw.sleep_phase_5_min ?? raw.hypnogram_5min;
+  if (hypnogram && hypnogram.length > 0) {
+    const values = hypnogram.split('').map(c => HYPNOGRAM_STAGES[c] ?? null);
+    result.push(createSeries('sleep_stage', startedAt, 300, values, sessionId, sourceId, userId));
+  }
+
+  // Heart rate
+  if (raw.heart_rate && raw.heart_rate.items.length > 0) {
+    result.push(createSeries(
+      'heart_rate',
+      new Date(raw.heart_rate.timestamp).toISOString(),
+      raw.heart_rate.interval,
+      raw.heart_rate.items,
+      sessionId,
+      sourceId,
+      userId
+    ));
+  } else if (raw.hr_5min && raw.hr_5min.length > 0) {
+    // v1 uses 0 for missing samples
+    const values = raw.hr_5min.map(v => (v > 0 ? v : null));
+    result.push(createSeries('heart_rate', startedAt, 300, values, sessionId, sourceId, userId));
+  }
+
+  // HRV
+  if (raw.hrv && raw.hrv.items.length > 0) {
+    result.push(createSeries(
+      'hrv',
+      new Date(raw.hrv.timestamp).toISOString(),
+      raw.hrv.interval,
+      raw.hrv.items,
+      sessionId,
+      sourceId,
+      userId
+    ));
+  } else if (raw.rmssd_5min && raw.rmssd_5min.length > 0) {
+    const values = raw.rmssd_5min.map(v => (v > 0 ? v : null));
+    result.push(createSeries('hrv', startedAt, 300, values, sessionId, sourceId, userId));
+  }
+
+  return result;
+}
+
+function createSeries(
+  metricType: TimeSeries['metricType'],
+  startedAt: string,
+  intervalSeconds: number,
+  values: (number | null)[],
+  sessionId: string,
+  sourceId: string,
+  userId: string
+): TimeSeries {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    sessionId,
+    metricType,
+    startedAt,
+    intervalSeconds,
+    values,
+    gapCount: values.filter(v => v === null).length,
+    interpolatedCount: 0,
+  };
+}
+
+// ============================================================
+// CSV TRANSFORMER
+// ============================================================
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+  date: ['date', 'day', 'summary_date'],
+  bedtime_start: ['bedtime start', 'bedtime_start'],
+  bedtime_end: ['bedtime end', 'bedtime_end'],
+  total_sleep: ['total sleep duration', 'total_sleep_duration', 'total sleep time'],
+  deep: ['deep sleep duration', 'deep_sleep_duration'],
+  rem: ['rem sleep duration', 'rem_sleep_duration'],
+  light: ['light sleep duration', 'light_sleep_duration'],
+  awake: ['awake time', 'awake_time'],
+  latency: ['sleep latency', 'latency'],
+  efficiency: ['sleep efficiency', 'efficiency'],
+  avg_hr: ['average resting heart rate', 'average heart rate', 'average_heart_rate'],
+  lowest_hr: ['lowest resting heart rate', 'lowest heart rate', 'lowest_heart_rate'],
+  hrv: ['average hrv', 'average_hrv'],
+  respiratory_rate: ['respiratory rate', 'average breath', 'average_breath'],
+  temperature: ['temperature deviation', 'temperature_deviation'],
+  readiness: ['readiness score', 'readiness_score'],
+  activity: ['activity score', 'activity_score'],
+};
+
+async function transformOuraCsv(
+  rows: CsvRow[],
+  sourceId: string,
+  userId: string,
+  onProgress: ((processed: number, total: number) => void) | undefined,
+  night: NightOptions
+): Promise<TransformResult> {
+  const warnings: ImportWarning[] = [];
+  const sleepSessions: SleepSession[] = [];
+  const dailyMetrics: DailyMetric[] = [];
+
+  if (rows.length === 0) {
+    warnings.push({
+      type: 'parse_error',
+      message: 'No data found in file',
+    });
+    return { sleepSessions, workoutSessions: [], dailyMetrics, timeSeries: [], warnings };
+  }
+
+  const columnMap = buildColumnMap(rows[0]);
+
+  for (let i = 0; i < rows.length; i++) {
+    onProgress?.(i + 1, rows.length);
+
+    const row = rows[i];
+    const field = (name: string) => {
+      const column = columnMap[name];
+      return column ? row[column]?.trim() : undefined;
+    };
+    const date = field('date');
+    if (!date) continue;
+
+    try {
+      const start = field('bedtime_start');
+      const end = field('bedtime_end');
+      const total = parseNumber(field('total_sleep'));
+
+      if (start && end && total !== undefined) {
+        const session = transformSleep({
+          bedtime_start: start,
+          bedtime_end: end,
+          total_sleep_duration: total,
+          deep_sleep_duration: parseNumber(field('deep')),
+          rem_sleep_duration: parseNumber(field('rem')),
+          light_sleep_duration: parseNumber(field('light')),
+          awake_time: parseNumber(field('awake')),
+          latency: parseNumber(field('latency')),
+          efficiency: parseNumber(field('efficiency')),
+          average_heart_rate: parseNumber(field('avg_hr')),
+          lowest_heart_rate: parseNumber(field('lowest_hr')),
+          average_hrv: parseNumber(field('hrv')),
+          average_breath: parseNumber(field('respiratory_rate')),
+          day: date,
+        }, sourceId, userId, night);
+
+        if (session) sleepSessions.push(session);
+      }
+
+      const metrics: Array<[string, DailyMetricType, string]> = [
+        ['readiness', 'readiness_score', 'score'],
+        ['temperature', 'body_temperature', '°C deviation'],
+        ['lowest_hr', 'resting_heart_rate', 'bpm'],
+        ['activity', 'activity_score', 'score'],
+      ];
+
+      for (const [column, metricType, unit] of metrics) {
+        const value = parseNumber(field(column));
+        if (value !== undefined) {
+          dailyMetrics.push(createMetric(date, metricType, value, unit, sourceId, userId));
+        }
+      }
+    } catch (e) {
+      warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse row ${i + 1}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  return { sleepSessions, workoutSessions: [], dailyMetrics, timeSeries: [], warnings };
+}
+
+function buildColumnMap(sampleRow: CsvRow): Record<string, string> {
+  const map: Record<string, string> = {};
+  const headers = Object.keys(sampleRow);
+
+  for (const [canonical, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const header = headers.find(h => {
+      const normalized = h.toLowerCase().replace(/\s*\(.*\)\s*$/, '').trim();
+      return aliases.includes(normalized);
+    });
+    if (header) map[canonical] = header;
+  }
+
+  return map;
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+function createMetric(
+  date: string,
+  metricType: DailyMetricType,
+  value: number,
+  unit: string,
+  sourceId: string,
+  userId: string
+): DailyMetric {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date,
+    metricType,
+    value,
+    unit,
+    dataQuality: defaultQualityFlags(),
+  };
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const num = parseFloat(value.replace(/[^\d.-]/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
@@ -7,19 +7,36 @@
  * 3. Transform to canonical schema
  * 4. Validate and flag quality issues
  * 5. Store in IndexedDB
+ *
+ * The import surfaces run it inside the file processor worker (see
+ * workers/index.ts) so the UI stays responsive.
  */
 
 import type {
   Source,
+  Annotation,
   SleepSession,
   WorkoutSession,
   DailyMetric,
   TimeSeries,
   ImporterProfile,
+  RawFile,
   VendorType,
+  WorkoutType,
+  HighWaterMarks,
 } from '../types/schema';
 import { sha256, generateId } from '../utils/crypto';
-import { put, putMany, getByIndex, getAll } from '../db/database';
+import { nightOptions, shiftDate, type NightOptions } from '../utils/nightDate';
+import {
+  get,
+  putMany,
+  getByIndex,
+  getAll,
+  removeByIndex,
+  replaceSourceRecords,
+  storeSourceRecords,
+  getUserSettings,
+} from '../db/database';
 import { checkSleepSessionQuality, generateDataQualityFlags } from '../insights/dataQuality';
 
 // ============================================================
@@ -50,6 +67,10 @@ export interface ImportResult {
     warning: number;
     bad: number;
   };
+  // Set when the upload was an archive or several files
+  archive?: ArchiveManifest;
+  // Nights added after the previous import's marks, when earlier ones were skipped
+  newNights?: number;
 }
 
 export interface ImportWarning {
@@ -75,138 +96,391 @@ export interface ImportProgress {
 
 export type ProgressCallback = (progress: ImportProgress) => void;
 
+/**
+ * User choices that shape how records are derived from a file.
+ */
+export interface ImportOptions {
+  // How several weigh-ins on one day reduce to the daily metric
+  weighInPolicy?: WeighInPolicy;
+  // Keep the uploaded files so the Source can be re-imported later
+  retainRawFiles?: boolean;
+  // Also read records at or before the previous import's high-water marks
+  fullHistory?: boolean;
+}
+
+/**
+ * Canonical records derived from one Source's files.
+ */
+export interface SourceRecords {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  annotations: Annotation[];
+}
+
 // ============================================================
 // DATA DEDUPLICATION
 // ============================================================
 
+// Sleep periods overlapping by this share of the shorter one are the same period
+const SLEEP_OVERLAP_RATIO = 0.5;
+// A period this close to the main sleep is a fragment of it rather than a nap
+const SLEEP_FRAGMENT_GAP_MS = 90 * 60 * 1000;
+
+function sleepSpan(session: SleepSession): { start: number; end: number } {
+  const start = new Date(session.startedAt).getTime();
+  const end = new Date(session.endedAt).getTime();
+  return { start, end: Math.max(start, end) };
+}
+
 /**
- * Calculate a "completeness score" for a session based on how many fields have data
+ * Whether two sessions record the same sleep period: overlapping for
+ * most of the shorter one. A nap and the night it falls on are not.
  */
-function getSessionCompleteness(session: SleepSession): number {
-  let score = 0;
-  if (session.durationSeconds > 0) score += 10;
-  if (session.deepSeconds > 0) score += 5;
-  if (session.remSeconds > 0) score += 5;
-  if (session.lightSeconds > 0) score += 5;
-  if (session.awakeSeconds > 0) score += 2;
-  if (session.minHeartRate && session.minHeartRate > 0) score += 5;
-  if (session.avgHrv && session.avgHrv > 0) score += 5;
-  if (session.efficiency && session.efficiency > 0 && session.efficiency <= 100) score += 3;
-  if (session.avgRespiratoryRate && session.avgRespiratoryRate > 0) score += 3;
-  if (session.avgBedTempC !== undefined) score += 2;
-  return score;
+function isSameSleepPeriod(a: SleepSession, b: SleepSession): boolean {
+  const spanA = sleepSpan(a);
+  const spanB = sleepSpan(b);
+  const shorter = Math.min(spanA.end - spanA.start, spanB.end - spanB.start);
+  if (!(shorter > 0)) return a.date === b.date && a.startedAt === b.startedAt;
+
+  const overlap = Math.min(spanA.end, spanB.end) - Math.max(spanA.start, spanB.start);
+  return overlap / shorter >= SLEEP_OVERLAP_RATIO;
 }
 
 /**
- * Merge two sessions, preferring data from the more complete one
+ * Type the sessions the vendor did not. Per night, the longest period
+ * that is not a known nap or fragment is the main sleep, stored and
+ * vendor-declared main sleeps first; other periods within
+ * SLEEP_FRAGMENT_GAP_MS of it are fragments, the rest naps.
  */
-function mergeSessions(existing: SleepSession, incoming: SleepSession): SleepSession {
-  const existingScore = getSessionCompleteness(existing);
-  const incomingScore = getSessionCompleteness(incoming);
+function assignSleepTypes(sessions: SleepSession[], stored: SleepSession[]): void {
+  const ids = new Set(sessions.map(session => session.id));
+  const candidatesByDate = new Map<string, SleepSession[]>();
+  for (const session of [...stored.filter(s => !ids.has(s.id)), ...sessions]) {
+    if (session.sleepType === 'nap' || session.sleepType === 'fragment') continue;
+    candidatesByDate.set(session.date, [...(candidatesByDate.get(session.date) ?? []), session]);
+  }
+
+  const mainByDate = new Map<string, SleepSession>();
+  for (const [date, candidates] of candidatesByDate) {
+    const declared = candidates.filter(s => s.sleepType === 'main');
+    const pool = declared.length > 0 ? declared : candidates;
+    mainByDate.set(date, pool.reduce((a, b) => (b.durationSeconds > a.durationSeconds ? b : a)));
+  }
 
-  // Use the more complete session as the base
-  const base = existingScore >= incomingScore ? existing : incoming;
-  const supplement = existingScore >= incomingScore ? incoming : existing;
+  for (const session of sessions) {
+    if (session.sleepType) continue;
 
-  return {
-    ...base,
-    // Fill in any missing fields from the other session
-    deepSeconds: base.deepSeconds || supplement.deepSeconds,
-    remSeconds: base.remSeconds || supplement.remSeconds,
-    lightSeconds: base.lightSeconds || supplement.lightSeconds,
-    awakeSeconds: base.awakeSeconds || supplement.awakeSeconds,
-    minHeartRate: base.minHeartRate || supplement.minHeartRate,
-    avgHeartRate: base.avgHeartRate || supplement.avgHeartRate,
-    avgHrv: base.avgHrv || supplement.avgHrv,
-    avgRespiratoryRate: base.avgRespiratoryRate || supplement.avgRespiratoryRate,
-    avgBedTempC: base.avgBedTempC ?? supplement.avgBedTempC,
-    avgRoomTempC: base.avgRoomTempC ?? supplement.avgRoomTempC,
-    efficiency: (base.efficiency && base.efficiency <= 100)
-      ? base.efficiency
-      : (supplement.efficiency && supplement.efficiency <= 100)
-        ? supplement.efficiency
-        : base.efficiency,
-    // Combine vendor data sources
-    vendorData: {
-      ...supplement.vendorData,
-      ...base.vendorData,
-      mergedSources: [
-        base.vendorData?.source,
-        supplement.vendorData?.source,
-      ].filter(Boolean),
-    },
-  };
+    const main = mainByDate.get(session.date);
+    if (!main || main.id === session.id) {
+      session.sleepType = 'main';
+      continue;
+    }
+
+    const span = sleepSpan(session);
+    const mainSpan = sleepSpan(main);
+    const gap = Math.max(span.start - mainSpan.end, mainSpan.start - span.end);
+    session.sleepType = gap <= SLEEP_FRAGMENT_GAP_MS ? 'fragment' : 'nap';
+  }
 }
 
 /**
- * Deduplicate sessions against existing database records
- * Returns deduplicated sessions and count of merged/skipped records
+ * Match sessions against stored ones and each other by time overlap, so
+ * a nap and the night it falls on stay separate while two recordings of
+ * one period merge. Returns the sessions to store and counts of merged
+ * and skipped records. A skipped session is still recorded as one of the
+ * stored session's contributions, so the night survives if the source
+ * that stored it is deleted.
  */
 async function deduplicateSessions(
   sessions: SleepSession[],
-  userId: string
+  userId: string,
+  replacingSourceId?: string
 ): Promise<{
   sessions: SleepSession[];
   mergedCount: number;
   skippedCount: number;
+  // Incoming session id -> id of the session stored for that period
+  sessionIds: Map<string, string>;
+  // Stored sessions and what merging makes of them
+  merges: Array<{ existing: SleepSession; merged: SleepSession }>;
+  // Incoming sessions whose period is stored at least as completely
+  skipped: SleepSession[];
+  // Ids of the stored sessions incoming ones matched
+  matchedIds: Set<string>;
 }> {
-  // Get all existing sessions for this user
-  const existingSessions = await getAll('sleepSessions') as SleepSession[];
-  const existingByDate = new Map<string, SleepSession>();
-
-  for (const session of existingSessions) {
-    if (session.userId === userId) {
-      const key = session.date;
-      // If multiple sessions exist for same date, keep the most complete
-      const existing = existingByDate.get(key);
-      if (!existing || getSessionCompleteness(session) > getSessionCompleteness(existing)) {
-        existingByDate.set(key, session);
-      }
+  const { vendorPriority } = await getUserSettings(userId);
+  const merge = (existing: SleepSession, incoming: SleepSession) =>
+    mergeSleepSessions(existing, incoming, vendorPriority);
+  const vendorBySource = new Map((await getAll('sources')).map(source => [source.id, source.vendor]));
+
+  // Stored sessions by night; a period can be dated differently by two
+  // vendors, so neighbouring nights are checked too
+  const storedSessions: SleepSession[] = [];
+  const storedByDate = new Map<string, SleepSession[]>();
+  for (const stored of await getAll('sleepSessions')) {
+    // A source being replaced counts only with what it merged into
+    const remaining = replacingSourceId ? withoutSource(stored, replacingSourceId, merge) : stored;
+    if (!remaining || remaining.userId !== userId) continue;
+    // Sessions stored before sleep types were tracked are main sleeps
+    const session: SleepSession = remaining.sleepType ? remaining : { ...remaining, sleepType: 'main' };
+    storedSessions.push(session);
+    storedByDate.set(session.date, [...(storedByDate.get(session.date) ?? []), session]);
+  }
+  const storedNear = (date: string) =>
+    [-1, 0, 1].flatMap(offset => storedByDate.get(shiftDate(date, offset)) ?? []);
+
+  // Recordings of one period within the import
+  const incoming: SleepSession[] = [];
+  const sessionIds = new Map<string, string>();
+  for (const session of sessions) {
+    const twin = incoming.find(s => isSameSleepPeriod(s, session));
+    if (twin) {
+      const merged = merge(twin, session);
+      merged.id = twin.id;
+      incoming[incoming.indexOf(twin)] = merged;
+      sessionIds.set(session.id, twin.id);
+    } else {
+      incoming.push(session);
+      sessionIds.set(session.id, session.id);
     }
   }
 
   const result: SleepSession[] = [];
-  let mergedCount = 0;
-  let skippedCount = 0;
+  const merges: Array<{ existing: SleepSession; merged: SleepSession }> = [];
+  const skipped: SleepSession[] = [];
+  const storedIds = new Map<string, string>();
+  const claimed = new Set<string>();
 
-  // Also deduplicate within the incoming sessions
-  const incomingByDate = new Map<string, SleepSession>();
-  for (const session of sessions) {
-    const key = session.date;
-    const existing = incomingByDate.get(key);
-    if (existing) {
-      // Merge duplicate incoming sessions
-      incomingByDate.set(key, mergeSessions(existing, session));
+  for (const session of incoming) {
+    const stored = storedNear(session.date).find(s => !claimed.has(s.id) && isSameSleepPeriod(s, session));
+
+    if (!stored) {
+      result.push(session);
+      continue;
+    }
+
+    claimed.add(stored.id);
+    storedIds.set(session.id, stored.id);
+
+    // Sessions stored before provenance was tracked belong to their source's vendor
+    const existing = stored.provenance
+      ? stored
+      : stampProvenance(stored, vendorBySource.get(stored.sourceId) ?? 'unknown');
+    const merged = merge(existing, session);
+
+    if (sessionFieldChanges(existing, merged).length > 0) {
+      // Incoming adds to the stored period or is preferred for some metric
+      merged.id = existing.id; // Keep the existing ID for update
+      result.push(withContributions(merged, existing, session));
+      merges.push({ existing, merged });
     } else {
-      incomingByDate.set(key, session);
+      // Existing already has everything incoming offers, skip
+      result.push(withContributions(existing, existing, session));
+      skipped.push(session);
     }
   }
 
-  // Now check against existing database records
-  for (const [date, session] of incomingByDate) {
-    const existing = existingByDate.get(date);
-
-    if (existing) {
-      const existingScore = getSessionCompleteness(existing);
-      const incomingScore = getSessionCompleteness(session);
-
-      if (incomingScore > existingScore) {
-        // Incoming is better, merge and update
-        const merged = mergeSessions(existing, session);
-        merged.id = existing.id; // Keep the existing ID for update
-        result.push(merged);
-        mergedCount++;
-      } else {
-        // Existing is better or equal, skip
-        skippedCount++;
-      }
+  // Time series of merged or skipped sessions follow the stored session
+  for (const [id, incomingId] of sessionIds) {
+    sessionIds.set(id, storedIds.get(incomingId) ?? incomingId);
+  }
+
+  assignSleepTypes(result, storedSessions);
+
+  // Recordings kept for rebuilding take the type of the period they recorded
+  for (const session of result) {
+    session.contributions = session.contributions?.map(c => c.sleepType ? c : { ...c, sleepType: session.sleepType });
+  }
+
+  return {
+    sessions: result,
+    mergedCount: merges.length,
+    skippedCount: skipped.length,
+    sessionIds,
+    merges,
+    skipped,
+    matchedIds: claimed,
+  };
+}
+
+// Workouts overlapping by this share of the shorter one are the same workout
+const WORKOUT_OVERLAP_RATIO = 0.5;
+// Without a duration, workouts starting this close are the same workout
+const WORKOUT_START_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Types different vendors record the same session as; 'other' matches any
+const COMPATIBLE_WORKOUT_TYPES: Partial<Record<WorkoutType, WorkoutType[]>> = {
+  hiit: ['cardio', 'strength', 'running'],
+  cardio: ['hiit', 'running', 'cycling', 'walking', 'swimming'],
+  strength: ['hiit'],
+  running: ['cardio', 'hiit', 'walking'],
+  cycling: ['cardio'],
+  walking: ['cardio', 'running'],
+  swimming: ['cardio'],
+};
+
+function workoutSpan(workout: WorkoutSession): { start: number; end: number } {
+  const start = new Date(workout.startedAt).getTime();
+  const end = workout.endedAt
+    ? new Date(workout.endedAt).getTime()
+    : start + (workout.durationSeconds || 0) * 1000;
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Whether two workouts are recordings of the same session: compatible
+ * types and overlapping for most of the shorter one.
+ */
+function isSameWorkout(a: WorkoutSession, b: WorkoutSession): boolean {
+  const typesMatch = a.workoutType === b.workoutType ||
+    a.workoutType === 'other' ||
+    b.workoutType === 'other' ||
+    (COMPATIBLE_WORKOUT_TYPES[a.workoutType] ?? []).includes(b.workoutType);
+  if (!typesMatch) return false;
+
+  const spanA = workoutSpan(a);
+  const spanB = workoutSpan(b);
+  const shorter = Math.min(spanA.end - spanA.start, spanB.end - spanB.start);
+  if (shorter <= 0) {
+    return Math.abs(spanA.start - spanB.start) <= WORKOUT_START_TOLERANCE_MS;
+  }
+
+  const overlap = Math.min(spanA.end, spanB.end) - Math.max(spanA.start, spanB.start);
+  return overlap / shorter >= WORKOUT_OVERLAP_RATIO;
+}
+
+/**
+ * Match workouts against stored ones and each other by time overlap,
+ * merging recordings of the same session from different sources.
+ * `vendors` gives the vendor of each incoming workout by id. Skipped
+ * workouts are recorded as contributions, as sleep deduplication does.
+ */
+async function deduplicateWorkouts(
+  workouts: WorkoutSession[],
+  userId: string,
+  vendors: Map<string, VendorType>,
+  replacingSourceId?: string
+): Promise<{
+  workouts: WorkoutSession[];
+  mergedCount: number;
+  skippedCount: number;
+  // Incoming workout id -> id of the workout stored for it
+  workoutIds: Map<string, string>;
+  merges: Array<{ existing: WorkoutSession; merged: WorkoutSession }>;
+  skipped: WorkoutSession[];
+  // Ids of the stored workouts incoming ones matched
+  matchedIds: Set<string>;
+}> {
+  const vendorBySource = new Map((await getAll('sources')).map(source => [source.id, source.vendor]));
+  const vendorOf = (workout: WorkoutSession) =>
+    vendors.get(workout.id) ?? vendorBySource.get(workout.sourceId) ?? 'unknown';
+  const merge = (existing: WorkoutSession, incoming: WorkoutSession) =>
+    mergeWorkoutSessions(existing, incoming, vendorOf);
+
+  // Stored workouts by day; a workout can cross midnight, so neighbours are checked too
+  const storedByDate = new Map<string, WorkoutSession[]>();
+  for (const stored of await getAll('workoutSessions')) {
+    const workout = replacingSourceId ? withoutSource(stored, replacingSourceId, merge) : stored;
+    if (!workout || workout.userId !== userId) continue;
+    storedByDate.set(workout.date, [...(storedByDate.get(workout.date) ?? []), workout]);
+  }
+  const storedNear = (date: string) =>
+    [-1, 0, 1].flatMap(offset => storedByDate.get(shiftDate(date, offset)) ?? []);
+
+  // Recordings of one session from different vendors in the same import
+  const incoming: WorkoutSession[] = [];
+  const workoutIds = new Map<string, string>();
+  for (const workout of workouts) {
+    const twin = incoming.find(w => vendorOf(w) !== vendorOf(workout) && isSameWorkout(w, workout));
+    if (twin) {
+      const merged = merge(twin, workout);
+      merged.id = twin.id;
+      vendors.set(twin.id, vendorOf(twin));
+      incoming[incoming.indexOf(twin)] = merged;
+      workoutIds.set(workout.id, twin.id);
     } else {
-      // No duplicate, add as new
-      result.push(session);
+      incoming.push(workout);
+    }
+  }
+
+  const result: WorkoutSession[] = [];
+  const merges: Array<{ existing: WorkoutSession; merged: WorkoutSession }> = [];
+  const skipped: WorkoutSession[] = [];
+  const claimed = new Set<string>();
+
+  for (const workout of incoming) {
+    const existing = storedNear(workout.date).find(w => !claimed.has(w.id) && isSameWorkout(w, workout));
+
+    if (!existing) {
+      result.push(workout);
+      continue;
+    }
+
+    claimed.add(existing.id);
+    workoutIds.set(workout.id, existing.id);
+    const merged = merge(existing, workout);
+
+    if (sessionFieldChanges(existing, merged).length > 0) {
+      merged.id = existing.id; // Keep the existing ID for update
+      result.push(withContributions(merged, existing, workout));
+      merges.push({ existing, merged });
+    } else {
+      result.push(withContributions(existing, existing, workout));
+      skipped.push(workout);
+    }
+  }
+
+  // Workouts merged within the import follow their twin to the stored workout
+  for (const [id, twinId] of workoutIds) {
+    const storedId = workoutIds.get(twinId);
+    if (storedId) workoutIds.set(id, storedId);
+  }
+
+  return {
+    workouts: result,
+    mergedCount: merges.length,
+    skippedCount: skipped.length,
+    workoutIds,
+    merges,
+    skipped,
+    matchedIds: claimed,
+  };
+}
+
+/**
+ * Fold imported annotations into existing ones. The store allows one
+ * annotation per user and date, so behaviors and notes are combined.
+ */
+async function mergeAnnotations(
+  annotations: Annotation[],
+  userId: string
+): Promise<Annotation[]> {
+  const byDate = new Map<string, Annotation>();
+
+  for (const annotation of annotations) {
+    const existing = byDate.get(annotation.date)
+      ?? (await getByIndex('annotations', 'userId_date', [userId, annotation.date]))[0];
+
+    if (!existing) {
+      byDate.set(annotation.date, { ...annotation, userId });
+      continue;
     }
+
+    const notes = existing.notes && annotation.notes && !existing.notes.includes(annotation.notes)
+      ? `${existing.notes}\n${annotation.notes}`
+      : existing.notes ?? annotation.notes;
+
+    byDate.set(annotation.date, {
+      ...existing,
+      behaviors: [...new Set([...existing.behaviors, ...annotation.behaviors])],
+      notes,
+      updatedAt: annotation.updatedAt,
+    });
   }
 
-  return { sessions: result, mergedCount, skippedCount };
+  return [...byDate.values()];
 }
 
 /**
@@ -219,6 +493,22 @@ function validateEfficiency(efficiency: number | undefined | null): number | und
   return efficiency;
 }
 
+/**
+ * Why a session cannot be stored, if it cannot. Implausible values are
+ * only flagged; a session without a night or a valid time span has
+ * nothing to be filed under.
+ */
+function rejectionReason(session: SleepSession): string | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(session.date || '')) return 'Missing or invalid night date';
+
+  const start = Date.parse(session.startedAt);
+  const end = Date.parse(session.endedAt);
+  if (Number.isNaN(start) || Number.isNaN(end)) return 'Invalid start or end time';
+  if (end < start) return 'Ends before it starts';
+
+  return undefined;
+}
+
 /**
  * Validate session data and fix common issues
  */
@@ -237,10 +527,13 @@ function validateSession(session: SleepSession): SleepSession {
 // ============================================================
 
 export interface FileDetectionResult {
-  fileType: 'json' | 'csv' | 'zip' | 'xml' | 'unknown';
+  fileType: 'json' | 'csv' | 'zip' | 'xml' | 'fit' | 'unknown';
   suggestedVendor: VendorType;
   confidence: 'high' | 'medium' | 'low';
+  // Best-ranked profile; absent when no profile's patterns match
   matchedProfile?: ImporterProfile;
+  // Every matching built-in and saved profile, best first
+  candidates: DetectionCandidate[];
   fileManifest?: {
     entryCount?: number;
     sampleFields?: string[];
@@ -248,7 +541,26 @@ export interface FileDetectionResult {
   };
 }
 
-export async function detectFileType(file: ImportFile): Promise<FileDetectionResult> {
+/**
+ * Detect a file's format and rank the importer profiles that could read
+ * it. Without `profiles`, built-in and saved profiles are considered.
+ */
+export async function detectFileType(
+  file: ImportFile,
+  profiles?: ImporterProfile[]
+): Promise<FileDetectionResult> {
+  const available = profiles ?? await listDetectionProfiles();
+
+  // ZIP detection (check magic bytes) before decoding as text
+  if (isZipArchive(file.content)) {
+    return detectZipVendor(file.content as ArrayBuffer, file.name, available);
+  }
+
+  // FIT activity files are binary too
+  if (isFitFile(file.content)) {
+    return detectionResult('fit', rankProfiles({ fileType: 'fit', fileName: file.name }, available), 'unknown');
+  }
+
   const content = typeof file.content === 'string'
     ? file.content
     : new TextDecoder().decode(file.content);
@@ -260,7 +572,7 @@ export async function detectFileType(file: ImportFile): Promise<FileDetectionRes
   if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
     try {
       const parsed = JSON.parse(content);
-      return detectJsonVendor(parsed, file.name);
+      return detectJsonVendor(parsed, file.name, available);
     } catch {
       // Invalid JSON
     }
@@ -268,147 +580,114 @@ export async function detectFileType(file: ImportFile): Promise<FileDetectionRes
 
   // CSV detection (has header row, comma/tab separated)
   if (looksLikeCsv(trimmed)) {
-    return detectCsvVendor(trimmed, file.name);
+    return detectCsvVendor(trimmed, file.name, available);
   }
 
   // XML detection
   if (trimmed.startsWith('<?xml') || trimmed.startsWith('<')) {
-    // Check for Apple Health export
-    if (trimmed.includes('<!DOCTYPE HealthData') ||
-        trimmed.includes('<HealthData') ||
-        trimmed.includes('HKQuantityTypeIdentifier')) {
-      return {
-        fileType: 'xml',
-        suggestedVendor: 'apple_health',
-        confidence: 'high',
-        fileManifest: {
-          sampleFields: ['HealthData', 'Record', 'Workout'],
-        },
-      };
-    }
-
-    return {
-      fileType: 'xml',
-      suggestedVendor: file.name.toLowerCase().includes('apple') ? 'apple_health' : 'unknown',
-      confidence: 'low',
-    };
+    const rootElement = xmlRootElement(trimmed);
+    const candidates = rankProfiles({ fileType: 'xml', fileName: file.name, rootElement }, available);
+    return detectionResult('xml', candidates, 'unknown', {
+      sampleFields: rootElement ? [rootElement] : [],
+    });
   }
 
-  // ZIP detection (check magic bytes)
-  if (file.content instanceof ArrayBuffer) {
-    const bytes = new Uint8Array(file.content);
-    if (bytes[0] === 0x50 && bytes[1] === 0x4B) {
-      return {
-        fileType: 'zip',
-        suggestedVendor: 'unknown',
-        confidence: 'low',
-      };
-    }
-  }
+  return detectionResult('unknown', [], 'unknown');
+}
 
+function detectionResult(
+  fileType: FileDetectionResult['fileType'],
+  candidates: DetectionCandidate[],
+  fallbackVendor: VendorType,
+  fileManifest?: FileDetectionResult['fileManifest']
+): FileDetectionResult {
+  const top = candidates[0];
   return {
-    fileType: 'unknown',
-    suggestedVendor: 'unknown',
-    confidence: 'low',
+    fileType,
+    suggestedVendor: top ? top.profile.vendor : fallbackVendor,
+    confidence: detectionConfidence(candidates),
+    matchedProfile: top?.profile,
+    candidates,
+    fileManifest,
   };
 }
 
-function detectJsonVendor(data: unknown, _fileName: string): FileDetectionResult {
-  const result: FileDetectionResult = {
-    fileType: 'json',
-    suggestedVendor: 'unknown',
-    confidence: 'low',
-    fileManifest: {},
-  };
-
-  // Eight Sleep detection
-  if (isEightSleepExport(data)) {
-    result.suggestedVendor = 'eight_sleep';
-    result.confidence = 'high';
-    const sessions = getEightSleepSessions(data);
-    result.fileManifest = {
-      entryCount: sessions.length,
-      sampleFields: sessions[0] ? Object.keys(sessions[0]) : [],
-    };
-    return result;
-  }
-
-  // Oura detection
-  if (isOuraExport(data)) {
-    result.suggestedVendor = 'oura';
-    result.confidence = 'high';
-    return result;
-  }
-
-  // Dashboard data (our own format)
-  if (isDashboardDataExport(data)) {
-    result.suggestedVendor = 'eight_sleep'; // It's derived from Eight Sleep
-    result.confidence = 'high';
-    const d = data as { sessions?: unknown[] };
-    result.fileManifest = {
-      entryCount: d.sessions?.length || 0,
-    };
-    return result;
-  }
+function detectJsonVendor(
+  data: unknown,
+  fileName: string,
+  profiles: ImporterProfile[]
+): FileDetectionResult {
+  const candidates = rankProfiles({ fileType: 'json', fileName, data }, profiles);
+
+  // Records are the top-level array, or the largest array one level down
+  const records = Array.isArray(data) ? data : largestArrayMember(data);
+  const first = records?.[0];
+
+  // Unrecognized arrays can still be imported through a column mapping
+  return detectionResult('json', candidates, Array.isArray(data) ? 'generic_json' : 'unknown', {
+    entryCount: records?.length,
+    sampleFields: first && typeof first === 'object'
+      ? Object.keys(first)
+      : data && typeof data === 'object' ? Object.keys(data) : [],
+  });
+}
 
-  // Pre-parsed Apple Health JSON (from streaming importer)
-  if (isAppleHealthPreParsed(data)) {
-    const d = data as { sleepSessions: unknown[]; workoutSessions: unknown[] };
-    result.suggestedVendor = 'apple_health';
-    result.confidence = 'high';
-    result.fileManifest = {
-      entryCount: d.sleepSessions.length + d.workoutSessions.length,
-      sampleFields: ['sleepSessions', 'workoutSessions', 'dailyMetrics'],
-    };
-    return result;
-  }
+function largestArrayMember(data: unknown): unknown[] | undefined {
+  if (!data || typeof data !== 'object') return undefined;
 
-  // Generic JSON array
-  if (Array.isArray(data)) {
-    result.fileManifest = {
-      entryCount: data.length,
-      sampleFields: data[0] && typeof data[0] === 'object' ? Object.keys(data[0]) : [],
-    };
-    result.suggestedVendor = 'generic_json';
-    result.confidence = 'low';
+  let largest: unknown[] | undefined;
+  for (const value of Object.values(data)) {
+    if (Array.isArray(value) && value.length > (largest?.length ?? 0)) {
+      largest = value;
+    }
   }
-
-  return result;
+  return largest;
 }
 
-function detectCsvVendor(content: string, fileName: string): FileDetectionResult {
+function detectCsvVendor(
+  content: string,
+  fileName: string,
+  profiles: ImporterProfile[]
+): FileDetectionResult {
   const lines = content.split('\n');
-  const headers = lines[0]?.toLowerCase() || '';
-
-  const result: FileDetectionResult = {
-    fileType: 'csv',
-    suggestedVendor: 'generic_csv',
-    confidence: 'low',
-    fileManifest: {
-      rowCount: lines.length - 1, // Excluding header
-      sampleFields: lines[0]?.split(',').map(h => h.trim().replace(/"/g, '')) || [],
-    },
-  };
+  const headers = lines[0]?.split(',').map(h => h.trim().replace(/"/g, '')) || [];
+  const candidates = rankProfiles({ fileType: 'csv', fileName, headers }, profiles);
 
-  // Orangetheory detection
-  if (
-    headers.includes('splat') ||
-    headers.includes('orangetheory') ||
-    headers.includes('class type') ||
-    fileName.toLowerCase().includes('orangetheory') ||
-    fileName.toLowerCase().includes('otf')
-  ) {
-    result.suggestedVendor = 'orangetheory';
-    result.confidence = 'medium';
-  }
+  return detectionResult('csv', candidates, 'generic_csv', {
+    rowCount: lines.length - 1, // Excluding header
+    sampleFields: headers,
+  });
+}
 
-  // Oura CSV
-  if (headers.includes('readiness') && headers.includes('hrv')) {
-    result.suggestedVendor = 'oura';
-    result.confidence = 'medium';
+function detectZipVendor(
+  buffer: ArrayBuffer,
+  fileName: string,
+  profiles: ImporterProfile[]
+): FileDetectionResult {
+  let entries: ZipEntry[];
+  try {
+    entries = listZipEntries(buffer);
+  } catch {
+    return detectionResult('unknown', [], 'unknown');
   }
 
-  return result;
+  const files = entries.filter(e => !e.isDirectory);
+  const candidates = rankProfiles({
+    fileType: 'zip',
+    fileName,
+    archiveNames: files.map(e => e.name),
+  }, profiles);
+  const routing = routeArchiveEntries(entries, profiles);
+
+  // Every routed entry is imported; the archive is labelled by the vendor claiming the most
+  return {
+    ...detectionResult('zip', candidates, 'unknown', {
+      entryCount: files.length,
+      sampleFields: routing.routed.map(r => r.entry.name).slice(0, 20),
+    }),
+    suggestedVendor: primaryArchiveVendor(routing.routed),
+    confidence: routing.routed.length > 0 ? 'high' : 'low',
+  };
 }
 
 function looksLikeCsv(content: string): boolean {
@@ -427,55 +706,6 @@ function looksLikeCsv(content: string): boolean {
 // VENDOR-SPECIFIC DETECTION HELPERS
 // ============================================================
 
-function isEightSleepExport(data: unknown): boolean {
-  if (!data || typeof data !== 'object') return false;
-
-  // Check for sessions array with stages
-  const sessions = getEightSleepSessions(data);
-  if (sessions.length === 0) return false;
-
-  const first = sessions[0];
-  return (
-    typeof first === 'object' &&
-    first !== null &&
-    'ts' in first &&
-    'stages' in first &&
-    Array.isArray((first as { stages: unknown }).stages)
-  );
-}
-
-function getEightSleepSessions(data: unknown): unknown[] {
-  if (Array.isArray(data)) return data;
-  if (data && typeof data === 'object' && 'sessions' in data) {
-    const sessions = (data as { sessions: unknown }).sessions;
-    if (Array.isArray(sessions)) return sessions;
-  }
-  return [];
-}
-
-function isOuraExport(data: unknown): boolean {
-  if (!data || typeof data !== 'object') return false;
-
-  // Oura exports typically have sleep, readiness, activity sections
-  return (
-    ('sleep' in data && Array.isArray((data as { sleep: unknown }).sleep)) ||
-    ('daily_readiness' in data)
-  );
-}
-
-function isDashboardDataExport(data: unknown): boolean {
-  if (!data || typeof data !== 'object') return false;
-
-  // Our dashboard_data.json format
-  const d = data as Record<string, unknown>;
-  return (
-    'sessions' in d &&
-    'baselines' in d &&
-    'debtStats' in d &&
-    Array.isArray(d.sessions)
-  );
-}
-
 function isAppleHealthPreParsed(data: unknown): boolean {
   if (!data || typeof data !== 'object') return false;
 
@@ -494,34 +724,168 @@ function isAppleHealthPreParsed(data: unknown): boolean {
 // MAIN IMPORT FUNCTION
 // ============================================================
 
+/**
+ * One file to transform: the uploaded file itself, or an entry of an
+ * uploaded archive. All entries of an import share one Source.
+ */
+interface ImportEntry {
+  file: ImportFile;
+  detection: FileDetectionResult;
+  profile: ImporterProfile;
+}
+
+/**
+ * Records an import would write, prepared without touching the vault so
+ * they can be reviewed before commitImport stores them.
+ */
+export interface ImportPlan {
+  source: Source;
+  records: SourceRecords;
+  changeSet: ImportChangeSet;
+  warnings: ImportWarning[];
+  qualitySummary: ImportResult['qualitySummary'];
+  archive?: ArchiveManifest;
+  // The uploads, when they are kept for re-import
+  rawFile?: RawFile;
+}
+
 export async function importFile(
   file: ImportFile,
   userId: string,
   profile: ImporterProfile | null,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: ImportOptions = {}
 ): Promise<ImportResult> {
-  const warnings: ImportWarning[] = [];
-  const errors: ImportError[] = [];
+  return importFiles([file], userId, profile, onProgress, options);
+}
+
+/**
+ * Import several files as one Source, the way an archive's entries are.
+ * Exports such as Google Takeout spread one vendor's data across many
+ * files; archives among the files are expanded in place.
+ */
+export async function importFiles(
+  files: ImportFile[],
+  userId: string,
+  profile: ImporterProfile | null,
+  onProgress?: ProgressCallback,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const preview = await previewImport(files, userId, profile, onProgress, options);
+  return 'changeSet' in preview ? commitImport(preview, onProgress) : preview;
+}
 
+/**
+ * Detect, transform, validate and deduplicate files exactly as an import
+ * would, without writing anything. Returns the plan to review, or the
+ * failed result when nothing could be imported.
+ */
+export async function previewImport(
+  files: ImportFile[],
+  userId: string,
+  profile: ImporterProfile | null,
+  onProgress?: ProgressCallback,
+  options: ImportOptions = {}
+): Promise<ImportPlan | ImportResult> {
   const report = (stage: ImportProgress['stage'], percent: number, message: string) => {
     onProgress?.({ stage, percent, message });
   };
 
   try {
-    // Step 1: Detect file type
-    report('detecting', 5, 'Analyzing file...');
-    const detection = await detectFileType(file);
+    return files.length === 1
+      ? await planFile(files[0], userId, profile, options, report)
+      : await planFiles(files, userId, profile, options, report);
+  } catch (e) {
+    return createErrorResult([{
+      type: 'storage_error',
+      message: e instanceof Error ? e.message : 'Unknown error during import',
+      details: e,
+    }]);
+  }
+}
+
+/**
+ * Store the records of a reviewed import, all or nothing.
+ */
+export async function commitImport(
+  plan: ImportPlan,
+  onProgress?: ProgressCallback
+): Promise<ImportResult> {
+  const { source, records } = plan;
+
+  try {
+    // Step 6: Store in database
+    onProgress?.({ stage: 'storing', percent: 90, message: 'Saving to database...' });
+
+    await storeSourceRecords(source, records, plan.rawFile);
+  } catch (e) {
+    return createErrorResult([{
+      type: 'storage_error',
+      message: e instanceof Error ? e.message : 'Unknown error during import',
+      details: e,
+    }]);
+  }
+
+  onProgress?.({ stage: 'complete', percent: 100, message: 'Import complete!' });
+
+  return {
+    success: true,
+    sourceId: source.id,
+    vendor: source.vendor,
+    recordCounts: {
+      sleepSessions: source.recordCounts.sleepSessions ?? 0,
+      workoutSessions: source.recordCounts.workoutSessions ?? 0,
+      dailyMetrics: source.recordCounts.dailyMetrics ?? 0,
+      timeSeries: source.recordCounts.timeSeries ?? 0,
+    },
+    warnings: plan.warnings,
+    errors: [],
+    qualitySummary: plan.qualitySummary,
+    archive: plan.archive,
+    newNights: source.skippedThrough ? countNewNights(plan.changeSet.sleepSessions.new) : undefined,
+  };
+}
+
+async function planFile(
+  file: ImportFile,
+  userId: string,
+  profile: ImporterProfile | null,
+  options: ImportOptions,
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void
+): Promise<ImportPlan | ImportResult> {
+  const errors: ImportError[] = [];
+
+  // Step 1: Detect file type
+  report('detecting', 5, 'Analyzing file...');
+  const detection = await detectFileType(file);
+
+  if (detection.fileType === 'unknown') {
+    errors.push({
+      type: 'invalid_format',
+      message: 'Could not determine file format',
+    });
+    return createErrorResult(errors);
+  }
+
+  // Step 2: Resolve the files to import and their importer profiles
+  let entries: ImportEntry[];
+  let archive: ArchiveManifest | undefined;
 
-    if (detection.fileType === 'unknown') {
+  if (detection.fileType === 'zip') {
+    report('parsing', 10, 'Reading archive...');
+    const expansion = await expandArchive(file, profile);
+    entries = expansion.entries;
+    archive = expansion.manifest;
+
+    if (entries.length === 0) {
       errors.push({
-        type: 'invalid_format',
-        message: 'Could not determine file format',
+        type: 'unsupported_vendor',
+        message: 'No importable files found in archive',
       });
-      return createErrorResult(errors);
+      return { ...createErrorResult(errors), archive };
     }
-
-    // Step 2: Get or select importer profile
-    const importerProfile = profile || await getBuiltInProfile(detection.suggestedVendor);
+  } else {
+    const importerProfile = resolveProfile(detection, profile);
 
     if (!importerProfile) {
       errors.push({
@@ -531,384 +895,821 @@ export async function importFile(
       return createErrorResult(errors);
     }
 
-    // Step 3: Parse content
-    report('parsing', 20, 'Parsing file content...');
-    const content = typeof file.content === 'string'
-      ? file.content
-      : new TextDecoder().decode(file.content);
-
-    let parsedData: unknown;
+    entries = [{ file, detection, profile: importerProfile }];
+  }
 
-    // Special handling for Apple Health XML
-    if (detection.fileType === 'xml' && detection.suggestedVendor === 'apple_health') {
-      report('parsing', 20, 'Parsing Apple Health export (this may take a while)...');
+  const fileHash = await sha256(file.content);
 
-      const fileHash = await sha256(content);
-      const sourceId = generateId();
+  return planEntries(entries, archive, [file], {
+    vendor: detection.suggestedVendor,
+    fileName: file.name,
+    fileHash,
+    fileSizeBytes: file.size,
+  }, userId, options, report);
+}
 
-      // Parse Apple Health data directly
-      const appleResult = await parseAppleHealthXML(
-        content,
-        sourceId,
-        userId,
-        (percent, message) => {
-          report('transforming', percent, message);
-        }
-      );
+async function planFiles(
+  files: ImportFile[],
+  userId: string,
+  profile: ImporterProfile | null,
+  options: ImportOptions,
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void
+): Promise<ImportPlan | ImportResult> {
+  // Step 1-2: Detect each file and resolve its importer profile
+  const { entries, manifest } = await resolveEntries(files, profile, report);
 
-      // Create source record
-      const source: Source = {
-        id: sourceId,
-        userId,
-        vendor: 'apple_health',
-        fileName: file.name,
-        fileHash,
-        fileSizeBytes: file.size,
-        importedAt: new Date().toISOString(),
-        importerProfileId: APPLE_HEALTH_PROFILE.id,
-        recordCounts: {
-          sleepSessions: appleResult.sleepSessions.length,
-          workoutSessions: appleResult.workoutSessions.length,
-          dailyMetrics: appleResult.dailyMetrics.length,
-          timeSeries: 0,
-        },
-      };
+  if (entries.length === 0) {
+    return {
+      ...createErrorResult([{
+        type: 'unsupported_vendor',
+        message: 'No importable files found',
+      }]),
+      archive: manifest,
+    };
+  }
 
-      // Validate and deduplicate data
-      report('validating', 85, 'Validating and deduplicating data...');
-      const validatedSessions = appleResult.sleepSessions.map(validateSession);
-      const dedupResult = await deduplicateSessions(validatedSessions, userId);
+  // The same set of files hashes the same regardless of selection order
+  const fileHashes = await Promise.all(files.map(f => sha256(f.content)));
+  const fileHash = await sha256(fileHashes.sort().join(''));
 
-      // Update source record counts with deduplicated values
-      source.recordCounts.sleepSessions = dedupResult.sessions.length;
+  return planEntries(entries, manifest, files, {
+    vendor: primaryArchiveVendor(entries),
+    fileName: `${files.length} files`,
+    fileHash,
+    fileSizeBytes: files.reduce((sum, f) => sum + f.size, 0),
+  }, userId, options, report);
+}
 
-      // Store data
-      report('storing', 90, 'Saving to database...');
-      await put('sources', source);
+// Bytes read from the start of a file to recognise an Apple Health export
+const APPLE_HEALTH_SNIFF_BYTES = 64 * 1024;
 
-      if (dedupResult.sessions.length > 0) {
-        await putMany('sleepSessions', dedupResult.sessions);
-      }
-      if (appleResult.workoutSessions.length > 0) {
-        await putMany('workoutSessions', appleResult.workoutSessions);
-      }
-      if (appleResult.dailyMetrics.length > 0) {
-        await putMany('dailyMetrics', appleResult.dailyMetrics);
-      }
+/**
+ * Whether a file is an Apple Health export.xml that should be streamed
+ * with importAppleHealthExport rather than read into memory.
+ */
+export async function isStreamableAppleHealthFile(file: File): Promise<boolean> {
+  if (!supportsWorkers() || !file.name.toLowerCase().endsWith('.xml')) return false;
+  const head = await file.slice(0, APPLE_HEALTH_SNIFF_BYTES).text();
+  return isAppleHealthExport(head);
+}
 
-      report('complete', 100, 'Apple Health import complete!');
+/**
+ * Import an Apple Health export.xml of any size. The File is streamed and
+ * workouts and daily metrics are stored as they are parsed; sleep
+ * sessions and their overnight time series are validated and
+ * deduplicated like any other import once the whole file is read. A
+ * failed import removes what had already been stored. Unless
+ * `fullHistory` is set, records up to the previous Apple Health import's
+ * high-water marks are skipped unread. Runs in the file processor worker
+ * (importAppleHealthExportInWorker), which passes the Source id it may
+ * have to roll back.
+ */
+export async function importAppleHealthExport(
+  file: File,
+  userId: string,
+  onProgress?: ProgressCallback,
+  options: Pick<ImportOptions, 'fullHistory'> = {},
+  sourceId: string = generateId()
+): Promise<ImportResult> {
+  const warnings: ImportWarning[] = [];
+  const errors: ImportError[] = [];
 
-      const importWarnings: ImportWarning[] = [{
-        type: 'duplicate' as const,
-        message: `Found data from ${appleResult.sources.size} sources: ${[...appleResult.sources].join(', ')}`,
-      }];
+  const report = (stage: ImportProgress['stage'], percent: number, message: string) => {
+    onProgress?.({ stage, percent, message });
+  };
 
-      if (dedupResult.mergedCount > 0) {
-        importWarnings.push({
-          type: 'duplicate' as const,
-          message: `Merged ${dedupResult.mergedCount} sessions with existing data`,
-        });
-      }
-      if (dedupResult.skippedCount > 0) {
-        importWarnings.push({
-          type: 'duplicate' as const,
-          message: `Skipped ${dedupResult.skippedCount} duplicate sessions (existing data was more complete)`,
-        });
-      }
+  // Hashing a multi-GB file would mean reading it whole; fingerprint it instead
+  const fileHash = await sha256(`${file.name}:${file.size}:${file.lastModified}`);
 
-      return {
-        success: true,
-        sourceId,
-        vendor: 'apple_health',
-        recordCounts: {
-          sleepSessions: source.recordCounts.sleepSessions ?? 0,
-          workoutSessions: source.recordCounts.workoutSessions ?? 0,
-          dailyMetrics: source.recordCounts.dailyMetrics ?? 0,
-          timeSeries: source.recordCounts.timeSeries ?? 0,
-        },
-        warnings: importWarnings,
-        errors: [],
-        qualitySummary: {
-          good: dedupResult.sessions.length,
-          warning: dedupResult.mergedCount,
-          bad: dedupResult.skippedCount,
-        },
-      };
-    }
+  const existingSources = await getByIndex('sources', 'fileHash', fileHash);
+  if (existingSources.length > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: 'This file has already been imported',
+    });
+  }
 
-    if (detection.fileType === 'json') {
-      try {
-        parsedData = JSON.parse(content);
-      } catch (e) {
-        errors.push({
-          type: 'parse_error',
-          message: 'Invalid JSON format',
-          details: e,
-        });
-        return createErrorResult(errors);
-      }
+  const since = options.fullHistory ? undefined : await vendorHighWaterMarks(userId, 'apple_health');
 
-      // Handle pre-parsed Apple Health JSON
-      if (detection.suggestedVendor === 'apple_health' && isAppleHealthPreParsed(parsedData)) {
-        report('transforming', 50, 'Importing pre-parsed Apple Health data...');
-
-        const data = parsedData as {
-          sleepSessions: SleepSession[];
-          workoutSessions: WorkoutSession[];
-          dailyMetrics?: DailyMetric[];
-          sources: string[];
-          sourceId?: string;
-        };
-
-        const fileHash = await sha256(content);
-        const sourceId = data.sourceId || generateId();
-
-        // Update sourceIds and userIds on imported records
-        const sleepSessions = data.sleepSessions.map(s => ({
-          ...s,
-          sourceId,
-          userId,
-        }));
-        const workoutSessions = data.workoutSessions.map(w => ({
-          ...w,
-          sourceId,
-          userId,
-        }));
-        const dailyMetrics = (data.dailyMetrics || []).map(m => ({
-          ...m,
-          sourceId,
-          userId,
-        }));
-
-        // Validate and deduplicate
-        report('validating', 70, 'Validating and deduplicating data...');
-        const validatedSessions = sleepSessions.map(validateSession);
-        const dedupResult = await deduplicateSessions(validatedSessions, userId);
-
-        // Create source record
-        const source: Source = {
-          id: sourceId,
-          userId,
-          vendor: 'apple_health',
-          fileName: file.name,
-          fileHash,
-          fileSizeBytes: file.size,
-          importedAt: new Date().toISOString(),
-          importerProfileId: APPLE_HEALTH_PROFILE.id,
-          recordCounts: {
-            sleepSessions: dedupResult.sessions.length,
-            workoutSessions: workoutSessions.length,
-            dailyMetrics: dailyMetrics.length,
-            timeSeries: 0,
-          },
-        };
-
-        // Store data
-        report('storing', 80, 'Saving to database...');
-        await put('sources', source);
-
-        if (dedupResult.sessions.length > 0) {
-          await putMany('sleepSessions', dedupResult.sessions);
-        }
-        if (workoutSessions.length > 0) {
-          await putMany('workoutSessions', workoutSessions);
+  // Metrics of a marked day replace stored ones, so they wait for the
+  // final transaction rather than overwrite those of a failed import
+  const markedDayMetrics: DailyMetric[] = [];
+  const isMarkedDay = (metric: DailyMetric) => metric.date === since?.dailyMetrics?.[metric.metricType];
+
+  report('parsing', 0, 'Reading Apple Health export...');
+  let appleResult: AppleHealthStreamResult;
+  try {
+    appleResult = await streamAppleHealthExport(file.stream(), file.size, sourceId, userId, {
+      night: nightOptions(await getUserSettings(userId)),
+      since,
+      onBatch: async (batch) => {
+        if (batch.workoutSessions.length > 0) {
+          await putMany('workoutSessions', batch.workoutSessions);
         }
+        markedDayMetrics.push(...batch.dailyMetrics.filter(isMarkedDay));
+        const dailyMetrics = batch.dailyMetrics.filter(metric => !isMarkedDay(metric));
         if (dailyMetrics.length > 0) {
           await putMany('dailyMetrics', dailyMetrics);
         }
+      },
+      onProgress: (percent, message) => report('parsing', percent * 0.7, message),
+    });
+  } catch (e) {
+    await removeByIndex('workoutSessions', 'sourceId', sourceId);
+    await removeByIndex('dailyMetrics', 'sourceId', sourceId);
+    errors.push({
+      type: 'parse_error',
+      message: e instanceof Error ? e.message : 'Failed to read Apple Health export',
+    });
+    return createErrorResult(errors);
+  }
+  warnings.push({
+    type: 'duplicate',
+    message: `Found data from ${appleResult.sources.length} sources: ${appleResult.sources.join(', ')}`,
+  });
+  const ignored = describeIgnoredTypes(appleResult.typeSummary);
+  if (ignored) {
+    warnings.push({ type: 'missing_field', message: ignored });
+  }
+  if (appleResult.skippedRecords > 0) {
+    warnings.push(skippedRecordsWarning(appleResult.skippedRecords));
+  }
 
-        report('complete', 100, 'Apple Health import complete!');
+  const validated = await validateSleepSessions(
+    appleResult.sleepSessions.map(s => stampProvenance(s, 'apple_health')),
+    userId,
+    warnings,
+    report
+  );
 
-        const importWarnings: ImportWarning[] = [{
-          type: 'duplicate' as const,
-          message: `Imported data from ${data.sources.length} sources: ${data.sources.slice(0, 5).join(', ')}${data.sources.length > 5 ? '...' : ''}`,
-        }];
+  // The worker stored workouts as it parsed them; match them against other sources now
+  const streamedWorkouts = await getByIndex('workoutSessions', 'sourceId', sourceId);
+  const workouts = await deduplicateWorkoutsWithWarnings(
+    streamedWorkouts,
+    userId,
+    new Map(streamedWorkouts.map(w => [w.id, 'apple_health' as VendorType])),
+    warnings,
+    sourceId
+  );
+  const timeSeries = relinkTimeSeries(
+    appleResult.timeSeries,
+    new Map([...validated.sessionIds, ...workouts.workoutIds])
+  );
 
-        if (dedupResult.mergedCount > 0) {
-          importWarnings.push({
-            type: 'duplicate' as const,
-            message: `Merged ${dedupResult.mergedCount} sessions with existing data`,
-          });
-        }
-        if (dedupResult.skippedCount > 0) {
-          importWarnings.push({
-            type: 'duplicate' as const,
-            message: `Skipped ${dedupResult.skippedCount} duplicate sessions`,
-          });
-        }
+  report('storing', 90, 'Saving to database...');
+
+  // Daily metrics went straight to the database; the worker reports their latest dates
+  const highWaterMarks = combineHighWaterMarks([
+    recordHighWaterMarks({
+      sleepSessions: appleResult.sleepSessions,
+      workoutSessions: streamedWorkouts,
+      timeSeries: appleResult.timeSeries,
+    }),
+    { dailyMetrics: appleResult.latestMetricDates },
+  ]);
+
+  const source: Source = {
+    id: sourceId,
+    userId,
+    vendor: 'apple_health',
+    fileName: file.name,
+    fileHash,
+    fileSizeBytes: file.size,
+    importedAt: new Date().toISOString(),
+    importerProfileId: APPLE_HEALTH_PROFILE.id,
+    recordCounts: {
+      sleepSessions: ownSessions(validated.sessions, sourceId).length,
+      workoutSessions: ownSessions(workouts.workouts, sourceId).length,
+      dailyMetrics: appleResult.storedCounts.dailyMetrics,
+      timeSeries: timeSeries.length,
+    },
+    highWaterMarks,
+    skippedThrough: since,
+  };
 
-        return {
-          success: true,
-          sourceId,
-          vendor: 'apple_health',
-          recordCounts: {
-            sleepSessions: source.recordCounts.sleepSessions ?? 0,
-            workoutSessions: source.recordCounts.workoutSessions ?? 0,
-            dailyMetrics: source.recordCounts.dailyMetrics ?? 0,
-            timeSeries: source.recordCounts.timeSeries ?? 0,
-          },
-          warnings: importWarnings,
-          errors: [],
-          qualitySummary: {
-            good: dedupResult.sessions.length,
-            warning: dedupResult.mergedCount,
-            bad: dedupResult.skippedCount,
-          },
-        };
+  // The streamed workouts give way to their deduplicated versions, and
+  // the marked day's metrics to stored ones, in the same transaction that
+  // stores the source, so none of it lands half-way
+  await storeSourceRecords(
+    source,
+    {
+      sleepSessions: validated.sessions,
+      workoutSessions: workouts.workouts,
+      dailyMetrics: since ? await replaceMarkedDays(markedDayMetrics, userId, 'apple_health', since) : [],
+      timeSeries,
+      annotations: [],
+    },
+    undefined,
+    ['workoutSessions']
+  );
+
+  report('complete', 100, 'Import complete!');
+
+  return {
+    success: true,
+    sourceId,
+    vendor: 'apple_health',
+    recordCounts: {
+      sleepSessions: ownSessions(validated.sessions, sourceId).length,
+      workoutSessions: ownSessions(workouts.workouts, sourceId).length,
+      dailyMetrics: appleResult.storedCounts.dailyMetrics,
+      timeSeries: timeSeries.length,
+    },
+    warnings,
+    errors,
+    qualitySummary: validated.qualitySummary,
+    newNights: since ? countNewNights(validated.changes.new) : undefined,
+  };
+}
+
+/**
+ * Transform, validate and deduplicate a resolved set of entries under
+ * one new Source.
+ */
+async function planEntries(
+  entries: ImportEntry[],
+  archive: ArchiveManifest | undefined,
+  uploads: ImportFile[],
+  origin: Pick<Source, 'vendor' | 'fileName' | 'fileHash' | 'fileSizeBytes'>,
+  userId: string,
+  options: ImportOptions,
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void
+): Promise<ImportPlan | ImportResult> {
+  const warnings: ImportWarning[] = [];
+
+  // Step 3: Create source record
+  // Check for duplicate import
+  const existingSources = await getByIndex('sources', 'fileHash', origin.fileHash);
+  if (existingSources.length > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: 'This file has already been imported',
+    });
+  }
+
+  const sourceId = generateId();
+  const source: Source = {
+    id: sourceId,
+    userId,
+    ...origin,
+    importedAt: new Date().toISOString(),
+    importerProfileId: entries[0].profile.id,
+    recordCounts: {
+      sleepSessions: 0,
+      workoutSessions: 0,
+      dailyMetrics: 0,
+      timeSeries: 0,
+    },
+  };
+
+  // Only files of one vendor continue that vendor's history
+  const marked = supportsHighWaterMarks(origin.vendor) && entries.every(e => e.profile.vendor === origin.vendor);
+  const since = marked && !options.fullHistory ? await vendorHighWaterMarks(userId, origin.vendor) : undefined;
+
+  // Step 4-5: Transform, validate and deduplicate
+  const derived = await deriveRecords(entries, archive, sourceId, userId, options, warnings, report, undefined, since);
+  if ('errors' in derived) {
+    return createErrorResult(derived.errors);
+  }
+  const { records } = derived;
+
+  source.recordCounts = countRecords(records, sourceId);
+  if (marked) {
+    source.highWaterMarks = derived.highWaterMarks;
+    source.skippedThrough = since;
+  }
+
+  let rawFile: RawFile | undefined;
+  if (options.retainRawFiles) {
+    const { retainRawFiles: _retain, fullHistory: _full, ...readOptions } = options;
+    rawFile = { id: sourceId, files: uploads, options: { ...readOptions } };
+    source.rawDataRef = sourceId;
+  }
+
+  return {
+    source,
+    records,
+    changeSet: {
+      sleepSessions: derived.sleepChanges,
+      workoutSessions: derived.workoutChanges,
+      dailyMetrics: records.dailyMetrics.length,
+      timeSeries: records.timeSeries.length,
+      annotations: records.annotations.length,
+      alreadyImported: existingSources.length > 0,
+    },
+    warnings,
+    qualitySummary: derived.qualitySummary,
+    archive,
+    rawFile,
+  };
+}
+
+/**
+ * Transform every entry and prepare the records for storage: sleep
+ * sessions are validated and merged with stored nights, time series
+ * follow them and annotations fold into stored ones. Records of
+ * `replacingSourceId` are left out of deduplication, since they are
+ * about to be replaced, and records at or before `since` are skipped.
+ * The high-water marks returned cover what the files held after skipping.
+ */
+async function deriveRecords(
+  entries: ImportEntry[],
+  archive: ArchiveManifest | undefined,
+  sourceId: string,
+  userId: string,
+  options: ImportOptions,
+  warnings: ImportWarning[],
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void,
+  replacingSourceId?: string,
+  since?: HighWaterMarks
+): Promise<
+  {
+    records: SourceRecords;
+    qualitySummary: ImportResult['qualitySummary'];
+    sleepChanges: SleepSessionChanges;
+    workoutChanges: WorkoutSessionChanges;
+    highWaterMarks: HighWaterMarks;
+  } |
+  { errors: ImportError[] }
+> {
+  const sleepSessions: SleepSession[] = [];
+  const workoutSessions: WorkoutSession[] = [];
+  const dailyMetrics: DailyMetric[] = [];
+  const timeSeries: TimeSeries[] = [];
+  const annotations: Annotation[] = [];
+  const workoutVendors = new Map<string, VendorType>();
+  let skippedRecords = 0;
+
+  const span = 50 / entries.length;
+  const night = nightOptions(await getUserSettings(userId));
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const base = 20 + i * span;
+    const prefix = entries.length > 1 ? `${entry.file.name}: ` : '';
+
+    let transformResult: TransformResult;
+    try {
+      transformResult = await transformEntry(
+        entry,
+        sourceId,
+        userId,
+        options,
+        night,
+        since,
+        (fraction, message) => report('transforming', base + fraction * span, prefix + message)
+      );
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+
+      // A broken archive entry should not sink the rest of the archive
+      if (archive) {
+        archive.usedEntries = archive.usedEntries.filter(u => u.name !== entry.file.name);
+        archive.skippedEntries.push({ name: entry.file.name, reason: message });
+        warnings.push({ type: 'parse_error', message: `${entry.file.name}: ${message}` });
+        continue;
       }
-    } else if (detection.fileType === 'csv') {
-      parsedData = parseCsv(content);
-    } else {
-      errors.push({
-        type: 'unsupported_vendor',
-        message: `File type ${detection.fileType} not yet supported`,
-      });
-      return createErrorResult(errors);
+
+      return { errors: [{ type: 'parse_error', message, details: e }] };
+    }
+
+    skippedRecords += transformResult.skippedRecords ?? 0;
+    if (since) {
+      const kept = skipImportedRecords(transformResult, since);
+      transformResult = kept.records;
+      skippedRecords += kept.skipped;
+    }
+
+    sleepSessions.push(...transformResult.sleepSessions.map(s => stampProvenance(s, entry.profile.vendor)));
+    workoutSessions.push(...transformResult.workoutSessions);
+    for (const workout of transformResult.workoutSessions) {
+      workoutVendors.set(workout.id, entry.profile.vendor);
+    }
+    dailyMetrics.push(...(transformResult.dailyMetrics ?? []));
+    timeSeries.push(...transformResult.timeSeries);
+    annotations.push(...(transformResult.annotations ?? []));
+    warnings.push(...transformResult.warnings.map(w => ({ ...w, message: prefix + w.message })));
+  }
+
+  if (skippedRecords > 0) {
+    warnings.push(skippedRecordsWarning(skippedRecords));
+  }
+  const highWaterMarks = recordHighWaterMarks({ sleepSessions, workoutSessions, dailyMetrics, timeSeries });
+
+  // Only files of one vendor are imported since its marks
+  const storedMetrics = since
+    ? await replaceMarkedDays(dailyMetrics, userId, entries[0].profile.vendor, since)
+    : dailyMetrics;
+
+  // Step 5: Validate, add quality flags and deduplicate
+  const validated = await validateSleepSessions(sleepSessions, userId, warnings, report, replacingSourceId);
+  const workouts = await deduplicateWorkoutsWithWarnings(workoutSessions, userId, workoutVendors, warnings, replacingSourceId);
+
+  return {
+    records: {
+      sleepSessions: validated.sessions,
+      workoutSessions: workouts.workouts,
+      dailyMetrics: storedMetrics,
+      timeSeries: relinkTimeSeries(timeSeries, new Map([...validated.sessionIds, ...workouts.workoutIds])),
+      annotations: annotations.length > 0 ? await mergeAnnotations(annotations, userId) : [],
+    },
+    qualitySummary: validated.qualitySummary,
+    sleepChanges: validated.changes,
+    workoutChanges: workouts.changes,
+    highWaterMarks,
+  };
+}
+
+/**
+ * Deduplicate workouts and report merges and skips the way sleep
+ * deduplication does.
+ */
+async function deduplicateWorkoutsWithWarnings(
+  workouts: WorkoutSession[],
+  userId: string,
+  vendors: Map<string, VendorType>,
+  warnings: ImportWarning[],
+  replacingSourceId?: string
+): Promise<{
+  workouts: WorkoutSession[];
+  workoutIds: Map<string, string>;
+  changes: WorkoutSessionChanges;
+}> {
+  const dedupResult = await deduplicateWorkouts(workouts, userId, vendors, replacingSourceId);
+
+  if (dedupResult.mergedCount > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: `Merged ${dedupResult.mergedCount} workouts with existing data`,
+    });
+  }
+  if (dedupResult.skippedCount > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: `Skipped ${dedupResult.skippedCount} duplicate workouts`,
+    });
+  }
+
+  return {
+    workouts: dedupResult.workouts,
+    workoutIds: dedupResult.workoutIds,
+    changes: {
+      new: dedupResult.workouts.filter(workout => !dedupResult.matchedIds.has(workout.id)),
+      merged: dedupResult.merges.map(({ existing, merged }) => ({
+        date: merged.date,
+        sessionId: merged.id,
+        changes: sessionFieldChanges(existing, merged),
+      })),
+      skipped: dedupResult.skipped.map(workout => ({
+        date: workout.date,
+        reason: `${workout.workoutSubtype || workout.workoutType}: nothing to add to the stored workout`,
+      })),
+    },
+  };
+}
+
+function countRecords(records: SourceRecords, sourceId: string): Source['recordCounts'] {
+  return {
+    sleepSessions: ownSessions(records.sleepSessions, sourceId).length,
+    workoutSessions: ownSessions(records.workoutSessions, sourceId).length,
+    dailyMetrics: records.dailyMetrics.length,
+    timeSeries: records.timeSeries.length,
+  };
+}
+
+// Stored sessions a duplicate was only recorded on stay with their source
+function ownSessions<T extends { sourceId: string }>(sessions: T[], sourceId: string): T[] {
+  return sessions.filter(session => session.sourceId === sourceId);
+}
+
+/**
+ * Validate sleep sessions, flag their quality and merge them with
+ * sessions already stored for the same nights.
+ */
+async function validateSleepSessions(
+  sleepSessions: SleepSession[],
+  userId: string,
+  warnings: ImportWarning[],
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void,
+  replacingSourceId?: string
+): Promise<{
+  sessions: SleepSession[];
+  // Incoming session id -> stored session id, or null if it was rejected
+  sessionIds: Map<string, string | null>;
+  qualitySummary: ImportResult['qualitySummary'];
+  changes: SleepSessionChanges;
+}> {
+  report('validating', 75, 'Validating data quality...');
+  let goodCount = 0;
+  let warningCount = 0;
+  let badCount = 0;
+
+  // Sessions that cannot be filed under a night are not stored at all
+  const rejected: SleepSessionChanges['rejected'] = [];
+  const sessionIds = new Map<string, string | null>();
+  const accepted = sleepSessions.filter(session => {
+    const reason = rejectionReason(session);
+    if (reason) {
+      rejected.push({ date: session.date || '—', reason });
+      sessionIds.set(session.id, null);
     }
+    return !reason;
+  });
+  if (rejected.length > 0) {
+    warnings.push({
+      type: 'parse_error',
+      message: `Rejected ${rejected.length} sessions that failed validation`,
+    });
+  }
 
-    // Step 4: Create source record
-    const fileHash = await sha256(content);
+  // Validate sessions
+  const validatedSessions = accepted.map(validateSession);
 
-    // Check for duplicate import
-    const existingSources = await getByIndex('sources', 'fileHash', fileHash);
-    if (existingSources.length > 0) {
+  for (const session of validatedSessions) {
+    const qualityReport = checkSleepSessionQuality(session);
+    session.dataQuality = generateDataQualityFlags(qualityReport);
+
+    if (qualityReport.overallQuality === 'good') goodCount++;
+    else if (qualityReport.overallQuality === 'warning') warningCount++;
+    else badCount++;
+
+    if (qualityReport.hardLimitViolations.length > 0) {
       warnings.push({
-        type: 'duplicate',
-        message: 'This file has already been imported',
+        type: 'outlier',
+        message: `Session ${session.date} has values outside expected ranges`,
+        field: qualityReport.hardLimitViolations[0].field,
       });
     }
+  }
+
+  // Deduplicate against existing data
+  report('validating', 85, 'Deduplicating data...');
+  const dedupResult = await deduplicateSessions(validatedSessions, userId, replacingSourceId);
+
+  if (dedupResult.mergedCount > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: `Merged ${dedupResult.mergedCount} sessions with existing data`,
+    });
+  }
+  if (dedupResult.skippedCount > 0) {
+    warnings.push({
+      type: 'duplicate',
+      message: `Skipped ${dedupResult.skippedCount} duplicate sessions`,
+    });
+  }
+
+
+  for (const [incomingId, storedId] of dedupResult.sessionIds) {
+    sessionIds.set(incomingId, storedId);
+  }
+
+  return {
+    sessions: dedupResult.sessions,
+    sessionIds,
+    qualitySummary: {
+      good: goodCount,
+      warning: warningCount + dedupResult.mergedCount,
+      bad: badCount + dedupResult.skippedCount,
+    },
+    changes: {
+      new: dedupResult.sessions.filter(session => !dedupResult.matchedIds.has(session.id)),
+      merged: dedupResult.merges.map(({ existing, merged }) => ({
+        date: merged.date,
+        sessionId: merged.id,
+        changes: sessionFieldChanges(existing, merged),
+      })),
+      skipped: dedupResult.skipped.map(session => ({
+        date: session.date,
+        reason: 'Nothing to add to the stored night',
+      })),
+      rejected,
+    },
+  };
+}
+
+/**
+ * Point time series at the sessions actually stored for their nights.
+ * Series of rejected sessions are dropped; series of other sessions
+ * (workouts) are left alone.
+ */
+function relinkTimeSeries(timeSeries: TimeSeries[], sessionIds: Map<string, string | null>): TimeSeries[] {
+  return timeSeries.flatMap(series => {
+    if (!series.sessionId || !sessionIds.has(series.sessionId)) return [series];
+    const storedId = sessionIds.get(series.sessionId);
+    if (!storedId) return [];
+    return storedId !== series.sessionId ? [{ ...series, sessionId: storedId }] : [series];
+  });
+}
+
+/**
+ * Parse one file and transform it to canonical records.
+ * Progress is reported as a 0-1 fraction of this entry's work.
+ */
+async function transformEntry(
+  entry: ImportEntry,
+  sourceId: string,
+  userId: string,
+  options: ImportOptions,
+  night: NightOptions,
+  since: HighWaterMarks | undefined,
+  onProgress: (fraction: number, message: string) => void
+): Promise<TransformResult> {
+  const { file, detection, profile } = entry;
+
+  // Device recordings are parsed straight from the file; FIT is binary
+  if (profile.vendor === 'workout_file') {
+    const workoutContent = detection.fileType === 'fit' || typeof file.content === 'string'
+      ? file.content
+      : new TextDecoder().decode(file.content);
 
-    const sourceId = generateId();
-    const source: Source = {
-      id: sourceId,
+    return transformWorkoutFile(
+      workoutContent,
+      file.name,
+      sourceId,
       userId,
-      vendor: detection.suggestedVendor,
-      fileName: file.name,
-      fileHash,
-      fileSizeBytes: file.size,
-      importedAt: new Date().toISOString(),
-      importerProfileId: importerProfile.id,
-      recordCounts: {
-        sleepSessions: 0,
-        workoutSessions: 0,
-        dailyMetrics: 0,
-        timeSeries: 0,
-      },
-    };
+      (processed, total) => onProgress(processed / total, `Processing activity ${processed} of ${total}...`)
+    );
+  }
+
+  const content = typeof file.content === 'string'
+    ? file.content
+    : new TextDecoder().decode(file.content);
+
+  // Special handling for Apple Health XML
+  if (detection.fileType === 'xml' && profile.vendor === 'apple_health') {
+    onProgress(0, 'Parsing Apple Health export (this may take a while)...');
 
-    // Step 5: Transform to canonical schema
-    report('transforming', 40, 'Transforming data...');
-    const transformResult = await transformData(
-      parsedData,
-      importerProfile,
+    const appleResult = await parseAppleHealthXML(
+      content,
       sourceId,
       userId,
-      (processed, total) => {
-        const percent = 40 + (processed / total) * 30;
-        report('transforming', percent, `Processing record ${processed} of ${total}...`);
-      }
+      (percent, message) => onProgress(percent / 100, message),
+      night,
+      since
     );
 
-    warnings.push(...transformResult.warnings);
+    const warnings: ImportWarning[] = [{
+      type: 'duplicate',
+      message: `Found data from ${appleResult.sources.size} sources: ${[...appleResult.sources].join(', ')}`,
+    }];
+    const ignored = describeIgnoredTypes(appleResult.typeSummary);
+    if (ignored) {
+      warnings.push({ type: 'missing_field', message: ignored });
+    }
+
+    return {
+      sleepSessions: appleResult.sleepSessions,
+      workoutSessions: appleResult.workoutSessions,
+      dailyMetrics: appleResult.dailyMetrics,
+      timeSeries: appleResult.timeSeries,
+      warnings,
+      skippedRecords: appleResult.skippedRecords,
+    };
+  }
 
-    // Step 6: Validate and add quality flags
-    report('validating', 75, 'Validating data quality...');
-    let goodCount = 0;
-    let warningCount = 0;
-    let badCount = 0;
+  let parsedData: unknown;
 
-    // Validate sessions
-    const validatedSessions = transformResult.sleepSessions.map(validateSession);
+  if (detection.fileType === 'json') {
+    try {
+      parsedData = JSON.parse(content);
+    } catch {
+      throw new Error('Invalid JSON format');
+    }
 
-    for (const session of validatedSessions) {
-      const qualityReport = checkSleepSessionQuality(session);
-      session.dataQuality = generateDataQualityFlags(qualityReport);
+    // Handle pre-parsed Apple Health JSON
+    if (profile.vendor === 'apple_health' && isAppleHealthPreParsed(parsedData)) {
+      onProgress(0.5, 'Importing pre-parsed Apple Health data...');
 
-      if (qualityReport.overallQuality === 'good') goodCount++;
-      else if (qualityReport.overallQuality === 'warning') warningCount++;
-      else badCount++;
+      const data = parsedData as {
+        sleepSessions: SleepSession[];
+        workoutSessions: WorkoutSession[];
+        dailyMetrics?: DailyMetric[];
+        sources: string[];
+      };
 
-      if (qualityReport.hardLimitViolations.length > 0) {
-        warnings.push({
-          type: 'outlier',
-          message: `Session ${session.date} has values outside expected ranges`,
-          field: qualityReport.hardLimitViolations[0].field,
-        });
-      }
+      // Update sourceIds and userIds on imported records
+      return {
+        sleepSessions: data.sleepSessions.map(s => ({ ...s, sourceId, userId })),
+        workoutSessions: data.workoutSessions.map(w => ({ ...w, sourceId, userId })),
+        dailyMetrics: (data.dailyMetrics || []).map(m => ({ ...m, sourceId, userId })),
+        timeSeries: [],
+        warnings: [{
+          type: 'duplicate',
+          message: `Imported data from ${data.sources.length} sources: ${data.sources.slice(0, 5).join(', ')}${data.sources.length > 5 ? '...' : ''}`,
+        }],
+      };
     }
+  } else if (detection.fileType === 'csv') {
+    parsedData = parseCsv(content);
+  } else {
+    throw new Error(`File type ${detection.fileType} not yet supported`);
+  }
 
-    // Deduplicate against existing data
-    report('validating', 85, 'Deduplicating data...');
-    const dedupResult = await deduplicateSessions(validatedSessions, userId);
+  onProgress(0.3, 'Transforming data...');
+  return transformData(
+    parsedData,
+    profile,
+    sourceId,
+    userId,
+    options,
+    night,
+    (processed, total) => {
+      onProgress(0.3 + (processed / total) * 0.7, `Processing record ${processed} of ${total}...`);
+    }
+  );
+}
 
-    if (dedupResult.mergedCount > 0) {
-      warnings.push({
-        type: 'duplicate',
-        message: `Merged ${dedupResult.mergedCount} sessions with existing data`,
-      });
+/**
+ * Detect each file and resolve its importer profile; archives among the
+ * files are expanded in place. An explicit profile applies to every file.
+ */
+async function resolveEntries(
+  files: ImportFile[],
+  profile: ImporterProfile | null,
+  report: (stage: ImportProgress['stage'], percent: number, message: string) => void
+): Promise<{ entries: ImportEntry[]; manifest: ArchiveManifest }> {
+  const entries: ImportEntry[] = [];
+  const manifest: ArchiveManifest = { usedEntries: [], skippedEntries: [] };
+  const profiles = await listDetectionProfiles();
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    report('detecting', 5 + (i / files.length) * 15, `Analyzing ${file.name}...`);
+    const detection = await detectFileType(file, profiles);
+
+    if (detection.fileType === 'zip') {
+      const expansion = await expandArchive(file, profile);
+      entries.push(...expansion.entries);
+      manifest.usedEntries.push(...expansion.manifest.usedEntries);
+      manifest.skippedEntries.push(...expansion.manifest.skippedEntries);
+      continue;
     }
-    if (dedupResult.skippedCount > 0) {
-      warnings.push({
-        type: 'duplicate',
-        message: `Skipped ${dedupResult.skippedCount} duplicate sessions`,
-      });
+
+    const importerProfile = detection.fileType === 'unknown'
+      ? null
+      : resolveProfile(detection, profile);
+
+    if (!importerProfile) {
+      manifest.skippedEntries.push({ name: file.name, reason: 'Unrecognized file content' });
+      continue;
     }
 
-    // Step 7: Store in database
-    report('storing', 90, 'Saving to database...');
+    entries.push({ file, detection, profile: importerProfile });
+    manifest.usedEntries.push({
+      name: file.name,
+      vendor: importerProfile.vendor,
+      profileId: importerProfile.id,
+    });
+  }
 
-    source.recordCounts = {
-      sleepSessions: dedupResult.sessions.length,
-      workoutSessions: transformResult.workoutSessions.length,
-      dailyMetrics: 0,
-      timeSeries: transformResult.timeSeries.length,
-    };
+  return { entries, manifest };
+}
 
-    await put('sources', source);
+/**
+ * Route an archive's entries to importer profiles and load the matches.
+ * Entries are routed over the same saved and built-in profiles detection
+ * ranks; an explicitly chosen profile is tried before them.
+ */
+async function expandArchive(
+  file: ImportFile,
+  profile: ImporterProfile | null
+): Promise<{ entries: ImportEntry[]; manifest: ArchiveManifest }> {
+  if (!(file.content instanceof ArrayBuffer)) {
+    throw new Error('Archive content must be binary');
+  }
 
-    if (dedupResult.sessions.length > 0) {
-      await putMany('sleepSessions', dedupResult.sessions);
-    }
+  const detectionProfiles = await listDetectionProfiles();
+  const profiles = profile ? [profile, ...detectionProfiles] : detectionProfiles;
+  const routing = routeArchiveEntries(listZipEntries(file.content), profiles);
 
-    if (transformResult.workoutSessions.length > 0) {
-      await putMany('workoutSessions', transformResult.workoutSessions);
-    }
+  const entries: ImportEntry[] = [];
+  const manifest: ArchiveManifest = { usedEntries: [], skippedEntries: [...routing.skipped] };
 
-    if (transformResult.timeSeries.length > 0) {
-      await putMany('timeSeries', transformResult.timeSeries);
-    }
+  for (const routed of routing.routed) {
+    const entryFile = await readArchiveEntry(file.content, routed.entry);
+    const detection = await detectFileType(entryFile, profiles);
 
-    report('complete', 100, 'Import complete!');
+    if (detection.fileType === 'unknown' || detection.fileType === 'zip') {
+      manifest.skippedEntries.push({ name: routed.entry.name, reason: 'Unrecognized file content' });
+      continue;
+    }
 
-    return {
-      success: true,
-      sourceId,
-      vendor: detection.suggestedVendor,
-      recordCounts: {
-        sleepSessions: source.recordCounts.sleepSessions ?? 0,
-        workoutSessions: source.recordCounts.workoutSessions ?? 0,
-        dailyMetrics: source.recordCounts.dailyMetrics ?? 0,
-        timeSeries: source.recordCounts.timeSeries ?? 0,
-      },
-      warnings,
-      errors,
-      qualitySummary: {
-        good: goodCount,
-        warning: warningCount + dedupResult.mergedCount,
-        bad: badCount + dedupResult.skippedCount,
-      },
-    };
-  } catch (e) {
-    errors.push({
-      type: 'storage_error',
-      message: e instanceof Error ? e.message : 'Unknown error during import',
-      details: e,
+    entries.push({ file: entryFile, detection, profile: routed.profile });
+    manifest.usedEntries.push({
+      name: routed.entry.name,
+      vendor: routed.profile.vendor,
+      profileId: routed.profile.id,
     });
-    return createErrorResult(errors);
   }
+
+  return { entries, manifest };
 }
 
-function createErrorResult(errors: ImportError[]): ImportResult {
+/**
+ * A failed import. Also stands in for imports a worker did not finish.
+ */
+export function createErrorResult(errors: ImportError[]): ImportResult {
   return {
     success: false,
     sourceId: '',
@@ -925,6 +1726,159 @@ function createErrorResult(errors: ImportError[]): ImportResult {
   };
 }
 
+/**
+ * How far the user's earlier imports from a vendor reach.
+ */
+async function vendorHighWaterMarks(userId: string, vendor: VendorType): Promise<HighWaterMarks | undefined> {
+  const sources = await getByIndex('sources', 'vendor', vendor);
+  return combineHighWaterMarks(sources.filter(s => s.userId === userId).map(s => s.highWaterMarks));
+}
+
+/**
+ * Daily metrics of a marked day are read again, since the earlier export
+ * may have ended partway through it. Each takes the id of a row an
+ * earlier import from the vendor stored for that metric and day, so the
+ * whole day replaces the partial one instead of adding to it.
+ */
+async function replaceMarkedDays(
+  metrics: DailyMetric[],
+  userId: string,
+  vendor: VendorType,
+  marks: HighWaterMarks
+): Promise<DailyMetric[]> {
+  const vendorSources = new Set((await getByIndex('sources', 'vendor', vendor)).map(source => source.id));
+  const claimed = new Set<string>();
+
+  const replaced: DailyMetric[] = [];
+  for (const metric of metrics) {
+    if (metric.date !== marks.dailyMetrics?.[metric.metricType]) {
+      replaced.push(metric);
+      continue;
+    }
+
+    const stored = await getByIndex('dailyMetrics', 'userId_date_type', [userId, metric.date, metric.metricType]);
+    const earlier = stored.find(m => vendorSources.has(m.sourceId) && !claimed.has(m.id));
+    if (earlier) claimed.add(earlier.id);
+    replaced.push(earlier ? { ...metric, id: earlier.id } : metric);
+  }
+  return replaced;
+}
+
+function skippedRecordsWarning(count: number): ImportWarning {
+  return {
+    type: 'duplicate',
+    message: `Skipped ${count.toLocaleString()} records already covered by an earlier import`,
+  };
+}
+
+// ============================================================
+// RE-IMPORT
+// ============================================================
+
+/**
+ * A Source's records as the current importers derive them from its
+ * retained files, and how they differ from what the vault holds.
+ */
+export interface ReimportPlan {
+  source: Source;
+  records: SourceRecords;
+  diff: SourceRecordsDiff;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Re-run the importers over a Source's retained files and diff the result
+ * against its stored records. Nothing is written until applyReimport.
+ */
+export async function planReimport(
+  sourceId: string,
+  onProgress?: ProgressCallback
+): Promise<ReimportPlan> {
+  const report = (stage: ImportProgress['stage'], percent: number, message: string) => {
+    onProgress?.({ stage, percent, message });
+  };
+
+  const source = await get('sources', sourceId);
+  if (!source) {
+    throw new Error('Source not found');
+  }
+
+  const raw = source.rawDataRef ? await get('rawFiles', source.rawDataRef) : undefined;
+  if (!raw) {
+    throw new Error(`The original files of ${source.fileName} were not kept, so it cannot be re-imported`);
+  }
+
+  // A single file is read with the profile it was imported with, if that still exists
+  const profile = raw.files.length === 1 ? await findProfile(source.importerProfileId) : null;
+  const { entries, manifest } = await resolveEntries(raw.files, profile, report);
+
+  if (entries.length === 0) {
+    throw new Error('No importable files found');
+  }
+
+  const warnings: ImportWarning[] = [];
+  const archive = raw.files.length > 1 || entries[0].file !== raw.files[0] ? manifest : undefined;
+  const derived = await deriveRecords(
+    entries,
+    archive,
+    source.id,
+    source.userId,
+    (raw.options ?? {}) as ImportOptions,
+    warnings,
+    report,
+    source.id,
+    source.skippedThrough
+  );
+  if ('errors' in derived) {
+    throw new Error(derived.errors.map(e => e.message).join('; '));
+  }
+
+  report('validating', 90, 'Comparing with stored records...');
+  const stored = await loadSourceRecords(source.id);
+  const records = adoptStoredIds(derived.records, stored);
+
+  report('complete', 100, 'Re-import ready for review');
+
+  return {
+    source: {
+      ...source,
+      importerProfileId: entries[0].profile.id,
+      recordCounts: countRecords(records, source.id),
+      highWaterMarks: source.highWaterMarks && derived.highWaterMarks,
+      reimportedAt: new Date().toISOString(),
+    },
+    records,
+    diff: diffSourceRecords(stored, {
+      ...records,
+      sleepSessions: ownSessions(records.sleepSessions, source.id),
+      workoutSessions: ownSessions(records.workoutSessions, source.id),
+    }),
+    warnings,
+  };
+}
+
+/**
+ * Replace the Source's stored records with the re-imported ones in a
+ * single transaction.
+ */
+export async function applyReimport(plan: ReimportPlan): Promise<void> {
+  await replaceSourceRecords(plan.source, plan.records);
+}
+
+async function loadSourceRecords(sourceId: string): Promise<Omit<SourceRecords, 'annotations'>> {
+  const [sleepSessions, workoutSessions, dailyMetrics, timeSeries] = await Promise.all([
+    getByIndex('sleepSessions', 'sourceId', sourceId),
+    getByIndex('workoutSessions', 'sourceId', sourceId),
+    getByIndex('dailyMetrics', 'sourceId', sourceId),
+    getByIndex('timeSeries', 'sourceId', sourceId),
+  ]);
+  return { sleepSessions, workoutSessions, dailyMetrics, timeSeries };
+}
+
+async function findProfile(id: string): Promise<ImporterProfile | null> {
+  return listBuiltInProfiles().find(p => p.id === id) ?? await get('importerProfiles', id) ?? null;
+}
+
 // ============================================================
 // CSV PARSER
 // ============================================================
@@ -933,6 +1887,18 @@ interface CsvRow {
   [key: string]: string;
 }
 
+/**
+ * Parse a JSON or CSV file into the records a mapping reads: the JSON
+ * value as-is, or one object per CSV row keyed by header.
+ */
+export function parseMappableData(file: ImportFile, fileType: 'json' | 'csv'): unknown {
+  const content = typeof file.content === 'string'
+    ? file.content
+    : new TextDecoder().decode(file.content);
+
+  return fileType === 'json' ? JSON.parse(content) : parseCsv(content);
+}
+
 function parseCsv(content: string): CsvRow[] {
   const lines = content.split('\n').filter(line => line.trim());
   if (lines.length < 2) return [];
@@ -983,8 +1949,12 @@ function parseCsvLine(line: string): string[] {
 interface TransformResult {
   sleepSessions: SleepSession[];
   workoutSessions: WorkoutSession[];
+  dailyMetrics?: DailyMetric[];
   timeSeries: TimeSeries[];
+  annotations?: Annotation[];
   warnings: ImportWarning[];
+  // Records the parser already dropped as covered by earlier imports
+  skippedRecords?: number;
 }
 
 async function transformData(
@@ -992,17 +1962,29 @@ async function transformData(
   profile: ImporterProfile,
   sourceId: string,
   userId: string,
+  options: ImportOptions,
+  night: NightOptions,
   onProgress?: (processed: number, total: number) => void
 ): Promise<TransformResult> {
   // Delegate to the appropriate transformer based on vendor
   switch (profile.vendor) {
     case 'eight_sleep':
-      return transformEightSleep(data, sourceId, userId, onProgress);
+      return transformEightSleep(data, sourceId, userId, onProgress, night);
     case 'orangetheory':
       return transformOrangetheory(data, sourceId, userId, onProgress);
+    case 'oura':
+      return transformOura(data, sourceId, userId, onProgress, night);
+    case 'whoop':
+      return transformWhoop(data, sourceId, userId, onProgress, night);
+    case 'garmin':
+      return transformGarmin(data, sourceId, userId, onProgress, night);
+    case 'fitbit':
+      return transformFitbit(data, sourceId, userId, onProgress, night);
+    case 'withings':
+      return transformWithings(data, sourceId, userId, onProgress, options.weighInPolicy);
     default:
       // Use generic mapping-based transform
-      return transformGeneric(data, profile, sourceId, userId, onProgress);
+      return transformGeneric(data, profile, sourceId, userId, onProgress, night);
   }
 }
 
@@ -1010,22 +1992,90 @@ async function transformData(
 // BUILT-IN PROFILES
 // ============================================================
 
-async function getBuiltInProfile(vendor: VendorType): Promise<ImporterProfile | null> {
-  // Return built-in profiles for known vendors
-  switch (vendor) {
-    case 'eight_sleep':
-      return EIGHT_SLEEP_PROFILE;
-    case 'orangetheory':
-      return ORANGETHEORY_PROFILE;
-    case 'apple_health':
-      return APPLE_HEALTH_PROFILE;
-    default:
-      return null;
-  }
+/**
+ * An explicitly chosen profile wins over the best-ranked detected one.
+ */
+function resolveProfile(
+  detection: FileDetectionResult,
+  profile: ImporterProfile | null
+): ImporterProfile | null {
+  return profile || detection.matchedProfile || null;
+}
+
+/**
+ * Profiles detection ranks: saved ones first, so a user's mapping wins
+ * a tie with a built-in importer.
+ */
+async function listDetectionProfiles(): Promise<ImporterProfile[]> {
+  return [...await listSavedProfiles(), ...listBuiltInProfiles()];
+}
+
+function listBuiltInProfiles(): ImporterProfile[] {
+  return [
+    APPLE_HEALTH_PROFILE,
+    EIGHT_SLEEP_PROFILE,
+    FITBIT_PROFILE,
+    GARMIN_PROFILE,
+    OURA_PROFILE,
+    ORANGETHEORY_PROFILE,
+    WHOOP_PROFILE,
+    WITHINGS_PROFILE,
+    WORKOUT_FILE_PROFILE,
+  ];
 }
 
 // Profiles are defined in separate importer files
 import { EIGHT_SLEEP_PROFILE, transformEightSleep } from './eightSleep';
 import { ORANGETHEORY_PROFILE, transformOrangetheory } from './orangetheory';
+import { OURA_PROFILE, transformOura } from './oura';
+import { WHOOP_PROFILE, transformWhoop } from './whoop';
+import { GARMIN_PROFILE, transformGarmin } from './garmin';
+import { FITBIT_PROFILE, transformFitbit } from './fitbit';
+import { WORKOUT_FILE_PROFILE, transformWorkoutFile } from './workoutFiles';
+import { WITHINGS_PROFILE, transformWithings, type WeighInPolicy } from './withings';
 import { transformGeneric } from './generic';
-import { APPLE_HEALTH_PROFILE, parseAppleHealthXML } from './appleHealth';
+import { listSavedProfiles } from './savedProfiles';
+import { adoptStoredIds, diffSourceRecords, type SourceRecordsDiff } from './sourceDiff';
+import {
+  sessionFieldChanges,
+  type ImportChangeSet,
+  type SleepSessionChanges,
+  type WorkoutSessionChanges,
+} from './changeSet';
+import {
+  mergeSleepSessions,
+  mergeWorkoutSessions,
+  stampProvenance,
+  withContributions,
+  withoutSource,
+} from './provenance';
+import {
+  combineHighWaterMarks,
+  countNewNights,
+  recordHighWaterMarks,
+  skipImportedRecords,
+  supportsHighWaterMarks,
+} from './highWaterMarks';
+import {
+  rankProfiles,
+  detectionConfidence,
+  xmlRootElement,
+  type DetectionCandidate,
+} from './detection';
+import {
+  APPLE_HEALTH_PROFILE,
+  parseAppleHealthXML,
+  streamAppleHealthExport,
+  isAppleHealthExport,
+  describeIgnoredTypes,
+  type AppleHealthStreamResult,
+} from './appleHealth';
+import {
+  routeArchiveEntries,
+  readArchiveEntry,
+  primaryArchiveVendor,
+  type ArchiveManifest,
+} from './archive';
+import { isZipArchive, listZipEntries, type ZipEntry } from '../utils/zip';
+import { isFitFile } from '../utils/fit';
+import { supportsWorkers } from '../workers';
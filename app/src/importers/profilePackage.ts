@@ -0,0 +1,510 @@
+/**
+ * Importer Profile Packages
+ * ==========================
+ * Moves saved importer profiles between machines as self-describing JSON:
+ *
+ *   { "format": "vaulthealth-importer-profile", "formatVersion": 1,
+ *     "exportedAt": "...", "profile": { ...ImporterProfile } }
+ *
+ * Before anything is stored, a package is schema-checked down to every
+ * FieldMapping and FieldTransform, and its profile is run against the
+ * sample rows it bundles. A package carrying a newer version of an
+ * installed profile (same id) replaces it only once the user confirms.
+ */
+
+import type {
+  FieldMapping,
+  FieldTransform,
+  FilePattern,
+  ImporterProfile,
+  ProfileSample,
+  TableMapping,
+} from '../types/schema';
+import { get } from '../db/database';
+import { GENERIC_TARGET_FIELDS, isGenericTargetTable, transformGeneric, type GenericTargetTable } from './generic';
+import { rankProfiles, type DetectionInput } from './detection';
+import { saveProfile } from './savedProfiles';
+import { parseJsonPath } from '../utils/jsonPath';
+import { parseExpression } from '../utils/expression';
+import { compareVersions, isValidVersion } from '../utils/semver';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export const PROFILE_PACKAGE_FORMAT = 'vaulthealth-importer-profile';
+export const PROFILE_PACKAGE_VERSION = 1;
+
+export interface ProfilePackage {
+  format: typeof PROFILE_PACKAGE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  profile: ImporterProfile;
+}
+
+export interface SampleConformance {
+  fileName: string;
+  // Whether the profile's own file patterns recognize the sample
+  recognized: boolean;
+  produced: Record<GenericTargetTable, number>;
+  // Failed rows, invalid expressions and record counts off from `expected`
+  problems: string[];
+  passed: boolean;
+}
+
+/**
+ * What installing a package would do to the saved profiles:
+ * - install: no profile with its id is saved yet
+ * - upgrade: replaces an older version, after the user confirms
+ * - unchanged: the same version is already saved
+ * - outdated: a newer version is already saved; nothing is replaced
+ */
+export interface ProfileInstallPlan {
+  action: 'install' | 'upgrade' | 'unchanged' | 'outdated';
+  installed?: ImporterProfile;
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Package a saved profile, recording what it produces from its samples
+ * so a conformance run elsewhere can tell if the result changed.
+ */
+export async function createProfilePackage(profile: ImporterProfile): Promise<ProfilePackage> {
+  if (profile.isBuiltIn) {
+    throw new Error('Built-in profiles ship with the app and cannot be exported');
+  }
+
+  const samples: ProfileSample[] = [];
+  for (const sample of profile.samples || []) {
+    const { produced } = await runSample(profile, sample);
+    samples.push({ ...sample, expected: produced });
+  }
+
+  return {
+    format: PROFILE_PACKAGE_FORMAT,
+    formatVersion: PROFILE_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: { ...profile, samples: samples.length > 0 ? samples : undefined },
+  };
+}
+
+export function profilePackageFileName(profile: ImporterProfile): string {
+  const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+  return `${slug}-${profile.version}.vhprofile.json`;
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+// Schema errors listed in a rejection before the rest are summarized
+const MAX_REPORTED_ERRORS = 8;
+
+/**
+ * Parse and schema-check a package. Throws listing what is wrong.
+ */
+export function parseProfilePackage(text: string): ProfilePackage {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Profile package is not valid JSON');
+  }
+
+  const errors = validateProfilePackage(value);
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS
+      ? `; and ${errors.length - MAX_REPORTED_ERRORS} more`
+      : '';
+    throw new Error(`Invalid profile package: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${more}`);
+  }
+
+  return value as ProfilePackage;
+}
+
+/**
+ * Run a profile against each bundled sample.
+ */
+export async function checkConformance(profile: ImporterProfile): Promise<SampleConformance[]> {
+  const results: SampleConformance[] = [];
+
+  for (const sample of profile.samples || []) {
+    const input: DetectionInput = profile.vendor === 'generic_json'
+      ? { fileType: 'json', fileName: sample.fileName, data: sample.data }
+      : { fileType: 'csv', fileName: sample.fileName, headers: csvHeaders(sample.data) };
+    const recognized = rankProfiles(input, [profile]).length > 0;
+
+    const { produced, problems } = await runSample(profile, sample);
+    for (const [table, count] of Object.entries(sample.expected || {})) {
+      const actual = produced[table as GenericTargetTable] ?? 0;
+      if (actual !== count) {
+        problems.push(`Expected ${count} ${table.replace('_', ' ')}, produced ${actual}`);
+      }
+    }
+    if (!recognized) {
+      problems.unshift('File patterns do not recognize the sample');
+    }
+
+    results.push({ fileName: sample.fileName, recognized, produced, problems, passed: problems.length === 0 });
+  }
+
+  return results;
+}
+
+export async function planProfileInstall(pkg: ProfilePackage): Promise<ProfileInstallPlan> {
+  const installed = await get('importerProfiles', pkg.profile.id);
+  if (!installed) return { action: 'install' };
+
+  if (installed.isBuiltIn) {
+    throw new Error(`Package reuses the id of built-in profile ${installed.name}`);
+  }
+
+  const order = compareVersions(pkg.profile.version, installed.version);
+  if (order > 0) return { action: 'upgrade', installed };
+  return { action: order === 0 ? 'unchanged' : 'outdated', installed };
+}
+
+export async function installProfilePackage(pkg: ProfilePackage): Promise<ImporterProfile> {
+  const profile: ImporterProfile = { ...pkg.profile, isBuiltIn: false };
+  await saveProfile(profile);
+  return profile;
+}
+
+async function runSample(
+  profile: ImporterProfile,
+  sample: ProfileSample
+): Promise<{ produced: Record<GenericTargetTable, number>; problems: string[] }> {
+  const result = await transformGeneric(sample.data, profile, 'conformance', 'conformance');
+
+  return {
+    produced: {
+      sleep_sessions: result.sleepSessions.length,
+      workout_sessions: result.workoutSessions.length,
+      daily_metrics: result.dailyMetrics?.length ?? 0,
+    },
+    problems: result.warnings.filter(w => w.type === 'parse_error').map(w => w.message),
+  };
+}
+
+function csvHeaders(rows: unknown): string[] {
+  const first = Array.isArray(rows) ? rows[0] : undefined;
+  return isRecord(first) ? Object.keys(first) : [];
+}
+
+// ============================================================
+// SCHEMA CHECK
+// ============================================================
+
+/**
+ * Every problem with a package, each prefixed with where it was found
+ * (`profile.mappings[0].fieldMappings[2].transform.factor`).
+ */
+export function validateProfilePackage(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return ['Package must be a JSON object'];
+  }
+  if (value.format !== PROFILE_PACKAGE_FORMAT) {
+    return [`format: expected "${PROFILE_PACKAGE_FORMAT}"`];
+  }
+  if (value.formatVersion !== PROFILE_PACKAGE_VERSION) {
+    return [`formatVersion: version ${String(value.formatVersion)} is not supported`];
+  }
+  if (typeof value.exportedAt !== 'string') {
+    errors.push('exportedAt: must be a string');
+  }
+
+  validateProfile(value.profile, 'profile', errors);
+  return errors;
+}
+
+function validateProfile(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  requireString(value, 'id', at, errors);
+  requireString(value, 'name', at, errors);
+  optionalType(value, 'description', 'string', at, errors);
+  optionalType(value, 'createdAt', 'string', at, errors);
+
+  if (typeof value.version !== 'string' || !isValidVersion(value.version)) {
+    errors.push(`${at}.version: must be a semantic version such as 1.2.0`);
+  }
+  // Vendor importers are code; only mapping-driven profiles travel as data
+  if (value.vendor !== 'generic_json' && value.vendor !== 'generic_csv') {
+    errors.push(`${at}.vendor: must be generic_json or generic_csv`);
+  }
+  if (value.isBuiltIn !== undefined && value.isBuiltIn !== false) {
+    errors.push(`${at}.isBuiltIn: packages cannot carry built-in profiles`);
+  }
+
+  if (requireNonEmptyArray(value, 'filePatterns', at, errors)) {
+    (value.filePatterns as unknown[]).forEach((p, i) => validateFilePattern(p, `${at}.filePatterns[${i}]`, errors));
+  }
+  if (requireNonEmptyArray(value, 'mappings', at, errors)) {
+    (value.mappings as unknown[]).forEach((m, i) => validateTableMapping(m, `${at}.mappings[${i}]`, errors));
+  }
+  if (value.samples !== undefined) {
+    if (!Array.isArray(value.samples)) {
+      errors.push(`${at}.samples: must be an array`);
+    } else {
+      value.samples.forEach((s, i) => validateSample(s, `${at}.samples[${i}]`, errors));
+    }
+  }
+}
+
+function validateFilePattern(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  if (value.fileType !== 'json' && value.fileType !== 'csv') {
+    errors.push(`${at}.fileType: must be json or csv`);
+  }
+
+  const pattern = value as Partial<FilePattern>;
+  if (!pattern.jsonSignature && !pattern.csvRequiredHeaders?.length && !pattern.fileNamePattern) {
+    errors.push(`${at}: needs a jsonSignature, csvRequiredHeaders or fileNamePattern`);
+  }
+
+  if (value.jsonSignature !== undefined) {
+    validateJsonPath(value.jsonSignature, `${at}.jsonSignature`, errors);
+  }
+  if (value.csvRequiredHeaders !== undefined && !isStringArray(value.csvRequiredHeaders)) {
+    errors.push(`${at}.csvRequiredHeaders: must be an array of strings`);
+  }
+  if (value.fileNamePattern !== undefined) {
+    validateRegex(value.fileNamePattern, `${at}.fileNamePattern`, errors, true);
+  }
+}
+
+function validateTableMapping(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  const table = value.targetTable as TableMapping['targetTable'];
+  const tableSupported = typeof table === 'string' && isGenericTargetTable(table);
+  if (!tableSupported) {
+    errors.push(`${at}.targetTable: must be one of ${Object.keys(GENERIC_TARGET_FIELDS).join(', ')}`);
+  }
+
+  if (value.sourceType !== 'json' && value.sourceType !== 'csv') {
+    errors.push(`${at}.sourceType: must be json or csv`);
+  }
+  if (value.sourcePath !== undefined) {
+    validateJsonPath(value.sourcePath, `${at}.sourcePath`, errors);
+  }
+  if (value.filter !== undefined) {
+    validateExpression(value.filter, `${at}.filter`, errors);
+  }
+
+  if (!requireNonEmptyArray(value, 'fieldMappings', at, errors)) return;
+
+  const targets = tableSupported
+    ? new Set(GENERIC_TARGET_FIELDS[table as GenericTargetTable].map(f => f.field))
+    : null;
+  (value.fieldMappings as unknown[]).forEach((f, i) =>
+    validateFieldMapping(f, targets, `${at}.fieldMappings[${i}]`, errors)
+  );
+}
+
+function validateFieldMapping(
+  value: unknown,
+  targets: Set<string> | null,
+  at: string,
+  errors: string[]
+): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  const field = value as Partial<FieldMapping>;
+  if (typeof field.target !== 'string') {
+    errors.push(`${at}.target: must be a string`);
+  } else if (targets && !targets.has(field.target)) {
+    errors.push(`${at}.target: "${field.target}" is not a field of this table`);
+  }
+
+  if (typeof field.source !== 'string' || field.source === '') {
+    errors.push(`${at}.source: must be a non-empty string`);
+  } else if (field.source.startsWith('$')) {
+    validateJsonPath(field.source, `${at}.source`, errors);
+  }
+
+  optionalType(value, 'required', 'boolean', at, errors);
+
+  if (value.transform !== undefined) {
+    validateTransform(value.transform, `${at}.transform`, errors);
+  }
+}
+
+function validateTransform(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  const transform = value as FieldTransform;
+  switch (transform.type) {
+    case 'direct':
+      break;
+    case 'timestamp':
+      if (typeof transform.format !== 'string') errors.push(`${at}.format: must be a string`);
+      break;
+    case 'duration':
+      if (!['seconds', 'minutes', 'hours'].includes(transform.fromUnit)) {
+        errors.push(`${at}.fromUnit: must be seconds, minutes or hours`);
+      }
+      if (transform.toUnit !== 'seconds') errors.push(`${at}.toUnit: must be seconds`);
+      break;
+    case 'multiply':
+      if (!isFiniteNumber(transform.factor)) errors.push(`${at}.factor: must be a finite number`);
+      break;
+    case 'divide':
+      if (!isFiniteNumber(transform.divisor) || transform.divisor === 0) {
+        errors.push(`${at}.divisor: must be a non-zero finite number`);
+      }
+      break;
+    case 'map':
+      if (!isRecord(transform.mapping)) errors.push(`${at}.mapping: must be an object`);
+      break;
+    case 'regex':
+      validateRegex(transform.pattern, `${at}.pattern`, errors);
+      if (!Number.isInteger(transform.group) || transform.group < 0) {
+        errors.push(`${at}.group: must be a non-negative integer`);
+      }
+      break;
+    case 'jsonpath':
+      if (typeof transform.path !== 'string') {
+        errors.push(`${at}.path: must be a string`);
+      } else if (transform.path.startsWith('$')) {
+        validateJsonPath(transform.path, `${at}.path`, errors);
+      }
+      break;
+    case 'compute':
+      validateExpression(transform.formula, `${at}.formula`, errors);
+      break;
+    case 'coalesce':
+      if (!isStringArray(transform.sources) || transform.sources.length === 0) {
+        errors.push(`${at}.sources: must be a non-empty array of strings`);
+      }
+      break;
+    default:
+      errors.push(`${at}.type: unknown transform "${String((value as { type?: unknown }).type)}"`);
+  }
+}
+
+function validateSample(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  requireString(value, 'fileName', at, errors);
+  if (value.data === undefined) {
+    errors.push(`${at}.data: is required`);
+  }
+
+  if (value.expected === undefined) return;
+  if (!isRecord(value.expected)) {
+    errors.push(`${at}.expected: must be an object`);
+    return;
+  }
+  for (const [table, count] of Object.entries(value.expected)) {
+    if (!isGenericTargetTable(table as TableMapping['targetTable'])) {
+      errors.push(`${at}.expected.${table}: not a target table`);
+    } else if (!Number.isInteger(count) || (count as number) < 0) {
+      errors.push(`${at}.expected.${table}: must be a non-negative integer`);
+    }
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function requireString(value: Record<string, unknown>, key: string, at: string, errors: string[]): void {
+  if (typeof value[key] !== 'string' || value[key] === '') {
+    errors.push(`${at}.${key}: must be a non-empty string`);
+  }
+}
+
+function optionalType(
+  value: Record<string, unknown>,
+  key: string,
+  type: 'string' | 'boolean',
+  at: string,
+  errors: string[]
+): void {
+  if (value[key] !== undefined && typeof value[key] !== type) {
+    errors.push(`${at}.${key}: must be a ${type}`);
+  }
+}
+
+function requireNonEmptyArray(value: Record<string, unknown>, key: string, at: string, errors: string[]): boolean {
+  const array = value[key];
+  if (!Array.isArray(array) || array.length === 0) {
+    errors.push(`${at}.${key}: must be a non-empty array`);
+    return false;
+  }
+  return true;
+}
+
+function validateJsonPath(value: unknown, at: string, errors: string[]): void {
+  if (typeof value !== 'string') {
+    errors.push(`${at}: must be a string`);
+    return;
+  }
+  try {
+    parseJsonPath(value);
+  } catch (e) {
+    errors.push(`${at}: ${e instanceof Error ? e.message : 'invalid JSONPath'}`);
+  }
+}
+
+function validateExpression(value: unknown, at: string, errors: string[]): void {
+  if (typeof value !== 'string') {
+    errors.push(`${at}: must be a string`);
+    return;
+  }
+  try {
+    parseExpression(value);
+  } catch (e) {
+    errors.push(`${at}: ${e instanceof Error ? e.message : 'invalid expression'}`);
+  }
+}
+
+// File name patterns may start with the `(?i)` matchesFileNamePattern accepts
+function validateRegex(value: unknown, at: string, errors: string[], allowCaseFlag = false): void {
+  if (typeof value !== 'string') {
+    errors.push(`${at}: must be a string`);
+    return;
+  }
+  try {
+    new RegExp(allowCaseFlag && value.startsWith('(?i)') ? value.slice(4) : value);
+  } catch (e) {
+    errors.push(`${at}: ${e instanceof Error ? e.message : 'invalid regular expression'}`);
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Field Provenance
+ * =================
+ * Tracks which vendor and import each metric of a sleep session came
+ * from, and merges two sessions of the same night field by field. The
+ * user can rank vendors per metric group (Eight Sleep for bed
+ * temperature, Oura for HRV, ...); without a ranking the more complete
+ * session wins and the other one fills its gaps. Workouts recorded by
+ * two sources merge the same way, by fixed vendor preferences.
+ *
+ * A merged session keeps each source's own recording, so it can be
+ * rebuilt from the others when one of the sources is deleted.
+ */
+
+import type {
+  FieldOrigin,
+  SleepMetricField,
+  SleepMetricGroup,
+  SleepSession,
+  UserSettings,
+  VendorType,
+  WorkoutSession,
+} from '../types/schema';
+
+// ============================================================
+// METRIC GROUPS
+// ============================================================
+
+export const SLEEP_METRIC_GROUPS: Record<SleepMetricGroup, { label: string; fields: SleepMetricField[] }> = {
+  sleep_stages: {
+    label: 'Sleep stages',
+    fields: [
+      'durationSeconds',
+      'timeInBedSeconds',
+      'deepSeconds',
+      'remSeconds',
+      'lightSeconds',
+      'awakeSeconds',
+      'sleepOnsetLatency',
+      'wakeAfterSleepOnset',
+      'efficiency',
+    ],
+  },
+  heart_rate: { label: 'Heart rate', fields: ['avgHeartRate', 'minHeartRate', 'maxHeartRate'] },
+  hrv: { label: 'HRV', fields: ['avgHrv'] },
+  respiratory_rate: { label: 'Respiratory rate', fields: ['avgRespiratoryRate'] },
+  bed_temperature: { label: 'Bed temperature', fields: ['avgBedTempC'] },
+  room_temperature: { label: 'Room temperature', fields: ['avgRoomTempC'] },
+};
+
+const SLEEP_METRIC_FIELDS = Object.values(SLEEP_METRIC_GROUPS).flatMap(g => g.fields);
+
+export const VENDOR_NAMES: Record<VendorType, string> = {
+  eight_sleep: 'Eight Sleep',
+  oura: 'Oura',
+  orangetheory: 'Orangetheory',
+  whoop: 'WHOOP',
+  apple_health: 'Apple Health',
+  garmin: 'Garmin',
+  fitbit: 'Fitbit',
+  withings: 'Withings',
+  workout_file: 'FIT/TCX/GPX file',
+  generic_csv: 'CSV',
+  generic_json: 'JSON',
+  unknown: 'Unknown',
+};
+
+// ============================================================
+// PROVENANCE
+// ============================================================
+
+/**
+ * Attribute every metric the session has a value for, and no origin yet,
+ * to the given vendor and the session's source.
+ */
+export function stampProvenance(session: SleepSession, vendor: VendorType): SleepSession {
+  const provenance = { ...session.provenance };
+  const origin: FieldOrigin = { vendor, sourceId: session.sourceId };
+
+  for (const field of SLEEP_METRIC_FIELDS) {
+    if (!provenance[field] && hasValue(field, session[field])) {
+      provenance[field] = origin;
+    }
+  }
+
+  return { ...session, provenance };
+}
+
+/**
+ * Origins of a session's metrics by group, for display. A group whose
+ * fields came from several vendors lists each once.
+ */
+export function groupOrigins(session: SleepSession): Array<{ group: SleepMetricGroup; label: string; origins: FieldOrigin[] }> {
+  const result: Array<{ group: SleepMetricGroup; label: string; origins: FieldOrigin[] }> = [];
+
+  for (const [group, { label, fields }] of Object.entries(SLEEP_METRIC_GROUPS) as Array<[SleepMetricGroup, typeof SLEEP_METRIC_GROUPS[SleepMetricGroup]]>) {
+    const origins: FieldOrigin[] = [];
+    for (const field of fields) {
+      const origin = session.provenance?.[field];
+      if (origin && hasValue(field, session[field]) && !origins.some(o => o.sourceId === origin.sourceId && o.vendor === origin.vendor)) {
+        origins.push(origin);
+      }
+    }
+    if (origins.length > 0) result.push({ group, label, origins });
+  }
+
+  return result;
+}
+
+// ============================================================
+// MERGING
+// ============================================================
+
+/**
+ * Metric values and their origins for a night both sessions describe.
+ * Per group, the side whose vendor ranks higher in `priority` is
+ * preferred; otherwise `base`. A group is taken whole from one side, so
+ * related metrics stay consistent; only when the preferred side has none
+ * of its fields does the other side supply them.
+ */
+export function mergeSleepMetrics(
+  base: SleepSession,
+  supplement: SleepSession,
+  priority: UserSettings['vendorPriority'] = {}
+): Pick<SleepSession, SleepMetricField | 'provenance'> {
+  const merged: Partial<Record<SleepMetricField, number>> = {};
+  const provenance: Partial<Record<SleepMetricField, FieldOrigin>> = {};
+
+  for (const [group, { fields }] of Object.entries(SLEEP_METRIC_GROUPS) as Array<[SleepMetricGroup, typeof SLEEP_METRIC_GROUPS[SleepMetricGroup]]>) {
+    const ranking = priority[group] ?? [];
+    const order = rank(supplement, fields, ranking) < rank(base, fields, ranking)
+      ? [supplement, base]
+      : [base, supplement];
+
+    const chosen = order.find(side => fields.some(field => hasValue(field, side[field]))) ?? base;
+    for (const field of fields) {
+      merged[field] = chosen[field];
+      const origin = chosen.provenance?.[field];
+      if (origin) provenance[field] = origin;
+    }
+  }
+
+  return {
+    ...(merged as Pick<SleepSession, SleepMetricField>),
+    provenance,
+  };
+}
+
+/**
+ * Calculate a "completeness score" for a session based on how many fields have data
+ */
+function getSessionCompleteness(session: SleepSession): number {
+  let score = 0;
+  if (session.durationSeconds > 0) score += 10;
+  if (session.deepSeconds > 0) score += 5;
+  if (session.remSeconds > 0) score += 5;
+  if (session.lightSeconds > 0) score += 5;
+  if (session.awakeSeconds > 0) score += 2;
+  if (session.minHeartRate && session.minHeartRate > 0) score += 5;
+  if (session.avgHrv && session.avgHrv > 0) score += 5;
+  if (session.efficiency && session.efficiency > 0 && session.efficiency <= 100) score += 3;
+  if (session.avgRespiratoryRate && session.avgRespiratoryRate > 0) score += 3;
+  if (session.avgBedTempC !== undefined) score += 2;
+  return score;
+}
+
+/**
+ * Merge two sessions of the same night. Timing comes from the more
+ * complete one; metrics follow the vendor priority, then completeness,
+ * and keep their origins. The incoming session's source owns the result.
+ */
+export function mergeSleepSessions(
+  existing: SleepSession,
+  incoming: SleepSession,
+  priority?: UserSettings['vendorPriority']
+): SleepSession {
+  const existingScore = getSessionCompleteness(existing);
+  const incomingScore = getSessionCompleteness(incoming);
+
+  // Use the more complete session as the base
+  const base = existingScore >= incomingScore ? existing : incoming;
+  const supplement = existingScore >= incomingScore ? incoming : existing;
+
+  const merged: SleepSession = {
+    ...base,
+    sourceId: incoming.sourceId,
+    sleepType: base.sleepType ?? supplement.sleepType,
+    ...mergeSleepMetrics(base, supplement, priority),
+    // Combine vendor data sources
+    vendorData: {
+      ...supplement.vendorData,
+      ...base.vendorData,
+      mergedSources: [
+        base.vendorData?.source,
+        supplement.vendorData?.source,
+      ].filter(Boolean),
+    },
+  };
+  delete merged.contributions;
+
+  return merged;
+}
+
+// Position of the session's vendor for a group in the ranking; unranked last
+function rank(session: SleepSession, fields: SleepMetricField[], ranking: VendorType[]): number {
+  for (const field of fields) {
+    const vendor = session.provenance?.[field]?.vendor;
+    if (vendor && hasValue(field, session[field])) {
+      const position = ranking.indexOf(vendor);
+      return position === -1 ? Infinity : position;
+    }
+  }
+  return Infinity;
+}
+
+// ============================================================
+// WORKOUTS
+// ============================================================
+
+// Which vendor a workout field is taken from when both recordings have it
+const WORKOUT_FIELD_VENDORS: Array<{ fields: Array<keyof WorkoutSession>; vendors: VendorType[] }> = [
+  // Class summaries know their own scoring
+  {
+    fields: ['splatPoints', 'zone1Minutes', 'zone2Minutes', 'zone3Minutes', 'zone4Minutes', 'zone5Minutes'],
+    vendors: ['orangetheory'],
+  },
+  // Worn sensors measure heart rate and distance directly
+  {
+    fields: ['avgHeartRate', 'maxHeartRate', 'avgHeartRatePercent', 'distance', 'distanceUnit', 'pace', 'elevationGain'],
+    vendors: ['apple_health', 'garmin', 'workout_file', 'fitbit', 'whoop'],
+  },
+];
+
+function getWorkoutCompleteness(workout: WorkoutSession): number {
+  return Object.values(workout).filter(value => value !== undefined && value !== null && value !== 0).length;
+}
+
+/**
+ * Merge two recordings of one workout. The more complete one is the
+ * base and the other fills its gaps; class scoring comes from the class
+ * vendor and heart rate and distance from worn sensors. The incoming
+ * workout's source owns the result.
+ */
+export function mergeWorkoutSessions(
+  existing: WorkoutSession,
+  incoming: WorkoutSession,
+  vendorOf: (workout: WorkoutSession) => VendorType
+): WorkoutSession {
+  const existingFirst = getWorkoutCompleteness(existing) >= getWorkoutCompleteness(incoming);
+  const base = existingFirst ? existing : incoming;
+  const supplement = existingFirst ? incoming : existing;
+
+  const merged: WorkoutSession = { ...base, sourceId: incoming.sourceId };
+  const record = merged as unknown as Record<string, unknown>;
+  for (const [field, value] of Object.entries(supplement)) {
+    if (record[field] === undefined || record[field] === null) record[field] = value;
+  }
+
+  for (const { fields, vendors } of WORKOUT_FIELD_VENDORS) {
+    const rank = (w: WorkoutSession) => {
+      const position = vendors.indexOf(vendorOf(w));
+      return position === -1 || !fields.some(f => w[f] !== undefined) ? Infinity : position;
+    };
+    const preferred = rank(supplement) < rank(base) ? supplement : base;
+    for (const field of fields) {
+      if (preferred[field] !== undefined) record[field] = preferred[field];
+    }
+  }
+
+  if (merged.workoutType === 'other') merged.workoutType = supplement.workoutType;
+
+  merged.vendorData = {
+    ...supplement.vendorData,
+    ...base.vendorData,
+    mergedSources: [base.vendorData?.source, supplement.vendorData?.source].filter(Boolean),
+  };
+  delete merged.contributions;
+
+  return merged;
+}
+
+// ============================================================
+// CONTRIBUTIONS
+// ============================================================
+
+interface Contributed<T> {
+  id: string;
+  sourceId: string;
+  contributions?: T[];
+}
+
+/**
+ * A stored session updated by an incoming recording of the same period,
+ * with the recordings of every source that went into it.
+ */
+export function withContributions<T extends Contributed<T>>(updated: T, existing: T, incoming: T): T {
+  return { ...updated, contributions: [...contributionsOf(existing), ...contributionsOf(incoming)] };
+}
+
+/**
+ * A session as it would be had the source never been imported: rebuilt
+ * with `merge` from the other sources' recordings, undefined if none is
+ * left, and the session itself if the source had no part in it. The
+ * rebuilt session keeps the stored id, which its time series point at.
+ */
+export function withoutSource<T extends Contributed<T>>(
+  session: T,
+  sourceId: string,
+  merge: (existing: T, incoming: T) => T
+): T | undefined {
+  const contributions = contributionsOf(session);
+  const remaining = contributions.filter(contribution => contribution.sourceId !== sourceId);
+  if (remaining.length === contributions.length) return session;
+  if (remaining.length === 0) return undefined;
+  if (remaining.length === 1) return { ...remaining[0], id: session.id };
+
+  const rebuilt = remaining.reduce((existing, incoming) => merge(existing, incoming));
+  return { ...rebuilt, id: session.id, contributions: remaining };
+}
+
+function contributionsOf<T extends Contributed<T>>(session: T): T[] {
+  if (session.contributions) return session.contributions;
+  const { contributions: _none, ...own } = session;
+  return [own as T];
+}
+
+/**
+ * Whether a field holds a usable value. Zero stands for "not measured"
+ * except for temperatures; efficiency above 100% is not usable.
+ */
+function hasValue(field: SleepMetricField, value: number | undefined): boolean {
+  if (value === undefined || value === null || Number.isNaN(value)) return false;
+  if (field === 'avgBedTempC' || field === 'avgRoomTempC') return true;
+  if (field === 'efficiency') return value > 0 && value <= 100;
+  return value !== 0;
+}
@@ -0,0 +1,150 @@
+/**
+ * Saved Importer Profiles
+ * ========================
+ * Profiles built with the column-mapping wizard for files no built-in
+ * importer recognizes. They live in the importerProfiles store and are
+ * ranked by detection alongside the built-in profiles, so later files
+ * matching their patterns are imported without mapping again.
+ */
+
+import type { FilePattern, ImporterProfile, ProfileSample, TableMapping, VendorType } from '../types/schema';
+import type { FileDetectionResult } from './pipeline';
+import { put, getAll, remove } from '../db/database';
+import { generateId } from '../utils/crypto';
+import { nextVersion } from '../utils/semver';
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+/**
+ * User-defined profiles, newest first so a re-saved mapping wins.
+ */
+export async function listSavedProfiles(): Promise<ImporterProfile[]> {
+  const profiles = await getAll('importerProfiles');
+  return profiles
+    .filter(p => !p.isBuiltIn)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveProfile(profile: ImporterProfile): Promise<void> {
+  if (profile.isBuiltIn) {
+    throw new Error('Built-in profiles cannot be saved');
+  }
+  await put('importerProfiles', profile);
+}
+
+export async function deleteSavedProfile(id: string): Promise<void> {
+  await remove('importerProfiles', id);
+}
+
+/**
+ * Save a wizard profile. One named like an existing saved profile
+ * replaces it as its next minor version, so copies shared from the old
+ * one are offered the upgrade.
+ */
+export async function saveProfileRevision(profile: ImporterProfile): Promise<ImporterProfile> {
+  const name = profile.name.trim().toLowerCase();
+  const existing = (await listSavedProfiles()).find(p =>
+    p.name.trim().toLowerCase() === name && p.vendor === profile.vendor
+  );
+
+  const revision = existing
+    ? { ...profile, id: existing.id, version: nextVersion(existing.version, 'minor') }
+    : profile;
+  await saveProfile(revision);
+  return revision;
+}
+
+/**
+ * Build a profile from wizard mappings. Its file pattern requires the
+ * source fields the mappings read, so files from the same export match
+ * even if they carry extra columns.
+ */
+export function createSavedProfile(
+  name: string,
+  detection: FileDetectionResult,
+  mappings: TableMapping[],
+  sample?: ProfileSample
+): ImporterProfile {
+  const fileType = detection.fileType === 'json' ? 'json' : 'csv';
+
+  return {
+    id: generateId(),
+    vendor: savedProfileVendor(detection),
+    name,
+    version: '1.0.0',
+    description: `Column mapping for ${mappings.map(m => m.targetTable.replace('_', ' ')).join(', ')}`,
+    filePatterns: [createFilePattern(fileType, mappings)],
+    mappings,
+    samples: sample ? [sample] : undefined,
+    createdAt: new Date().toISOString(),
+    isBuiltIn: false,
+  };
+}
+
+// Rows kept per sample; JSON arrays at any depth are cut to this length
+const SAMPLE_ROWS = 5;
+
+/**
+ * The first rows of a file's parsed data, kept with its profile so a
+ * shared copy can be checked against them.
+ */
+export function createProfileSample(fileName: string, data: unknown): ProfileSample {
+  return { fileName, data: truncateArrays(data) };
+}
+
+function truncateArrays(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.slice(0, SAMPLE_ROWS).map(truncateArrays);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, truncateArrays(v)]));
+  }
+  return value;
+}
+
+function savedProfileVendor(detection: FileDetectionResult): VendorType {
+  return detection.fileType === 'json' ? 'generic_json' : 'generic_csv';
+}
+
+function createFilePattern(fileType: 'json' | 'csv', mappings: TableMapping[]): FilePattern {
+  const fields = [...new Set(
+    mappings.flatMap(m => m.fieldMappings.map(f => f.source)).filter(isPlainField)
+  )];
+
+  if (fileType === 'csv') {
+    return { fileType, csvRequiredHeaders: fields };
+  }
+
+  // Records sit at the first mapping's path; any of them carrying a mapped field will do
+  const recordsPath = mappings[0]?.sourcePath || '$';
+  // A path naming an array ($, $.sessions) selects its elements
+  const records = recordsPath.endsWith(']') ? recordsPath : `${recordsPath}[*]`;
+  return {
+    fileType,
+    jsonSignature: fields.length > 0 ? `${records}${memberSelector(fields[0])}` : recordsPath,
+  };
+}
+
+function memberSelector(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
+
+// Quoted sources are constants, dotted ones nested paths
+function isPlainField(source: string): boolean {
+  return !source.startsWith("'") && !source.includes('.') && !source.includes('[');
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+/**
+ * JSON and CSV files no built-in or saved profile recognized, which can
+ * be imported once their columns are mapped.
+ */
+export function needsColumnMapping(detection: FileDetectionResult): boolean {
+  return (detection.fileType === 'json' || detection.fileType === 'csv') &&
+    !detection.matchedProfile;
+}
@@ -0,0 +1,140 @@
+/**
+ * Source Record Diff
+ * ===================
+ * Compares the records a Source holds in the vault with the records a
+ * re-import derived from its retained files. Records are matched by
+ * natural key (a sleep session by night, a workout by start and type,
+ * a daily metric by date and type, a series by type and start), since
+ * a re-import mints fresh ids for everything it produces.
+ */
+
+import type { SourceRecords } from './pipeline';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type DiffedRecords = Omit<SourceRecords, 'annotations'>;
+
+export interface RecordChanges {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export type SourceRecordsDiff = Record<keyof DiffedRecords, RecordChanges>;
+
+interface KeyedRecord {
+  id: string;
+  sourceId: string;
+}
+
+const NATURAL_KEYS: { [K in keyof DiffedRecords]: (record: DiffedRecords[K][number]) => string } = {
+  sleepSessions: s => s.date,
+  workoutSessions: w => `${w.startedAt}|${w.workoutType}`,
+  dailyMetrics: m => `${m.date}|${m.metricType}`,
+  timeSeries: t => `${t.metricType}|${t.startedAt}`,
+};
+
+const STORES = Object.keys(NATURAL_KEYS) as Array<keyof DiffedRecords>;
+
+// ============================================================
+// DIFF
+// ============================================================
+
+/**
+ * Count, per record store, what replacing `stored` with `next` would
+ * add, remove and change.
+ */
+export function diffSourceRecords(stored: DiffedRecords, next: DiffedRecords): SourceRecordsDiff {
+  const diff = {} as SourceRecordsDiff;
+
+  for (const store of STORES) {
+    const key = NATURAL_KEYS[store] as (record: KeyedRecord) => string;
+    const before = keyRecords(stored[store] as KeyedRecord[], key);
+    const after = keyRecords(next[store] as KeyedRecord[], key);
+    const changes: RecordChanges = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+    for (const [k, record] of after) {
+      const previous = before.get(k);
+      if (!previous) {
+        changes.added++;
+      } else if (fingerprint(previous) === fingerprint(record)) {
+        changes.unchanged++;
+      } else {
+        changes.changed++;
+      }
+    }
+    for (const k of before.keys()) {
+      if (!after.has(k)) changes.removed++;
+    }
+
+    diff[store] = changes;
+  }
+
+  return diff;
+}
+
+/**
+ * Give re-imported records that match a stored one the stored id, so
+ * annotations and links to them survive the replace. Series follow
+ * their sessions to the adopted ids.
+ */
+export function adoptStoredIds<T extends DiffedRecords>(next: T, stored: DiffedRecords): T {
+  const adopted = new Map<string, string>();
+  const result = { ...next };
+
+  for (const store of STORES) {
+    const key = NATURAL_KEYS[store] as (record: KeyedRecord) => string;
+    const before = keyRecords(stored[store] as KeyedRecord[], key);
+    const after = keyRecords(next[store] as KeyedRecord[], key);
+
+    const records = (next[store] as KeyedRecord[]).map(record => record);
+    for (const [k, record] of after) {
+      const previous = before.get(k);
+      if (!previous || previous.id === record.id) continue;
+      adopted.set(record.id, previous.id);
+      records[records.indexOf(record)] = { ...record, id: previous.id };
+    }
+    (result as DiffedRecords)[store] = records as never;
+  }
+
+  result.timeSeries = result.timeSeries.map(series =>
+    series.sessionId && adopted.has(series.sessionId)
+      ? { ...series, sessionId: adopted.get(series.sessionId) }
+      : series
+  );
+
+  return result;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Records by natural key; a key seen again gets a "#n" suffix so that
+ * repeated records pair up in order.
+ */
+function keyRecords(records: KeyedRecord[], key: (record: KeyedRecord) => string): Map<string, KeyedRecord> {
+  const keyed = new Map<string, KeyedRecord>();
+  for (const record of records) {
+    const base = key(record);
+    let k = base;
+    for (let n = 2; keyed.has(k); n++) k = `${base}#${n}`;
+    keyed.set(k, record);
+  }
+  return keyed;
+}
+
+// Content of a record, independent of ids and key order
+function fingerprint(record: KeyedRecord): string {
+  return JSON.stringify(record, (k, value) => {
+    if (k === 'id' || k === 'sourceId' || k === 'sessionId') return undefined;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.keys(value).sort().map(name => [name, value[name]]));
+    }
+    return value;
+  });
+}
@@ -0,0 +1,465 @@
+/**
+ * WHOOP Importer
+ * ===============
+ * Handles imports from the WHOOP data export (Profile → App Settings → Data Export).
+ *
+ * The export is a ZIP of CSV files; each file is imported on its own:
+ * - physiological_cycles.csv: recovery, strain, resting HR, HRV, skin temp, SpO2
+ * - sleeps.csv: sleep onset/wake and stage durations (minutes)
+ * - workouts.csv: activities with HR zone percentages
+ * - journal_entries.csv: yes/no behavior questions per cycle
+ *
+ * Timestamps are local wall-clock times ("2024-01-15 23:10:42") with the
+ * offset in a separate "Cycle timezone" column ("UTC-05:00").
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  DailyMetric,
+  DailyMetricType,
+  TimeSeries,
+  Annotation,
+  BehaviorTag,
+  WorkoutType,
+  DataQualityFlags,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+import { defaultNightOptions, nightOf, type NightOptions } from '../utils/nightDate';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const WHOOP_PROFILE: ImporterProfile = {
+  id: 'whoop_v1',
+  vendor: 'whoop',
+  name: 'WHOOP Data Export',
+  version: '1.0.0',
+  description: 'Import recovery, strain, sleep, workouts and journal from WHOOP CSV export',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['cycle start time', 'cycle timezone'],
+    },
+    {
+      fileType: 'csv',
+      fileNamePattern: '^(physiological_cycles|sleeps|workouts|journal_entries)\\.csv$',
+    },
+    {
+      fileType: 'zip',
+      zipContains: ['physiological_cycles.csv'],
+      fileNamePattern: '(^|/)(physiological_cycles|sleeps|workouts|journal_entries)\\.csv$',
+    },
+  ],
+  mappings: [
+    {
+      targetTable: 'daily_metrics',
+      sourceType: 'csv',
+      sourcePath: 'physiological_cycles.csv',
+      fieldMappings: [
+        { target: 'date', source: 'Cycle start time', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'value', source: 'Recovery score %', transform: { type: 'direct' } },
+      ],
+    },
+    {
+      targetTable: 'sleep_sessions',
+      sourceType: 'csv',
+      sourcePath: 'sleeps.csv',
+      fieldMappings: [
+        { target: 'startedAt', source: 'Sleep onset', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'endedAt', source: 'Wake onset', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'durationSeconds', source: 'Asleep duration (min)', transform: { type: 'duration', fromUnit: 'minutes', toUnit: 'seconds' } },
+      ],
+    },
+    {
+      targetTable: 'workout_sessions',
+      sourceType: 'csv',
+      sourcePath: 'workouts.csv',
+      fieldMappings: [
+        { target: 'startedAt', source: 'Workout start time', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'workoutSubtype', source: 'Activity name', transform: { type: 'direct' } },
+      ],
+    },
+    {
+      targetTable: 'annotations',
+      sourceType: 'csv',
+      sourcePath: 'journal_entries.csv',
+      fieldMappings: [
+        { target: 'date', source: 'Cycle start time', transform: { type: 'timestamp', format: 'iso8601' } },
+        { target: 'behaviors', source: 'Question text', transform: { type: 'direct' } },
+      ],
+    },
+  ],
+};
+
+// ============================================================
+// CSV ROW TYPE
+// ============================================================
+
+interface CsvRow {
+  [key: string]: string;
+}
+
+type WhoopFileKind = 'cycles' | 'sleeps' | 'workouts' | 'journal';
+
+// ============================================================
+// JOURNAL → BEHAVIOR TAGS
+// ============================================================
+
+/**
+ * Journal questions are free text and change between app versions,
+ * so they are matched by keyword. First match wins.
+ */
+const JOURNAL_BEHAVIORS: Array<[RegExp, BehaviorTag]> = [
+  [/alcohol/i, 'alcohol'],
+  [/caffeine.*(late|hours|bed|after)/i, 'caffeine_late'],
+  [/cannabis|marijuana|thc/i, 'cannabis'],
+  [/melatonin|medication|sleep aid/i, 'medication'],
+  [/(eat|meal|food).*(late|close to bed|hours)/i, 'late_meal'],
+  [/sick|ill\b/i, 'sick'],
+  [/anxi/i, 'anxiety'],
+  [/stress/i, 'stress'],
+  [/pain|sore/i, 'pain'],
+  [/travel|jet ?lag/i, 'travel'],
+  [/screen|device|phone/i, 'screen_late'],
+  [/partner|shar(e|ing) (your|a) bed|pet/i, 'partner_disturbed'],
+  [/meditat/i, 'meditation'],
+  [/read/i, 'reading'],
+];
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  annotations: Annotation[];
+  warnings: ImportWarning[];
+}
+
+export async function transformWhoop(
+  data: unknown,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void,
+  night: NightOptions = defaultNightOptions()
+): Promise<TransformResult> {
+  const result: TransformResult = {
+    sleepSessions: [],
+    workoutSessions: [],
+    dailyMetrics: [],
+    timeSeries: [],
+    annotations: [],
+    warnings: [],
+  };
+
+  if (!Array.isArray(data) || data.length === 0) {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'No WHOOP data found in file',
+    });
+    return result;
+  }
+
+  const rows = data as CsvRow[];
+  const kind = detectFileKind(rows[0]);
+
+  if (!kind) {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'Unrecognized WHOOP CSV: expected cycles, sleeps, workouts or journal entries',
+    });
+    return result;
+  }
+
+  const journal = new Map<string, { behaviors: Set<BehaviorTag>; notes: string[] }>();
+
+  for (let i = 0; i < rows.length; i++) {
+    onProgress?.(i + 1, rows.length);
+
+    const row = rows[i];
+
+    try {
+      switch (kind) {
+        case 'cycles':
+          result.dailyMetrics.push(...transformCycle(row, sourceId, userId));
+          break;
+        case 'sleeps': {
+          const session = transformSleep(row, sourceId, userId, night);
+          if (session) result.sleepSessions.push(session);
+          break;
+        }
+        case 'workouts': {
+          const workout = transformWorkout(row, sourceId, userId);
+          if (workout) result.workoutSessions.push(workout);
+          break;
+        }
+        case 'journal':
+          collectJournalAnswer(row, journal);
+          break;
+      }
+    } catch (e) {
+      result.warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse row ${i + 1}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  const now = new Date().toISOString();
+  for (const [date, entry] of journal) {
+    result.annotations.push({
+      id: generateId(),
+      userId,
+      date,
+      behaviors: [...entry.behaviors],
+      notes: entry.notes.length > 0 ? `WHOOP journal: ${entry.notes.join('; ')}` : undefined,
+      createdAt: now,
+      updatedAt: now,
+      source: 'imported',
+    });
+  }
+
+  return result;
+}
+
+function detectFileKind(sampleRow: CsvRow): WhoopFileKind | null {
+  const headers = Object.keys(sampleRow).map(h => h.toLowerCase());
+  const has = (name: string) => headers.includes(name);
+
+  if (has('question text')) return 'journal';
+  if (has('workout start time')) return 'workouts';
+  if (has('recovery score %')) return 'cycles';
+  if (has('sleep onset')) return 'sleeps';
+  return null;
+}
+
+// ============================================================
+// ROW TRANSFORMERS
+// ============================================================
+
+function transformCycle(row: CsvRow, sourceId: string, userId: string): DailyMetric[] {
+  const start = parseWhoopTime(row['Cycle start time'], row['Cycle timezone']);
+  if (!start) return [];
+
+  const date = cycleDay(row['Cycle start time']);
+  const metrics: DailyMetric[] = [];
+
+  const columns: Array<[string, DailyMetricType, string]> = [
+    ['Recovery score %', 'recovery_score', '%'],
+    ['Day Strain', 'strain_score', 'strain'],
+    ['Resting heart rate (bpm)', 'resting_heart_rate', 'bpm'],
+    ['Heart rate variability (ms)', 'hrv_morning', 'ms'],
+    ['Skin temp (celsius)', 'body_temperature', '°C'],
+    ['Blood oxygen %', 'spo2', '%'],
+    ['Respiratory rate (rpm)', 'respiratory_rate', 'rpm'],
+  ];
+
+  for (const [column, metricType, unit] of columns) {
+    const value = parseNumber(row[column]);
+    if (value !== undefined) {
+      metrics.push({
+        id: generateId(),
+        userId,
+        sourceId,
+        date,
+        metricType,
+        value,
+        unit,
+        dataQuality: defaultQualityFlags(),
+      });
+    }
+  }
+
+  return metrics;
+}
+
+function transformSleep(row: CsvRow, sourceId: string, userId: string, night: NightOptions): SleepSession | null {
+  // Naps are recorded as separate sleeps
+  const isNap = row['Nap']?.toLowerCase() === 'true';
+
+  const timezone = row['Cycle timezone'];
+  const startedAt = parseWhoopTime(row['Sleep onset'], timezone);
+  const endedAt = parseWhoopTime(row['Wake onset'], timezone);
+  if (!startedAt || !endedAt) return null;
+
+  const minutes = (column: string) => (parseNumber(row[column]) ?? 0) * 60;
+
+  const durationSeconds = minutes('Asleep duration (min)');
+  const timeInBedSeconds = minutes('In bed duration (min)') || (endedAt.getTime() - startedAt.getTime()) / 1000;
+  const awakeSeconds = minutes('Awake duration (min)');
+
+  // Skip sessions less than 30 min, or 10 min for naps
+  if (durationSeconds < (isNap ? 600 : 1800)) return null;
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    // Sleep onset is local wall time in the cycle's timezone
+    date: nightOf(row['Sleep onset'], night),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    sleepType: isNap ? 'nap' : 'main',
+    durationSeconds,
+    timeInBedSeconds,
+    deepSeconds: minutes('Deep (SWS) duration (min)'),
+    remSeconds: minutes('REM duration (min)'),
+    lightSeconds: minutes('Light sleep duration (min)'),
+    awakeSeconds,
+    wakeAfterSleepOnset: awakeSeconds,
+    efficiency: parseNumber(row['Sleep efficiency %']),
+    avgRespiratoryRate: parseNumber(row['Respiratory rate (rpm)']),
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'WHOOP',
+      sleepPerformance: parseNumber(row['Sleep performance %']),
+      sleepNeedMinutes: parseNumber(row['Sleep need (min)']),
+      sleepDebtMinutes: parseNumber(row['Sleep debt (min)']),
+      sleepConsistency: parseNumber(row['Sleep consistency %']),
+    },
+  };
+}
+
+function transformWorkout(row: CsvRow, sourceId: string, userId: string): WorkoutSession | null {
+  const timezone = row['Cycle timezone'];
+  const startedAt = parseWhoopTime(row['Workout start time'], timezone);
+  if (!startedAt) return null;
+
+  const endedAt = parseWhoopTime(row['Workout end time'], timezone);
+  const durationMinutes = parseNumber(row['Duration (min)'])
+    ?? (endedAt ? (endedAt.getTime() - startedAt.getTime()) / 60000 : 0);
+
+  if (durationMinutes < 5) return null; // Skip workouts less than 5 min
+
+  // Zones are exported as a percentage of the workout
+  const zoneMinutes = (zone: number) => {
+    const percent = parseNumber(row[`HR Zone ${zone} %`]);
+    return percent !== undefined ? (percent / 100) * durationMinutes : undefined;
+  };
+
+  const activity = row['Activity name'] || 'Activity';
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date: row['Workout start time'].slice(0, 10),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt?.toISOString(),
+    durationSeconds: durationMinutes * 60,
+    workoutType: mapWorkoutType(activity),
+    workoutSubtype: activity,
+    calories: parseNumber(row['Energy burned (cal)']),
+    avgHeartRate: parseNumber(row['Average HR (bpm)']),
+    maxHeartRate: parseNumber(row['Max HR (bpm)']),
+    distance: parseNumber(row['Distance (meters)']),
+    distanceUnit: row['Distance (meters)'] ? 'meters' : undefined,
+    elevationGain: parseNumber(row['Altitude gain (meters)']),
+    zone1Minutes: zoneMinutes(1),
+    zone2Minutes: zoneMinutes(2),
+    zone3Minutes: zoneMinutes(3),
+    zone4Minutes: zoneMinutes(4),
+    zone5Minutes: zoneMinutes(5),
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: 'WHOOP',
+      activityStrain: parseNumber(row['Activity Strain']),
+    },
+  };
+}
+
+function collectJournalAnswer(
+  row: CsvRow,
+  journal: Map<string, { behaviors: Set<BehaviorTag>; notes: string[] }>
+): void {
+  if (row['Answered yes']?.toLowerCase() !== 'true') return;
+
+  const question = row['Question text'] || '';
+  const date = cycleDay(row['Cycle start time']);
+  if (!date || !question) return;
+
+  if (!journal.has(date)) {
+    journal.set(date, { behaviors: new Set(), notes: [] });
+  }
+  const entry = journal.get(date)!;
+
+  const match = JOURNAL_BEHAVIORS.find(([pattern]) => pattern.test(question));
+  if (match) {
+    entry.behaviors.add(match[1]);
+  } else {
+    entry.notes.push(question);
+  }
+
+  if (row['Notes']) {
+    entry.notes.push(row['Notes']);
+  }
+}
+
+function mapWorkoutType(activity: string): WorkoutType {
+  const name = activity.toLowerCase();
+  if (name.includes('run')) return 'running';
+  if (name.includes('cycl') || name.includes('spin') || name.includes('bik')) return 'cycling';
+  if (name.includes('swim')) return 'swimming';
+  if (name.includes('walk') || name.includes('hik')) return 'walking';
+  if (name.includes('yoga') || name.includes('pilates')) return 'yoga';
+  if (name.includes('weight') || name.includes('strength') || name.includes('powerlift')) return 'strength';
+  if (name.includes('hiit') || name.includes('crossfit') || name.includes('functional')) return 'hiit';
+  if (name.includes('row') || name.includes('elliptical') || name.includes('stairmaster')) return 'cardio';
+  if (/tennis|soccer|basketball|golf|hockey|pickleball|squash|volleyball/.test(name)) return 'sports';
+  return 'other';
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+/**
+ * Parse a WHOOP local time ("2024-01-15 23:10:42") with its
+ * cycle timezone ("UTC-05:00").
+ */
+function parseWhoopTime(value: string | undefined, timezone: string | undefined): Date | null {
+  if (!value) return null;
+  const offset = timezone?.match(/UTC([+-]\d{2}:\d{2})/)?.[1] ?? 'Z';
+  const date = new Date(`${value.trim().replace(' ', 'T')}${offset}`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * A cycle starts at sleep onset the night before, so the day it
+ * describes is the local date twelve hours in.
+ */
+function cycleDay(localTime: string): string {
+  return shiftLocalTime(localTime, 12).slice(0, 10);
+}
+
+function shiftLocalTime(localTime: string, hours: number): string {
+  const d = new Date(`${localTime.trim().replace(' ', 'T')}Z`);
+  d.setUTCHours(d.getUTCHours() + hours);
+  return d.toISOString();
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const num = parseFloat(value.replace(/[^\d.-]/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Withings / Smart Scale Importer
+ * ================================
+ * Handles body composition and blood pressure CSVs:
+ * - Withings export: weight.csv (weight, fat mass) and bp.csv
+ * - Generic smart-scale exports (Renpho, Eufy, Garmin Index...) with a
+ *   date column and weight / body fat columns
+ *
+ * Scales often record several weigh-ins a day. Every reading is kept in
+ * an irregular TimeSeries; the daily metric is reduced from them with a
+ * selectable WeighInPolicy.
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  DailyMetric,
+  DailyMetricType,
+  TimeSeries,
+  TimeSeriesMetricType,
+  DataQualityFlags,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const WITHINGS_PROFILE: ImporterProfile = {
+  id: 'withings_v1',
+  vendor: 'withings',
+  name: 'Withings / Smart Scale',
+  version: '1.0.0',
+  description: 'Import weigh-ins, body fat and blood pressure from Withings or smart-scale CSV exports',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['date', 'weight'],
+    },
+    {
+      fileType: 'csv',
+      csvRequiredHeaders: ['date', 'systolic', 'diastolic'],
+    },
+    {
+      fileType: 'zip',
+      fileNamePattern: '(?i)(^|/)(weight|bp)\\.csv$',
+    },
+  ],
+  mappings: [
+    {
+      targetTable: 'daily_metrics',
+      sourceType: 'csv',
+      fieldMappings: [
+        { target: 'date', source: 'Date', transform: { type: 'timestamp', format: 'YYYY-MM-DD HH:mm:ss' } },
+        { target: 'value', source: 'Weight (kg)', transform: { type: 'direct' } },
+      ],
+    },
+  ],
+};
+
+// ============================================================
+// DAILY REDUCTION
+// ============================================================
+
+/**
+ * How several readings on one day become the daily value:
+ * - first_morning: the first reading before noon (else the day's first)
+ * - min: the lowest reading
+ * - mean: the average of all readings
+ */
+export type WeighInPolicy = 'first_morning' | 'min' | 'mean';
+
+export const DEFAULT_WEIGH_IN_POLICY: WeighInPolicy = 'first_morning';
+
+const MORNING_END_HOUR = 12;
+
+const KG_PER_LB = 0.45359237;
+
+// ============================================================
+// RAW DATA TYPES
+// ============================================================
+
+interface CsvRow {
+  [key: string]: string;
+}
+
+interface Reading {
+  time: Date;
+  date: string; // Local YYYY-MM-DD
+  weightKg?: number;
+  bodyFatPercent?: number;
+  systolic?: number;
+  diastolic?: number;
+}
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+  date: ['date', 'datetime', 'date/time', 'timestamp', 'time of measurement', 'measurement time', 'measured at'],
+  time: ['time'],
+  weight: ['weight', 'body weight'],
+  fat_mass: ['fat mass', 'body fat mass'],
+  body_fat: ['body fat', 'fat ratio', 'body fat percentage', 'fat percentage', 'bodyfat', 'fat'],
+  systolic: ['systolic', 'sys'],
+  diastolic: ['diastolic', 'dia'],
+};
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  dailyMetrics: DailyMetric[];
+  timeSeries: TimeSeries[];
+  warnings: ImportWarning[];
+}
+
+export async function transformWithings(
+  data: unknown,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void,
+  policy: WeighInPolicy = DEFAULT_WEIGH_IN_POLICY
+): Promise<TransformResult> {
+  const result: TransformResult = {
+    sleepSessions: [],
+    workoutSessions: [],
+    dailyMetrics: [],
+    timeSeries: [],
+    warnings: [],
+  };
+
+  const rows = Array.isArray(data) ? data as CsvRow[] : [];
+  if (rows.length === 0) {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'No data found in file',
+    });
+    return result;
+  }
+
+  const columnMap = buildColumnMap(rows[0]);
+  const weightInPounds = isPoundsColumn(columnMap.weight);
+  const readings: Reading[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    onProgress?.(i + 1, rows.length);
+
+    const row = rows[i];
+    const field = (name: string) => {
+      const column = columnMap[name];
+      return column ? row[column]?.trim() : undefined;
+    };
+
+    const time = parseReadingTime(field('date'), field('time'));
+    if (!time) {
+      result.warnings.push({
+        type: 'parse_error',
+        message: `Row ${i + 1} has no valid date`,
+        recordIndex: i,
+      });
+      continue;
+    }
+
+    const rawWeight = field('weight');
+    let weightKg = parseNumber(rawWeight);
+    if (weightKg !== undefined && (weightInPounds || /lb/i.test(rawWeight ?? ''))) {
+      weightKg *= KG_PER_LB;
+    }
+
+    let bodyFatPercent = parseNumber(field('body_fat'));
+    const fatMass = parseNumber(field('fat_mass'));
+    if (bodyFatPercent === undefined && fatMass !== undefined && weightKg) {
+      // Fat mass shares the weight column's unit
+      const fatMassKg = weightInPounds ? fatMass * KG_PER_LB : fatMass;
+      bodyFatPercent = (fatMassKg / weightKg) * 100;
+    }
+
+    const reading: Reading = {
+      time,
+      date: localDate(time),
+      weightKg: weightKg && weightKg > 0 ? weightKg : undefined,
+      bodyFatPercent: bodyFatPercent && bodyFatPercent > 0 ? bodyFatPercent : undefined,
+      systolic: parseNumber(field('systolic')),
+      diastolic: parseNumber(field('diastolic')),
+    };
+
+    if (reading.weightKg || reading.bodyFatPercent || reading.systolic) {
+      readings.push(reading);
+    }
+  }
+
+  readings.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  // Every reading, as irregular time series
+  const series: Array<[TimeSeriesMetricType, (r: Reading) => number | undefined]> = [
+    ['weight', r => r.weightKg],
+    ['body_fat_percent', r => r.bodyFatPercent],
+    ['blood_pressure_systolic', r => r.systolic],
+    ['blood_pressure_diastolic', r => r.diastolic],
+  ];
+  for (const [metricType, value] of series) {
+    const points = readings.filter(r => value(r) !== undefined);
+    if (points.length > 0) {
+      result.timeSeries.push(createIrregularSeries(metricType, points, value, sourceId, userId));
+    }
+  }
+
+  // One reduced value per day
+  for (const [date, dayReadings] of groupByDate(readings)) {
+    const weights = dayReadings.filter(r => r.weightKg !== undefined);
+    if (weights.length > 0) {
+      const weight = reduceDaily(weights, r => r.weightKg!, policy);
+      result.dailyMetrics.push(createMetric(date, 'weight', round(weight, 2), 'kg', sourceId, userId));
+    }
+
+    const fats = dayReadings.filter(r => r.bodyFatPercent !== undefined);
+    if (fats.length > 0) {
+      const bodyFat = reduceDaily(fats, r => r.bodyFatPercent!, policy);
+      result.dailyMetrics.push(createMetric(date, 'body_fat_percent', round(bodyFat, 1), '%', sourceId, userId));
+    }
+
+    const pressures = dayReadings.filter(r => r.systolic !== undefined && r.diastolic !== undefined);
+    if (pressures.length > 0) {
+      const [systolic, diastolic] = reduceBloodPressure(pressures, policy);
+      result.dailyMetrics.push({
+        ...createMetric(date, 'blood_pressure', Math.round(systolic), 'mmHg', sourceId, userId),
+        secondaryValue: Math.round(diastolic),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reduce one day's readings (sorted by time) to a single value.
+ */
+function reduceDaily(readings: Reading[], value: (r: Reading) => number, policy: WeighInPolicy): number {
+  switch (policy) {
+    case 'min':
+      return Math.min(...readings.map(value));
+    case 'mean':
+      return readings.reduce((sum, r) => sum + value(r), 0) / readings.length;
+    case 'first_morning':
+    default:
+      return value(firstOfMorning(readings));
+  }
+}
+
+/**
+ * Blood pressure is reduced as a pair so systolic and diastolic come
+ * from the same reading (except for the mean).
+ */
+function reduceBloodPressure(readings: Reading[], policy: WeighInPolicy): [number, number] {
+  switch (policy) {
+    case 'min': {
+      const lowest = readings.reduce((a, b) => (b.systolic! < a.systolic! ? b : a));
+      return [lowest.systolic!, lowest.diastolic!];
+    }
+    case 'mean':
+      return [
+        readings.reduce((sum, r) => sum + r.systolic!, 0) / readings.length,
+        readings.reduce((sum, r) => sum + r.diastolic!, 0) / readings.length,
+      ];
+    case 'first_morning':
+    default: {
+      const first = firstOfMorning(readings);
+      return [first.systolic!, first.diastolic!];
+    }
+  }
+}
+
+function firstOfMorning(readings: Reading[]): Reading {
+  return readings.find(r => r.time.getHours() < MORNING_END_HOUR) ?? readings[0];
+}
+
+function groupByDate(readings: Reading[]): Map<string, Reading[]> {
+  const byDate = new Map<string, Reading[]>();
+  for (const reading of readings) {
+    const day = byDate.get(reading.date);
+    if (day) day.push(reading);
+    else byDate.set(reading.date, [reading]);
+  }
+  return byDate;
+}
+
+function buildColumnMap(sampleRow: CsvRow): Record<string, string> {
+  const map: Record<string, string> = {};
+  const headers = Object.keys(sampleRow);
+
+  for (const [canonical, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const header = headers.find(h => {
+      const normalized = h.toLowerCase().replace(/\s*\(.*\)\s*$/, '').trim();
+      return aliases.includes(normalized);
+    });
+    if (header) map[canonical] = header;
+  }
+
+  return map;
+}
+
+function isPoundsColumn(header: string | undefined): boolean {
+  return !!header && /\(\s*lbs?\s*\)/i.test(header);
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+/**
+ * Parse a local reading time from a combined date-time column
+ * ("2024-01-15 07:12:34", "01/15/2024 7:12 AM") or separate date and
+ * time columns.
+ */
+function parseReadingTime(date: string | undefined, time: string | undefined): Date | null {
+  if (!date) return null;
+  const value = time && !/\d:\d/.test(date) ? `${date} ${time}` : date;
+
+  // ISO-like dates without an offset are local wall-clock times
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, m, d, hh = '0', mm = '0', ss = '0'] = iso;
+    return new Date(+y, +m - 1, +d, +hh, +mm, +ss);
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = parseFloat(value.replace(',', '.'));
+  return isNaN(num) ? undefined : num;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function createMetric(
+  date: string,
+  metricType: DailyMetricType,
+  value: number,
+  unit: string,
+  sourceId: string,
+  userId: string
+): DailyMetric {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date,
+    metricType,
+    value,
+    unit,
+    dataQuality: defaultQualityFlags(),
+  };
+}
+
+function createIrregularSeries(
+  metricType: TimeSeriesMetricType,
+  readings: Reading[],
+  value: (r: Reading) => number | undefined,
+  sourceId: string,
+  userId: string
+): TimeSeries {
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    metricType,
+    startedAt: readings[0].time.toISOString(),
+    intervalSeconds: 0,
+    values: readings.map(r => {
+      const v = value(r)!;
+      return metricType === 'weight' ? round(v, 2) : round(v, 1);
+    }),
+    timestamps: readings.map(r => r.time.toISOString()),
+    gapCount: 0,
+    interpolatedCount: 0,
+  };
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
@@ -0,0 +1,643 @@
+/**
+ * Workout File Importer
+ * ======================
+ * Handles device workout files recorded by watches and bike computers:
+ * - FIT: Garmin's binary activity format (Garmin, Wahoo, Coros, Zwift...)
+ * - TCX: Garmin Training Center XML
+ * - GPX: GPS Exchange Format with optional heart rate extensions
+ *
+ * Each activity becomes a WorkoutSession with distance, pace, elevation
+ * gain and heart rate zone minutes, plus a per-second heart_rate
+ * TimeSeries linked to the workout.
+ */
+
+import type {
+  ImporterProfile,
+  SleepSession,
+  WorkoutSession,
+  TimeSeries,
+  WorkoutType,
+  DataQualityFlags,
+} from '../types/schema';
+import type { ImportWarning } from './pipeline';
+import { generateId } from '../utils/crypto';
+import { decodeFit, fitTimestampToDate, FIT_MESSAGE, type FitMessage } from '../utils/fit';
+
+// ============================================================
+// IMPORTER PROFILE
+// ============================================================
+
+export const WORKOUT_FILE_PROFILE: ImporterProfile = {
+  id: 'workout_file_v1',
+  vendor: 'workout_file',
+  name: 'Workout Files (FIT, TCX, GPX)',
+  version: '1.0.0',
+  description: 'Import recorded workouts with per-second heart rate from FIT, TCX and GPX files',
+  createdAt: new Date().toISOString(),
+  isBuiltIn: true,
+  filePatterns: [
+    {
+      fileType: 'fit',
+    },
+    {
+      fileType: 'xml',
+      fileNamePattern: '(?i)\\.(tcx|gpx)$',
+    },
+    {
+      fileType: 'xml',
+      xmlRootElement: 'TrainingCenterDatabase',
+    },
+    {
+      fileType: 'xml',
+      xmlRootElement: 'gpx',
+    },
+    {
+      // Apple Health route GPX files belong to workouts already in export.xml
+      fileType: 'zip',
+      fileNamePattern: '(?i)^(?!.*workout-routes/).*\\.(fit|tcx|gpx)$',
+    },
+  ],
+  mappings: [],
+};
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Used for zone minutes when the file carries no max heart rate setting.
+ */
+const DEFAULT_MAX_HEART_RATE = 190;
+
+/**
+ * Lower bounds of zones 1-5 as a fraction of max heart rate.
+ */
+const ZONE_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Longer recording gaps are treated as pauses, not time in zone
+const MAX_SAMPLE_GAP_SECONDS = 5;
+
+// Altitude changes smaller than this are GPS/barometer noise
+const ELEVATION_NOISE_METERS = 3;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_SPORTS: Record<number, string> = {
+  0: 'generic',
+  1: 'running',
+  2: 'cycling',
+  4: 'fitness_equipment',
+  5: 'swimming',
+  6: 'basketball',
+  7: 'soccer',
+  8: 'tennis',
+  10: 'training',
+  11: 'walking',
+  15: 'rowing',
+  17: 'hiking',
+};
+
+const FIT_SUB_SPORTS: Record<number, string> = {
+  1: 'treadmill',
+  6: 'indoor_cycling',
+  14: 'indoor_rowing',
+  15: 'elliptical',
+  16: 'stair_climbing',
+  17: 'lap_swimming',
+  18: 'open_water',
+  20: 'strength_training',
+  26: 'cardio_training',
+  43: 'yoga',
+  44: 'pilates',
+};
+
+// ============================================================
+// PARSED ACTIVITY
+// ============================================================
+
+interface TrackPoint {
+  time: number; // Unix millis
+  heartRate?: number;
+  distance?: number; // Cumulative meters
+  altitude?: number; // Meters
+  lat?: number;
+  lon?: number;
+}
+
+/**
+ * Format-independent activity. Summary values are taken from the file
+ * when present and otherwise computed from the track points.
+ */
+interface ParsedActivity {
+  format: 'fit' | 'tcx' | 'gpx';
+  sport?: string;
+  name?: string;
+  startTime?: number;
+  durationSeconds?: number;
+  distance?: number;
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  elevationGain?: number;
+  zoneMaxHeartRate?: number;
+  points: TrackPoint[];
+}
+
+// ============================================================
+// TRANSFORMER
+// ============================================================
+
+interface TransformResult {
+  sleepSessions: SleepSession[];
+  workoutSessions: WorkoutSession[];
+  timeSeries: TimeSeries[];
+  warnings: ImportWarning[];
+}
+
+export async function transformWorkoutFile(
+  content: ArrayBuffer | string,
+  fileName: string,
+  sourceId: string,
+  userId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<TransformResult> {
+  const result: TransformResult = {
+    sleepSessions: [],
+    workoutSessions: [],
+    timeSeries: [],
+    warnings: [],
+  };
+
+  const activities = parseActivities(content, fileName);
+
+  if (activities.length === 0) {
+    result.warnings.push({
+      type: 'parse_error',
+      message: 'No activities with recorded data found in file',
+    });
+    return result;
+  }
+
+  for (let i = 0; i < activities.length; i++) {
+    onProgress?.(i + 1, activities.length);
+
+    try {
+      const workout = buildWorkout(activities[i], sourceId, userId);
+      if (!workout) continue;
+
+      result.workoutSessions.push(workout);
+
+      const heartRate = buildHeartRateSeries(activities[i].points, workout.id, sourceId, userId);
+      if (heartRate) result.timeSeries.push(heartRate);
+    } catch (e) {
+      result.warnings.push({
+        type: 'parse_error',
+        message: `Failed to parse activity ${i + 1}: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        recordIndex: i,
+      });
+    }
+  }
+
+  return result;
+}
+
+function parseActivities(content: ArrayBuffer | string, fileName: string): ParsedActivity[] {
+  if (typeof content !== 'string') {
+    return parseFit(content);
+  }
+
+  if (content.includes('<TrainingCenterDatabase') || /\.tcx$/i.test(fileName)) {
+    return parseTcx(content);
+  }
+
+  return parseGpx(content);
+}
+
+// ============================================================
+// FIT
+// ============================================================
+
+function parseFit(buffer: ArrayBuffer): ParsedActivity[] {
+  const messages = decodeFit(buffer);
+  const of = (globalMessage: number) => messages.filter(m => m.globalMessage === globalMessage);
+
+  const points = of(FIT_MESSAGE.RECORD)
+    .map(fitRecordToPoint)
+    .filter((p): p is TrackPoint => p !== null);
+
+  const sportName = of(FIT_MESSAGE.SPORT)[0]?.fields[3];
+  const zoneMaxHeartRate = numberField(of(FIT_MESSAGE.ZONES_TARGET)[0], 1);
+  const sessions = of(FIT_MESSAGE.SESSION);
+
+  // Files without a session message still hold a usable track
+  if (sessions.length === 0) {
+    return points.length > 0
+      ? [{ format: 'fit', points, zoneMaxHeartRate, name: typeof sportName === 'string' ? sportName : undefined }]
+      : [];
+  }
+
+  // Multisport files have one session per leg
+  return sessions.map(session => {
+    const start = numberField(session, 2);
+    const elapsed = numberField(session, 7);
+    const startTime = start !== undefined ? fitTimestampToDate(start).getTime() : undefined;
+    const endTime = startTime !== undefined && elapsed !== undefined ? startTime + elapsed : undefined;
+
+    const sport = FIT_SUB_SPORTS[numberField(session, 6) ?? -1] ?? FIT_SPORTS[numberField(session, 5) ?? -1];
+    const timerTime = numberField(session, 8);
+    const distance = numberField(session, 9);
+
+    return {
+      format: 'fit' as const,
+      sport,
+      name: typeof sportName === 'string' && sessions.length === 1 ? sportName : undefined,
+      startTime,
+      durationSeconds: timerTime !== undefined ? timerTime / 1000 : undefined,
+      distance: distance !== undefined ? distance / 100 : undefined,
+      calories: numberField(session, 11),
+      avgHeartRate: numberField(session, 16),
+      maxHeartRate: numberField(session, 17),
+      elevationGain: numberField(session, 22),
+      zoneMaxHeartRate,
+      points: startTime !== undefined && endTime !== undefined
+        ? points.filter(p => p.time >= startTime && p.time <= endTime)
+        : points,
+    };
+  });
+}
+
+function fitRecordToPoint(message: FitMessage): TrackPoint | null {
+  const timestamp = numberField(message, 253);
+  if (timestamp === undefined) return null;
+
+  const lat = numberField(message, 0);
+  const lon = numberField(message, 1);
+  const altitude = numberField(message, 78) ?? numberField(message, 2);
+  const distance = numberField(message, 5);
+
+  return {
+    time: fitTimestampToDate(timestamp).getTime(),
+    heartRate: numberField(message, 3),
+    distance: distance !== undefined ? distance / 100 : undefined,
+    altitude: altitude !== undefined ? altitude / 5 - 500 : undefined,
+    lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+    lon: lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined,
+  };
+}
+
+function numberField(message: FitMessage | undefined, field: number): number | undefined {
+  const value = message?.fields[field];
+  return typeof value === 'number' ? value : undefined;
+}
+
+// ============================================================
+// TCX
+// ============================================================
+
+function parseTcx(xml: string): ParsedActivity[] {
+  const activities: ParsedActivity[] = [];
+  const activityRegex = /<Activity\b([^>]*)>([\s\S]*?)<\/Activity>/g;
+
+  let match;
+  while ((match = activityRegex.exec(xml)) !== null) {
+    const [, attributes, body] = match;
+    const activity: ParsedActivity = {
+      format: 'tcx',
+      sport: attribute(attributes, 'Sport'),
+      startTime: parseTime(tagValue(body, 'Id')),
+      points: [],
+    };
+
+    let duration = 0;
+    let distance = 0;
+    let calories = 0;
+    let maxHeartRate: number | undefined;
+    let hasLaps = false;
+
+    const lapRegex = /<Lap\b([^>]*)>([\s\S]*?)<\/Lap>/g;
+    let lap;
+    while ((lap = lapRegex.exec(body)) !== null) {
+      hasLaps = true;
+      const lapBody = lap[2];
+      // Lap totals sit outside the track; trackpoints repeat some tag names
+      const summary = lapBody.replace(/<Track\b[\s\S]*?<\/Track>/g, '');
+
+      duration += parseFloat(tagValue(summary, 'TotalTimeSeconds') ?? '0') || 0;
+      distance += parseFloat(tagValue(summary, 'DistanceMeters') ?? '0') || 0;
+      calories += parseFloat(tagValue(summary, 'Calories') ?? '0') || 0;
+
+      const lapMax = parseFloat(tagValue(tagValue(summary, 'MaximumHeartRateBpm', true) ?? '', 'Value') ?? '');
+      if (!isNaN(lapMax)) maxHeartRate = Math.max(maxHeartRate ?? 0, lapMax);
+
+      const pointRegex = /<Trackpoint>([\s\S]*?)<\/Trackpoint>/g;
+      let point;
+      while ((point = pointRegex.exec(lapBody)) !== null) {
+        const p = point[1];
+        const time = parseTime(tagValue(p, 'Time'));
+        if (time === undefined) continue;
+
+        activity.points.push({
+          time,
+          heartRate: optionalNumber(tagValue(tagValue(p, 'HeartRateBpm', true) ?? '', 'Value')),
+          distance: optionalNumber(tagValue(p, 'DistanceMeters')),
+          altitude: optionalNumber(tagValue(p, 'AltitudeMeters')),
+          lat: optionalNumber(tagValue(p, 'LatitudeDegrees')),
+          lon: optionalNumber(tagValue(p, 'LongitudeDegrees')),
+        });
+      }
+    }
+
+    if (hasLaps) {
+      activity.durationSeconds = duration || undefined;
+      activity.distance = distance || undefined;
+      activity.calories = calories || undefined;
+      activity.maxHeartRate = maxHeartRate;
+    }
+
+    if (activity.points.length > 0 || activity.durationSeconds) {
+      activities.push(activity);
+    }
+  }
+
+  return activities;
+}
+
+// ============================================================
+// GPX
+// ============================================================
+
+function parseGpx(xml: string): ParsedActivity[] {
+  const activities: ParsedActivity[] = [];
+  const trackRegex = /<trk\b[^>]*>([\s\S]*?)<\/trk>/g;
+
+  let match;
+  while ((match = trackRegex.exec(xml)) !== null) {
+    const body = match[1];
+    const points: TrackPoint[] = [];
+
+    const pointRegex = /<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g;
+    let point;
+    while ((point = pointRegex.exec(body)) !== null) {
+      const [, attributes, p] = point;
+      const time = parseTime(tagValue(p, 'time'));
+      if (time === undefined) continue;
+
+      points.push({
+        time,
+        lat: optionalNumber(attribute(attributes, 'lat')),
+        lon: optionalNumber(attribute(attributes, 'lon')),
+        altitude: optionalNumber(tagValue(p, 'ele')),
+        // Garmin TrackPointExtension (gpxtpx:hr) and similar vendor tags
+        heartRate: optionalNumber(tagValue(p, 'hr')),
+      });
+    }
+
+    if (points.length > 0) {
+      // Track metadata precedes the segments
+      const header = body.replace(/<trkseg\b[\s\S]*$/, '');
+      activities.push({
+        format: 'gpx',
+        name: tagValue(header, 'name'),
+        sport: tagValue(header, 'type'),
+        points,
+      });
+    }
+  }
+
+  return activities;
+}
+
+// ============================================================
+// WORKOUT ASSEMBLY
+// ============================================================
+
+function buildWorkout(activity: ParsedActivity, sourceId: string, userId: string): WorkoutSession | null {
+  const points = [...activity.points].sort((a, b) => a.time - b.time);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const start = activity.startTime ?? first?.time;
+  if (start === undefined) return null;
+
+  const elapsedSeconds = first && last ? (last.time - first.time) / 1000 : 0;
+  const durationSeconds = activity.durationSeconds ?? elapsedSeconds;
+  if (durationSeconds < 300) return null; // Skip workouts less than 5 min
+
+  const distance = activity.distance ?? trackDistance(points);
+  const heartRates = points.map(p => p.heartRate).filter((hr): hr is number => hr !== undefined && hr > 0);
+  const zoneMaxHeartRate = activity.zoneMaxHeartRate ?? DEFAULT_MAX_HEART_RATE;
+  const zones = heartRates.length > 0 ? computeZoneMinutes(points, zoneMaxHeartRate) : undefined;
+  const sport = activity.sport ?? activity.name ?? '';
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    date: localDate(new Date(start)),
+    startedAt: new Date(start).toISOString(),
+    endedAt: new Date(start + Math.max(durationSeconds, elapsedSeconds) * 1000).toISOString(),
+    durationSeconds,
+    workoutType: mapWorkoutType(sport),
+    workoutSubtype: activity.name || activity.sport,
+    calories: activity.calories,
+    avgHeartRate: activity.avgHeartRate ??
+      (heartRates.length > 0 ? Math.round(heartRates.reduce((a, b) => a + b, 0) / heartRates.length) : undefined),
+    maxHeartRate: activity.maxHeartRate ?? (heartRates.length > 0 ? heartRates.reduce((a, b) => Math.max(a, b)) : undefined),
+    distance,
+    distanceUnit: distance !== undefined ? 'meters' : undefined,
+    pace: distance ? durationSeconds / (distance / 1000) : undefined,
+    elevationGain: activity.elevationGain ?? elevationGain(points),
+    zone1Minutes: zones?.[0],
+    zone2Minutes: zones?.[1],
+    zone3Minutes: zones?.[2],
+    zone4Minutes: zones?.[3],
+    zone5Minutes: zones?.[4],
+    dataQuality: defaultQualityFlags(),
+    vendorData: {
+      source: activity.format.toUpperCase(),
+      sport: activity.sport,
+      zoneMaxHeartRate,
+    },
+  };
+}
+
+/**
+ * Minutes spent in each of the five heart rate zones, weighting every
+ * sample by the time until the next one.
+ */
+function computeZoneMinutes(points: TrackPoint[], maxHeartRate: number): number[] {
+  const seconds = [0, 0, 0, 0, 0];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const heartRate = points[i].heartRate;
+    if (!heartRate) continue;
+
+    const dt = Math.min((points[i + 1].time - points[i].time) / 1000, MAX_SAMPLE_GAP_SECONDS);
+    const fraction = heartRate / maxHeartRate;
+
+    for (let zone = ZONE_THRESHOLDS.length - 1; zone >= 0; zone--) {
+      if (fraction >= ZONE_THRESHOLDS[zone]) {
+        seconds[zone] += dt;
+        break;
+      }
+    }
+  }
+
+  return seconds.map(s => Math.round((s / 60) * 10) / 10);
+}
+
+/**
+ * Resample heart rate to one value per second. Seconds between samples
+ * carry the previous reading forward (counted as interpolated); longer
+ * dropouts are gaps.
+ */
+function buildHeartRateSeries(
+  points: TrackPoint[],
+  sessionId: string,
+  sourceId: string,
+  userId: string
+): TimeSeries | null {
+  const samples = points
+    .filter(p => p.heartRate !== undefined && p.heartRate > 0)
+    .sort((a, b) => a.time - b.time);
+  if (samples.length === 0) return null;
+
+  const start = Math.floor(samples[0].time / 1000);
+  const count = Math.floor(samples[samples.length - 1].time / 1000) - start + 1;
+  const values: (number | null)[] = new Array(count).fill(null);
+  let interpolatedCount = 0;
+  let cursor = 0;
+
+  for (let second = 0; second < count; second++) {
+    const time = (start + second) * 1000;
+    while (cursor + 1 < samples.length && samples[cursor + 1].time <= time + 999) {
+      cursor++;
+    }
+
+    const sample = samples[cursor];
+    const age = (time - sample.time) / 1000;
+    if (age < 1) {
+      values[second] = sample.heartRate!;
+    } else if (age <= MAX_SAMPLE_GAP_SECONDS) {
+      values[second] = sample.heartRate!;
+      interpolatedCount++;
+    }
+  }
+
+  return {
+    id: generateId(),
+    userId,
+    sourceId,
+    sessionId,
+    metricType: 'heart_rate',
+    startedAt: new Date(start * 1000).toISOString(),
+    intervalSeconds: 1,
+    values,
+    gapCount: values.filter(v => v === null).length,
+    interpolatedCount,
+  };
+}
+
+/**
+ * Distance from the device's cumulative odometer, or from GPS positions.
+ */
+function trackDistance(points: TrackPoint[]): number | undefined {
+  const odometer = points.filter(p => p.distance !== undefined);
+  if (odometer.length > 0) {
+    return odometer[odometer.length - 1].distance! - (odometer[0].distance ?? 0) || undefined;
+  }
+
+  const positioned = points.filter(p => p.lat !== undefined && p.lon !== undefined);
+  let total = 0;
+  for (let i = 1; i < positioned.length; i++) {
+    total += haversine(positioned[i - 1], positioned[i]);
+  }
+  return total > 0 ? total : undefined;
+}
+
+function elevationGain(points: TrackPoint[]): number | undefined {
+  const altitudes = points.map(p => p.altitude).filter((a): a is number => a !== undefined);
+  if (altitudes.length < 2) return undefined;
+
+  let gain = 0;
+  let anchor = altitudes[0];
+  for (const altitude of altitudes) {
+    if (altitude - anchor >= ELEVATION_NOISE_METERS) {
+      gain += altitude - anchor;
+      anchor = altitude;
+    } else if (anchor - altitude >= ELEVATION_NOISE_METERS) {
+      anchor = altitude;
+    }
+  }
+  return Math.round(gain);
+}
+
+function haversine(a: TrackPoint, b: TrackPoint): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRadians(b.lat! - a.lat!);
+  const dLon = toRadians(b.lon! - a.lon!);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat!)) * Math.cos(toRadians(b.lat!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+function mapWorkoutType(sport: string): WorkoutType {
+  const name = sport.toLowerCase();
+  if (name.includes('run') || name.includes('treadmill')) return 'running';
+  if (name.includes('cycl') || name.includes('bik') || name.includes('ride') || name.includes('spin')) return 'cycling';
+  if (name.includes('swim')) return 'swimming';
+  if (name.includes('walk') || name.includes('hik')) return 'walking';
+  if (name.includes('yoga') || name.includes('pilates')) return 'yoga';
+  if (name.includes('strength') || name.includes('weight')) return 'strength';
+  if (name.includes('hiit')) return 'hiit';
+  if (/row|elliptical|stair|cardio|fitness_equipment/.test(name)) return 'cardio';
+  if (/tennis|soccer|basketball|golf/.test(name)) return 'sports';
+  return 'other';
+}
+
+// ============================================================
+// UTILITIES
+// ============================================================
+
+/**
+ * Value of the first <tag> (with or without a namespace prefix).
+ * With `inner`, returns the raw element body for nested lookups.
+ */
+function tagValue(xml: string, tag: string, inner = false): string | undefined {
+  const pattern = inner
+    ? `<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`
+    : `<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`;
+  const match = xml.match(new RegExp(pattern));
+  return match ? match[1].trim() : undefined;
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const num = parseFloat(value);
+  return isNaN(num) ? undefined : num;
+}
+
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function defaultQualityFlags(): DataQualityFlags {
+  return {
+    isComplete: true,
+    hasOutliers: false,
+    outlierFields: [],
+    sensorGaps: 0,
+    manuallyExcluded: false,
+  };
+}
@@ -95,25 +95,28 @@ export function generateInsights(
   sleepSessions: SleepSession[],
   workoutSessions: WorkoutSession[] = [],
   morningRatings: MorningRating[] = [],
-  options: { lookbackDays?: number; minSessions?: number } = {}
+  options: { lookbackDays?: number; minSessions?: number; sleepTarget?: number } = {}
 ): Insight[] {
-  const { lookbackDays = 90, minSessions = 14 } = options;
+  const { lookbackDays = 90, minSessions = 14, sleepTarget = 8 } = options;
   const insights: Insight[] = [];
 
-  if (sleepSessions.length < minSessions) {
+  // Naps and fragments are counted with their night, not as nights of their own
+  const nights = sleepSessions.filter(isMainSleep);
+
+  if (nights.length < minSessions) {
     return [{
       id: 'insufficient-data',
       category: 'quality',
       priority: 'high',
       title: 'Need More Data',
-      description: `We need at least ${minSessions} sleep sessions to generate personalized insights. You have ${sleepSessions.length} sessions.`,
+      description: `We need at least ${minSessions} sleep sessions to generate personalized insights. You have ${nights.length} sessions.`,
       confidence: 'high',
       basedOn: 'Session count',
     }];
   }
 
   // Sort sessions by date (newest first)
-  const sorted = [...sleepSessions].sort((a, b) =>
+  const sorted = [...nights].sort((a, b) =>
     new Date(b.date).getTime() - new Date(a.date).getTime()
   );
 
@@ -130,7 +133,9 @@ export function generateInsights(
 
   // Generate insights from each analyzer
   insights.push(...analyzeConsistency(sessionsToAnalyze));
-  insights.push(...analyzeDuration(sessionsToAnalyze));
+  const analyzedDates = new Set(sessionsToAnalyze.map(s => s.date));
+  insights.push(...analyzeDuration(sessionsToAnalyze, sleepSessions.filter(s => analyzedDates.has(s.date))));
+  insights.push(...analyzeSleepDebt(sleepSessions, sleepTarget));
   insights.push(...analyzeRecovery(sessionsToAnalyze));
   insights.push(...analyzeStages(sessionsToAnalyze));
   insights.push(...analyzeTemperature(sessionsToAnalyze));
@@ -155,6 +160,7 @@ export function generateInsights(
 // CONSISTENCY ANALYSIS
 // ============================================================
 
+// Main sleeps only: a nap's start would read as an erratic bedtime
 function analyzeConsistency(sessions: SleepSession[]): Insight[] {
   const insights: Insight[] = [];
   const metrics = calculateConsistencyMetrics(sessions);
@@ -269,10 +275,15 @@ function calculateConsistencyMetrics(sessions: SleepSession[]): SleepConsistency
 // DURATION ANALYSIS
 // ============================================================
 
-function analyzeDuration(sessions: SleepSession[]): Insight[] {
+/**
+ * Night length is the main sleep plus its fragments; naps are left out,
+ * since they are not part of the night's architecture.
+ */
+function analyzeDuration(sessions: SleepSession[], periods: SleepSession[]): Insight[] {
   const insights: Insight[] = [];
+  const nightly = nightlySleep(sessions, periods, false);
 
-  const durations = sessions
+  const durations = nightly
     .filter(s => s.durationSeconds && s.durationSeconds > 0)
     .map(s => s.durationSeconds);
 
@@ -281,7 +292,7 @@ function analyzeDuration(sessions: SleepSession[]): Insight[] {
   const avgDuration = mean(durations) / 3600; // Convert to hours
 
   // Calculate quality as deep + REM percentage
-  const sessionsWithQuality = sessions.filter(s =>
+  const sessionsWithQuality = nightly.filter(s =>
     s.durationSeconds > 0 && (s.deepSeconds !== undefined || s.remSeconds !== undefined)
   );
 
@@ -307,7 +318,7 @@ function analyzeDuration(sessions: SleepSession[]): Insight[] {
           { label: 'Your optimal', value: `${optimalRange.min.toFixed(1)}-${optimalRange.max.toFixed(1)}`, unit: 'h' },
         ],
         confidence: 'high',
-        basedOn: `Quality correlation across ${durationQualityPairs.length} nights`,
+        basedOn: `Quality correlation across ${durationQualityPairs.length} nights (naps excluded)`,
       });
     } else if (avgDuration > optimalRange.max + 0.25) {
       insights.push({
@@ -322,7 +333,7 @@ function analyzeDuration(sessions: SleepSession[]): Insight[] {
           { label: 'Your optimal', value: `${optimalRange.min.toFixed(1)}-${optimalRange.max.toFixed(1)}`, unit: 'h' },
         ],
         confidence: 'medium',
-        basedOn: `Quality correlation across ${durationQualityPairs.length} nights`,
+        basedOn: `Quality correlation across ${durationQualityPairs.length} nights (naps excluded)`,
       });
     }
   }
@@ -330,6 +341,44 @@ function analyzeDuration(sessions: SleepSession[]): Insight[] {
   return insights;
 }
 
+// Nights the sleep debt is summed over
+const SLEEP_DEBT_NIGHTS = 14;
+
+/**
+ * Shortfall against the sleep target over the last two weeks of nights.
+ * Every period counts here, naps included: a nap pays back debt.
+ */
+function analyzeSleepDebt(sessions: SleepSession[], targetHours: number): Insight[] {
+  const nights = sessions
+    .filter(isMainSleep)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, SLEEP_DEBT_NIGHTS);
+  if (nights.length < SLEEP_DEBT_NIGHTS) return [];
+
+  const totals = nightlySleep(nights, sessions, true);
+  const napSeconds = sessions
+    .filter(s => s.sleepType === 'nap' && totals.some(t => t.date === s.date))
+    .reduce((sum, s) => sum + s.durationSeconds, 0);
+  const debtHours = totals.reduce((sum, night) => sum + targetHours - night.durationSeconds / 3600, 0);
+
+  if (debtHours < 5) return [];
+
+  return [{
+    id: 'sleep-debt',
+    category: 'duration',
+    priority: debtHours >= 10 ? 'high' : 'medium',
+    title: 'Sleep Debt Building Up',
+    description: `Over your last ${totals.length} nights you slept ${debtHours.toFixed(1)}h less than your ${targetHours}h target${napSeconds > 0 ? `, even counting ${(napSeconds / 3600).toFixed(1)}h of naps` : ''}.`,
+    recommendation: 'Pay it back gradually: an extra 30-60 minutes a night over the coming week works better than one long lie-in.',
+    dataPoints: [
+      { label: 'Sleep debt', value: debtHours.toFixed(1), unit: 'h' },
+      { label: 'Naps counted', value: (napSeconds / 3600).toFixed(1), unit: 'h' },
+    ],
+    confidence: 'medium',
+    basedOn: `Main sleeps and naps of ${totals.length} nights`,
+  }];
+}
+
 function findOptimalDurationRange(pairs: { duration: number; quality: number }[]): { min: number; max: number } {
   // Bucket durations and find where quality is highest
   const buckets: Map<number, number[]> = new Map();
@@ -904,6 +953,35 @@ function analyzeMorningRatings(
 // UTILITY FUNCTIONS
 // ============================================================
 
+// Sessions stored before sleep types were tracked are main sleeps
+export function isMainSleep(session: SleepSession): boolean {
+  return (session.sleepType ?? 'main') === 'main';
+}
+
+/**
+ * Each night's main sleep with the durations of its fragments, and of
+ * its naps when `includeNaps`, added in.
+ */
+function nightlySleep(nights: SleepSession[], periods: SleepSession[], includeNaps: boolean): SleepSession[] {
+  const extras = new Map<string, SleepSession[]>();
+  for (const period of periods) {
+    if (period.sleepType === 'fragment' || (includeNaps && period.sleepType === 'nap')) {
+      extras.set(period.date, [...(extras.get(period.date) ?? []), period]);
+    }
+  }
+
+  return nights.map(night => {
+    const added = extras.get(night.date);
+    if (!added) return night;
+    return {
+      ...night,
+      durationSeconds: night.durationSeconds + added.reduce((sum, s) => sum + s.durationSeconds, 0),
+      deepSeconds: night.deepSeconds + added.reduce((sum, s) => sum + (s.deepSeconds || 0), 0),
+      remSeconds: night.remSeconds + added.reduce((sum, s) => sum + (s.remSeconds || 0), 0),
+    };
+  });
+}
+
 function mean(values: number[]): number {
   if (values.length === 0) return 0;
   return values.reduce((a, b) => a + b, 0) / values.length;
@@ -953,12 +1031,12 @@ function celsiusToFahrenheit(celsius: number): number {
 // ============================================================
 
 export function getConsistencyMetrics(sessions: SleepSession[]): SleepConsistencyMetrics {
-  return calculateConsistencyMetrics(sessions);
+  return calculateConsistencyMetrics(sessions.filter(isMainSleep));
 }
 
 export function getRecoveryMetrics(sessions: SleepSession[]): RecoveryMetrics | null {
   const hrvValues = sessions
-    .filter(s => s.avgHrv && s.avgHrv > 0)
+    .filter(s => isMainSleep(s) && s.avgHrv && s.avgHrv > 0)
     .map(s => ({ date: s.date, hrv: s.avgHrv! }))
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
@@ -17,9 +17,14 @@ export interface User {
 
 export interface UserSettings {
   sleepTarget: number; // hours per night
-  timezone: string;
+  timezone: string; // IANA zone nights without a recorded offset are dated in
+  // Sleep starting before this hour belongs to the previous night (0-23)
+  dayBoundaryHour?: number;
   displayUnits: 'metric' | 'imperial';
   outlierThreshold: number; // MAD multiplier for outlier detection
+  // Vendors to trust for a metric when nights from several sources are
+  // merged, most trusted first
+  vendorPriority?: Partial<Record<SleepMetricGroup, VendorType[]>>;
 }
 
 export interface Source {
@@ -39,6 +44,39 @@ export interface Source {
   };
   // Raw data stored as blob for re-processing if needed
   rawDataRef?: string; // Key to blob storage
+  reimportedAt?: string; // ISO timestamp of the last re-import
+  // Latest record of each kind the files held
+  highWaterMarks?: HighWaterMarks;
+  // Marks of earlier imports from the vendor; records up to them were skipped
+  skippedThrough?: HighWaterMarks;
+}
+
+/**
+ * How far a vendor's history reaches, per record type. A later import
+ * from the same vendor skips records at or before these points. Metrics
+ * are marked one by one, since a vendor's files each carry some of them.
+ */
+export interface HighWaterMarks {
+  sleepSessions?: string; // ISO timestamp the latest sleep period ended
+  workoutSessions?: string; // ISO timestamp the latest workout started
+  dailyMetrics?: Partial<Record<DailyMetricType, string>>; // YYYY-MM-DD of the latest value
+  timeSeries?: Partial<Record<TimeSeriesMetricType, string>>; // ISO timestamp of the latest reading outside a session
+}
+
+/**
+ * Files of an import, kept when the user opts in so the Source can be
+ * re-imported once its importer improves (Source.rawDataRef).
+ */
+export interface RawFile {
+  id: string;
+  files: Array<{
+    name: string;
+    size: number;
+    type: string;
+    content: ArrayBuffer | string;
+  }>;
+  // Import options the files were read with, reapplied on re-import
+  options?: Record<string, unknown>;
 }
 
 export type VendorType =
@@ -49,6 +87,8 @@ export type VendorType =
   | 'apple_health'
   | 'garmin'
   | 'fitbit'
+  | 'withings'
+  | 'workout_file' // FIT/TCX/GPX device recordings
   | 'generic_csv'
   | 'generic_json'
   | 'unknown';
@@ -57,6 +97,12 @@ export type VendorType =
 // SLEEP DATA
 // ============================================================
 
+/**
+ * main: the night's principal sleep. nap: a separate, shorter sleep.
+ * fragment: a piece of the main sleep split off by a long awakening.
+ */
+export type SleepType = 'main' | 'nap' | 'fragment';
+
 export interface SleepSession {
   id: string;
   userId: string;
@@ -66,6 +112,8 @@ export interface SleepSession {
   date: string; // YYYY-MM-DD (the "night of" date)
   startedAt: string; // ISO timestamp (actual sleep start)
   endedAt: string; // ISO timestamp (actual wake)
+  // Which sleep period of the night this is; sessions stored without one are main sleeps
+  sleepType?: SleepType;
 
   // Duration (all in seconds)
   durationSeconds: number; // total time asleep
@@ -96,6 +144,50 @@ export interface SleepSession {
 
   // Vendor-specific data we don't canonicalize yet
   vendorData?: Record<string, unknown>;
+
+  // Each source's own recording of this period, in the order dedup merged
+  // them; the session is rebuilt from the rest when one source is deleted
+  contributions?: SleepSession[];
+
+  // Where each metric's value came from
+  provenance?: Partial<Record<SleepMetricField, FieldOrigin>>;
+}
+
+/**
+ * Metrics of a night that dedup merges field by field.
+ */
+export type SleepMetricField =
+  | 'durationSeconds'
+  | 'timeInBedSeconds'
+  | 'deepSeconds'
+  | 'remSeconds'
+  | 'lightSeconds'
+  | 'awakeSeconds'
+  | 'sleepOnsetLatency'
+  | 'wakeAfterSleepOnset'
+  | 'efficiency'
+  | 'avgHeartRate'
+  | 'minHeartRate'
+  | 'maxHeartRate'
+  | 'avgHrv'
+  | 'avgRespiratoryRate'
+  | 'avgBedTempC'
+  | 'avgRoomTempC';
+
+/**
+ * Related metrics that are taken from one vendor together when merging.
+ */
+export type SleepMetricGroup =
+  | 'sleep_stages'
+  | 'heart_rate'
+  | 'hrv'
+  | 'respiratory_rate'
+  | 'bed_temperature'
+  | 'room_temperature';
+
+export interface FieldOrigin {
+  vendor: VendorType;
+  sourceId: string;
 }
 
 export interface DataQualityFlags {
@@ -156,6 +248,11 @@ export interface WorkoutSession {
 
   // Vendor-specific
   vendorData?: Record<string, unknown>;
+
+  // Each source's own recording of this workout, in the order dedup
+  // merged them; the workout is rebuilt from the rest when one source is
+  // deleted
+  contributions?: WorkoutSession[];
 }
 
 export type WorkoutType =
@@ -183,6 +280,7 @@ export interface DailyMetric {
   metricType: DailyMetricType;
   value: number;
   unit: string;
+  secondaryValue?: number; // Second half of paired readings (diastolic for blood_pressure)
 
   // Quality
   dataQuality: DataQualityFlags;
@@ -198,7 +296,15 @@ export type DailyMetricType =
   | 'body_temperature'
   | 'readiness_score'
   | 'recovery_score'
-  | 'strain_score';
+  | 'strain_score'
+  | 'activity_score'
+  | 'body_battery'
+  | 'stress_score'
+  | 'vo2_max'
+  | 'active_energy'
+  | 'exercise_minutes'
+  | 'mindful_minutes'
+  | 'blood_pressure'; // value = systolic, secondaryValue = diastolic
 
 // ============================================================
 // TIME SERIES (high-frequency data)
@@ -212,8 +318,9 @@ export interface TimeSeries {
 
   metricType: TimeSeriesMetricType;
   startedAt: string; // ISO timestamp
-  intervalSeconds: number; // Time between readings
+  intervalSeconds: number; // Time between readings (0 when irregular)
   values: (number | null)[]; // Null for gaps
+  timestamps?: string[]; // ISO time of each value, for irregular readings
 
   // Quality
   gapCount: number;
@@ -228,6 +335,10 @@ export type TimeSeriesMetricType =
   | 'bed_temperature'
   | 'room_temperature'
   | 'movement'
+  | 'weight'
+  | 'body_fat_percent'
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
   | 'sleep_stage'; // Encoded: 0=awake, 1=light, 2=deep, 3=rem
 
 // ============================================================
@@ -446,13 +557,26 @@ export interface ImporterProfile {
   // How to extract data
   mappings: TableMapping[];
 
+  // Rows from the file the profile was built from, for conformance runs
+  samples?: ProfileSample[];
+
   // Metadata
   createdAt: string;
   isBuiltIn: boolean; // true for our standard importers
 }
 
+export interface ProfileSample {
+  fileName: string;
+
+  // Parsed JSON value, or CSV rows keyed by header
+  data: unknown;
+
+  // Records the profile produced from `data`, recorded when it was exported
+  expected?: Partial<Record<TableMapping['targetTable'], number>>;
+}
+
 export interface FilePattern {
-  fileType: 'json' | 'csv' | 'xml' | 'zip';
+  fileType: 'json' | 'csv' | 'xml' | 'zip' | 'fit';
 
   // For JSON: JSONPath expression that must exist and return non-empty
   jsonSignature?: string;
@@ -460,6 +584,9 @@ export interface FilePattern {
   // For CSV: required column headers (case-insensitive)
   csvRequiredHeaders?: string[];
 
+  // For XML: name of the document's root element
+  xmlRootElement?: string;
+
   // For ZIP: files that must exist inside
   zipContains?: string[];
 
@@ -0,0 +1,59 @@
+/**
+ * Dropped Files
+ * ==============
+ * Files dropped on a drop zone, with dropped folders walked recursively
+ * through the entries API (webkitGetAsEntry). Exports such as Google
+ * Takeout unpack into folders of many files.
+ */
+
+/**
+ * Every file of a drop, hidden files and macOS metadata folders aside.
+ * Falls back to the plain file list where entries are not supported.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries are only available while the drop event is being handled,
+  // so they are taken before the first await
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all((entries as FileSystemEntry[]).map(filesOfEntry));
+  return files.flat();
+}
+
+async function filesOfEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.name.startsWith('.') || entry.name === '__MACOSX') return [];
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    const files = await Promise.all(children.map(filesOfEntry));
+    return files.flat();
+  }
+
+  return [];
+}
+
+// readEntries returns a directory in batches until it returns none
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+      reader.readEntries(resolve, reject);
+    });
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
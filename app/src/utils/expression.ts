@@ -0,0 +1,757 @@
+/**
+ * Expression Language
+ * ====================
+ * Sandboxed expressions for importer `compute` transforms and table
+ * filters. Expressions are parsed once into a small AST and evaluated
+ * against each record; nothing is passed to `eval`, and only a record's
+ * own properties and the functions below are reachable.
+ *
+ * Syntax, loosest binding first:
+ *   cond ? a : b       ||       &&       == !=       < <= > >=
+ *   + -                * / %             ! -x (unary)
+ *   field, `field with spaces`, a.b, a[0], a['key'], a[*].b, a[?x > 1].b
+ *   123, 1.5e3, 'text', "text", true, false, null, name(args...)
+ *
+ * Bare names read the current record, `@` is the current record itself
+ * and `$` the row being imported. `[*]` and `[?predicate]` project
+ * arrays: the accessors after them apply to every element, and inside a
+ * predicate bare names read the element. Arithmetic on values that are
+ * not numbers, or division by zero, yields null rather than throwing.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type Expression =
+  | { type: 'literal'; value: unknown }
+  | { type: 'field'; name: string }
+  | { type: 'current' }
+  | { type: 'root' }
+  | { type: 'path'; base: Expression; accessors: Accessor[] }
+  | { type: 'unary'; operator: '!' | '-'; operand: Expression }
+  | { type: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { type: 'conditional'; test: Expression; consequent: Expression; alternate: Expression }
+  | { type: 'call'; name: string; args: Expression[] };
+
+type Accessor =
+  | { kind: 'property'; name: string }
+  | { kind: 'index'; index: Expression }
+  | { kind: 'wildcard' }
+  | { kind: 'filter'; predicate: Expression };
+
+type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!='
+  | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%';
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'field' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+interface Scope {
+  current: unknown;
+  root: unknown;
+}
+
+// Guards against pathological input from imported profiles
+const MAX_EXPRESSION_LENGTH = 4096;
+const MAX_NESTING_DEPTH = 64;
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Parse an expression. Throws an Error naming the offending position
+ * when the text is not a valid expression.
+ */
+export function parseExpression(source: string): Expression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new Error('Expression is empty');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+export function evaluateExpression(expression: Expression, record: unknown): unknown {
+  const value = evaluate(expression, { current: record, root: record });
+  return value === undefined ? null : value;
+}
+
+/**
+ * Truthiness used by filters: null, false, 0, NaN, '' and [] are false.
+ */
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return Boolean(value);
+}
+
+// ============================================================
+// TOKENIZER
+// ============================================================
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', ',', '.', '@', '$'];
+const NUMBER_REGEX = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?/y;
+const NAME_REGEX = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    NUMBER_REGEX.lastIndex = pos;
+    const number = NUMBER_REGEX.exec(source);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    NAME_REGEX.lastIndex = pos;
+    const name = NAME_REGEX.exec(source);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: pos });
+      pos += name[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      const { value, end } = readQuoted(source, pos);
+      // Backticks quote field names that are not plain identifiers
+      tokens.push({ type: char === '`' ? 'field' : 'string', value, position: pos });
+      pos = end;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (!operator) {
+      throw new Error(`Unexpected character '${char}' at position ${pos}`);
+    }
+    tokens.push({ type: 'operator', value: operator, position: pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+function readQuoted(source: string, start: number): { value: string; end: number } {
+  const quote = source[start];
+  let value = '';
+  let pos = start + 1;
+
+  while (pos < source.length) {
+    const char = source[pos];
+    if (char === quote) return { value, end: pos + 1 };
+    if (char === '\\' && pos + 1 < source.length) {
+      const next = source[pos + 1];
+      value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      pos += 2;
+      continue;
+    }
+    value += char;
+    pos++;
+  }
+
+  throw new Error(`Unterminated string starting at position ${start}`);
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+const BINARY_PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`Unexpected ${describeToken(token)} at position ${token.position}`);
+    }
+    return expression;
+  }
+
+  private parseConditional(): Expression {
+    this.enter();
+    const test = this.parseBinary(0);
+
+    let result = test;
+    if (this.match('?')) {
+      const consequent = this.parseConditional();
+      this.expect(':');
+      const alternate = this.parseConditional();
+      result = { type: 'conditional', test, consequent, alternate };
+    }
+
+    this.depth--;
+    return result;
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level === BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    let operator: BinaryOperator | undefined;
+    while ((operator = BINARY_PRECEDENCE[level].find(op => this.isOperator(op)))) {
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('!') || this.isOperator('-')) {
+      const operator = this.next().value as '!' | '-';
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator, operand };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    const base = this.parsePrimary();
+    const accessors: Accessor[] = [];
+
+    for (;;) {
+      if (this.match('.')) {
+        const token = this.next();
+        if (token.type !== 'name' && token.type !== 'field') {
+          throw new Error(`Expected a field name after '.' at position ${token.position}`);
+        }
+        accessors.push({ kind: 'property', name: token.value });
+      } else if (this.match('[')) {
+        if (this.match('*')) {
+          accessors.push({ kind: 'wildcard' });
+        } else if (this.match('?')) {
+          accessors.push({ kind: 'filter', predicate: this.parseConditional() });
+        } else {
+          accessors.push({ kind: 'index', index: this.parseConditional() });
+        }
+        this.expect(']');
+      } else {
+        break;
+      }
+    }
+
+    return accessors.length > 0 ? { type: 'path', base, accessors } : base;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: parseFloat(token.value) };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'name': {
+        if (this.isOperator('(')) {
+          return this.parseCall(token);
+        }
+        if (Object.prototype.hasOwnProperty.call(KEYWORD_LITERALS, token.value)) {
+          return { type: 'literal', value: KEYWORD_LITERALS[token.value] };
+        }
+        return { type: 'field', name: token.value };
+      }
+
+      case 'field':
+        return { type: 'field', name: token.value };
+
+      case 'operator':
+        if (token.value === '@') return { type: 'current' };
+        if (token.value === '$') return { type: 'root' };
+        if (token.value === '(') {
+          const inner = this.parseConditional();
+          this.expect(')');
+          return inner;
+        }
+        break;
+    }
+
+    throw new Error(`Unexpected ${describeToken(token)} at position ${token.position}`);
+  }
+
+  private parseCall(name: Token): Expression {
+    const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name.value) ? FUNCTIONS[name.value] : undefined;
+    if (!fn) {
+      throw new Error(`Unknown function '${name.value}' at position ${name.position}`);
+    }
+
+    this.expect('(');
+    const args: Expression[] = [];
+    if (!this.match(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.match(','));
+      this.expect(')');
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs
+        ? `${fn.minArgs}`
+        : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+      throw new Error(`${name.value}() takes ${expected} argument(s), got ${args.length} at position ${name.position}`);
+    }
+
+    return { type: 'call', name: name.value, args };
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new Error('Expression is nested too deeply');
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private match(value: string): boolean {
+    if (!this.isOperator(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(value: string): void {
+    const token = this.peek();
+    if (!this.match(value)) {
+      throw new Error(`Expected '${value}' but found ${describeToken(token)} at position ${token.position}`);
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'end': return 'end of expression';
+    case 'string': return `string '${token.value}'`;
+    default: return `'${token.value}'`;
+  }
+}
+
+// ============================================================
+// EVALUATOR
+// ============================================================
+
+function evaluate(expression: Expression, scope: Scope): unknown {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'field':
+      return getProperty(scope.current, expression.name);
+
+    case 'current':
+      return scope.current;
+
+    case 'root':
+      return scope.root;
+
+    case 'path':
+      return evaluatePath(expression.base, expression.accessors, scope);
+
+    case 'unary': {
+      const operand = evaluate(expression.operand, scope);
+      if (expression.operator === '!') return !isTruthy(operand);
+      const num = toNumber(operand);
+      return num === null ? null : -num;
+    }
+
+    case 'binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, scope);
+
+    case 'conditional':
+      return isTruthy(evaluate(expression.test, scope))
+        ? evaluate(expression.consequent, scope)
+        : evaluate(expression.alternate, scope);
+
+    case 'call':
+      return FUNCTIONS[expression.name].fn(expression.args.map(arg => evaluate(arg, scope)));
+  }
+}
+
+function evaluatePath(base: Expression, accessors: Accessor[], scope: Scope): unknown {
+  let value = evaluate(base, scope);
+  let projecting = false;
+
+  for (const accessor of accessors) {
+    const projects = accessor.kind === 'wildcard' || accessor.kind === 'filter';
+
+    if (projecting) {
+      const next: unknown[] = [];
+      for (const item of value as unknown[]) {
+        const result = access(item, accessor, scope);
+        if (projects) next.push(...(result as unknown[]));
+        else if (result !== undefined && result !== null) next.push(result);
+      }
+      value = next;
+    } else {
+      value = access(value, accessor, scope);
+      projecting = projects;
+    }
+  }
+
+  return value;
+}
+
+function access(value: unknown, accessor: Accessor, scope: Scope): unknown {
+  switch (accessor.kind) {
+    case 'property':
+      return getProperty(value, accessor.name);
+
+    case 'index': {
+      const index = evaluate(accessor.index, scope);
+      if (Array.isArray(value) && typeof index === 'number') {
+        return value[index < 0 ? value.length + index : index];
+      }
+      return getProperty(value, String(index));
+    }
+
+    case 'wildcard':
+      if (Array.isArray(value)) return value;
+      if (isRecord(value)) return Object.values(value);
+      return [];
+
+    case 'filter':
+      if (!Array.isArray(value)) return [];
+      return value.filter(item =>
+        isTruthy(evaluate(accessor.predicate, { current: item, root: scope.root }))
+      );
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftExpression: Expression,
+  rightExpression: Expression,
+  scope: Scope
+): unknown {
+  // Logical operators short-circuit and yield booleans
+  if (operator === '&&') {
+    return isTruthy(evaluate(leftExpression, scope)) && isTruthy(evaluate(rightExpression, scope));
+  }
+  if (operator === '||') {
+    return isTruthy(evaluate(leftExpression, scope)) || isTruthy(evaluate(rightExpression, scope));
+  }
+
+  const left = evaluate(leftExpression, scope);
+  const right = evaluate(rightExpression, scope);
+
+  switch (operator) {
+    case '==': return valuesEqual(left, right);
+    case '!=': return !valuesEqual(left, right);
+    case '<': return compareValues(left, right, c => c < 0);
+    case '<=': return compareValues(left, right, c => c <= 0);
+    case '>': return compareValues(left, right, c => c > 0);
+    case '>=': return compareValues(left, right, c => c >= 0);
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+
+  if (operator === '+' && (a === null || b === null)) {
+    // Joining text; a missing operand leaves the result missing
+    if (left === null || left === undefined || right === null || right === undefined) return null;
+    return `${toText(left)}${toText(right)}`;
+  }
+
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    case '%': return b === 0 ? null : a % b;
+  }
+}
+
+// ============================================================
+// VALUE HELPERS
+// ============================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Own properties only: nothing on the prototype chain is reachable
+function getProperty(value: unknown, key: string): unknown {
+  if (Array.isArray(value)) {
+    return key === 'length' ? value.length : undefined;
+  }
+  if (isRecord(value) && Object.prototype.hasOwnProperty.call(value, key)) {
+    return value[key];
+  }
+  return undefined;
+}
+
+/**
+ * Numbers and numeric text (CSV cells arrive as strings) as numbers;
+ * anything else is null.
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left === null || left === undefined) && (right === null || right === undefined);
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return left === right;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a === b;
+
+  return toText(left) === toText(right);
+}
+
+function compareValues(left: unknown, right: unknown, test: (comparison: number) => boolean): boolean {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return test(a - b);
+
+  // ISO dates and times compare correctly as text
+  if (typeof left === 'string' && typeof right === 'string') {
+    return test(left < right ? -1 : left > right ? 1 : 0);
+  }
+  return false;
+}
+
+// Aggregates accept arrays (e.g. from a[*].b) and plain arguments alike
+function flattenNumbers(args: unknown[]): number[] {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    for (const item of Array.isArray(arg) ? arg : [arg]) {
+      const num = toNumber(item);
+      if (num !== null) numbers.push(num);
+    }
+  }
+  return numbers;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toOptionalText(value: unknown): string | null {
+  return value === null || value === undefined ? null : toText(value);
+}
+
+// ============================================================
+// FUNCTIONS
+// ============================================================
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  fn: (args: unknown[]) => unknown;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Aggregates
+  sum: { minArgs: 1, maxArgs: Infinity, fn: args => flattenNumbers(args).reduce((s, n) => s + n, 0) },
+  avg: {
+    minArgs: 1, maxArgs: Infinity,
+    fn: args => {
+      const numbers = flattenNumbers(args);
+      return numbers.length > 0 ? numbers.reduce((s, n) => s + n, 0) / numbers.length : null;
+    },
+  },
+  min: {
+    minArgs: 1, maxArgs: Infinity,
+    fn: args => {
+      const numbers = flattenNumbers(args);
+      return numbers.length > 0 ? numbers.reduce((m, n) => Math.min(m, n)) : null;
+    },
+  },
+  max: {
+    minArgs: 1, maxArgs: Infinity,
+    fn: args => {
+      const numbers = flattenNumbers(args);
+      return numbers.length > 0 ? numbers.reduce((m, n) => Math.max(m, n)) : null;
+    },
+  },
+  count: {
+    minArgs: 1, maxArgs: 1,
+    fn: ([value]) => Array.isArray(value)
+      ? value.filter(v => v !== null && v !== undefined).length
+      : value === null || value === undefined ? 0 : 1,
+  },
+  first: { minArgs: 1, maxArgs: 1, fn: ([value]) => Array.isArray(value) ? value[0] ?? null : value },
+  last: { minArgs: 1, maxArgs: 1, fn: ([value]) => Array.isArray(value) ? value[value.length - 1] ?? null : value },
+
+  // Math
+  abs: { minArgs: 1, maxArgs: 1, fn: ([x]) => mapNumber(x, Math.abs) },
+  floor: { minArgs: 1, maxArgs: 1, fn: ([x]) => mapNumber(x, Math.floor) },
+  ceil: { minArgs: 1, maxArgs: 1, fn: ([x]) => mapNumber(x, Math.ceil) },
+  sqrt: { minArgs: 1, maxArgs: 1, fn: ([x]) => mapNumber(x, n => (n < 0 ? NaN : Math.sqrt(n))) },
+  round: {
+    minArgs: 1, maxArgs: 2,
+    fn: ([x, digits]) => {
+      const factor = Math.pow(10, toNumber(digits) ?? 0);
+      return mapNumber(x, n => Math.round(n * factor) / factor);
+    },
+  },
+  pow: {
+    minArgs: 2, maxArgs: 2,
+    fn: ([x, y]) => {
+      const exponent = toNumber(y);
+      return exponent === null ? null : mapNumber(x, n => Math.pow(n, exponent));
+    },
+  },
+
+  // Conversion
+  number: { minArgs: 1, maxArgs: 1, fn: ([x]) => toNumber(x) },
+  string: { minArgs: 1, maxArgs: 1, fn: ([x]) => toOptionalText(x) },
+  coalesce: {
+    minArgs: 1, maxArgs: Infinity,
+    fn: args => args.find(a => a !== null && a !== undefined && a !== '') ?? null,
+  },
+
+  // Text
+  lower: { minArgs: 1, maxArgs: 1, fn: ([s]) => toOptionalText(s)?.toLowerCase() ?? null },
+  upper: { minArgs: 1, maxArgs: 1, fn: ([s]) => toOptionalText(s)?.toUpperCase() ?? null },
+  trim: { minArgs: 1, maxArgs: 1, fn: ([s]) => toOptionalText(s)?.trim() ?? null },
+  len: {
+    minArgs: 1, maxArgs: 1,
+    fn: ([s]) => Array.isArray(s) ? s.length : toOptionalText(s)?.length ?? null,
+  },
+  concat: { minArgs: 1, maxArgs: Infinity, fn: args => args.map(toText).join('') },
+  substr: {
+    minArgs: 2, maxArgs: 3,
+    fn: ([s, start, length]) => {
+      const text = toOptionalText(s);
+      const from = toNumber(start);
+      if (text === null || from === null) return null;
+      const count = toNumber(length);
+      return count === null ? text.slice(from) : text.slice(from, from + count);
+    },
+  },
+  contains: {
+    minArgs: 2, maxArgs: 2,
+    fn: ([haystack, needle]) => Array.isArray(haystack)
+      ? haystack.some(item => valuesEqual(item, needle))
+      : (toOptionalText(haystack) ?? '').includes(toText(needle)),
+  },
+  startsWith: { minArgs: 2, maxArgs: 2, fn: ([s, prefix]) => (toOptionalText(s) ?? '').startsWith(toText(prefix)) },
+  endsWith: { minArgs: 2, maxArgs: 2, fn: ([s, suffix]) => (toOptionalText(s) ?? '').endsWith(toText(suffix)) },
+  // Literal replacement; patterns from imported profiles never reach RegExp
+  replace: {
+    minArgs: 3, maxArgs: 3,
+    fn: ([s, find, replacement]) => toOptionalText(s)?.split(toText(find)).join(toText(replacement)) ?? null,
+  },
+  split: {
+    minArgs: 2, maxArgs: 2,
+    fn: ([s, separator]) => toOptionalText(s)?.split(toText(separator)) ?? null,
+  },
+
+  // Dates: text is parsed as by Date; numbers are milliseconds unless the unit is 'seconds'
+  timestamp: {
+    minArgs: 1, maxArgs: 2,
+    fn: ([value, unit]) => {
+      // Numeric text is a date only when a unit says so
+      const num = typeof value === 'number' || unit ? toNumber(value) : null;
+      const date = num !== null ? new Date(unit === 'seconds' ? num * 1000 : num) : toDate(value);
+      return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+    },
+  },
+  date: {
+    minArgs: 1, maxArgs: 1,
+    fn: ([value]) => {
+      // Keep the calendar date as written rather than shifting it through UTC
+      if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+      const date = toDate(value);
+      return date ? date.toISOString().slice(0, 10) : null;
+    },
+  },
+  hour: { minArgs: 1, maxArgs: 1, fn: ([value]) => toDate(value)?.getHours() ?? null },
+  weekday: { minArgs: 1, maxArgs: 1, fn: ([value]) => toDate(value)?.getDay() ?? null },
+  secondsBetween: {
+    minArgs: 2, maxArgs: 2,
+    fn: ([start, end]) => {
+      const a = toDate(start);
+      const b = toDate(end);
+      return a && b ? (b.getTime() - a.getTime()) / 1000 : null;
+    },
+  },
+  addSeconds: {
+    minArgs: 2, maxArgs: 2,
+    fn: ([value, seconds]) => {
+      const date = toDate(value);
+      const offset = toNumber(seconds);
+      return date && offset !== null ? new Date(date.getTime() + offset * 1000).toISOString() : null;
+    },
+  },
+};
+
+function mapNumber(value: unknown, fn: (n: number) => number): number | null {
+  const num = toNumber(value);
+  if (num === null) return null;
+  const result = fn(num);
+  return isNaN(result) ? null : result;
+}
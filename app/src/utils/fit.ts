@@ -0,0 +1,218 @@
+/**
+ * FIT file decoder
+ * Decodes the Garmin FIT binary protocol (used by watches and bike
+ * computers) into plain messages keyed by global message and field
+ * number. Scaling and profile semantics are left to the caller.
+ */
+
+export interface FitMessage {
+  globalMessage: number;
+  fields: Record<number, number | string>;
+}
+
+// Global message numbers used by the workout importer
+export const FIT_MESSAGE = {
+  FILE_ID: 0,
+  ZONES_TARGET: 7,
+  SPORT: 12,
+  SESSION: 18,
+  LAP: 19,
+  RECORD: 20,
+} as const;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+export const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+
+const TIMESTAMP_FIELD = 253;
+const COMPRESSED_HEADER_MASK = 0x80;
+const DEFINITION_MASK = 0x40;
+const DEVELOPER_DATA_MASK = 0x20;
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+export function isFitFile(content: ArrayBuffer | string): boolean {
+  if (typeof content === 'string' || content.byteLength < 12) return false;
+  const bytes = new Uint8Array(content, 8, 4);
+  // ".FIT"
+  return bytes[0] === 0x2e && bytes[1] === 0x46 && bytes[2] === 0x49 && bytes[3] === 0x54;
+}
+
+export function decodeFit(buffer: ArrayBuffer): FitMessage[] {
+  if (!isFitFile(buffer)) {
+    throw new Error('Not a valid FIT file');
+  }
+
+  const view = new DataView(buffer);
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: FitMessage[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    // Compressed timestamp header: 2-bit local type, 5-bit time offset
+    if (header & COMPRESSED_HEADER_MASK) {
+      const localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      const definition = definitions.get(localType);
+      if (!definition) throw new Error(`Missing FIT definition for local message ${localType}`);
+
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      lastTimestamp = timestamp;
+
+      const message = readDataMessage(view, offset, definition);
+      message.fields[TIMESTAMP_FIELD] = timestamp;
+      messages.push(message);
+      offset += messageSize(definition);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+
+    if (header & DEFINITION_MASK) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessage = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      // Developer fields are skipped, but their size must be known
+      let developerDataSize = 0;
+      if (header & DEVELOPER_DATA_MASK) {
+        const developerCount = view.getUint8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalMessage, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) throw new Error(`Missing FIT definition for local message ${localType}`);
+
+    const message = readDataMessage(view, offset, definition);
+    const timestamp = message.fields[TIMESTAMP_FIELD];
+    if (typeof timestamp === 'number') lastTimestamp = timestamp;
+
+    messages.push(message);
+    offset += messageSize(definition);
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a FIT timestamp to a Date.
+ */
+export function fitTimestampToDate(timestamp: number): Date {
+  return new Date((timestamp + FIT_EPOCH_OFFSET_SECONDS) * 1000);
+}
+
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, f) => sum + f.size, 0) + definition.developerDataSize;
+}
+
+function readDataMessage(view: DataView, offset: number, definition: MessageDefinition): FitMessage {
+  const fields: FitMessage['fields'] = {};
+  let cursor = offset;
+
+  for (const field of definition.fields) {
+    const value = readField(view, cursor, field, definition.littleEndian);
+    if (value !== null) fields[field.number] = value;
+    cursor += field.size;
+  }
+
+  return { globalMessage: definition.globalMessage, fields };
+}
+
+/**
+ * Read a single field value. Arrays yield their first element; invalid
+ * sentinel values (all bits set, or zero for the "z" types) yield null.
+ */
+function readField(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | string | null {
+  const baseType = field.baseType & 0x1f;
+
+  switch (baseType) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: // uint8z
+    case 0x0d: { // byte
+      const value = view.getUint8(offset);
+      return value === 0xff || (baseType === 0x0a && value === 0) ? null : value;
+    }
+    case 0x01: { // sint8
+      const value = view.getInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 0x03: { // sint16
+      if (field.size < 2) return null;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 0x04: // uint16
+    case 0x0b: { // uint16z
+      if (field.size < 2) return null;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff || (baseType === 0x0b && value === 0) ? null : value;
+    }
+    case 0x05: { // sint32
+      if (field.size < 4) return null;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 0x06: // uint32
+    case 0x0c: { // uint32z
+      if (field.size < 4) return null;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff || (baseType === 0x0c && value === 0) ? null : value;
+    }
+    case 0x07: { // string (null-terminated UTF-8)
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const terminator = bytes.indexOf(0);
+      const value = new TextDecoder('utf-8').decode(terminator >= 0 ? bytes.subarray(0, terminator) : bytes);
+      return value || null;
+    }
+    case 0x08: { // float32
+      if (field.size < 4) return null;
+      const value = view.getFloat32(offset, littleEndian);
+      return isFinite(value) ? value : null;
+    }
+    case 0x09: { // float64
+      if (field.size < 8) return null;
+      const value = view.getFloat64(offset, littleEndian);
+      return isFinite(value) ? value : null;
+    }
+    default:
+      // 64-bit integers are not needed by any message we read
+      return null;
+  }
+}
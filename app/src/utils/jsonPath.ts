@@ -0,0 +1,838 @@
+/**
+ * JSONPath
+ * =========
+ * RFC 9535 JSONPath queries over parsed JSON: name, index, wildcard,
+ * slice and filter selectors, child and descendant (`..`) segments,
+ * and the standard function extensions length(), count(), match(),
+ * search() and value(). Queries are parsed once and cached; results
+ * are the selected values in document order (the nodelist).
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface JsonPath {
+  source: string;
+  query: Query;
+}
+
+interface Query {
+  absolute: boolean; // $ (root) or @ (current node)
+  segments: Segment[];
+}
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: LogicalExpression };
+
+type LogicalExpression =
+  | { kind: 'or'; operands: LogicalExpression[] }
+  | { kind: 'and'; operands: LogicalExpression[] }
+  | { kind: 'not'; operand: LogicalExpression }
+  | { kind: 'exists'; query: Query }
+  | { kind: 'test'; call: FunctionCall }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Comparable; right: Comparable };
+
+type Comparable =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'query'; query: Query }
+  | { kind: 'call'; call: FunctionCall };
+
+type FunctionArgument =
+  | Comparable
+  | { kind: 'logical'; expression: LogicalExpression };
+
+interface FunctionCall {
+  name: string;
+  args: FunctionArgument[];
+}
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+// RFC 9535 function extension type system
+type ParameterType = 'value' | 'nodes' | 'logical';
+
+interface FunctionDefinition {
+  parameters: ParameterType[];
+  result: ParameterType;
+  evaluate: (args: unknown[]) => unknown;
+}
+
+// Absent values (an empty nodelist used as a value) compare as "Nothing"
+const NOTHING = Symbol('nothing');
+
+// I-JSON safe integer range for indexes and slice bounds
+const MAX_SAFE = 2 ** 53 - 1;
+
+const CACHE_LIMIT = 256;
+const cache = new Map<string, JsonPath>();
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Parse a JSONPath query. Throws an Error naming the offending position
+ * when the query is not valid RFC 9535 syntax.
+ */
+export function parseJsonPath(source: string): JsonPath {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  const parser = new Parser(source);
+  const path = { source, query: parser.parseRootQuery() };
+
+  if (cache.size >= CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(source, path);
+  return path;
+}
+
+/**
+ * Values selected by a query, in document order.
+ */
+export function queryJsonPath(data: unknown, path: string | JsonPath): unknown[] {
+  const { query } = typeof path === 'string' ? parseJsonPath(path) : path;
+  return evaluateQuery(query, data, data);
+}
+
+export function isValidJsonPath(source: string): boolean {
+  try {
+    parseJsonPath(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parseRootQuery(): Query {
+    if (this.text[this.pos] !== '$') {
+      this.fail("Query must start with '$'");
+    }
+    this.pos++;
+
+    const query: Query = { absolute: true, segments: this.parseSegments() };
+
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected '${this.text[this.pos]}'`);
+    }
+    return query;
+  }
+
+  private parseSegments(): Segment[] {
+    const segments: Segment[] = [];
+
+    for (;;) {
+      // Blank space may separate segments, but must not trail the query
+      const start = this.pos;
+      this.skipSpace();
+      const char = this.text[this.pos];
+
+      if (char === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracketedSelection() });
+      } else if (char === '.' && this.text[this.pos + 1] === '.') {
+        this.pos += 2;
+        segments.push({ descendant: true, selectors: this.parseDescendantSelection() });
+      } else if (char === '.') {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.parseShorthand()] });
+      } else {
+        this.pos = start;
+        return segments;
+      }
+    }
+  }
+
+  private parseDescendantSelection(): Selector[] {
+    return this.text[this.pos] === '[' ? this.parseBracketedSelection() : [this.parseShorthand()];
+  }
+
+  private parseShorthand(): Selector {
+    if (this.text[this.pos] === '*') {
+      this.pos++;
+      return { kind: 'wildcard' };
+    }
+
+    const name = this.readMemberName();
+    if (!name) this.fail('Expected a member name');
+    return { kind: 'name', name };
+  }
+
+  private readMemberName(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const code = this.text.codePointAt(this.pos)!;
+      const first = this.pos === start;
+      if (!isNameChar(code, first)) break;
+      this.pos += code > 0xffff ? 2 : 1;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  private parseBracketedSelection(): Selector[] {
+    this.pos++; // [
+    const selectors: Selector[] = [];
+
+    do {
+      this.skipSpace();
+      selectors.push(this.parseSelector());
+      this.skipSpace();
+    } while (this.consume(','));
+
+    if (!this.consume(']')) this.fail("Expected ']'");
+    return selectors;
+  }
+
+  private parseSelector(): Selector {
+    const char = this.text[this.pos];
+
+    if (char === "'" || char === '"') {
+      return { kind: 'name', name: this.parseString() };
+    }
+    if (char === '*') {
+      this.pos++;
+      return { kind: 'wildcard' };
+    }
+    if (char === '?') {
+      this.pos++;
+      this.skipSpace();
+      return { kind: 'filter', expression: this.parseLogicalOr() };
+    }
+
+    // Index or slice
+    const start = this.tryParseInteger();
+    this.skipSpace();
+    if (this.text[this.pos] !== ':') {
+      if (start === undefined) this.fail('Expected a selector');
+      return { kind: 'index', index: start };
+    }
+
+    this.pos++;
+    this.skipSpace();
+    const end = this.tryParseInteger();
+    this.skipSpace();
+    let step: number | undefined;
+    if (this.consume(':')) {
+      this.skipSpace();
+      step = this.tryParseInteger();
+    }
+    return { kind: 'slice', start, end, step };
+  }
+
+  private tryParseInteger(): number | undefined {
+    const match = /^(?:0|-?[1-9]\d*)/.exec(this.text.slice(this.pos));
+    if (!match) {
+      if (this.text.startsWith('-0', this.pos)) this.fail('Negative zero is not a valid index');
+      return undefined;
+    }
+
+    const value = Number(match[0]);
+    if (Math.abs(value) > MAX_SAFE) this.fail('Index out of range');
+    this.pos += match[0].length;
+    return value;
+  }
+
+  // --- Filter expressions ---
+
+  private parseLogicalOr(): LogicalExpression {
+    const operands = [this.parseLogicalAnd()];
+    while (this.consumeOperator('||')) {
+      operands.push(this.parseLogicalAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  private parseLogicalAnd(): LogicalExpression {
+    const operands = [this.parseBasic()];
+    while (this.consumeOperator('&&')) {
+      operands.push(this.parseBasic());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parseBasic(): LogicalExpression {
+    this.skipSpace();
+
+    if (this.consume('!')) {
+      this.skipSpace();
+      if (this.consume('(')) {
+        return { kind: 'not', operand: this.parseParenthesized() };
+      }
+      const operand = this.parseComparable();
+      return { kind: 'not', operand: this.toTest(operand) };
+    }
+
+    if (this.consume('(')) {
+      return this.parseParenthesized();
+    }
+
+    const left = this.parseComparable();
+    const operator = this.peekComparisonOperator();
+    if (!operator) {
+      return this.toTest(left);
+    }
+
+    this.pos += operator.length;
+    this.skipSpace();
+    const right = this.parseComparable();
+    this.checkComparable(left);
+    this.checkComparable(right);
+    return { kind: 'compare', operator, left, right };
+  }
+
+  private parseParenthesized(): LogicalExpression {
+    const expression = this.parseLogicalOr();
+    this.skipSpace();
+    if (!this.consume(')')) this.fail("Expected ')'");
+    return expression;
+  }
+
+  // A bare query tests for existence; a bare function must return a logical result
+  private toTest(operand: Comparable): LogicalExpression {
+    if (operand.kind === 'query') return { kind: 'exists', query: operand.query };
+    if (operand.kind === 'call' && FUNCTIONS[operand.call.name].result !== 'value') {
+      return { kind: 'test', call: operand.call };
+    }
+    return this.fail(operand.kind === 'literal'
+      ? 'A literal must be compared'
+      : `${operand.kind === 'call' ? operand.call.name : ''}() must be compared`);
+  }
+
+  private checkComparable(operand: Comparable): void {
+    if (operand.kind === 'query' && !isSingular(operand.query)) {
+      this.fail('Only singular queries can be compared');
+    }
+    if (operand.kind === 'call' && FUNCTIONS[operand.call.name].result !== 'value') {
+      this.fail(`${operand.call.name}() cannot be compared`);
+    }
+  }
+
+  private parseComparable(): Comparable {
+    const char = this.text[this.pos];
+
+    if (char === '@' || char === '$') {
+      this.pos++;
+      return { kind: 'query', query: { absolute: char === '$', segments: this.parseSegments() } };
+    }
+    if (char === "'" || char === '"') {
+      return { kind: 'literal', value: this.parseString() };
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      return { kind: 'literal', value: this.parseNumber() };
+    }
+
+    for (const [keyword, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.text.startsWith(keyword, this.pos) && !isNameChar(this.text.codePointAt(this.pos + keyword.length) ?? 0, false)) {
+        this.pos += keyword.length;
+        return { kind: 'literal', value };
+      }
+    }
+
+    const name = /^[a-z][a-z0-9_]*(?=\()/.exec(this.text.slice(this.pos))?.[0];
+    if (name) {
+      return { kind: 'call', call: this.parseFunctionCall(name) };
+    }
+
+    return this.fail('Expected a query, literal or function');
+  }
+
+  private parseFunctionCall(name: string): FunctionCall {
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!definition) this.fail(`Unknown function '${name}'`);
+
+    this.pos += name.length + 1; // name(
+    const args: FunctionArgument[] = [];
+    this.skipSpace();
+
+    if (!this.consume(')')) {
+      do {
+        this.skipSpace();
+        args.push(this.parseFunctionArgument());
+        this.skipSpace();
+      } while (this.consume(','));
+      if (!this.consume(')')) this.fail("Expected ')'");
+    }
+
+    if (args.length !== definition.parameters.length) {
+      this.fail(`${name}() takes ${definition.parameters.length} argument(s)`);
+    }
+    args.forEach((arg, i) => this.checkArgument(name, arg, definition.parameters[i]));
+
+    return { name, args };
+  }
+
+  private parseFunctionArgument(): FunctionArgument {
+    const start = this.pos;
+    const char = this.text[this.pos];
+
+    if (char !== '!' && char !== '(') {
+      const operand = this.parseComparable();
+      this.skipSpace();
+      if (!this.peekComparisonOperator() && !this.text.startsWith('&&', this.pos) && !this.text.startsWith('||', this.pos)) {
+        return operand;
+      }
+      this.pos = start;
+    }
+
+    return { kind: 'logical', expression: this.parseLogicalOr() };
+  }
+
+  private checkArgument(name: string, arg: FunctionArgument, type: ParameterType): void {
+    const ok = (() => {
+      switch (type) {
+        case 'value':
+          if (arg.kind === 'literal') return true;
+          if (arg.kind === 'query') return isSingular(arg.query);
+          return arg.kind === 'call' && FUNCTIONS[arg.call.name].result === 'value';
+        case 'nodes':
+          return arg.kind === 'query' || (arg.kind === 'call' && FUNCTIONS[arg.call.name].result === 'nodes');
+        case 'logical':
+          return arg.kind === 'logical' || arg.kind === 'query' ||
+            (arg.kind === 'call' && FUNCTIONS[arg.call.name].result !== 'value');
+      }
+    })();
+
+    if (!ok) this.fail(`Invalid argument type for ${name}()`);
+  }
+
+  private peekComparisonOperator(): ComparisonOperator | undefined {
+    this.skipSpace();
+    return COMPARISON_OPERATORS.find(op => this.text.startsWith(op, this.pos));
+  }
+
+  // --- Literals ---
+
+  private parseString(): string {
+    const quote = this.text[this.pos++];
+    let value = '';
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+
+      if (char === quote) {
+        this.pos++;
+        return value;
+      }
+      if (char.charCodeAt(0) < 0x20) {
+        this.fail('Control characters must be escaped');
+      }
+      if (char !== '\\') {
+        value += char;
+        this.pos++;
+        continue;
+      }
+
+      const escape = this.text[this.pos + 1];
+      this.pos += 2;
+      switch (escape) {
+        case 'b': value += '\b'; break;
+        case 'f': value += '\f'; break;
+        case 'n': value += '\n'; break;
+        case 'r': value += '\r'; break;
+        case 't': value += '\t'; break;
+        case '/': value += '/'; break;
+        case '\\': value += '\\'; break;
+        case 'u': value += this.parseUnicodeEscape(); break;
+        default:
+          if (escape !== quote) this.fail(`Invalid escape '\\${escape ?? ''}'`);
+          value += quote;
+      }
+    }
+
+    return this.fail('Unterminated string');
+  }
+
+  private parseUnicodeEscape(): string {
+    const readHex = () => {
+      const hex = this.text.slice(this.pos, this.pos + 4);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) this.fail('Invalid unicode escape');
+      this.pos += 4;
+      return parseInt(hex, 16);
+    };
+
+    const high = readHex();
+    if (high >= 0xdc00 && high <= 0xdfff) this.fail('Unpaired surrogate in unicode escape');
+    if (high < 0xd800 || high > 0xdbff) return String.fromCharCode(high);
+
+    if (!this.text.startsWith('\\u', this.pos)) this.fail('Unpaired surrogate in unicode escape');
+    this.pos += 2;
+    const low = readHex();
+    if (low < 0xdc00 || low > 0xdfff) this.fail('Unpaired surrogate in unicode escape');
+    return String.fromCharCode(high, low);
+  }
+
+  private parseNumber(): number {
+    const match = /^(?:-?(?:0|[1-9]\d*))(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(this.text.slice(this.pos));
+    if (!match) this.fail('Invalid number');
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  // --- Helpers ---
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && ' \t\n\r'.includes(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private consume(value: string): boolean {
+    if (!this.text.startsWith(value, this.pos)) return false;
+    this.pos += value.length;
+    return true;
+  }
+
+  private consumeOperator(value: string): boolean {
+    const start = this.pos;
+    this.skipSpace();
+    if (this.consume(value)) {
+      this.skipSpace();
+      return true;
+    }
+    this.pos = start;
+    return false;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid JSONPath at position ${this.pos}: ${message}`);
+  }
+}
+
+function isNameChar(code: number, first: boolean): boolean {
+  if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a) || code === 0x5f) return true;
+  if (code >= 0x80 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff)) return true;
+  return !first && code >= 0x30 && code <= 0x39;
+}
+
+// Singular queries select at most one node: only name and index selectors
+function isSingular(query: Query): boolean {
+  return query.segments.every(segment =>
+    !segment.descendant &&
+    segment.selectors.length === 1 &&
+    (segment.selectors[0].kind === 'name' || segment.selectors[0].kind === 'index')
+  );
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+function evaluateQuery(query: Query, root: unknown, current: unknown): unknown[] {
+  let nodes = [query.absolute ? root : current];
+
+  for (const segment of query.segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (segment.descendant) {
+        for (const descendant of descendantsOf(node)) {
+          selectInto(next, descendant, segment.selectors, root);
+        }
+      } else {
+        selectInto(next, node, segment.selectors, root);
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * The node and everything below it, parents before children.
+ */
+function descendantsOf(node: unknown): unknown[] {
+  const result: unknown[] = [];
+  const stack = [node];
+
+  while (stack.length > 0) {
+    const value = stack.pop();
+    result.push(value);
+    const children = childrenOf(value);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+
+  return result;
+}
+
+function childrenOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+function selectInto(out: unknown[], node: unknown, selectors: Selector[], root: unknown): void {
+  for (const selector of selectors) {
+    switch (selector.kind) {
+      case 'name':
+        if (isObject(node) && Object.prototype.hasOwnProperty.call(node, selector.name)) {
+          out.push(node[selector.name]);
+        }
+        break;
+
+      case 'wildcard':
+        out.push(...childrenOf(node));
+        break;
+
+      case 'index':
+        if (Array.isArray(node)) {
+          const index = selector.index < 0 ? node.length + selector.index : selector.index;
+          if (index >= 0 && index < node.length) out.push(node[index]);
+        }
+        break;
+
+      case 'slice':
+        if (Array.isArray(node)) {
+          for (const index of sliceIndexes(node.length, selector)) out.push(node[index]);
+        }
+        break;
+
+      case 'filter':
+        for (const child of childrenOf(node)) {
+          if (evaluateLogical(selector.expression, root, child)) out.push(child);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Array slice indexes per RFC 9535 section 2.3.4.2.2.
+ */
+function sliceIndexes(length: number, slice: { start?: number; end?: number; step?: number }): number[] {
+  const step = slice.step ?? 1;
+  if (step === 0) return [];
+
+  const normalize = (i: number) => (i >= 0 ? i : length + i);
+  const indexes: number[] = [];
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(slice.start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(slice.end ?? length), 0), length);
+    for (let i = lower; i < upper; i += step) indexes.push(i);
+  } else {
+    const upper = Math.min(Math.max(normalize(slice.start ?? length - 1), -1), length - 1);
+    const lower = Math.min(Math.max(normalize(slice.end ?? -length - 1), -1), length - 1);
+    for (let i = upper; lower < i; i += step) indexes.push(i);
+  }
+
+  return indexes;
+}
+
+function evaluateLogical(expression: LogicalExpression, root: unknown, current: unknown): boolean {
+  switch (expression.kind) {
+    case 'or':
+      return expression.operands.some(e => evaluateLogical(e, root, current));
+    case 'and':
+      return expression.operands.every(e => evaluateLogical(e, root, current));
+    case 'not':
+      return !evaluateLogical(expression.operand, root, current);
+    case 'exists':
+      return evaluateQuery(expression.query, root, current).length > 0;
+    case 'test': {
+      const result = callFunction(expression.call, root, current);
+      return Array.isArray(result) ? result.length > 0 : result === true;
+    }
+    case 'compare':
+      return compare(
+        expression.operator,
+        evaluateComparable(expression.left, root, current),
+        evaluateComparable(expression.right, root, current)
+      );
+  }
+}
+
+function evaluateComparable(operand: Comparable, root: unknown, current: unknown): unknown {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value;
+    case 'query': {
+      const nodes = evaluateQuery(operand.query, root, current);
+      return nodes.length === 1 ? nodes[0] : NOTHING;
+    }
+    case 'call':
+      return callFunction(operand.call, root, current);
+  }
+}
+
+function callFunction(call: FunctionCall, root: unknown, current: unknown): unknown {
+  const definition = FUNCTIONS[call.name];
+
+  const args = call.args.map((arg, i) => {
+    const type = definition.parameters[i];
+    if (arg.kind === 'logical') return evaluateLogical(arg.expression, root, current);
+    if (arg.kind === 'query' && type === 'nodes') return evaluateQuery(arg.query, root, current);
+    if (arg.kind === 'query' && type === 'logical') return evaluateQuery(arg.query, root, current).length > 0;
+    return evaluateComparable(arg, root, current);
+  });
+
+  return definition.evaluate(args);
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==': return jsonEquals(left, right);
+    case '!=': return !jsonEquals(left, right);
+    case '<': return lessThan(left, right);
+    case '<=': return lessThan(left, right) || jsonEquals(left, right);
+    case '>': return lessThan(right, left);
+    case '>=': return lessThan(right, left) || jsonEquals(left, right);
+  }
+}
+
+function jsonEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEquals(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && jsonEquals(a[key], b[key]));
+  }
+  return false;
+}
+
+// Only numbers with numbers and strings with strings are ordered
+function lessThan(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return a < b;
+  if (typeof a === 'string' && typeof b === 'string') return compareCodePoints(a, b) < 0;
+  return false;
+}
+
+// Strings order by Unicode scalar value, which UTF-16 comparison gets wrong past U+FFFF
+function compareCodePoints(a: string, b: string): number {
+  const left = [...a];
+  const right = [...b];
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const diff = left[i].codePointAt(0)! - right[i].codePointAt(0)!;
+    if (diff !== 0) return diff;
+  }
+  return left.length - right.length;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============================================================
+// FUNCTION EXTENSIONS
+// ============================================================
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  length: {
+    parameters: ['value'],
+    result: 'value',
+    evaluate: ([value]) => {
+      if (typeof value === 'string') return [...value].length;
+      if (Array.isArray(value)) return value.length;
+      if (isObject(value)) return Object.keys(value).length;
+      return NOTHING;
+    },
+  },
+  count: {
+    parameters: ['nodes'],
+    result: 'value',
+    evaluate: ([nodes]) => (nodes as unknown[]).length,
+  },
+  match: {
+    parameters: ['value', 'value'],
+    result: 'logical',
+    evaluate: ([value, pattern]) => testRegexp(value, pattern, true),
+  },
+  search: {
+    parameters: ['value', 'value'],
+    result: 'logical',
+    evaluate: ([value, pattern]) => testRegexp(value, pattern, false),
+  },
+  value: {
+    parameters: ['nodes'],
+    result: 'value',
+    evaluate: ([nodes]) => ((nodes as unknown[]).length === 1 ? (nodes as unknown[])[0] : NOTHING),
+  },
+};
+
+const regexpCache = new Map<string, RegExp | null>();
+
+/**
+ * match() and search() take I-Regexp (RFC 9485) patterns. Anything
+ * outside that subset, such as backreferences or lookaround, never
+ * matches rather than reaching the JavaScript regex engine as-is.
+ */
+function testRegexp(value: unknown, pattern: unknown, whole: boolean): boolean {
+  if (typeof value !== 'string' || typeof pattern !== 'string') return false;
+
+  const key = `${whole ? 'm' : 's'}:${pattern}`;
+  let regexp = regexpCache.get(key);
+  if (regexp === undefined) {
+    regexp = compileIRegexp(pattern, whole);
+    if (regexpCache.size >= CACHE_LIMIT) regexpCache.delete(regexpCache.keys().next().value as string);
+    regexpCache.set(key, regexp);
+  }
+
+  return regexp !== null && regexp.test(value);
+}
+
+function compileIRegexp(pattern: string, whole: boolean): RegExp | null {
+  let source = '';
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      // I-Regexp escapes: metacharacters, \n \r \t and \p{..} / \P{..} categories
+      if (next === undefined || !/[\\.^$|?*+()[\]{}\-nrtpP]/.test(next)) return null;
+      source += char + next;
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      if (char === ']') inClass = false;
+      source += char;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(' && pattern[i + 1] === '?') {
+      return null; // No lookaround or non-capturing group syntax
+    } else if (char === '^' || char === '$') {
+      return null; // Anchors are implied by match() and absent from I-Regexp
+    } else if (char === '.') {
+      source += '[^\\n\\r]';
+      continue;
+    }
+    source += char;
+  }
+
+  try {
+    return new RegExp(whole ? `^(?:${source})$` : source, 'u');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Night Assignment
+ * =================
+ * Which calendar night a sleep session belongs to. Sleep that starts
+ * before the day-boundary hour (6am unless the user moved it) counts
+ * toward the previous evening, so an 11pm and a 1am bedtime share a date.
+ *
+ * The hour is read in the local time the session was recorded in where
+ * the timestamp says what that was: strings with an offset
+ * ("2024-03-10 23:40:00 +0100") or without any zone are taken at face
+ * value, so a night slept abroad keeps the date it had there. Instants
+ * in UTC ("...Z", epoch numbers, Dates) are read in the user's home
+ * timezone, which also puts nights around DST changes on the right date.
+ */
+
+import type { UserSettings } from '../types/schema';
+
+export interface NightOptions {
+  timeZone: string; // IANA zone, e.g. 'Europe/Berlin'
+  dayBoundaryHour: number; // 0-23
+}
+
+export type Timestamp = string | number | Date;
+
+export const DEFAULT_DAY_BOUNDARY_HOUR = 6;
+
+// Date, optional wall time and optional zone: "2024-03-10", "2024-03-10T23:40:00.000",
+// "2024-03-10 23:40:00 +0100", "2024-03-10T22:40:00+01:00", "2024-03-10T22:40:00Z"
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):\d{2}(?::\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Night options from the user's settings. A timezone the browser does
+ * not know falls back to the device's own.
+ */
+export function nightOptions(settings: Pick<UserSettings, 'timezone' | 'dayBoundaryHour'>): NightOptions {
+  return {
+    timeZone: isValidTimeZone(settings.timezone) ? settings.timezone : deviceTimeZone(),
+    dayBoundaryHour: settings.dayBoundaryHour ?? DEFAULT_DAY_BOUNDARY_HOUR,
+  };
+}
+
+export function defaultNightOptions(): NightOptions {
+  return { timeZone: deviceTimeZone(), dayBoundaryHour: DEFAULT_DAY_BOUNDARY_HOUR };
+}
+
+/**
+ * "Night of" date (YYYY-MM-DD) for a session starting at `start`.
+ * A bare date is already a night and is returned unchanged.
+ */
+export function nightOf(start: Timestamp, options: NightOptions): string {
+  const { date, hour } = wallTime(start, options.timeZone);
+  if (hour === undefined) return date;
+  return hour < options.dayBoundaryHour ? shiftDate(date, -1) : date;
+}
+
+/**
+ * Local calendar date of a timestamp, read the same way as nightOf but
+ * without the day boundary. For workouts and other daytime records.
+ */
+export function localDateOf(timestamp: Timestamp, timeZone: string): string {
+  return wallTime(timestamp, timeZone).date;
+}
+
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another.
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T12:00:00Z`) - Date.parse(`${from}T12:00:00Z`)) / 86_400_000);
+}
+
+export function isValidTimeZone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Calendar date and hour a timestamp shows on the wall clock it was
+ * recorded by, or in `timeZone` when it is a bare instant.
+ */
+function wallTime(timestamp: Timestamp, timeZone: string): { date: string; hour?: number } {
+  if (typeof timestamp === 'string') {
+    const match = timestamp.trim().match(TIMESTAMP_PATTERN);
+    if (match && match[3]?.toUpperCase() !== 'Z') {
+      return { date: match[1], hour: match[2] !== undefined ? parseInt(match[2], 10) : undefined };
+    }
+  }
+
+  const instant = timestamp instanceof Date ? timestamp : new Date(timestamp);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid timestamp: ${String(timestamp)}`);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parseInt(parts.hour, 10) % 24,
+  };
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
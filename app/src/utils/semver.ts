@@ -0,0 +1,70 @@
+/**
+ * Semantic Versions
+ * ==================
+ * MAJOR.MINOR.PATCH with an optional -prerelease, as used by importer
+ * profiles. Build metadata (+...) is not supported.
+ */
+
+interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+export function isValidVersion(version: string): boolean {
+  return SEMVER.test(version);
+}
+
+/**
+ * Negative when `a` precedes `b`. Versions missing a minor or patch part
+ * ("1.0") are read as if it were 0.
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+
+  const core = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (core !== 0) return core;
+
+  // A prerelease precedes its release
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    return vb.prerelease.length - va.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.min(va.prerelease.length, vb.prerelease.length); i++) {
+    const order = comparePrereleaseIdentifiers(va.prerelease[i], vb.prerelease[i]);
+    if (order !== 0) return order;
+  }
+  return va.prerelease.length - vb.prerelease.length;
+}
+
+export function nextVersion(version: string, part: 'major' | 'minor' | 'patch'): string {
+  const { major, minor, patch } = parseVersion(version);
+  switch (part) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+function parseVersion(version: string): SemVer {
+  const [core, ...rest] = version.trim().split('-');
+  const [major = 0, minor = 0, patch = 0] = core.split('.').map(part => parseInt(part, 10) || 0);
+  const prerelease = rest.length > 0 ? rest.join('-').split('.') : [];
+  return { major, minor, patch, prerelease };
+}
+
+// Numeric identifiers compare numerically and precede alphanumeric ones
+function comparePrereleaseIdentifiers(a: string, b: string): number {
+  const numericA = /^\d+$/.test(a);
+  const numericB = /^\d+$/.test(b);
+  if (numericA && numericB) return Number(a) - Number(b);
+  if (numericA !== numericB) return numericA ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,190 @@
+/**
+ * Streaming XML tokenizer
+ * SAX-style tokenizer for large, attribute-heavy XML documents such as
+ * the Apple Health export. Text is fed in arbitrary chunks; each complete
+ * tag is reported as soon as it is seen and only the unfinished tail is
+ * buffered, so memory stays bounded by the longest tag rather than the
+ * document. Character data is not reported.
+ */
+
+export interface XmlStreamHandlers {
+  onOpenTag(name: string, attributes: Record<string, string>, selfClosing: boolean): void;
+  onCloseTag?(name: string): void;
+}
+
+export interface XmlStreamParser {
+  write(chunk: string): void;
+  end(): void;
+}
+
+// A single tag, comment or DOCTYPE larger than this means the input is not XML
+const MAX_PENDING_CHARS = 16 * 1024 * 1024;
+
+const TAG_NAME_REGEX = /^[^\s/>]+/;
+const ATTRIBUTE_REGEX = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const QUOTE_OR_END_REGEX = /["'>]/g;
+
+export function createXmlStreamParser(handlers: XmlStreamHandlers): XmlStreamParser {
+  let pending = '';
+
+  function consume(): void {
+    let pos = 0;
+
+    while (pos < pending.length) {
+      const open = pending.indexOf('<', pos);
+      if (open === -1) {
+        pos = pending.length;
+        break;
+      }
+
+      const end = findMarkupEnd(pending, open);
+      if (end === -1) {
+        pos = open;
+        break;
+      }
+
+      handleMarkup(pending.slice(open, end + 1));
+      pos = end + 1;
+    }
+
+    pending = pending.slice(pos);
+
+    if (pending.length > MAX_PENDING_CHARS) {
+      throw new Error('Malformed XML: unterminated markup');
+    }
+  }
+
+  function handleMarkup(markup: string): void {
+    const second = markup[1];
+
+    // Comments, CDATA, DOCTYPE and processing instructions carry no records
+    if (second === '!' || second === '?') return;
+
+    if (second === '/') {
+      handlers.onCloseTag?.(markup.slice(2, -1).trim());
+      return;
+    }
+
+    const body = markup.slice(1, -1);
+    const name = TAG_NAME_REGEX.exec(body)?.[0];
+    if (!name) return;
+
+    const selfClosing = body.trimEnd().endsWith('/');
+    handlers.onOpenTag(name, parseAttributes(body.slice(name.length)), selfClosing);
+  }
+
+  return {
+    write(chunk: string) {
+      pending += chunk;
+      consume();
+    },
+    end() {
+      consume();
+      // A truncated final tag is dropped, as a truncated export would be
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Index of the `>` closing the markup starting at `start`, or -1 when the
+ * markup continues past the buffered text.
+ */
+function findMarkupEnd(text: string, start: number): number {
+  if (text.startsWith('<!--', start)) {
+    const end = text.indexOf('-->', start + 4);
+    return end === -1 ? -1 : end + 2;
+  }
+
+  if (text.startsWith('<![CDATA[', start)) {
+    const end = text.indexOf(']]>', start + 9);
+    return end === -1 ? -1 : end + 2;
+  }
+
+  if (text.startsWith('<?', start)) {
+    const end = text.indexOf('?>', start + 2);
+    return end === -1 ? -1 : end + 1;
+  }
+
+  if (text.startsWith('<!', start)) {
+    return findDeclarationEnd(text, start + 2);
+  }
+
+  // Start or end tag: '>' may appear inside quoted attribute values
+  QUOTE_OR_END_REGEX.lastIndex = start + 1;
+  let match;
+  while ((match = QUOTE_OR_END_REGEX.exec(text)) !== null) {
+    if (match[0] === '>') return match.index;
+
+    const close = text.indexOf(match[0], match.index + 1);
+    if (close === -1) return -1;
+    QUOTE_OR_END_REGEX.lastIndex = close + 1;
+  }
+  return -1;
+}
+
+/**
+ * DOCTYPE declarations may hold an internal subset ([...]) full of nested
+ * declarations and comments, as Apple's export does.
+ */
+function findDeclarationEnd(text: string, from: number): number {
+  let depth = 0;
+  let i = from;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      const close = text.indexOf(char, i + 1);
+      if (close === -1) return -1;
+      i = close + 1;
+      continue;
+    }
+
+    if (text.startsWith('<!--', i)) {
+      const close = text.indexOf('-->', i + 4);
+      if (close === -1) return -1;
+      i = close + 3;
+      continue;
+    }
+
+    if (char === '[' || char === '<') depth++;
+    else if (char === ']') depth--;
+    else if (char === '>') {
+      if (depth === 0) return i;
+      depth--;
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  let match;
+  while ((match = ATTRIBUTE_REGEX.exec(text)) !== null) {
+    const value = match[2] ?? match[3];
+    attrs[match[1]] = value.includes('&') ? decodeEntities(value) : value;
+  }
+  return attrs;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(point) || point > 0x10ffff ? entity : String.fromCodePoint(point);
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * ZIP archive utilities
+ * Reads the central directory and inflates entries with the browser's
+ * DecompressionStream. Supports stored and deflated entries and ZIP64.
+ */
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // EOCD record + max comment length
+
+export function isZipArchive(content: ArrayBuffer | string): boolean {
+  if (typeof content === 'string' || content.byteLength < 4) return false;
+  const bytes = new Uint8Array(content, 0, 4);
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+export function listZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const eocdOffset = findEndOfCentralDirectory(view);
+
+  let entryCount = view.getUint16(eocdOffset + 10, true);
+  let directoryOffset = view.getUint32(eocdOffset + 16, true);
+
+  // ZIP64 archives store the real values in a separate record
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    const locatorOffset = eocdOffset - 20;
+    if (locatorOffset >= 0 && view.getUint32(locatorOffset, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64Offset = getUint64(view, locatorOffset + 8);
+      if (view.getUint32(zip64Offset, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Corrupt ZIP64 end of central directory');
+      }
+      entryCount = getUint64(view, zip64Offset + 32);
+      directoryOffset = getUint64(view, zip64Offset + 48);
+    }
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP central directory at entry ${i}`);
+    }
+
+    const compressionMethod = view.getUint16(offset + 10, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    // ZIP64 extra field holds only the values that overflowed, in this order
+    let extraOffset = offset + 46 + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const fieldId = view.getUint16(extraOffset, true);
+      const fieldSize = view.getUint16(extraOffset + 2, true);
+      if (fieldId === ZIP64_EXTRA_FIELD_ID) {
+        let cursor = extraOffset + 4;
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = getUint64(view, cursor);
+          cursor += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = getUint64(view, cursor);
+          cursor += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = getUint64(view, cursor);
+        }
+      }
+      extraOffset += 4 + fieldSize;
+    }
+
+    entries.push({
+      name,
+      compressionMethod,
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      isDirectory: name.endsWith('/'),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<ArrayBuffer> {
+  const view = new DataView(buffer);
+  const headerOffset = entry.localHeaderOffset;
+
+  if (view.getUint32(headerOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+  }
+
+  const nameLength = view.getUint16(headerOffset + 26, true);
+  const extraLength = view.getUint16(headerOffset + 28, true);
+  const dataOffset = headerOffset + 30 + nameLength + extraLength;
+  const data = buffer.slice(dataOffset, dataOffset + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case 0:
+      return data;
+    case 8: {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).arrayBuffer();
+    }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${entry.name}`);
+  }
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - MAX_EOCD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a valid ZIP archive (end of central directory not found)');
+}
+
+function getUint64(view: DataView, offset: number): number {
+  const low = view.getUint32(offset, true);
+  const high = view.getUint32(offset + 4, true);
+  return high * 0x100000000 + low;
+}
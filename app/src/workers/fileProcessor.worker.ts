@@ -4,30 +4,61 @@
  * Handles large file processing off the main thread.
  * Supports chunked parsing for files >100MB.
  *
+ * Imports run here whole: detection, transformation, validation,
+ * deduplication and the IndexedDB writes, so the UI stays responsive.
+ * Apple Health exports are streamed straight from the File, with
+ * workouts and daily metrics written in batches, so exports of any size
+ * fit in memory.
+ *
  * Messages:
  * - { type: 'parse', file: ArrayBuffer, fileType: 'json'|'csv', fileName: string }
+ * - { type: 'importFiles' | 'previewImport', files: ImportFile[], userId: string, profile: ImporterProfile | null, options: ImportOptions }
+ * - { type: 'commitImport', plan: ImportPlan }
+ * - { type: 'importAppleHealth', blob: File, sourceId: string, userId: string, options: ImportOptions }
+ * - { type: 'planReimport', sourceId: string }
  * - { type: 'cancel' }
  *
  * Responses:
- * - { type: 'progress', percent: number, message: string }
- * - { type: 'complete', data: unknown }
+ * - { type: 'progress', percent: number, message: string, stage?: ImportProgress['stage'] }
+ * - { type: 'complete', data: unknown } (ImportResult, ImportPlan | ImportResult for previewImport, ReimportPlan for planReimport)
  * - { type: 'error', message: string }
  * - { type: 'warning', message: string, sizeBytes: number }
  */
 
+import {
+  importFiles,
+  previewImport,
+  commitImport,
+  importAppleHealthExport,
+  planReimport,
+  type ImportFile,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportProgress,
+} from '../importers/pipeline';
+import type { ImporterProfile } from '../types/schema';
+
 const SOFT_LIMIT_BYTES = 100 * 1024 * 1024; // 100MB
-const HARD_LIMIT_BYTES = 600 * 1024 * 1024; // 600MB
+const HARD_LIMIT_BYTES = 600 * 1024 * 1024; // 600MB, for files parsed from one buffer
 const CHUNK_SIZE = 1024 * 1024; // 1MB chunks for progress reporting
 
 interface WorkerMessage {
-  type: 'parse' | 'cancel';
+  type: 'parse' | 'importFiles' | 'previewImport' | 'commitImport' | 'importAppleHealth' | 'planReimport' | 'cancel';
   file?: ArrayBuffer;
   fileType?: 'json' | 'csv' | 'xml';
   fileName?: string;
+  files?: ImportFile[];
+  profile?: ImporterProfile | null;
+  options?: ImportOptions;
+  plan?: ImportPlan;
+  blob?: File;
+  sourceId?: string;
+  userId?: string;
 }
 
 interface WorkerResponse {
   type: 'progress' | 'complete' | 'error' | 'warning';
+  stage?: ImportProgress['stage'];
   percent?: number;
   message?: string;
   data?: unknown;
@@ -37,7 +68,7 @@ interface WorkerResponse {
 let cancelled = false;
 
 self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
-  const { type, file, fileType, fileName } = event.data;
+  const { type, file, fileType, fileName, files, profile, options = {}, plan, blob, sourceId, userId } = event.data;
 
   if (type === 'cancel') {
     cancelled = true;
@@ -48,6 +79,26 @@ self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
     cancelled = false;
     await processFile(file, fileType || 'json', fileName || 'unknown');
   }
+
+  if (type === 'importFiles' && files && userId) {
+    await runImport(() => importFiles(files, userId, profile ?? null, reportProgress, options));
+  }
+
+  if (type === 'previewImport' && files && userId) {
+    await runImport(() => previewImport(files, userId, profile ?? null, reportProgress, options));
+  }
+
+  if (type === 'commitImport' && plan) {
+    await runImport(() => commitImport(plan, reportProgress));
+  }
+
+  if (type === 'importAppleHealth' && blob && sourceId && userId) {
+    await runImport(() => importAppleHealthExport(blob, userId, reportProgress, options, sourceId));
+  }
+
+  if (type === 'planReimport' && sourceId) {
+    await runImport(() => planReimport(sourceId, reportProgress));
+  }
 };
 
 async function processFile(
@@ -61,7 +112,7 @@ async function processFile(
   if (sizeBytes > HARD_LIMIT_BYTES) {
     respond({
       type: 'error',
-      message: `File too large (${formatBytes(sizeBytes)}). Maximum supported size is ${formatBytes(HARD_LIMIT_BYTES)}.`,
+      message: `File too large (${formatBytes(sizeBytes)}). Maximum supported size is ${formatBytes(HARD_LIMIT_BYTES)}; only Apple Health exports are streamed.`,
     });
     return;
   }
@@ -118,6 +169,25 @@ async function processFile(
   }
 }
 
+// ============================================================
+// IMPORT PIPELINE
+// ============================================================
+
+async function runImport(task: () => Promise<unknown>): Promise<void> {
+  try {
+    respond({ type: 'complete', data: await task() });
+  } catch (e) {
+    respond({
+      type: 'error',
+      message: e instanceof Error ? e.message : 'Unknown error during import',
+    });
+  }
+}
+
+function reportProgress({ stage, percent, message }: ImportProgress): void {
+  respond({ type: 'progress', stage, percent, message });
+}
+
 // ============================================================
 // CHUNKED DECODERS
 // ============================================================
@@ -324,6 +394,3 @@ function formatBytes(bytes: number): string {
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
-
-// TypeScript needs this to treat file as a module
-export {};
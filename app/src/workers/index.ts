@@ -4,6 +4,20 @@
  * Wrapper for using Web Workers from the main thread.
  */
 
+import {
+  createErrorResult,
+  type ImportFile,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportProgress,
+  type ImportResult,
+  type ProgressCallback,
+  type ReimportPlan,
+} from '../importers/pipeline';
+import { deleteSource } from '../db/database';
+import { generateId } from '../utils/crypto';
+import type { ImporterProfile } from '../types/schema';
+
 export interface FileProcessorResult {
   success: boolean;
   data?: unknown;
@@ -14,8 +28,23 @@ export interface FileProcessorResult {
 export interface ProcessorProgress {
   percent: number;
   message: string;
+  stage?: ImportProgress['stage']; // Set by imports
 }
 
+/**
+ * Work running in a Web Worker. Pass `worker` to cancelProcessing to
+ * stop it; `result` then settles as cancelled.
+ */
+export interface WorkerTask<T> {
+  worker: Worker;
+  result: Promise<T>;
+}
+
+const CANCELLED_MESSAGE = 'Cancelled by user';
+
+// Settles the task of a worker cancelled before it replied
+const cancellations = new Map<Worker, () => void>();
+
 /**
  * Process a file using the Web Worker
  */
@@ -23,21 +52,152 @@ export async function processFileInWorker(
   file: File,
   onProgress?: (progress: ProcessorProgress) => void
 ): Promise<FileProcessorResult> {
-  return new Promise((resolve) => {
-    // Create worker
-    const worker = new Worker(
-      new URL('./fileProcessor.worker.ts', import.meta.url),
-      { type: 'module' }
-    );
+  // Read file and send to worker
+  const buffer = await new Promise<ArrayBuffer | null>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => resolve(null);
+    reader.readAsArrayBuffer(file);
+  });
+
+  if (!buffer) {
+    return { success: false, error: 'Failed to read file', warnings: [] };
+  }
+
+  return startWorker({
+    type: 'parse',
+    file: buffer,
+    fileType: getFileType(file.name, file.type),
+    fileName: file.name,
+  }, onProgress).result;
+}
+
+// ============================================================
+// IMPORTS
+// ============================================================
+
+/**
+ * Run importFiles in the worker: detection through the IndexedDB writes.
+ * The records are stored in one transaction, so a cancelled import
+ * leaves nothing behind.
+ */
+export function importFilesInWorker(
+  files: ImportFile[],
+  userId: string,
+  profile: ImporterProfile | null,
+  onProgress?: ProgressCallback,
+  options: ImportOptions = {}
+): WorkerTask<ImportResult> {
+  const task = startWorker({ type: 'importFiles', files, userId, profile, options }, forwardProgress(onProgress));
+  return { worker: task.worker, result: task.result.then(importOutcome<ImportResult>) };
+}
 
-    const warnings: string[] = [];
+/**
+ * Run previewImport in the worker. Nothing is written.
+ */
+export function previewImportInWorker(
+  files: ImportFile[],
+  userId: string,
+  profile: ImporterProfile | null,
+  onProgress?: ProgressCallback,
+  options: ImportOptions = {}
+): WorkerTask<ImportPlan | ImportResult> {
+  const task = startWorker({ type: 'previewImport', files, userId, profile, options }, forwardProgress(onProgress));
+  return { worker: task.worker, result: task.result.then(importOutcome<ImportPlan | ImportResult>) };
+}
+
+/**
+ * Run commitImport in the worker, storing a reviewed plan in one
+ * transaction.
+ */
+export function commitImportInWorker(plan: ImportPlan, onProgress?: ProgressCallback): WorkerTask<ImportResult> {
+  const task = startWorker({ type: 'commitImport', plan }, forwardProgress(onProgress));
+  return { worker: task.worker, result: task.result.then(importOutcome<ImportResult>) };
+}
+
+/**
+ * Stream an Apple Health export.xml through importAppleHealthExport in
+ * the worker. Workouts and daily metrics are stored while the file is
+ * read, so when the worker fails or is cancelled the Source is deleted
+ * with whatever it had stored.
+ */
+export function importAppleHealthExportInWorker(
+  file: File,
+  userId: string,
+  onProgress?: ProgressCallback,
+  options: Pick<ImportOptions, 'fullHistory'> = {}
+): WorkerTask<ImportResult> {
+  const sourceId = generateId();
+  // File is structured-cloneable; the worker reads it as a stream
+  const task = startWorker(
+    { type: 'importAppleHealth', blob: file, sourceId, userId, options },
+    forwardProgress(onProgress)
+  );
+
+  const result = task.result.then(async outcome => {
+    if (!outcome.success) {
+      await deleteSource(sourceId);
+    }
+    return importOutcome<ImportResult>(outcome);
+  });
+  return { worker: task.worker, result };
+}
+
+/**
+ * Run planReimport in the worker. Nothing is written; a Source that
+ * cannot be re-imported reports a failed import.
+ */
+export function planReimportInWorker(
+  sourceId: string,
+  onProgress?: ProgressCallback
+): WorkerTask<ReimportPlan | ImportResult> {
+  const task = startWorker({ type: 'planReimport', sourceId }, forwardProgress(onProgress));
+  return { worker: task.worker, result: task.result.then(importOutcome<ReimportPlan | ImportResult>) };
+}
+
+function forwardProgress(onProgress?: ProgressCallback): (progress: ProcessorProgress) => void {
+  return ({ stage = 'parsing', percent, message }) => onProgress?.({ stage, percent, message });
+}
+
+// A worker that failed or was cancelled reports a failed import
+function importOutcome<T>(outcome: FileProcessorResult): T | ImportResult {
+  if (outcome.success) return outcome.data as T;
+  return createErrorResult([{
+    type: 'storage_error',
+    message: outcome.error || 'Unknown error during import',
+  }]);
+}
+
+// ============================================================
+// WORKER LIFECYCLE
+// ============================================================
+
+function startWorker(
+  message: Record<string, unknown>,
+  onProgress?: (progress: ProcessorProgress) => void
+): WorkerTask<FileProcessorResult> {
+  // Create worker
+  const worker = new Worker(
+    new URL('./fileProcessor.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+
+  const warnings: string[] = [];
+
+  const result = new Promise<FileProcessorResult>((resolve) => {
+    const settle = (outcome: FileProcessorResult) => {
+      cancellations.delete(worker);
+      worker.terminate();
+      resolve(outcome);
+    };
+    cancellations.set(worker, () => settle({ success: false, error: CANCELLED_MESSAGE, warnings }));
 
     worker.onmessage = (event) => {
-      const { type, percent, message, data } = event.data;
+      const { type, stage, percent, message, data } = event.data;
 
       switch (type) {
         case 'progress':
-          onProgress?.({ percent: percent || 0, message: message || '' });
+          onProgress?.({ percent: percent || 0, message: message || '', stage });
           break;
 
         case 'warning':
@@ -46,43 +206,22 @@ export async function processFileInWorker(
           break;
 
         case 'complete':
-          worker.terminate();
-          resolve({ success: true, data, warnings });
+          settle({ success: true, data, warnings });
           break;
 
         case 'error':
-          worker.terminate();
-          resolve({ success: false, error: message, warnings });
+          settle({ success: false, error: message, warnings });
           break;
       }
     };
 
     worker.onerror = (error) => {
-      worker.terminate();
-      resolve({ success: false, error: error.message, warnings });
+      settle({ success: false, error: error.message, warnings });
     };
-
-    // Determine file type
-    const fileType = getFileType(file.name, file.type);
-
-    // Read file and send to worker
-    const reader = new FileReader();
-
-    reader.onload = () => {
-      worker.postMessage({
-        type: 'parse',
-        file: reader.result,
-        fileType,
-        fileName: file.name,
-      });
-    };
-
-    reader.onerror = () => {
-      resolve({ success: false, error: 'Failed to read file', warnings });
-    };
-
-    reader.readAsArrayBuffer(file);
   });
+
+  worker.postMessage(message);
+  return { worker, result };
 }
 
 function getFileType(fileName: string, mimeType: string): 'json' | 'csv' | 'xml' {
@@ -97,11 +236,13 @@ function getFileType(fileName: string, mimeType: string): 'json' | 'csv' | 'xml'
 }
 
 /**
- * Cancel an in-progress file processing
+ * Cancel an in-progress file processing. The task's result settles as
+ * cancelled; an import in progress writes nothing.
  */
 export function cancelProcessing(worker: Worker): void {
   worker.postMessage({ type: 'cancel' });
   worker.terminate();
+  cancellations.get(worker)?.();
 }
 
 /**
@@ -111,6 +252,22 @@ export function supportsWorkers(): boolean {
   return typeof Worker !== 'undefined';
 }
 
+/**
+ * Check if a file is a ZIP archive (by extension or MIME type)
+ */
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip') ||
+    file.type === 'application/zip' ||
+    file.type === 'application/x-zip-compressed';
+}
+
+/**
+ * Check if a file must be read as binary (archives and FIT recordings)
+ */
+export function isBinaryFile(file: File): boolean {
+  return isZipFile(file) || file.name.toLowerCase().endsWith('.fit');
+}
+
 /**
  * Format file size for display
  */
@@ -122,7 +279,8 @@ export function formatFileSize(bytes: number): string {
 }
 
 /**
- * Check if file is likely too large and warn user
+ * Check if file is likely too large and warn user. Apple Health exports
+ * are streamed and never checked against the hard limit.
  */
 export function checkFileSizeWarning(sizeBytes: number): {
   level: 'ok' | 'warning' | 'error';
@@ -134,7 +292,7 @@ export function checkFileSizeWarning(sizeBytes: number): {
   if (sizeBytes > HARD_LIMIT) {
     return {
       level: 'error',
-      message: `File is too large (${formatFileSize(sizeBytes)}). Maximum supported size is ${formatFileSize(HARD_LIMIT)}. Try exporting a shorter date range.`,
+      message: `File is too large (${formatFileSize(sizeBytes)}). Maximum supported size is ${formatFileSize(HARD_LIMIT)} (Apple Health export.xml files of any size are supported). Try exporting a shorter date range.`,
     };
   }
 